@@ -0,0 +1,153 @@
+/**
+ * Protocol Contract Admin API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/admin/protocol-contracts/:id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getProtocolContractAdmin, isAdminAuthorized } from '@/src/lib/protocol-contracts/admin';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PATCH, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+function unauthorized() {
+  return NextResponse.json({
+    success: false,
+    error: 'Admin API key required in Authorization: Bearer header'
+  }, {
+    status: 401,
+    headers: {
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+// GET /api/v1/admin/protocol-contracts/:id - Get a contract entry, including its ABI
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminAuthorized(request.headers.get('Authorization'))) {
+    return unauthorized();
+  }
+
+  const pool = createPool();
+
+  try {
+    const admin = getProtocolContractAdmin(pool);
+    const contract = await admin.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json({
+        success: false,
+        error: 'Protocol contract not found'
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: contract
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in GET /api/v1/admin/protocol-contracts/${params.id}:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to get protocol contract'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
+
+// PATCH /api/v1/admin/protocol-contracts/:id - Activate or deactivate a contract version
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isAdminAuthorized(request.headers.get('Authorization'))) {
+    return unauthorized();
+  }
+
+  const pool = createPool();
+
+  try {
+    const body = await request.json();
+
+    if (typeof body.isActive !== 'boolean') {
+      return NextResponse.json({
+        success: false,
+        error: 'isActive must be a boolean'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const admin = getProtocolContractAdmin(pool);
+    const contract = await admin.setContractActive(params.id, body.isActive);
+
+    return NextResponse.json({
+      success: true,
+      data: contract
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in PATCH /api/v1/admin/protocol-contracts/${params.id}:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update protocol contract'
+    }, {
+      status: error.message?.includes('not found') ? 404 : 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Protocol Contracts Admin API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/admin/protocol-contracts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import {
+  ContractAbiError,
+  getProtocolContractAdmin,
+  isAdminAuthorized
+} from '@/src/lib/protocol-contracts/admin';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+function unauthorized() {
+  return NextResponse.json({
+    success: false,
+    error: 'Admin API key required in Authorization: Bearer header'
+  }, {
+    status: 401,
+    headers: {
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+// GET /api/v1/admin/protocol-contracts - List contract entries (?protocol, ?network, ?includeInactive)
+export async function GET(request: NextRequest) {
+  if (!isAdminAuthorized(request.headers.get('Authorization'))) {
+    return unauthorized();
+  }
+
+  const pool = createPool();
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const admin = getProtocolContractAdmin(pool);
+
+    const contracts = await admin.listContracts({
+      protocol: searchParams.get('protocol') || undefined,
+      network: searchParams.get('network') || undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: contracts,
+      total: contracts.length
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/v1/admin/protocol-contracts:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to list protocol contracts'
+    }, {
+      status: error.message?.includes('Unsupported network') ? 400 : 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
+
+// POST /api/v1/admin/protocol-contracts - Add a contract entry as a new ABI version
+export async function POST(request: NextRequest) {
+  if (!isAdminAuthorized(request.headers.get('Authorization'))) {
+    return unauthorized();
+  }
+
+  const pool = createPool();
+
+  try {
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.protocol || !body.network || !body.address || !body.abi || !body.version) {
+      return NextResponse.json({
+        success: false,
+        error: 'protocol, network, address, abi and version are required'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const admin = getProtocolContractAdmin(pool);
+    const contract = await admin.addContractVersion({
+      protocol: body.protocol,
+      contractName: body.contractName,
+      network: body.network,
+      address: body.address,
+      abi: body.abi,
+      version: body.version,
+      activate: body.activate
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: contract
+    }, {
+      status: 201,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in POST /api/v1/admin/protocol-contracts:', error);
+
+    if (error instanceof ContractAbiError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        missingFunctions: error.missingFunctions
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('already exists')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('Unsupported') || error.message?.includes('Invalid') || error.message?.includes('required')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to add protocol contract'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
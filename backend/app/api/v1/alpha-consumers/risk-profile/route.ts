@@ -0,0 +1,137 @@
+/**
+ * Consumer Risk Profile API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/alpha-consumers/risk-profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getRiskLimitService } from '@/src/lib/risk-limits';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+function consumerRequired() {
+  return NextResponse.json({
+    success: false,
+    error: 'AlphaConsumer ID required in X-Alpha-Consumer-Id header'
+  }, {
+    status: 401,
+    headers: {
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+// GET /api/v1/alpha-consumers/risk-profile - Get the calling consumer's risk limits
+export async function GET(request: NextRequest) {
+  const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+  if (!consumerId) {
+    return consumerRequired();
+  }
+
+  const pool = createPool();
+
+  try {
+    const service = getRiskLimitService(pool);
+    const profile = await service.getProfile(await service.resolveConsumerId(consumerId));
+
+    // No profile means no limits
+    return NextResponse.json({
+      success: true,
+      data: profile
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in GET /api/v1/alpha-consumers/risk-profile:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to get risk profile'
+    }, {
+      status: error.message?.includes('not found') ? 404 : 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
+
+// PUT /api/v1/alpha-consumers/risk-profile - Replace the calling consumer's risk limits
+export async function PUT(request: NextRequest) {
+  const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+  if (!consumerId) {
+    return consumerRequired();
+  }
+
+  const pool = createPool();
+
+  try {
+    const body = await request.json();
+    const service = getRiskLimitService(pool);
+
+    const profile = await service.updateProfile(await service.resolveConsumerId(consumerId), {
+      maxNotionalPerTrade: body.maxNotionalPerTrade,
+      dailyVolumeCap: body.dailyVolumeCap,
+      allowedAssets: body.allowedAssets,
+      allowedFunctions: body.allowedFunctions,
+      maxOpenBorrow: body.maxOpenBorrow,
+      priceDriftRule: body.priceDriftRule
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: profile
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error('Error in PUT /api/v1/alpha-consumers/risk-profile:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update risk profile'
+    }, {
+      status: error.message?.includes('Invalid risk profile')
+        ? 400
+        : error.message?.includes('not found') ? 404 : 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
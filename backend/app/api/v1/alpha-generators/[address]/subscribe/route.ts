@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
+import { eq } from 'drizzle-orm';
 
+import { db } from '@/db/db';
+import { strategies } from '@/db/schema/strategies-schema';
 import { successResponse, errorResponse, serverErrorResponse } from '@/app/api/api-utils';
 import { subscriptionManager } from '../../../../../../src/libraries/subscription-manager';
 
@@ -28,7 +31,7 @@ export async function POST(
       return errorResponse('Request body must be a valid JSON object', 400, req);
     }
 
-    const { subscriberWallet, subscriptionTxHash, fee } = body;
+    const { subscriberWallet, subscriptionTxHash, fee, strategyId } = body;
 
     // Validate required fields exist and are strings
     if (!subscriberWallet || typeof subscriberWallet !== 'string') {
@@ -39,10 +42,27 @@ export async function POST(
       return errorResponse('subscriptionTxHash is required and must be a string', 400, req);
     }
 
+    if (strategyId !== undefined && (typeof strategyId !== 'string' || !strategyId)) {
+      return errorResponse('strategyId must be a string', 400, req);
+    }
+
     // Normalize addresses
     const normalizedGeneratorAddress = generatorAddress.toLowerCase();
     const normalizedSubscriberAddress = subscriberWallet.toLowerCase();
 
+    // A strategyId narrows the subscription to that one strategy, which must be this generator's
+    if (strategyId) {
+      const [strategy] = await db.select().from(strategies).where(eq(strategies.strategyId, strategyId)).limit(1);
+
+      if (!strategy) {
+        return errorResponse('Strategy not found', 404, req);
+      }
+
+      if (strategy.alphaGeneratorAddress?.toLowerCase() !== normalizedGeneratorAddress) {
+        return errorResponse('Strategy does not belong to this generator', 400, req);
+      }
+    }
+
     // Validate and normalize fee
     let subscriptionFee: string;
 
@@ -60,7 +80,8 @@ export async function POST(
       consumerAddress: normalizedSubscriberAddress,
       fee: subscriptionFee,
       encryptedConsumerAddress: body.encryptedConsumerAddress || undefined,
-      subscriptionTxHash
+      subscriptionTxHash,
+      strategyId
     });
 
     // Return the created subscription
@@ -68,6 +89,8 @@ export async function POST(
       subscriptionId: subscription.subscriptionId,
       alphaGeneratorAddress: subscription.alphaGeneratorAddress,
       alphaConsumerAddress: subscription.alphaConsumerAddress,
+      subscriptionType: subscription.subscriptionType,
+      strategyId: subscription.strategyId ?? null,
       subscriptionTxHash: subscription.subscriptionTxHash,
       isActive: subscription.isActive,
       subscribedAt: subscription.subscribedAt.toISOString(),
@@ -172,6 +195,8 @@ export async function GET(
       subscriptions: subscriptions.map(sub => ({
         subscriptionId: sub.subscriptionId,
         alphaConsumerAddress: sub.alphaConsumerAddress,
+        subscriptionType: sub.subscriptionType || 'generator',
+        strategyId: sub.strategyId ?? null,
         subscribedAt: sub.subscribedAt.toISOString(),
         expiresAt: sub.expiresAt.toISOString(),
         isActive: sub.isActive
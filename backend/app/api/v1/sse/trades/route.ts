@@ -20,13 +20,21 @@ function createPool(): Pool {
   });
 }
 
-// GET /api/v1/sse/trades - SSE stream for trade broadcasts
+// Event log ids; anything else is ignored and the stream starts fresh
+const EVENT_ID_PATTERN = /^[1-9][0-9]{0,18}$/;
+
+// GET /api/v1/sse/trades - SSE stream for trade broadcasts, resumed after Last-Event-ID
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const consumerId = searchParams.get('consumerId');
+  const requestedConsumerId = searchParams.get('consumerId');
   const generatorId = searchParams.get('generatorId');
 
-  if (!consumerId && !generatorId) {
+  // EventSource sends the header when it reconnects by itself; clients reconnecting with a new
+  // EventSource pass the query parameter instead
+  const requestedEventId = request.headers.get('Last-Event-ID') || searchParams.get('lastEventId');
+  const lastEventId = requestedEventId && EVENT_ID_PATTERN.test(requestedEventId) ? requestedEventId : undefined;
+
+  if (!requestedConsumerId && !generatorId) {
     return new Response('Either consumerId or generatorId is required', {
       status: 400,
       headers: {
@@ -36,6 +44,24 @@ export async function GET(request: NextRequest) {
   }
 
   const pool = createPool();
+
+  // Events are addressed by consumer ID, so a wallet address has to be resolved first
+  let consumerId: string | null = null;
+  if (requestedConsumerId) {
+    const broadcastService = await import('@/src/lib/trade-broadcast');
+    consumerId = await broadcastService.getTradeBroadcastService(pool).resolveConsumerId(requestedConsumerId);
+
+    if (!consumerId) {
+      await pool.end();
+      return new Response('Consumer not found', {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+  }
+
   const sseService = getSSEBroadcastService(pool);
   const clientId = uuidv4();
 
@@ -64,10 +90,13 @@ export async function GET(request: NextRequest) {
       };
 
       // Register the client
-      sseService.registerClient(clientId, response, consumerId || undefined, generatorId || undefined);
+      sseService.registerClient(clientId, response, consumerId || undefined, generatorId || undefined, lastEventId);
+
+      // Send what a resuming client missed; pending trades stand in when the log no longer covers it
+      const resumed = lastEventId ? await sseService.replayMissedEvents(clientId, lastEventId) : false;
 
       // Send initial pending trades if consumer
-      if (consumerId) {
+      if (consumerId && !resumed) {
         try {
           const broadcastService = await import('@/src/lib/trade-broadcast');
           const service = broadcastService.getTradeBroadcastService(pool);
@@ -7,8 +7,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Pool } from 'pg';
 import { getProtocolStrategyService } from '@/src/services/strategy-service';
-import { getTradeBroadcastService } from '@/src/lib/trade-broadcast';
+import { getTradeBroadcastService, isValidExpiryMinutes, MAX_EXPIRY_MINUTES, resolveExpiryMinutes } from '@/src/lib/trade-broadcast';
 import { getProtocolExecutor } from '@/src/lib/protocol-executor';
+import { getProtocolRegistry, ParameterValidationError } from '@/src/lib/protocol-contracts/registry';
+import { getDefaultNetwork, isSupportedNetwork } from '@/src/lib/protocol-contracts/networks';
+import { IdempotencyScope, withIdempotency } from '@/src/middleware/idempotency';
 
 // Use Node.js runtime for database access
 export const runtime = 'nodejs';
@@ -28,7 +31,7 @@ export async function OPTIONS(req: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Generator-Id, X-Alpha-Generator-Address',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Generator-Id, X-Alpha-Generator-Address, Idempotency-Key',
       'Access-Control-Max-Age': '86400'
     }
   });
@@ -37,10 +40,21 @@ export async function OPTIONS(req: NextRequest) {
 // POST /api/v1/strategies/:id/execute - Execute strategy and broadcast
 export async function POST(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  context: { params: { id: string } }
+) {
+  return withIdempotency(request, () => request.headers.get('X-Alpha-Generator-Address') || request.headers.get('X-Alpha-Generator-Id'), scope => executeStrategy(request, context, scope));
+}
+
+async function executeStrategy(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  scope: IdempotencyScope
 ) {
   const pool = createPool();
 
+  // Broadcasts already sent, reported with any later failure so the caller knows what went out
+  const broadcasts: any[] = [];
+
   try {
     // Get AlphaGenerator ID from header (now expects wallet address)
     const alphaGeneratorAddress = request.headers.get('X-Alpha-Generator-Address') ||
@@ -75,6 +89,34 @@ export async function POST(
       });
     }
 
+    // Reject unknown networks before estimating or broadcasting anything
+    const network = body.network || getDefaultNetwork();
+    if (!isSupportedNetwork(network)) {
+      return NextResponse.json({
+        isSuccess: false,
+        message: `Unsupported network: ${network}`,
+        timestamp: new Date().toISOString()
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (body.expiryMinutes !== undefined && !isValidExpiryMinutes(body.expiryMinutes)) {
+      return NextResponse.json({
+        isSuccess: false,
+        message: `expiryMinutes must be an integer from 1 to ${MAX_EXPIRY_MINUTES}`,
+        timestamp: new Date().toISOString()
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     // Get strategy details
     const strategyService = getProtocolStrategyService(pool);
     const strategy = await strategyService.getStrategy(params.id);
@@ -120,12 +162,33 @@ export async function POST(
       });
     }
 
+    // Broadcasts are attributed to the generator's ID, which auto-trade and subscriptions key on
+    const generatorResult = await pool.query(
+      'SELECT generator_id FROM alpha_generators WHERE LOWER(generator_address) = LOWER($1)',
+      [alphaGeneratorAddress]
+    );
+
+    if (generatorResult.rows.length === 0) {
+      return NextResponse.json({
+        isSuccess: false,
+        message: 'AlphaGenerator not found',
+        timestamp: new Date().toISOString()
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const alphaGeneratorId: string = generatorResult.rows[0].generator_id;
+
     // Initialize services
     const broadcastService = getTradeBroadcastService(pool);
     const executor = getProtocolExecutor(pool);
+    const registry = getProtocolRegistry(pool);
 
     // Process each function in the strategy
-    const broadcasts = [];
     const estimations = [];
 
     for (const func of body.functions) {
@@ -160,30 +223,50 @@ export async function POST(
         });
       }
 
+      // Validate parameter types against the contract ABI
+      const validation = await registry.validateFunctionParams(
+        strategy.protocol,
+        func.functionName,
+        func.parameters,
+        { network }
+      );
+
+      if (!validation.valid) {
+        return NextResponse.json({
+          isSuccess: false,
+          message: `Invalid parameters for ${func.functionName}`,
+          errors: validation.errors,
+          timestamp: new Date().toISOString()
+        }, {
+          status: 400,
+          headers: {
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      }
+
       // Estimate gas for the function
       const gasEstimation = await executor.estimateGas({
         functionName: func.functionName,
         protocol: strategy.protocol,
         parameters: func.parameters,
         contractAddress: '', // Will be resolved by executor
-        network: body.network || 'localhost',
+        network,
         userAddress: body.userAddress || alphaGeneratorAddress
       });
 
       estimations.push(gasEstimation);
 
-      // Broadcast the trade to subscribers
-      // Note: alphaGeneratorId is now a wallet address, but trade_broadcasts expects UUID
-      // Pass null since it's optional and we have strategy_id for reference
+      // Broadcast the trade to subscribers; the auto-trade worker acts on their policies
       const broadcastResponse = await broadcastService.broadcast({
         strategyId: params.id,
-        alphaGeneratorId: null, // Using null since we have wallet addresses now, not UUIDs
+        alphaGeneratorId,
         functionName: func.functionName,
         protocol: strategy.protocol,
         parameters: func.parameters,
         gasEstimate: gasEstimation.gasLimit,
-        network: body.network || 'localhost',
-        expiryMinutes: body.expiryMinutes || 5
+        network,
+        expiryMinutes: resolveExpiryMinutes(body.expiryMinutes, strategy.expiryMinutes)
       });
 
       broadcasts.push({
@@ -193,6 +276,9 @@ export async function POST(
         recipientCount: broadcastResponse.recipientCount,
         expiresAt: broadcastResponse.expiresAt
       });
+
+      // A retry must not broadcast this function again
+      scope.committed();
     }
 
     // Calculate total estimated cost
@@ -221,9 +307,25 @@ export async function POST(
   } catch (error: any) {
     console.error(`Error in POST /api/v1/strategies/${params.id}/execute:`, error);
 
+    if (error instanceof ParameterValidationError) {
+      return NextResponse.json({
+        isSuccess: false,
+        message: error.message,
+        errors: error.fieldErrors,
+        broadcasts,
+        timestamp: new Date().toISOString()
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     return NextResponse.json({
       isSuccess: false,
       message: error.message || 'Failed to execute strategy',
+      broadcasts,
       timestamp: new Date().toISOString()
     }, {
       status: 500,
@@ -2,21 +2,26 @@ import { NextRequest } from 'next/server'
 import { db } from '@/db/db'
 import { subscriptions } from '@/db/schema/subscriptions-schema'
 import { strategies } from '@/db/schema/strategies-schema'
-import { sql, and, eq } from 'drizzle-orm'
+import { sql, and, eq, gte } from 'drizzle-orm'
 import { successResponse, errorResponse, serverErrorResponse } from '@/app/api/api-utils'
+import { subscriptionManager } from '../../../../../../src/libraries/subscription-manager'
 import { ethers } from 'ethers'
 
+/**
+ * Subscribe to one strategy: the consumer receives this strategy's broadcasts only,
+ * not every strategy its generator runs (use /alpha-generators/:address/subscribe for that)
+ */
 export async function POST(req: NextRequest, { params }: { params: { id: string }}) {
   try {
-    const strategyId = parseInt(params.id)
+    const strategyId = params.id
 
-    // Validate strategyId is a number
-    if (isNaN(strategyId)) {
+    if (!strategyId) {
       return errorResponse('Invalid strategy ID', 400, undefined, req)
     }
 
     const body = await req.json()
-    const { subscriberWallet, subscriptionTxHash, subscriptionAmount } = body
+    const { subscriptionTxHash, subscriptionAmount } = body
+    const subscriberWallet = body.subscriberWallet ?? body.alphaConsumerAddress
 
     // Validate required fields
     if (!subscriberWallet || !subscriptionTxHash) {
@@ -30,11 +35,15 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
     }
 
     // Check if strategy exists
-    const [strategy] = await db.select().from(strategies).where(eq(strategies.strategyId, strategyId.toString())).limit(1)
+    const [strategy] = await db.select().from(strategies).where(eq(strategies.strategyId, strategyId)).limit(1)
     if (!strategy) {
       return errorResponse('Strategy not found', 404, undefined, req)
     }
 
+    if (!strategy.alphaGeneratorAddress) {
+      return errorResponse('Strategy has no AlphaGenerator to subscribe through', 400, undefined, req)
+    }
+
     // Optional: Verify transaction on blockchain
     if (process.env.BLOCKCHAIN_RPC_URL) {
       try {
@@ -66,9 +75,10 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       .from(subscriptions)
       .where(
         and(
-          eq(subscriptions.strategyId, strategyId.toString()),
+          eq(subscriptions.strategyId, strategyId),
           eq(subscriptions.alphaConsumerAddress, normalizedSubscriberWallet),
-          eq(subscriptions.isActive, true)
+          eq(subscriptions.isActive, true),
+          gte(subscriptions.expiresAt, new Date())
         )
       )
       .limit(1)
@@ -77,13 +87,14 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       return successResponse(existing, 'Already subscribed to this strategy', 200, req)
     }
 
-    // Create new subscription with normalized address
-    const [newSubscription] = await db.insert(subscriptions).values({
-      strategyId: strategyId.toString(),
-      alphaConsumerAddress: normalizedSubscriberWallet,
-      subscriptionTxHash: subscriptionTxHash,
-      isActive: true
-    }).returning()
+    // Create a strategy-scoped subscription under the strategy's generator
+    const newSubscription = await subscriptionManager.subscribe({
+      generatorAddress: strategy.alphaGeneratorAddress,
+      consumerAddress: normalizedSubscriberWallet,
+      fee: subscriptionAmount ? subscriptionAmount.toString() : '0',
+      subscriptionTxHash,
+      strategyId
+    })
 
     // Update subscriber count in strategies table
     // Note: In a production environment, this should be done in a transaction
@@ -91,7 +102,7 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       sql`UPDATE strategies
           SET subscriber_count = COALESCE(subscriber_count, 0) + 1,
               updated_at = NOW()
-          WHERE strategy_id = ${strategyId.toString()}`
+          WHERE strategy_id = ${strategyId}`
     )
 
     console.log(`[Subscribe] New subscription created: Strategy ${strategyId}, Wallet ${subscriberWallet}`)
@@ -111,10 +122,10 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
 // GET endpoint to check subscription status
 export async function GET(req: NextRequest, { params }: { params: { id: string }}) {
   try {
-    const strategyId = parseInt(params.id)
+    const strategyId = params.id
 
     // Validate strategyId
-    if (isNaN(strategyId)) {
+    if (!strategyId) {
       return errorResponse('Invalid strategy ID', 400, undefined, req)
     }
 
@@ -139,7 +150,7 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
       .from(subscriptions)
       .where(
         and(
-          eq(subscriptions.strategyId, strategyId.toString()),
+          eq(subscriptions.strategyId, strategyId),
           eq(subscriptions.alphaConsumerAddress, normalizedWallet)
         )
       )
@@ -126,7 +126,8 @@ export async function POST(request: NextRequest) {
       strategyDescription: body.strategyDescription,
       strategyJSON: body.strategyJSON,
       supportedProtocols: body.supportedProtocols,
-      alphaGeneratorAddress: normalizedGeneratorAddress || normalizedWalletAddress
+      alphaGeneratorAddress: normalizedGeneratorAddress || normalizedWalletAddress,
+      expiryMinutes: body.expiryMinutes
     })
 
     return NextResponse.json(result, { status: 201 })
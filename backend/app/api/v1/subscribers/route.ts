@@ -32,6 +32,7 @@ export async function GET(req: NextRequest) {
       alphaGeneratorAddress: sub.alphaGeneratorAddress,
       encryptedConsumerAddress: sub.encryptedConsumerAddress || '',
       subscriptionType: sub.subscriptionType || 'generator',
+      strategyId: sub.strategyId ?? null,
       subscriptionTxHash: sub.subscriptionTxHash || '',
       subscribedAt: sub.subscribedAt.toISOString(),
       expiresAt: sub.expiresAt.toISOString(),
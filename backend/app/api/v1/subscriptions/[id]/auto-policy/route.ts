@@ -0,0 +1,152 @@
+/**
+ * Subscription Auto-Trade Policy API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/subscriptions/:id/auto-policy
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getAutoTradeService } from '@/src/services/auto-trade-service';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+function consumerRequired() {
+  return NextResponse.json({
+    success: false,
+    error: 'AlphaConsumer ID required in X-Alpha-Consumer-Id header'
+  }, {
+    status: 401,
+    headers: {
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+function errorStatus(error: any): number {
+  if (error.message?.includes('not found')) return 404;
+  if (error.message?.includes('Unauthorized')) return 403;
+  if (error.message?.includes('Invalid auto policy')) return 400;
+  return 500;
+}
+
+// GET /api/v1/subscriptions/:id/auto-policy - Get the subscription's auto-trade policy
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+  if (!consumerId) {
+    return consumerRequired();
+  }
+
+  const pool = createPool();
+
+  try {
+    const service = getAutoTradeService(pool);
+    const policy = await service.getAutoPolicy(params.id, consumerId);
+
+    return NextResponse.json({
+      success: true,
+      data: policy
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in GET /api/v1/subscriptions/${params.id}/auto-policy:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to get auto policy'
+    }, {
+      status: errorStatus(error),
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
+
+// PUT /api/v1/subscriptions/:id/auto-policy - Set or clear ({ "autoPolicy": null }) the auto-trade policy
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+  if (!consumerId) {
+    return consumerRequired();
+  }
+
+  const pool = createPool();
+
+  try {
+    const body = await request.json();
+
+    if (!('autoPolicy' in body)) {
+      return NextResponse.json({
+        success: false,
+        error: 'autoPolicy is required (null clears it)'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const service = getAutoTradeService(pool);
+    const policy = await service.setAutoPolicy(params.id, consumerId, body.autoPolicy);
+
+    return NextResponse.json({
+      success: true,
+      data: policy
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in PUT /api/v1/subscriptions/${params.id}/auto-policy:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update auto policy'
+    }, {
+      status: errorStatus(error),
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
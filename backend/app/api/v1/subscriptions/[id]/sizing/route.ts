@@ -0,0 +1,152 @@
+/**
+ * Subscription Sizing API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/subscriptions/:id/sizing
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getSubscriptionSizingService } from '@/src/services/subscription-sizing-service';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+function consumerRequired() {
+  return NextResponse.json({
+    success: false,
+    error: 'AlphaConsumer ID required in X-Alpha-Consumer-Id header'
+  }, {
+    status: 401,
+    headers: {
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+function errorStatus(error: any): number {
+  if (error.message?.includes('not found')) return 404;
+  if (error.message?.includes('Unauthorized')) return 403;
+  if (error.message?.includes('Invalid sizing rule')) return 400;
+  return 500;
+}
+
+// GET /api/v1/subscriptions/:id/sizing - Get the subscription's copy sizing rule
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+  if (!consumerId) {
+    return consumerRequired();
+  }
+
+  const pool = createPool();
+
+  try {
+    const service = getSubscriptionSizingService(pool);
+    const sizing = await service.getSizingRule(params.id, consumerId);
+
+    return NextResponse.json({
+      success: true,
+      data: sizing
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in GET /api/v1/subscriptions/${params.id}/sizing:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to get sizing rule'
+    }, {
+      status: errorStatus(error),
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
+
+// PUT /api/v1/subscriptions/:id/sizing - Set or clear ({ "sizingRule": null }) the copy sizing rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+  if (!consumerId) {
+    return consumerRequired();
+  }
+
+  const pool = createPool();
+
+  try {
+    const body = await request.json();
+
+    if (!('sizingRule' in body)) {
+      return NextResponse.json({
+        success: false,
+        error: 'sizingRule is required (null clears it)'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const service = getSubscriptionSizingService(pool);
+    const sizing = await service.setSizingRule(params.id, consumerId, body.sizingRule);
+
+    return NextResponse.json({
+      success: true,
+      data: sizing
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in PUT /api/v1/subscriptions/${params.id}/sizing:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to update sizing rule'
+    }, {
+      status: errorStatus(error),
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
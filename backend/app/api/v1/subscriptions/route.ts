@@ -1,4 +1,7 @@
 import { NextRequest } from 'next/server'
+import { inArray } from 'drizzle-orm'
+import { db } from '@/db/db'
+import { strategies } from '@/db/schema/strategies-schema'
 import { subscriptionManager } from '../../../../src/libraries/subscription-manager'
 import { successResponse, errorResponse, serverErrorResponse } from '@/app/api/api-utils'
 
@@ -17,6 +20,16 @@ export async function GET(req: NextRequest) {
     // Use subscription manager to get active subscriptions
     const subscriptions = await subscriptionManager.getActiveSubscriptions(normalizedAddress)
 
+    // Name the strategy each strategy-scoped subscription follows
+    const strategyIds = subscriptions.map(sub => sub.strategyId).filter((id): id is string => !!id)
+    const strategyNames = new Map<string, string>()
+    if (strategyIds.length > 0) {
+      const rows = await db.select().from(strategies).where(inArray(strategies.strategyId, strategyIds))
+      for (const row of rows) {
+        strategyNames.set(row.strategyId, row.strategyName || `Strategy ${row.strategyId}`)
+      }
+    }
+
     // Transform the data for frontend compatibility
     const transformedSubscriptions = subscriptions.map(sub => ({
       subscriptionId: sub.subscriptionId,
@@ -25,6 +38,7 @@ export async function GET(req: NextRequest) {
       subscriberAddress: sub.alphaConsumerAddress || '', // For UI compatibility
       encryptedConsumerAddress: sub.encryptedConsumerAddress || '',
       subscriptionType: sub.subscriptionType || 'generator',
+      strategyId: sub.strategyId ?? null,
       encryptionVersion: sub.encryptionVersion || 1,
       subscriptionTxHash: sub.subscriptionTxHash || '',
       subscribedAt: sub.subscribedAt.toISOString(),
@@ -33,7 +47,7 @@ export async function GET(req: NextRequest) {
       metadata: sub.metadata || {},
       subscriptionFee: sub.metadata?.feeAmount || '100000000000000000', // Default 0.1 ETH
       expiryDate: sub.expiresAt.toISOString(),
-      strategyName: 'Strategy Subscription', // Default name
+      strategyName: sub.strategyId ? strategyNames.get(sub.strategyId) ?? `Strategy ${sub.strategyId}` : 'All strategies',
       createdAt: sub.createdAt ? sub.createdAt.toISOString() : new Date().toISOString(),
       updatedAt: sub.updatedAt ? sub.updatedAt.toISOString() : new Date().toISOString(),
     }))
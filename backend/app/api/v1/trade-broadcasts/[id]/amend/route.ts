@@ -0,0 +1,175 @@
+/**
+ * Trade Broadcast Amend API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/trade-broadcasts/:id/amend
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getBroadcastManagementService } from '@/src/services/broadcast-management-service';
+import { ParameterValidationError } from '@/src/lib/protocol-contracts/registry';
+import { IdempotencyScope, withIdempotency } from '@/src/middleware/idempotency';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Generator-Address, Idempotency-Key',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+// POST /api/v1/trade-broadcasts/:id/amend - Replace a live broadcast's parameters as a new revision
+export async function POST(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return withIdempotency(request, () => request.headers.get('X-Alpha-Generator-Address'), scope => amendBroadcast(request, context, scope));
+}
+
+async function amendBroadcast(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  scope: IdempotencyScope
+) {
+  const pool = createPool();
+
+  try {
+    const generatorAddress = request.headers.get('X-Alpha-Generator-Address');
+
+    if (!generatorAddress) {
+      return NextResponse.json({
+        success: false,
+        error: 'AlphaGenerator address required in X-Alpha-Generator-Address header'
+      }, {
+        status: 401,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const body = await request.json();
+
+    if (!body.parameters || typeof body.parameters !== 'object' || Array.isArray(body.parameters)) {
+      return NextResponse.json({
+        success: false,
+        error: 'parameters object is required'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const managementService = getBroadcastManagementService(pool);
+    const result = await managementService.amendBroadcast({
+      broadcastId: params.id,
+      generatorAddress,
+      parameters: body.parameters,
+      onCommitted: scope.committed
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in POST /api/v1/trade-broadcasts/${params.id}/amend:`, error);
+
+    if (error instanceof ParameterValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        details: error.fieldErrors
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 403,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Cancelled and expired broadcasts can no longer change
+    if (error.message?.includes('Cannot amend')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('Invalid')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to amend broadcast'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Trade Broadcast Cancel API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/trade-broadcasts/:id/cancel
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getBroadcastManagementService } from '@/src/services/broadcast-management-service';
+import { IdempotencyScope, withIdempotency } from '@/src/middleware/idempotency';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Generator-Address, Idempotency-Key',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+// POST /api/v1/trade-broadcasts/:id/cancel - Cancel a broadcast's pending and accepted confirmations
+export async function POST(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return withIdempotency(request, () => request.headers.get('X-Alpha-Generator-Address'), scope => cancelBroadcast(request, context, scope));
+}
+
+async function cancelBroadcast(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  scope: IdempotencyScope
+) {
+  const pool = createPool();
+
+  try {
+    const generatorAddress = request.headers.get('X-Alpha-Generator-Address');
+
+    if (!generatorAddress) {
+      return NextResponse.json({
+        success: false,
+        error: 'AlphaGenerator address required in X-Alpha-Generator-Address header'
+      }, {
+        status: 401,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // The body is optional; it only carries a reason
+    const body = await request.json().catch(() => ({}));
+
+    if (body.reason !== undefined && typeof body.reason !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reason. Must be a string'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const managementService = getBroadcastManagementService(pool);
+    const result = await managementService.cancelBroadcast({
+      broadcastId: params.id,
+      generatorAddress,
+      reason: body.reason,
+      onCommitted: scope.committed
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in POST /api/v1/trade-broadcasts/${params.id}/cancel:`, error);
+
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 403,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('already cancelled')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to cancel broadcast'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
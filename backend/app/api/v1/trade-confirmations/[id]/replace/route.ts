@@ -0,0 +1,178 @@
+/**
+ * Trade Transaction Replacement API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/trade-confirmations/:id/replace
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getTradeExecutionService } from '@/src/services/trade-execution-service';
+import { isFeeSpeed } from '@/src/lib/protocol-executor';
+import { IdempotencyScope, withIdempotency } from '@/src/middleware/idempotency';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id, Idempotency-Key',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+// POST /api/v1/trade-confirmations/:id/replace - Speed up or cancel a stuck trade transaction
+export async function POST(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return withIdempotency(request, () => request.headers.get('X-Alpha-Consumer-Id'), scope => replaceTradeTransaction(request, context, scope));
+}
+
+async function replaceTradeTransaction(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+  scope: IdempotencyScope
+) {
+  const pool = createPool();
+
+  try {
+    // Get AlphaConsumer ID from header
+    const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+    if (!consumerId) {
+      return NextResponse.json({
+        success: false,
+        error: 'AlphaConsumer ID required in X-Alpha-Consumer-Id header'
+      }, {
+        status: 401,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const body = await request.json();
+
+    // Validate replacement mode
+    if (body.mode !== 'speed-up' && body.mode !== 'cancel') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid mode. Must be "speed-up" or "cancel"'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Validate fee speed preset
+    if (body.feeSpeed !== undefined && !isFeeSpeed(body.feeSpeed)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid feeSpeed. Must be "low", "medium" or "high"'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const executionService = getTradeExecutionService(pool);
+    const result = await executionService.replaceTradeTransaction({
+      confirmationId: params.id,
+      mode: body.mode,
+      privateKey: body.privateKey, // Optional, for automated execution
+      feeSpeed: body.feeSpeed,
+      onCommitted: scope.committed // A retry after this would send a second replacement
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in POST /api/v1/trade-confirmations/${params.id}/replace:`, error);
+
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 403,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Nothing pending to replace: the trade is not executing or its tx already landed
+    if (error.message?.includes('Cannot replace') || error.message?.includes('already mined')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('requires a configured signer')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to replace transaction'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
@@ -8,6 +8,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { Pool } from 'pg';
 import { getConfirmationService } from '@/src/services/confirmation-service';
 import { getTradeExecutionService } from '@/src/services/trade-execution-service';
+import { ParameterValidationError } from '@/src/lib/protocol-contracts/registry';
+import { isFeeSpeed, isValidSlippage, MAX_SLIPPAGE_BPS } from '@/src/lib/protocol-executor';
+import { RiskLimitError } from '@/src/lib/risk-limits';
+import { PriceDriftError } from '@/src/lib/price-drift';
+import { BroadcastSupersededError } from '@/src/lib/trade-broadcast';
+import { withIdempotency } from '@/src/middleware/idempotency';
 
 // Use Node.js runtime for database access
 export const runtime = 'nodejs';
@@ -27,7 +33,7 @@ export async function OPTIONS(req: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, PATCH, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id, Idempotency-Key',
       'Access-Control-Max-Age': '86400'
     }
   });
@@ -106,6 +112,13 @@ export async function GET(
 
 // PATCH /api/v1/trade-confirmations/:id - Accept or reject trade
 export async function PATCH(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return withIdempotency(request, () => request.headers.get('X-Alpha-Consumer-Id'), () => updateTradeConfirmation(request, context));
+}
+
+async function updateTradeConfirmation(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
@@ -142,12 +155,40 @@ export async function PATCH(
       });
     }
 
+    // Validate slippage tolerance (basis points)
+    if (body.slippageBps !== undefined && !isValidSlippage(body.slippageBps)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid slippageBps. Must be an integer from 0 to ${MAX_SLIPPAGE_BPS}`
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Broadcast revision the consumer reviewed
+    if (body.revision !== undefined && !(Number.isInteger(body.revision) && body.revision >= 1)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid revision. Must be a positive integer'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     const service = getConfirmationService(pool);
 
     const updatedConfirmation = await service.updateConfirmation({
       confirmationId: params.id,
       action: body.action,
       modifiedParameters: body.modifiedParameters,
+      slippageBps: body.slippageBps,
+      revision: body.revision,
       consumerId
     });
 
@@ -163,6 +204,47 @@ export async function PATCH(
   } catch (error: any) {
     console.error(`Error in PATCH /api/v1/trade-confirmations/${params.id}:`, error);
 
+    // Field-level parameter errors
+    if (error instanceof ParameterValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        details: error.fieldErrors
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Trade breaks the consumer's risk profile
+    if (error instanceof RiskLimitError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        violations: error.violations
+      }, {
+        status: 422,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Generator amended or cancelled the broadcast after the consumer looked at it
+    if (error instanceof BroadcastSupersededError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     // Handle specific errors
     if (error.message?.includes('Unauthorized')) {
       return NextResponse.json({
@@ -216,6 +298,13 @@ export async function PATCH(
 
 // POST /api/v1/trade-confirmations/:id/execute - Execute an accepted trade
 export async function POST(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  return withIdempotency(request, () => request.headers.get('X-Alpha-Consumer-Id'), () => executeTradeConfirmation(request, context));
+}
+
+async function executeTradeConfirmation(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
@@ -252,12 +341,26 @@ export async function POST(
       });
     }
 
+    // Validate fee speed preset
+    if (body.feeSpeed !== undefined && !isFeeSpeed(body.feeSpeed)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid feeSpeed. Must be "low", "medium" or "high"'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     // Check if simulation only
     if (body.simulate) {
       const executionService = getTradeExecutionService(pool);
       const simulation = await executionService.simulateTrade(
         params.id,
-        body.consumerAddress
+        body.consumerAddress,
+        body.feeSpeed
       );
 
       return NextResponse.json({
@@ -267,6 +370,9 @@ export async function POST(
           gasEstimate: simulation.gasEstimate,
           estimatedCost: simulation.estimatedCost,
           estimatedCostETH: (Number(simulation.estimatedCost) / 1e18).toFixed(6),
+          maxFeePerGas: simulation.maxFeePerGas,
+          maxPriorityFeePerGas: simulation.maxPriorityFeePerGas,
+          feeSpeed: simulation.feeSpeed,
           parameters: simulation.parameters
         }
       }, {
@@ -282,7 +388,8 @@ export async function POST(
     const result = await executionService.executeTrade({
       confirmationId: params.id,
       consumerAddress: body.consumerAddress,
-      privateKey: body.privateKey // Optional, for automated execution
+      privateKey: body.privateKey, // Optional, for automated execution
+      feeSpeed: body.feeSpeed
     });
 
     return NextResponse.json({
@@ -297,6 +404,47 @@ export async function POST(
   } catch (error: any) {
     console.error(`Error in POST /api/v1/trade-confirmations/${params.id}/execute:`, error);
 
+    // Trade breaks the consumer's risk profile
+    if (error instanceof RiskLimitError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        violations: error.violations
+      }, {
+        status: 422,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Prices moved further since the broadcast than the consumer's drift rule allows
+    if (error instanceof PriceDriftError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        priceDrift: error.check
+      }, {
+        status: 422,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Generator amended or cancelled the broadcast after the consumer looked at it
+    if (error instanceof BroadcastSupersededError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     // Handle specific errors
     if (error.message?.includes('not found')) {
       return NextResponse.json({
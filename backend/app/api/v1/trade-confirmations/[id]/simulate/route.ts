@@ -0,0 +1,173 @@
+/**
+ * Trade Confirmation Simulation API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/trade-confirmations/:id/simulate
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getConfirmationService } from '@/src/services/confirmation-service';
+import { ParameterValidationError } from '@/src/lib/protocol-contracts/registry';
+import { isValidSlippage, MAX_SLIPPAGE_BPS } from '@/src/lib/protocol-executor';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+// POST /api/v1/trade-confirmations/:id/simulate - Dry-run a trade (optionally modified) via eth_call
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const pool = createPool();
+
+  try {
+    // Get AlphaConsumer ID from header
+    const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+    if (!consumerId) {
+      return NextResponse.json({
+        success: false,
+        error: 'AlphaConsumer ID required in X-Alpha-Consumer-Id header'
+      }, {
+        status: 401,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const body = await request.json();
+
+    // Validate consumer address
+    if (!body.consumerAddress) {
+      return NextResponse.json({
+        success: false,
+        error: 'Consumer address is required'
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    // Validate slippage tolerance (basis points)
+    if (body.slippageBps !== undefined && !isValidSlippage(body.slippageBps)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid slippageBps. Must be an integer from 0 to ${MAX_SLIPPAGE_BPS}`
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const service = getConfirmationService(pool);
+
+    // A revert is a successful simulation; the outcome is in data.simulation
+    const result = await service.simulateConfirmation({
+      confirmationId: params.id,
+      consumerId,
+      consumerAddress: body.consumerAddress,
+      modifiedParameters: body.modifiedParameters,
+      slippageBps: body.slippageBps
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in POST /api/v1/trade-confirmations/${params.id}/simulate:`, error);
+
+    // Field-level parameter errors
+    if (error instanceof ParameterValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        details: error.fieldErrors
+      }, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 403,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('Cannot simulate')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 409,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to simulate trade'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
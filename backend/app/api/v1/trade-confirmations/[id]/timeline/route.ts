@@ -0,0 +1,112 @@
+/**
+ * Trade Confirmation Timeline API Route
+ * Feature: 003-protocol-strategy-integration
+ * Path: /api/v1/trade-confirmations/:id/timeline
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Pool } from 'pg';
+import { getConfirmationService } from '@/src/services/confirmation-service';
+
+// Use Node.js runtime for database access
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Create database connection
+function createPool(): Pool {
+  return new Pool({
+    connectionString: process.env.DATABASE_URL
+  });
+}
+
+// OPTIONS handler for CORS preflight
+export async function OPTIONS(req: NextRequest) {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Alpha-Consumer-Id',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+// GET /api/v1/trade-confirmations/:id/timeline - Status history: who moved it, when, from, to, why, what changed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const pool = createPool();
+
+  try {
+    // Get AlphaConsumer ID from header
+    const consumerId = request.headers.get('X-Alpha-Consumer-Id');
+
+    if (!consumerId) {
+      return NextResponse.json({
+        success: false,
+        error: 'AlphaConsumer ID required in X-Alpha-Consumer-Id header'
+      }, {
+        status: 401,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    const service = getConfirmationService(pool);
+    const events = await service.getTimeline(params.id, consumerId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        confirmationId: params.id,
+        events
+      }
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error in GET /api/v1/trade-confirmations/${params.id}/timeline:`, error);
+
+    if (error.message?.includes('Unauthorized')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 403,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (error.message?.includes('not found')) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, {
+        status: 404,
+        headers: {
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to fetch confirmation timeline'
+    }, {
+      status: 500,
+      headers: {
+        'Access-Control-Allow-Origin': '*'
+      }
+    });
+  } finally {
+    await pool.end();
+  }
+}
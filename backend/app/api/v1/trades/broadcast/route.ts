@@ -1,20 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db/db';
 import { alphaGeneratorsTable } from '@/db/schema/alpha-generators-schema';
-import { strategiesTable } from '@/db/schema/strategies-schema';
 import { eq } from 'drizzle-orm';
 import { ethers } from 'ethers';
 import { z } from 'zod';
 import { tradeLifecycleService } from '@/lib/services/trade-lifecycle.service';
 import { ProtocolConfigService } from '@/lib/services/protocol-config.service';
 import { ProtocolAction } from '@/lib/protocols/action-mappings';
+import { Pool } from 'pg';
+import { ParameterValidationError } from '@/src/lib/protocol-contracts/registry';
+import { UnsupportedNetworkError } from '@/src/lib/protocol-contracts/networks';
+import {
+  BroadcastValidationError,
+  getTradeBroadcastService,
+  isValidExpiryMinutes,
+  MAX_BUNDLE_LEGS,
+  MAX_EXPIRY_MINUTES,
+  MIN_BUNDLE_LEGS,
+  resolveExpiryMinutes
+} from '@/src/lib/trade-broadcast';
+import { getProtocolStrategyService } from '@/src/services/strategy-service';
+import { IdempotencyScope, withIdempotency } from '@/src/middleware/idempotency';
 
 const BroadcastTradeSchema = z.object({
   generatorAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
   protocolId: z.string().optional(),
   action: z.nativeEnum(ProtocolAction).optional(),
   params: z.record(z.string(), z.any()).optional(),
-  expiryMinutes: z.number().min(1).max(60).default(5),
+  expiryMinutes: z.number().optional(), // Checked with isValidExpiryMinutes; defaults to the strategy's window
   gasLimit: z.string().optional(),
   value: z.string().optional(),
   metadata: z.record(z.string(), z.any()).optional(),
@@ -27,9 +40,22 @@ const BroadcastTradeSchema = z.object({
   parameters: z.record(z.string(), z.any()).optional(),
   gasEstimate: z.string().optional(),
   expiryTime: z.string().optional(),
+  // Bundle broadcasts: every leg of a strategy execution under one correlation ID
+  legs: z.array(z.object({
+    functionName: z.string().min(1),
+    parameters: z.record(z.string(), z.any()),
+    gasEstimate: z.string().optional(),
+  })).min(MIN_BUNDLE_LEGS).max(MAX_BUNDLE_LEGS).optional(),
+  mode: z.enum(['sequential', 'atomic']).optional(),
+  network: z.string().optional(),
 });
 
+// Retries carrying the same Idempotency-Key replay the first broadcast instead of sending another
 export async function POST(req: NextRequest) {
+  return withIdempotency(req, body => body?.generatorAddress, scope => broadcastTrade(req, scope));
+}
+
+async function broadcastTrade(req: NextRequest, scope: IdempotencyScope) {
   try {
     const body = await req.json();
 
@@ -53,14 +79,19 @@ export async function POST(req: NextRequest) {
       value,
       metadata,
       strategyId,
-      protocol,
       functionName,
-      functionABI,
-      contractAddress,
       parameters,
       gasEstimate,
-      expiryTime
+      legs,
+      mode,
+      network
     } = validation.data;
+
+    if (expiryMinutes !== undefined && !isValidExpiryMinutes(expiryMinutes)) {
+      return NextResponse.json({
+        error: `expiryMinutes must be an integer from 1 to ${MAX_EXPIRY_MINUTES}`,
+      }, { status: 400 });
+    }
     
     const [generator] = await db
       .select()
@@ -77,67 +108,117 @@ export async function POST(req: NextRequest) {
     let confirmationIds;
     let responseData;
 
-    // Handle strategy-based broadcasts (new flow)
-    if (strategyId && functionName && functionABI) {
-      // Load strategy to verify ownership and get additional data
-      const [strategy] = await db
-        .select()
-        .from(strategiesTable)
-        .where(eq(strategiesTable.strategyId, strategyId))
-        .limit(1);
+    // Strategy broadcasts go through the trade broadcaster: bundles as one confirmation per consumer
+    // covering the strategy's ordered legs, single functions as one confirmation each
+    if (strategyId && (legs || functionName)) {
+      const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 
-      if (!strategy) {
-        return NextResponse.json({
-          error: 'Strategy not found',
-        }, { status: 404 });
-      }
+      try {
+        const strategy = await getProtocolStrategyService(pool).getStrategy(strategyId);
 
-      const expiryTimeDate = expiryTime
-        ? new Date(expiryTime)
-        : new Date(Date.now() + expiryMinutes * 60 * 1000);
+        if (!strategy) {
+          return NextResponse.json({
+            error: 'Strategy not found',
+          }, { status: 404 });
+        }
 
-      // Broadcast with strategy-specific data
-      confirmationIds = await tradeLifecycleService.broadcastTrade({
-        generatorAddress,
-        strategyId,
-        protocolId: protocol || protocolId,
-        action: action || ('custom' as ProtocolAction),
-        executionData: JSON.stringify({
-          functionName,
-          parameters,
-          contractAddress,
-        }),
-        expiryTime: expiryTimeDate,
-        gasEstimate: gasEstimate || '150000',
-        metadata: {
-          ...metadata,
-          functionName,
-          functionABI,
-          contractAddress,
-          parameters,
-          protocol,
-        },
-        // Pass strategy-specific fields
-        functionName,
-        functionABI,
-        parameters,
-        contractAddress,
-      });
+        if (strategy.alphaGeneratorAddress.toLowerCase() !== generatorAddress.toLowerCase()) {
+          return NextResponse.json({
+            error: 'Unauthorized to broadcast this strategy',
+          }, { status: 403 });
+        }
 
-      responseData = {
-        confirmationIds,
-        subscriberCount: confirmationIds.length,
-        expiryTime: expiryTimeDate,
-        trade: {
-          generatorAddress,
-          strategyId,
-          protocol,
-          functionName,
-          parameters,
-          contractAddress,
-          gasEstimate: gasEstimate || '150000',
-        },
-      };
+        const strategyFunctions = (strategy.functions || []).map((fn: any) => fn.functionName);
+        const broadcastService = getTradeBroadcastService(pool);
+
+        if (legs) {
+          // Legs must be the strategy's functions, in the strategy's order
+          const legFunctions = legs.map(leg => leg.functionName);
+
+          if (legFunctions.join(',') !== strategyFunctions.join(',')) {
+            return NextResponse.json({
+              error: 'Invalid bundle legs',
+              details: `Legs must be the strategy's functions in order: ${strategyFunctions.join(', ')}`,
+            }, { status: 400 });
+          }
+
+          const broadcastResponse = await broadcastService.broadcastBundle({
+            strategyId,
+            alphaGeneratorId: generator.generatorId,
+            protocol: strategy.protocol,
+            legs: legs.map(leg => ({ ...leg, gasEstimate: leg.gasEstimate || '150000' })),
+            mode,
+            network,
+            expiryMinutes: resolveExpiryMinutes(expiryMinutes, strategy.expiryMinutes)
+          });
+
+          responseData = {
+            broadcastId: broadcastResponse.broadcastId,
+            correlationId: broadcastResponse.correlationId,
+            subscriberCount: broadcastResponse.recipientCount,
+            expiryTime: broadcastResponse.expiresAt,
+            trade: {
+              generatorAddress,
+              strategyId,
+              protocol: strategy.protocol,
+              mode: mode || 'sequential',
+              legs,
+            },
+          };
+        } else {
+          if (!strategyFunctions.includes(functionName)) {
+            return NextResponse.json({
+              error: 'Invalid function',
+              details: `${functionName} is not part of this strategy`,
+            }, { status: 400 });
+          }
+
+          // The contract comes from the protocol registry, not the request
+          const broadcastResponse = await broadcastService.broadcast({
+            strategyId,
+            alphaGeneratorId: generator.generatorId,
+            functionName: functionName!,
+            protocol: strategy.protocol,
+            parameters: parameters || {},
+            gasEstimate: gasEstimate || '150000',
+            network,
+            expiryMinutes: resolveExpiryMinutes(expiryMinutes, strategy.expiryMinutes)
+          });
+
+          responseData = {
+            broadcastId: broadcastResponse.broadcastId,
+            correlationId: broadcastResponse.correlationId,
+            subscriberCount: broadcastResponse.recipientCount,
+            expiryTime: broadcastResponse.expiresAt,
+            trade: {
+              generatorAddress,
+              strategyId,
+              protocol: strategy.protocol,
+              functionName,
+              parameters,
+              gasEstimate: gasEstimate || '150000',
+            },
+          };
+        }
+      } catch (error: any) {
+        if (error instanceof ParameterValidationError) {
+          return NextResponse.json({
+            error: 'Invalid trade parameters',
+            details: error.fieldErrors,
+          }, { status: 400 });
+        }
+
+        if (error instanceof BroadcastValidationError || error instanceof UnsupportedNetworkError) {
+          return NextResponse.json({
+            error: legs ? 'Invalid bundle' : 'Invalid trade',
+            details: error.message,
+          }, { status: 400 });
+        }
+
+        throw error;
+      } finally {
+        await pool.end();
+      }
     } else {
       // Handle traditional protocol-based broadcasts (existing flow)
       if (!protocolId || !action || !params) {
@@ -167,7 +248,7 @@ export async function POST(req: NextRequest) {
         value: value ? BigInt(value) : undefined,
       });
 
-      const expiryTimeDate = new Date(Date.now() + expiryMinutes * 60 * 1000);
+      const expiryTimeDate = new Date(Date.now() + resolveExpiryMinutes(expiryMinutes) * 60 * 1000);
 
       confirmationIds = await tradeLifecycleService.broadcastTrade({
         generatorAddress,
@@ -197,6 +278,9 @@ export async function POST(req: NextRequest) {
         },
       };
     }
+
+    // The broadcast is out; a retry must not send it again even if the stats update below fails
+    scope.committed();
     
     await db
       .update(alphaGeneratorsTable)
@@ -219,7 +303,7 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({
       data: responseData,
-      message: `Trade broadcasted to ${confirmationIds.length} subscribers`,
+      message: `Trade broadcasted to ${responseData.subscriberCount} subscribers`,
     }, { status: 201 });
   } catch (error: any) {
     console.error('[BroadcastTrade] Error:', error);
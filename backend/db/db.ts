@@ -148,4 +148,6 @@ if (shouldLog && !global.__dbConnectionTested) {
 }
 
 // Export drizzle instance with pool
-export const db = drizzle(pool, { logger: false });
\ No newline at end of file
+export const db = drizzle(pool, { logger: false });
+// Export pool for direct queries (e.g. event bus NOTIFY)
+export { pool };
@@ -0,0 +1,23 @@
+import { pgTable, bigserial, uuid, varchar, text, jsonb, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { protocolTradeConfirmationsTable } from "./protocol-trade-confirmations-schema";
+
+// Append-only status history of protocol trade confirmations, one row per transition.
+// Written only by the confirmation state machine; a trigger rejects updates.
+export const confirmationEventsTable = pgTable("confirmation_events", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  confirmationId: uuid("confirmation_id").notNull().references(() => protocolTradeConfirmationsTable.id, { onDelete: "cascade" }),
+  fromStatus: varchar("from_status", { length: 20 }), // NULL for the first event
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  actorType: varchar("actor_type", { length: 20 }).notNull(), // consumer | generator | auto_policy | system
+  actorId: text("actor_id"), // Consumer ID or generator ID
+  reason: text("reason"),
+  parametersDiff: jsonb("parameters_diff"), // { "path": { from, to } } for changed modified_parameters
+  revision: integer("revision").default(1).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`).notNull(),
+}, (table) => ({
+  confirmationIdx: index("idx_confirmation_events_confirmation").on(table.confirmationId, table.createdAt, table.id),
+}));
+
+export type ConfirmationEventRow = typeof confirmationEventsTable.$inferSelect;
+export type NewConfirmationEventRow = typeof confirmationEventsTable.$inferInsert;
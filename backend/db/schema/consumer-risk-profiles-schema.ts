@@ -0,0 +1,19 @@
+import { pgTable, uuid, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+// Consumer risk profiles - limits enforced when trades are accepted and executed.
+// Amount limits map lowercase token addresses to base units; NULL columns are unlimited.
+export const consumerRiskProfilesTable = pgTable("consumer_risk_profiles", {
+  consumerId: uuid("consumer_id").primaryKey(), // alpha_consumers.consumer_id; the cascading FK lives in migration 0015
+  maxNotionalPerTrade: jsonb("max_notional_per_trade"),
+  dailyVolumeCap: jsonb("daily_volume_cap"),
+  allowedAssets: jsonb("allowed_assets"),
+  allowedFunctions: jsonb("allowed_functions"),
+  maxOpenBorrow: jsonb("max_open_borrow"),
+  priceDriftRule: jsonb("price_drift_rule"), // { maxDriftBps, action: 'block' | 'warn' }; NULL uses the default
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`).notNull(),
+});
+
+export type ConsumerRiskProfile = typeof consumerRiskProfilesTable.$inferSelect;
+export type NewConsumerRiskProfile = typeof consumerRiskProfilesTable.$inferInsert;
@@ -0,0 +1,22 @@
+import { pgTable, text, varchar, char, integer, jsonb, timestamp, uuid, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+// Idempotency-Key claims on state-changing trade routes, scoped to the caller.
+// Retries with the same key and request hash replay response_status/response_body.
+export const idempotencyKeysTable = pgTable("idempotency_keys", {
+  callerId: text("caller_id").notNull(), // Consumer ID or generator address
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(),
+  requestHash: char("request_hash", { length: 64 }).notNull(),
+  state: varchar("state", { length: 20 }).default("IN_PROGRESS").notNull(), // IN_PROGRESS | COMPLETED
+  claimToken: uuid("claim_token"), // Set by each claim; only its holder may complete, renew or release it
+  responseStatus: integer("response_status"),
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`).notNull(),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.callerId, table.idempotencyKey] }),
+}));
+
+export type IdempotencyKey = typeof idempotencyKeysTable.$inferSelect;
+export type NewIdempotencyKey = typeof idempotencyKeysTable.$inferInsert;
@@ -26,3 +26,7 @@ export * from './protocols-schema'
 export * from './protocol-contracts-schema'
 export * from './trade-broadcasts-schema'
 export * from './protocol-trade-confirmations-schema'
+export * from './consumer-risk-profiles-schema'
+export * from './idempotency-keys-schema'
+export * from './confirmation-events-schema'
+export * from './trade-events-schema'
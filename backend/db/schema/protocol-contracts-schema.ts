@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, jsonb, boolean, timestamp, text, index } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, jsonb, boolean, timestamp, text, index, integer, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
 // Protocol contracts table - stores contract addresses and ABIs for different protocols
@@ -7,15 +7,19 @@ export const protocolContractsTable = pgTable("protocol_contracts", {
   protocol: varchar("protocol", { length: 50 }).notNull(), // AAVE, UNISWAP
   contractName: varchar("contract_name", { length: 100 }).notNull(),
   network: varchar("network", { length: 50 }).notNull(),
+  chainId: integer("chain_id").notNull(), // EIP-155 chain ID; lookups are keyed on this
   address: varchar("address", { length: 42 }).notNull(),
   abi: jsonb("abi").notNull(),
-  version: varchar("version", { length: 20 }).notNull(),
+  version: varchar("version", { length: 20 }).notNull(), // ABI version; at most one active per contract and chain
   isActive: boolean("is_active").default(true),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 }, (table) => {
   return {
     protocolIdx: index("idx_contracts_protocol").on(table.protocol),
     networkIdx: index("idx_contracts_network").on(table.network),
+    chainIdIdx: index("idx_contracts_chain_id").on(table.chainId),
+    contractVersionUnique: unique("protocol_contracts_protocol_contract_name_chain_id_version_key").on(table.protocol, table.contractName, table.chainId, table.version),
+    oneActiveIdx: uniqueIndex("idx_contracts_one_active").on(table.protocol, table.contractName, table.chainId).where(sql`${table.isActive} = true`),
     activeIdx: index("idx_contracts_active").on(table.isActive),
   };
 });
@@ -1,11 +1,11 @@
-import { pgTable, uuid, jsonb, varchar, timestamp, text, index, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, uuid, jsonb, varchar, timestamp, text, integer, index, pgEnum } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { tradeBroadcastsTable } from "./trade-broadcasts-schema";
 import { alphaConsumersTable } from "./alpha-consumers-schema";
 
 // Create trade confirmation status enum
 export const tradeConfirmationStatusEnum = pgEnum("trade_confirmation_status", [
-  "PENDING", "ACCEPTED", "REJECTED", "EXECUTING", "EXECUTED", "FAILED"
+  "PENDING", "ACCEPTED", "REJECTED", "EXECUTING", "EXECUTED", "FAILED", "EXPIRED", "CANCELLED"
 ]);
 
 // Protocol trade confirmations - tracks consumer decisions on broadcast trades
@@ -17,7 +17,22 @@ export const protocolTradeConfirmationsTable = pgTable("protocol_trade_confirmat
   modifiedParameters: jsonb("modified_parameters").notNull(),
   status: varchar("status", { length: 20 }).default("PENDING").notNull(),
   gasPrice: varchar("gas_price", { length: 100 }),
+  feeSpeed: varchar("fee_speed", { length: 10 }),
+  maxFeePerGas: varchar("max_fee_per_gas", { length: 100 }),
+  maxPriorityFeePerGas: varchar("max_priority_fee_per_gas", { length: 100 }),
   transactionHash: varchar("transaction_hash", { length: 66 }),
+  nonce: integer("nonce"),
+  replacementTransactionHash: varchar("replacement_transaction_hash", { length: 66 }),
+  replacementType: varchar("replacement_type", { length: 10 }),
+  replacedAt: timestamp("replaced_at", { withTimezone: true }),
+  sizingRule: jsonb("sizing_rule"),
+  sizingResult: jsonb("sizing_result"),
+  autoPolicy: jsonb("auto_policy"),
+  autoResult: jsonb("auto_result"),
+  autoClaimedAt: timestamp("auto_claimed_at", { withTimezone: true }), // Auto-trade worker lease
+  legResults: jsonb("leg_results"),
+  broadcastRevision: integer("broadcast_revision").default(1).notNull(),
+  priceDrift: jsonb("price_drift"), // Latest price-drift check before execution
   errorMessage: text("error_message"),
   receivedAt: timestamp("received_at", { withTimezone: true }).default(sql`now()`),
   decidedAt: timestamp("decided_at", { withTimezone: true }),
@@ -28,6 +43,7 @@ export const protocolTradeConfirmationsTable = pgTable("protocol_trade_confirmat
     consumerIdx: index("idx_protocol_confirmations_consumer").on(table.alphaConsumerId),
     statusIdx: index("idx_protocol_confirmations_status").on(table.status),
     receivedIdx: index("idx_protocol_confirmations_received").on(table.receivedAt),
+    consumerDecidedIdx: index("idx_protocol_confirmations_consumer_decided").on(table.alphaConsumerId, table.decidedAt),
   };
 });
 
@@ -20,6 +20,7 @@ export const strategiesTable = pgTable("strategies", {
   totalVolume: numeric("total_volume", { precision: 78, scale: 0 }).default("0"),
   successRate: numeric("success_rate", { precision: 5, scale: 2 }).default("0"), // Added success_rate
   totalExecutions: integer("total_executions").default(0), // Added total_executions
+  expiryMinutes: integer("expiry_minutes"), // Broadcast expiry window; null uses the default
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`).notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`).notNull(),
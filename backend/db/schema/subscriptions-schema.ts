@@ -3,7 +3,7 @@ import { sql } from "drizzle-orm";
 
 export const subscriptionsTable = pgTable("subscriptions", {
   subscriptionId: text("subscription_id").primaryKey().default(sql`gen_random_uuid()`),
-  strategyId: text("strategy_id"),
+  strategyId: text("strategy_id"), // Set for subscriptionType "strategy"; null follows every strategy
   alphaConsumerAddress: varchar("alpha_consumer_address", { length: 42 }).notNull(),
   subscriptionTxHash: varchar("subscription_tx_hash", { length: 66 }).unique(),
   subscribedAt: timestamp("subscribed_at", { withTimezone: true }).default(sql`now()`).notNull(),
@@ -11,9 +11,11 @@ export const subscriptionsTable = pgTable("subscriptions", {
   isActive: boolean("is_active").default(true).notNull(),
   alphaGeneratorAddress: varchar("alpha_generator_address", { length: 42 }),
   encryptedConsumerAddress: text("encrypted_consumer_address"),
-  subscriptionType: varchar("subscription_type", { length: 20 }).default("generator"),
+  subscriptionType: varchar("subscription_type", { length: 20 }).default("generator"), // generator | strategy
   encryptionVersion: integer("encryption_version").default(1),
   metadata: jsonb("metadata").default({}),
+  sizingRule: jsonb("sizing_rule"),
+  autoPolicy: jsonb("auto_policy"),
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, jsonb, timestamp, index, text } from "drizzle-orm/pg-core";
+import { pgTable, uuid, varchar, jsonb, timestamp, index, text, integer } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { strategiesTable } from "./strategies-schema";
 import { alphaGeneratorsTable } from "./alpha-generators-schema";
@@ -17,6 +17,13 @@ export const tradeBroadcastsTable = pgTable("trade_broadcasts", {
   correlationId: varchar("correlation_id", { length: 100 }).unique().notNull(),
   broadcastAt: timestamp("broadcast_at", { withTimezone: true }).default(sql`now()`),
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  legs: jsonb("legs"), // Ordered legs of a bundle broadcast; null for single-function broadcasts
+  executionMode: varchar("execution_mode", { length: 16 }), // 'sequential' or 'atomic' for bundles
+  revision: integer("revision").default(1).notNull(), // Each amendment adds one
+  amendedAt: timestamp("amended_at", { withTimezone: true }),
+  cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+  cancelReason: text("cancel_reason"),
+  marketSnapshot: jsonb("market_snapshot"), // Prices read at broadcast (or last amendment) for the drift check
 }, (table) => {
   return {
     strategyIdx: index("idx_broadcasts_strategy").on(table.strategyId),
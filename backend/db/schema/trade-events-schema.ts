@@ -0,0 +1,22 @@
+import { pgTable, bigserial, varchar, text, jsonb, uuid, timestamp, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+// Real-time trade events published on the event bus. Ids are the SSE event ids a client
+// resumes from with Last-Event-ID. Purged after 24 hours.
+export const tradeEventsTable = pgTable("trade_events", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  event: varchar("event", { length: 50 }).notNull(), // SSE event name, e.g. trade-broadcast
+  audienceType: varchar("audience_type", { length: 20 }).notNull(), // consumer | generator | consumers | generators | all
+  audienceId: text("audience_id"), // Consumer ID or generator ID for single-client audiences
+  topics: text("topics").array().default(sql`'{}'::text[]`).notNull(), // strategy:<id>, generator:<address>, confirmation:<id>
+  data: jsonb("data").notNull(),
+  origin: uuid("origin").notNull(), // Backend instance that published it
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`).notNull(),
+}, (table) => ({
+  audienceIdx: index("idx_trade_events_audience").on(table.audienceType, table.audienceId, table.id),
+  createdAtIdx: index("idx_trade_events_created_at").on(table.createdAt),
+  topicsIdx: index("idx_trade_events_topics").using("gin", table.topics),
+}));
+
+export type TradeEvent = typeof tradeEventsTable.$inferSelect;
+export type NewTradeEvent = typeof tradeEventsTable.$inferInsert;
@@ -0,0 +1,12 @@
+-- Migration: EIP-1559 Fees on Trade Confirmations
+-- Purpose: Persist the fee preset and max fees chosen when a consumer executes a trade
+-- Date: 2026-10-19
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS fee_speed varchar(10) CHECK (fee_speed IN ('low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS max_fee_per_gas varchar(100),
+  ADD COLUMN IF NOT EXISTS max_priority_fee_per_gas varchar(100);
+
+COMMENT ON COLUMN protocol_trade_confirmations.gas_price IS 'Effective gas price paid (wei)';
+COMMENT ON COLUMN protocol_trade_confirmations.max_fee_per_gas IS 'EIP-1559 maxFeePerGas submitted (wei)';
+COMMENT ON COLUMN protocol_trade_confirmations.max_priority_fee_per_gas IS 'EIP-1559 maxPriorityFeePerGas submitted (wei)';
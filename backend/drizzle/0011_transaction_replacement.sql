@@ -0,0 +1,16 @@
+-- Migration: Transaction Replacement on Trade Confirmations
+-- Purpose: Track the signer nonce of a trade's transaction and any speed-up/cancel replacement
+-- Date: 2026-10-19
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS nonce integer,
+  ADD COLUMN IF NOT EXISTS replacement_transaction_hash varchar(66),
+  ADD COLUMN IF NOT EXISTS replacement_type varchar(10) CHECK (replacement_type IN ('SPEED_UP', 'CANCEL')),
+  ADD COLUMN IF NOT EXISTS replaced_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_protocol_confirmations_replacement_tx
+  ON protocol_trade_confirmations(replacement_transaction_hash)
+  WHERE replacement_transaction_hash IS NOT NULL;
+
+COMMENT ON COLUMN protocol_trade_confirmations.transaction_hash IS 'Hash of the transaction first submitted for the trade';
+COMMENT ON COLUMN protocol_trade_confirmations.replacement_transaction_hash IS 'Latest same-nonce replacement of transaction_hash (speed-up or cancel)';
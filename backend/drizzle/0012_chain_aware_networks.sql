@@ -0,0 +1,35 @@
+-- Migration: Chain-Aware Networks
+-- Purpose: Key protocol contracts by chain ID and let consumers pin the chain they execute on
+-- Date: 2026-10-19
+
+-- The legacy 'testnet' network is Sepolia
+UPDATE protocol_contracts SET network = 'sepolia' WHERE network = 'testnet';
+UPDATE trade_broadcasts SET network = 'sepolia' WHERE network = 'testnet';
+
+ALTER TABLE protocol_contracts
+  ADD COLUMN IF NOT EXISTS chain_id integer;
+
+UPDATE protocol_contracts SET chain_id = CASE network
+  WHEN 'mainnet' THEN 1
+  WHEN 'sepolia' THEN 11155111
+  WHEN 'localhost' THEN 31337
+END
+WHERE chain_id IS NULL;
+
+ALTER TABLE protocol_contracts
+  ALTER COLUMN chain_id SET NOT NULL;
+
+ALTER TABLE protocol_contracts
+  DROP CONSTRAINT IF EXISTS protocol_contracts_protocol_contract_name_network_key;
+
+ALTER TABLE protocol_contracts
+  ADD CONSTRAINT protocol_contracts_protocol_contract_name_chain_id_key
+  UNIQUE(protocol, contract_name, chain_id);
+
+CREATE INDEX IF NOT EXISTS idx_contracts_chain_id ON protocol_contracts(chain_id);
+
+ALTER TABLE alpha_consumers
+  ADD COLUMN IF NOT EXISTS chain_id integer;
+
+COMMENT ON COLUMN protocol_contracts.chain_id IS 'EIP-155 chain ID the contract is deployed on';
+COMMENT ON COLUMN alpha_consumers.chain_id IS 'Chain the consumer executes on; NULL accepts trades on any network';
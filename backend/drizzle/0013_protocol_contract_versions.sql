@@ -0,0 +1,31 @@
+-- Migration: Protocol Contract Versions
+-- Purpose: Keep every ABI version of a contract with at most one active, and notify instances of changes
+-- Date: 2026-10-19
+
+ALTER TABLE protocol_contracts
+  DROP CONSTRAINT IF EXISTS protocol_contracts_protocol_contract_name_chain_id_key;
+
+ALTER TABLE protocol_contracts
+  ADD CONSTRAINT protocol_contracts_protocol_contract_name_chain_id_version_key
+  UNIQUE(protocol, contract_name, chain_id, version);
+
+-- Lookups read the single active version per contract and chain
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contracts_one_active
+  ON protocol_contracts(protocol, contract_name, chain_id)
+  WHERE is_active = true;
+
+-- Registry caches on every instance drop the changed protocol's entries on this notification
+CREATE OR REPLACE FUNCTION notify_protocol_contracts_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_notify('protocol_contracts_changed', COALESCE(NEW.protocol, OLD.protocol)::text);
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protocol_contracts_changed ON protocol_contracts;
+
+CREATE TRIGGER protocol_contracts_changed AFTER INSERT OR UPDATE OR DELETE
+  ON protocol_contracts FOR EACH ROW EXECUTE FUNCTION notify_protocol_contracts_changed();
+
+COMMENT ON COLUMN protocol_contracts.version IS 'ABI version; several may exist per contract and chain, at most one active';
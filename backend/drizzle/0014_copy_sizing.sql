@@ -0,0 +1,14 @@
+-- Migration: Per-Consumer Copy Sizing
+-- Purpose: Let consumers size copied trades per subscription and record the sizing on each confirmation
+-- Date: 2026-10-19
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS sizing_rule jsonb;
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS sizing_rule jsonb,
+  ADD COLUMN IF NOT EXISTS sizing_result jsonb;
+
+COMMENT ON COLUMN subscriptions.sizing_rule IS 'Copy sizing rule ({mode: fixed|percent_of_trade|percent_of_balance, amount, percent, maxAmount}); NULL copies the generator''s size';
+COMMENT ON COLUMN protocol_trade_confirmations.sizing_rule IS 'Subscription sizing rule in effect when the confirmation was created';
+COMMENT ON COLUMN protocol_trade_confirmations.sizing_result IS 'Size computed from sizing_rule (original and sized amount, cap, balance or fallback reason)';
@@ -0,0 +1,22 @@
+-- Migration: Consumer Risk Profiles
+-- Purpose: Per-consumer limits enforced when trades are accepted and executed
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS consumer_risk_profiles (
+  consumer_id uuid PRIMARY KEY REFERENCES alpha_consumers(consumer_id) ON DELETE CASCADE,
+  max_notional_per_trade jsonb,
+  daily_volume_cap jsonb,
+  allowed_assets jsonb,
+  allowed_functions jsonb,
+  max_open_borrow jsonb,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Daily volume sums a consumer's recently decided trades
+CREATE INDEX IF NOT EXISTS idx_protocol_confirmations_consumer_decided
+  ON protocol_trade_confirmations(alpha_consumer_id, decided_at);
+
+COMMENT ON TABLE consumer_risk_profiles IS 'Consumer risk limits; amounts are per token (lowercase address => base units). NULL columns are unlimited';
+COMMENT ON COLUMN consumer_risk_profiles.daily_volume_cap IS 'Most accepted/executing/executed trades may move per token in a rolling 24 hours';
+COMMENT ON COLUMN consumer_risk_profiles.max_open_borrow IS 'Most outstanding debt per token: executed borrows less executed repays';
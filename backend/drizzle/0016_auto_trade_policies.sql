@@ -0,0 +1,14 @@
+-- Migration: Auto-Trade Policies
+-- Purpose: Let subscriptions auto-accept (and auto-execute) matching trades and record what was done
+-- Date: 2026-10-19
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS auto_policy jsonb;
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS auto_policy jsonb,
+  ADD COLUMN IF NOT EXISTS auto_result jsonb;
+
+COMMENT ON COLUMN subscriptions.auto_policy IS 'Auto-trade policy ({autoAccept, functions, assets, minAmount, maxAmount, autoExecute, signer, webhookUrl}); NULL leaves every trade for the consumer';
+COMMENT ON COLUMN protocol_trade_confirmations.auto_policy IS 'Subscription auto-trade policy in effect when the confirmation was created';
+COMMENT ON COLUMN protocol_trade_confirmations.auto_result IS 'What the policy did (skipped, accepted, executed, failed), with the reason, transaction hash and webhook status';
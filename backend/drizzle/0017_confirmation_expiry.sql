@@ -0,0 +1,34 @@
+-- Migration: Confirmation Expiry Lifecycle
+-- Purpose: Add the EXPIRED confirmation status and per-strategy broadcast expiry windows
+-- Date: 2026-10-19
+
+-- Older schemas used the enum type; newer ones a varchar with a CHECK constraint
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'trade_confirmation_status') THEN
+    ALTER TYPE trade_confirmation_status ADD VALUE IF NOT EXISTS 'EXPIRED';
+  END IF;
+END $$;
+
+ALTER TABLE protocol_trade_confirmations
+  DROP CONSTRAINT IF EXISTS chk_confirmation_status,
+  DROP CONSTRAINT IF EXISTS protocol_trade_confirmations_status_check;
+
+ALTER TABLE protocol_trade_confirmations
+  ADD CONSTRAINT chk_confirmation_status CHECK (
+    status IN ('PENDING', 'ACCEPTED', 'REJECTED', 'EXECUTING', 'EXECUTED', 'FAILED', 'EXPIRED')
+  );
+
+-- Confirmations the old cleanup rejected were never answered by the consumer
+UPDATE protocol_trade_confirmations tc
+SET status = 'EXPIRED'
+FROM trade_broadcasts tb
+WHERE tc.trade_broadcast_id = tb.id
+  AND tc.status IN ('PENDING', 'REJECTED')
+  AND tc.decided_at IS NULL
+  AND tb.expires_at < CURRENT_TIMESTAMP;
+
+ALTER TABLE strategies
+  ADD COLUMN IF NOT EXISTS expiry_minutes integer CHECK (expiry_minutes BETWEEN 1 AND 1440);
+
+COMMENT ON COLUMN strategies.expiry_minutes IS 'Minutes subscribers have to answer this strategy''s broadcasts; NULL uses the 5-minute default';
@@ -0,0 +1,21 @@
+-- Migration: Bundle Broadcasts
+-- Purpose: Broadcast a strategy's ordered legs under one correlation ID with one confirmation per consumer
+-- Date: 2026-10-19
+
+ALTER TABLE trade_broadcasts
+  ADD COLUMN IF NOT EXISTS legs jsonb,
+  ADD COLUMN IF NOT EXISTS execution_mode varchar(16);
+
+ALTER TABLE trade_broadcasts
+  DROP CONSTRAINT IF EXISTS chk_broadcast_execution_mode;
+
+ALTER TABLE trade_broadcasts
+  ADD CONSTRAINT chk_broadcast_execution_mode
+  CHECK (execution_mode IS NULL OR execution_mode IN ('sequential', 'atomic'));
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS leg_results jsonb;
+
+COMMENT ON COLUMN trade_broadcasts.legs IS 'Ordered legs of a bundle broadcast ([{functionName, parameters, contractAddress, gasEstimate}]); NULL for single-function broadcasts';
+COMMENT ON COLUMN trade_broadcasts.execution_mode IS 'How a bundle''s legs execute: sequential (one transaction per leg) or atomic (one Multicall3 transaction)';
+COMMENT ON COLUMN protocol_trade_confirmations.leg_results IS 'Per-leg outcome of executing a bundle (status, transaction hash, revert reason)';
@@ -0,0 +1,32 @@
+-- Migration: Broadcast Cancel and Amend
+-- Purpose: Let generators cancel or amend a live broadcast; track revisions so superseded acceptances cannot execute
+-- Date: 2026-10-19
+
+-- Older schemas used the enum type; newer ones a varchar with a CHECK constraint
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'trade_confirmation_status') THEN
+    ALTER TYPE trade_confirmation_status ADD VALUE IF NOT EXISTS 'CANCELLED';
+  END IF;
+END $$;
+
+ALTER TABLE protocol_trade_confirmations
+  DROP CONSTRAINT IF EXISTS chk_confirmation_status;
+
+ALTER TABLE protocol_trade_confirmations
+  ADD CONSTRAINT chk_confirmation_status CHECK (
+    status IN ('PENDING', 'ACCEPTED', 'REJECTED', 'EXECUTING', 'EXECUTED', 'FAILED', 'EXPIRED', 'CANCELLED')
+  );
+
+ALTER TABLE trade_broadcasts
+  ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS amended_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancel_reason text;
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS broadcast_revision integer NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN trade_broadcasts.revision IS 'Starts at 1; each amendment replaces parameters and adds one';
+COMMENT ON COLUMN trade_broadcasts.cancelled_at IS 'When the generator cancelled the broadcast; its open confirmations became CANCELLED';
+COMMENT ON COLUMN protocol_trade_confirmations.broadcast_revision IS 'Broadcast revision the confirmation''s parameters and acceptance belong to; execution requires it to be current';
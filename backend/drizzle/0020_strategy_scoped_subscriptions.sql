@@ -0,0 +1,32 @@
+-- Migration: Strategy-Scoped Subscriptions
+-- Purpose: Let a subscription follow one strategy instead of every strategy its generator runs
+-- Date: 2026-10-19
+
+-- Strategy subscriptions used to be stored without their generator; fill it in so fan-out finds them
+UPDATE subscriptions s
+SET alpha_generator_address = LOWER(st.alpha_generator_address),
+    subscription_type = 'strategy'
+FROM strategies st
+WHERE s.strategy_id = st.strategy_id
+  AND s.strategy_id IS NOT NULL;
+
+UPDATE subscriptions
+SET subscription_type = 'generator'
+WHERE strategy_id IS NULL
+  AND (subscription_type IS NULL OR subscription_type <> 'generator');
+
+ALTER TABLE subscriptions
+  DROP CONSTRAINT IF EXISTS chk_subscription_scope;
+
+ALTER TABLE subscriptions
+  ADD CONSTRAINT chk_subscription_scope CHECK (
+    (subscription_type = 'generator' AND strategy_id IS NULL) OR
+    (subscription_type = 'strategy' AND strategy_id IS NOT NULL)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_generator_strategy
+  ON subscriptions (alpha_generator_address, strategy_id)
+  WHERE is_active = true;
+
+COMMENT ON COLUMN subscriptions.subscription_type IS 'generator: every strategy the generator broadcasts; strategy: only strategy_id';
+COMMENT ON COLUMN subscriptions.strategy_id IS 'Strategy a strategy-scoped subscription follows; NULL for generator-wide subscriptions';
@@ -0,0 +1,25 @@
+-- Migration: Idempotency Keys
+-- Purpose: Store request hashes and responses per Idempotency-Key so retried trade requests replay the first result
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  caller_id text NOT NULL,
+  idempotency_key varchar(255) NOT NULL,
+  request_hash char(64) NOT NULL,
+  state varchar(20) DEFAULT 'IN_PROGRESS' NOT NULL,
+  response_status integer,
+  response_body jsonb,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  completed_at timestamptz,
+  expires_at timestamptz NOT NULL,
+  PRIMARY KEY (caller_id, idempotency_key),
+  CONSTRAINT chk_idempotency_state CHECK (state IN ('IN_PROGRESS', 'COMPLETED'))
+);
+
+-- The scheduler purges expired keys
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at
+  ON idempotency_keys(expires_at);
+
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key claims on state-changing trade routes, per caller (consumer ID or generator address)';
+COMMENT ON COLUMN idempotency_keys.request_hash IS 'sha256 of method, path and canonical JSON body; reusing a key with another hash is rejected';
+COMMENT ON COLUMN idempotency_keys.response_body IS 'Response replayed to retries once state is COMPLETED; 5xx responses are not stored';
@@ -0,0 +1,53 @@
+-- Migration: Confirmation Events
+-- Purpose: Append-only history of trade confirmation status changes (who, when, from, to, reason, parameter diff)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS confirmation_events (
+  id bigserial PRIMARY KEY,
+  confirmation_id uuid NOT NULL REFERENCES protocol_trade_confirmations(id) ON DELETE CASCADE,
+  from_status varchar(20),
+  to_status varchar(20) NOT NULL,
+  actor_type varchar(20) NOT NULL,
+  actor_id text,
+  reason text,
+  parameters_diff jsonb,
+  revision integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT chk_confirmation_event_actor CHECK (actor_type IN ('consumer', 'generator', 'auto_policy', 'system'))
+);
+
+-- Timelines are read per confirmation in order
+CREATE INDEX IF NOT EXISTS idx_confirmation_events_confirmation
+  ON confirmation_events(confirmation_id, created_at, id);
+
+-- History is append-only: rows may be inserted (and go with their confirmation), never edited
+CREATE OR REPLACE FUNCTION reject_confirmation_event_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'confirmation_events is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS confirmation_events_append_only ON confirmation_events;
+
+CREATE TRIGGER confirmation_events_append_only BEFORE UPDATE
+  ON confirmation_events FOR EACH ROW EXECUTE FUNCTION reject_confirmation_event_update();
+
+-- Existing confirmations get one event with the status they had when history started
+INSERT INTO confirmation_events (confirmation_id, from_status, to_status, actor_type, reason, revision, created_at)
+SELECT
+  tc.id,
+  NULL,
+  tc.status::text,
+  'system',
+  'Status before confirmation history was recorded',
+  tc.broadcast_revision,
+  COALESCE(tc.executed_at, tc.decided_at, tc.received_at, now())
+FROM protocol_trade_confirmations tc
+WHERE NOT EXISTS (SELECT 1 FROM confirmation_events ce WHERE ce.confirmation_id = tc.id);
+
+COMMENT ON TABLE confirmation_events IS 'Append-only status history of protocol_trade_confirmations, written by the confirmation state machine';
+COMMENT ON COLUMN confirmation_events.from_status IS 'NULL for the first event of a confirmation';
+COMMENT ON COLUMN confirmation_events.actor_id IS 'Consumer ID for consumer and auto_policy actors, generator ID for generator actors, NULL for system';
+COMMENT ON COLUMN confirmation_events.parameters_diff IS 'Changed modified_parameters paths as {"path": {"from": ..., "to": ...}}; NULL when none changed';
+COMMENT ON COLUMN confirmation_events.revision IS 'Broadcast revision the confirmation was at after this event';
@@ -0,0 +1,16 @@
+-- Migration: Price Drift Guard
+-- Purpose: Snapshot prices at broadcast, record the drift found before each execution, and let consumers set a drift rule
+-- Date: 2026-10-19
+
+ALTER TABLE trade_broadcasts
+  ADD COLUMN IF NOT EXISTS market_snapshot jsonb;
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS price_drift jsonb;
+
+ALTER TABLE consumer_risk_profiles
+  ADD COLUMN IF NOT EXISTS price_drift_rule jsonb;
+
+COMMENT ON COLUMN trade_broadcasts.market_snapshot IS 'Prices the trade depends on (Uniswap quotes, Aave oracle prices) read at broadcast or last amendment; NULL when none could be read';
+COMMENT ON COLUMN protocol_trade_confirmations.price_drift IS 'Latest price-drift check before execution: rule applied, per-price drift in bps, outcome (within, warned, blocked, unchecked)';
+COMMENT ON COLUMN consumer_risk_profiles.price_drift_rule IS '{"maxDriftBps": n, "action": "block" | "warn"}; NULL applies the default of 200 bps, warn only';
@@ -0,0 +1,13 @@
+-- Migration: Event Bus
+-- Purpose: Hold trade events too large for a NOTIFY payload until every instance has read them
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS event_bus_payloads (
+  id uuid PRIMARY KEY,
+  payload text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_bus_payloads_created_at ON event_bus_payloads (created_at);
+
+COMMENT ON TABLE event_bus_payloads IS 'Trade events over the 8000-byte NOTIFY limit; the trade_events notification carries only the id. Purged after an hour by the scheduler';
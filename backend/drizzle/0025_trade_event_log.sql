@@ -0,0 +1,27 @@
+-- Migration: Trade Event Log
+-- Purpose: Keep every real-time trade event with an increasing id, so SSE clients can resume after Last-Event-ID
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS trade_events (
+  id bigserial PRIMARY KEY,
+  event varchar(50) NOT NULL,
+  audience_type varchar(20) NOT NULL,
+  audience_id text,
+  data jsonb NOT NULL,
+  origin uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT trade_events_audience_check CHECK (
+    (audience_type IN ('consumer', 'generator') AND audience_id IS NOT NULL)
+    OR (audience_type IN ('consumers', 'generators', 'all') AND audience_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_events_audience ON trade_events (audience_type, audience_id, id);
+CREATE INDEX IF NOT EXISTS idx_trade_events_created_at ON trade_events (created_at);
+
+-- Every event is logged now; oversized NOTIFY payloads are read from trade_events by id
+DROP TABLE IF EXISTS event_bus_payloads;
+
+COMMENT ON TABLE trade_events IS 'Real-time trade events published on the event bus; ids are the SSE event ids clients resume from. Purged after 24 hours by the scheduler';
+COMMENT ON COLUMN trade_events.audience_type IS 'consumer | generator (with audience_id) | consumers | generators | all';
+COMMENT ON COLUMN trade_events.origin IS 'Backend instance that published the event';
@@ -0,0 +1,10 @@
+-- Migration: Trade Event Topics
+-- Purpose: Tag trade events with the topics WebSocket clients subscribe to
+-- Date: 2026-10-19
+
+ALTER TABLE trade_events
+  ADD COLUMN IF NOT EXISTS topics text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_trade_events_topics ON trade_events USING gin (topics);
+
+COMMENT ON COLUMN trade_events.topics IS 'strategy:<id>, generator:<lowercased address>, confirmation:<id>; WebSocket clients get events under the topics they subscribed to';
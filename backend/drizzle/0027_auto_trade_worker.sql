@@ -0,0 +1,18 @@
+-- Migration: Auto-Trade Worker
+-- Purpose: Let a background worker claim confirmations awaiting their auto-trade policy, and retire the shared server signer
+-- Date: 2026-10-19
+
+ALTER TABLE protocol_trade_confirmations
+  ADD COLUMN IF NOT EXISTS auto_claimed_at timestamptz;
+
+-- Confirmations the worker has yet to act on
+CREATE INDEX IF NOT EXISTS idx_protocol_confirmations_auto_queue
+  ON protocol_trade_confirmations (received_at)
+  WHERE status = 'PENDING' AND auto_policy IS NOT NULL AND auto_result IS NULL;
+
+-- Policies that executed with the shared server key now only accept; consumers re-enable execution with a delegated key
+UPDATE subscriptions
+SET auto_policy = auto_policy - 'autoExecute' - 'signer'
+WHERE auto_policy->>'signer' = 'server';
+
+COMMENT ON COLUMN protocol_trade_confirmations.auto_claimed_at IS 'When the auto-trade worker claimed the confirmation; claims older than the lease are picked up again';
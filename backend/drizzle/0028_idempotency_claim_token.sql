@@ -0,0 +1,8 @@
+-- Migration: Idempotency Claim Tokens
+-- Purpose: Tie each IN_PROGRESS claim to the request holding it, so a request whose lease was taken over cannot complete or release the new claim
+-- Date: 2026-10-19
+
+ALTER TABLE idempotency_keys
+  ADD COLUMN IF NOT EXISTS claim_token uuid;
+
+COMMENT ON COLUMN idempotency_keys.claim_token IS 'Set by each claim; completing, renewing and releasing the key require the token of the current claim';
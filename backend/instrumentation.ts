@@ -10,8 +10,22 @@ export async function register() {
     await import('./src/utils/initializeLogging');
     console.log('🚀 Backend instrumentation loaded - Logging service initialized');
 
+    // Drop cached protocol contracts when any instance changes them
+    const { startContractChangeListener } = await import('./src/lib/protocol-contracts/contract-cache');
+    startContractChangeListener();
+
+    // WebSocket API for trading bots; Next.js routes cannot upgrade, so it has its own port
+    const { startWebSocketServer } = await import('./src/services/websocket-server');
+    startWebSocketServer();
+
     // Dynamically import scheduler only in nodejs runtime to avoid fs module issues
-    const { startEventListener } = await import('./src/jobs/scheduler');
+    const { startEventListener, startConfirmationExpirySweeper, startAutoTradeWorker } = await import('./src/jobs/scheduler');
+
+    // Move unanswered trade confirmations to EXPIRED once their broadcast expires
+    startConfirmationExpirySweeper();
+
+    // Accept (and execute) copied trades under subscribers' auto-trade policies
+    startAutoTradeWorker();
 
     // Start event listener after a delay to ensure backend is ready
     setTimeout(async () => {
@@ -1,4 +1,4 @@
-import { db } from '@/db/db';
+import { db, pool } from '@/db/db';
 import { protocolTradeConfirmationsTable as tradeConfirmationsTable } from '@/db/schema/protocol-trade-confirmations-schema';
 import { tradeBroadcastsTable } from '@/db/schema/trade-broadcasts-schema';
 import { subscriptionsTable } from '@/db/schema/subscriptions-schema';
@@ -10,6 +10,9 @@ import { EventEmitter } from 'events';
 import { ethers } from 'ethers';
 import { encryptionService } from '@/lib/services/encryption.service';
 import { v4 as uuidv4 } from 'uuid';
+import { getConfirmationStateMachine } from '@/src/lib/trade-broadcast/state-machine';
+import { SubscriberNotification, TradeBroadcast, TradeStatus as ConfirmationStatus } from '@/src/lib/trade-broadcast/types';
+import { generatorTopic, publishEvent, strategyTopic } from '@/src/lib/event-bus';
 
 export enum TradeStatus {
   PENDING = 'PENDING',
@@ -18,7 +21,7 @@ export enum TradeStatus {
   EXECUTING = 'EXECUTING',
   EXECUTED = 'EXECUTED',
   FAILED = 'FAILED',
-  EXPIRED = 'FAILED', // Map EXPIRED to FAILED since DB doesn't have EXPIRED
+  EXPIRED = 'EXPIRED',
 }
 
 export interface BroadcastTradeParams {
@@ -46,7 +49,6 @@ export interface TradeUpdateData {
 }
 
 export class TradeLifecycleService extends EventEmitter {
-  private expiryCheckInterval: NodeJS.Timeout | null = null;
   private contractInterface: ethers.Interface;
   private provider: ethers.Provider;
 
@@ -68,7 +70,7 @@ export class TradeLifecycleService extends EventEmitter {
       `[TradeLifecycle] Initializing with RPC URL: ${rpcUrl.includes('localhost') ? rpcUrl : rpcUrl.replace(/\/\/([^:]+):([^@]+)@/, '//*****:*****@')}`
     );
 
-    this.startExpiryMonitor();
+    // Unanswered confirmations are expired by the confirmation expiry sweeper (src/jobs/scheduler.ts)
 
     const AlphaEngineABI = [
       'event SubscriptionCreated(address indexed generator, bytes32 encryptedSubscriber, uint256 timestamp)',
@@ -180,6 +182,27 @@ export class TradeLifecycleService extends EventEmitter {
       createdTrades.push(confirmation);
     }
 
+    // Start each confirmation's history, as broadcasts through the trade broadcaster do
+    await getConfirmationStateMachine(pool).recordCreated(
+      confirmationIds,
+      { type: 'generator', id: generator.generatorId },
+      pool
+    );
+
+    // Deliver through the event bus, so SSE and WebSocket clients on every instance get the trade
+    const topics = [strategyTopic(broadcast.strategyId), generatorTopic(generatorAddress)];
+
+    for (const trade of createdTrades) {
+      const notification: SubscriberNotification = {
+        subscriberId: trade.alphaConsumerId,
+        tradeBroadcast: broadcast as TradeBroadcast,
+        strategyName: strategyId || `${protocolId} ${action}`,
+        alphaGeneratorName: generator.name || generatorAddress
+      };
+
+      await publishEvent(pool, 'trade-broadcast', { type: 'consumer', id: trade.alphaConsumerId }, notification, topics);
+    }
+
     // Emit events for created trades
     for (const trade of createdTrades) {
       this.emit('tradeCreated', {
@@ -196,86 +219,53 @@ export class TradeLifecycleService extends EventEmitter {
     return confirmationIds;
   }
 
+  /**
+   * Move a confirmation to `status` through the confirmation state machine; returns false, changing
+   * nothing, when the confirmation does not exist or the transition table does not allow the move
+   */
   async updateTradeStatus(
     confirmationId: string,
     status: TradeStatus,
     additionalData?: TradeUpdateData
-  ): Promise<void> {
-    const updateData: any = { status };
+  ): Promise<boolean> {
+    const set: Record<string, any> = {};
 
     if (additionalData) {
-      if (additionalData.txHash) updateData.transactionHash = additionalData.txHash;
-      if (additionalData.executedAt) updateData.executedAt = additionalData.executedAt;
+      if (additionalData.txHash) set.transaction_hash = additionalData.txHash;
+      if (additionalData.executedAt) set.executed_at = additionalData.executedAt;
       if (status === TradeStatus.EXECUTED) {
-        updateData.decidedAt = new Date();
+        set.decided_at = new Date();
       }
       if (additionalData.error) {
-        updateData.errorMessage = additionalData.error;
+        set.error_message = additionalData.error;
       }
       if (additionalData.gasUsed) {
-        updateData.gasPrice = additionalData.gasUsed.toString();
+        set.gas_price = additionalData.gasUsed.toString();
       }
     }
 
-    const [updated] = await db
-      .update(tradeConfirmationsTable)
-      .set(updateData)
-      .where(eq(tradeConfirmationsTable.id, confirmationId))
-      .returning();
+    const transition = await getConfirmationStateMachine(pool).transition(
+      confirmationId,
+      status as ConfirmationStatus,
+      { actor: { type: 'system' }, reason: additionalData?.error, set }
+    );
 
-    if (updated) {
-      this.emit('tradeStatusChanged', {
-        ...updated,
-        previousStatus: status === TradeStatus.EXECUTED ? TradeStatus.PENDING : status,
-      });
+    if (!transition) {
+      console.warn(`[TradeLifecycle] Confirmation ${confirmationId} cannot move to ${status}`);
+      return false;
     }
-  }
 
-  private startExpiryMonitor() {
-    const checkInterval = 60000;
-
-    this.expiryCheckInterval = setInterval(async () => {
-      try {
-        const now = new Date();
-
-        // First, find expired broadcasts
-        const expiredBroadcasts = await db
-          .select()
-          .from(tradeBroadcastsTable)
-          .where(
-            lt(tradeBroadcastsTable.expiresAt, now)
-          );
-
-        for (const broadcast of expiredBroadcasts) {
-          // Update all related confirmations to failed (expired)
-          const expiredConfirmations = await db
-            .update(tradeConfirmationsTable)
-            .set({
-              status: TradeStatus.FAILED,
-            })
-            .where(
-              and(
-                eq(tradeConfirmationsTable.tradeBroadcastId, broadcast.id),
-                eq(tradeConfirmationsTable.status, TradeStatus.PENDING)
-              )
-            )
-            .returning();
-
-          for (const confirmation of expiredConfirmations) {
-            this.emit('tradeExpired', {
-              ...confirmation,
-              broadcast,
-            });
-          }
-
-          if (expiredConfirmations.length > 0) {
-            console.log(`[TradeLifecycle] Expired ${expiredConfirmations.length} trades for broadcast ${broadcast.id}`);
-          }
-        }
-      } catch (error) {
-        console.error('[TradeLifecycle] Expiry monitor error:', error);
-      }
-    }, checkInterval);
+    const [updated] = await db
+      .select()
+      .from(tradeConfirmationsTable)
+      .where(eq(tradeConfirmationsTable.id, confirmationId));
+
+    this.emit('tradeStatusChanged', {
+      ...updated,
+      previousStatus: transition.from,
+    });
+
+    return true;
   }
 
   private async getEncryptedSubscribers(generatorAddress: string): Promise<{ encryptedAddress: string; realAddress: string }[]> {
@@ -428,10 +418,6 @@ export class TradeLifecycleService extends EventEmitter {
   }
 
   cleanup(): void {
-    if (this.expiryCheckInterval) {
-      clearInterval(this.expiryCheckInterval);
-      this.expiryCheckInterval = null;
-    }
     this.removeAllListeners();
   }
 }
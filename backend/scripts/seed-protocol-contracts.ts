@@ -99,6 +99,56 @@ const UNISWAP_ROUTER_ABI = [
   }
 ];
 
+// Uniswap V3 QuoterV2 ABI (simplified - single-pool quotes used to derive slippage bounds)
+const UNISWAP_QUOTER_ABI = [
+  {
+    "inputs": [{
+      "components": [
+        { "internalType": "address", "name": "tokenIn", "type": "address" },
+        { "internalType": "address", "name": "tokenOut", "type": "address" },
+        { "internalType": "uint256", "name": "amountIn", "type": "uint256" },
+        { "internalType": "uint24", "name": "fee", "type": "uint24" },
+        { "internalType": "uint160", "name": "sqrtPriceLimitX96", "type": "uint160" }
+      ],
+      "internalType": "struct IQuoterV2.QuoteExactInputSingleParams",
+      "name": "params",
+      "type": "tuple"
+    }],
+    "name": "quoteExactInputSingle",
+    "outputs": [
+      { "internalType": "uint256", "name": "amountOut", "type": "uint256" },
+      { "internalType": "uint160", "name": "sqrtPriceX96After", "type": "uint160" },
+      { "internalType": "uint32", "name": "initializedTicksCrossed", "type": "uint32" },
+      { "internalType": "uint256", "name": "gasEstimate", "type": "uint256" }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [{
+      "components": [
+        { "internalType": "address", "name": "tokenIn", "type": "address" },
+        { "internalType": "address", "name": "tokenOut", "type": "address" },
+        { "internalType": "uint256", "name": "amount", "type": "uint256" },
+        { "internalType": "uint24", "name": "fee", "type": "uint24" },
+        { "internalType": "uint160", "name": "sqrtPriceLimitX96", "type": "uint160" }
+      ],
+      "internalType": "struct IQuoterV2.QuoteExactOutputSingleParams",
+      "name": "params",
+      "type": "tuple"
+    }],
+    "name": "quoteExactOutputSingle",
+    "outputs": [
+      { "internalType": "uint256", "name": "amountIn", "type": "uint256" },
+      { "internalType": "uint160", "name": "sqrtPriceX96After", "type": "uint160" },
+      { "internalType": "uint32", "name": "initializedTicksCrossed", "type": "uint32" },
+      { "internalType": "uint256", "name": "gasEstimate", "type": "uint256" }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+];
+
 // Protocol contract configurations
 const protocolContracts = [
   // AAVE Protocol - Mainnet
@@ -106,6 +156,7 @@ const protocolContracts = [
     protocol: 'AAVE',
     contract_name: 'Pool',
     network: 'mainnet',
+    chain_id: 1,
     address: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
     abi: JSON.stringify(AAVE_POOL_ABI),
     version: '3.0.0',
@@ -116,6 +167,7 @@ const protocolContracts = [
     protocol: 'AAVE',
     contract_name: 'Pool',
     network: 'localhost',
+    chain_id: 31337,
     address: '0x5FbDB2315678afecb367f032d93F642f64180aa3', // Example address - update after deployment
     abi: JSON.stringify(AAVE_POOL_ABI),
     version: '3.0.0',
@@ -126,6 +178,7 @@ const protocolContracts = [
     protocol: 'UNISWAP',
     contract_name: 'SwapRouter',
     network: 'mainnet',
+    chain_id: 1,
     address: '0xE592427A0AEce92De3Edee1F18E0157C05861564',
     abi: JSON.stringify(UNISWAP_ROUTER_ABI),
     version: '3.0.0',
@@ -136,10 +189,33 @@ const protocolContracts = [
     protocol: 'UNISWAP',
     contract_name: 'SwapRouter',
     network: 'localhost',
+    chain_id: 31337,
     address: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', // Example address - update after deployment
     abi: JSON.stringify(UNISWAP_ROUTER_ABI),
     version: '3.0.0',
     is_active: true
+  },
+  // Uniswap V3 QuoterV2 - Mainnet
+  {
+    protocol: 'UNISWAP',
+    contract_name: 'QuoterV2',
+    network: 'mainnet',
+    chain_id: 1,
+    address: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+    abi: JSON.stringify(UNISWAP_QUOTER_ABI),
+    version: '3.0.0',
+    is_active: true
+  },
+  // Uniswap V3 QuoterV2 - Localhost (Anvil)
+  {
+    protocol: 'UNISWAP',
+    contract_name: 'QuoterV2',
+    network: 'localhost',
+    chain_id: 31337,
+    address: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0', // Example address - update after deploying MockUniswapQuoter
+    abi: JSON.stringify(UNISWAP_QUOTER_ABI),
+    version: '3.0.0',
+    is_active: true
   }
 ];
 
@@ -162,13 +238,12 @@ async function seedProtocolContracts() {
     for (const contract of protocolContracts) {
       const query = `
         INSERT INTO protocol_contracts (
-          protocol, contract_name, network, address, abi, version, is_active, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)
-        ON CONFLICT (protocol, contract_name, network)
+          protocol, contract_name, network, chain_id, address, abi, version, is_active, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+        ON CONFLICT (protocol, contract_name, chain_id, version)
         DO UPDATE SET
           address = EXCLUDED.address,
           abi = EXCLUDED.abi,
-          version = EXCLUDED.version,
           is_active = EXCLUDED.is_active,
           updated_at = CURRENT_TIMESTAMP
       `;
@@ -177,6 +252,7 @@ async function seedProtocolContracts() {
         contract.protocol,
         contract.contract_name,
         contract.network,
+        contract.chain_id,
         contract.address,
         contract.abi,
         contract.version,
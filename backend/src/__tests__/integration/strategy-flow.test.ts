@@ -320,13 +320,31 @@ describe('Protocol Strategy Integration Flow', () => {
     it('should handle broadcast expiry correctly', async () => {
       const broadcastService = getTradeBroadcastService(pool);
 
-      // Mock cleanup of expired broadcasts
-      pool.query = jest.fn().mockResolvedValueOnce({
-        rowCount: 5
+      // Five unanswered confirmations on expired broadcasts, each moved to EXPIRED by the state machine
+      const stale = Array.from({ length: 5 }, (_, i) => ({
+        id: `confirmation-${i}`,
+        trade_broadcast_id: 'broadcast-123',
+        alpha_consumer_id: `consumer-${i}`,
+        strategy_id: 'strategy-123',
+        function_name: 'supply',
+        correlation_id: 'correlation-123',
+        expires_at: new Date(Date.now() - 60000)
+      }));
+
+      mockClient.query.mockImplementation((sql: string) => {
+        if (sql.includes('FOR UPDATE OF tc SKIP LOCKED')) {
+          return Promise.resolve({ rows: stale });
+        }
+        if (sql.includes('FOR UPDATE')) {
+          return Promise.resolve({ rows: [{ status: 'PENDING', alpha_consumer_id: 'consumer-0', broadcast_revision: 1 }] });
+        }
+        return Promise.resolve({ rows: [], rowCount: 1 });
       });
 
       const cleanedUp = await broadcastService.cleanupExpired();
       expect(cleanedUp).toBe(5);
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
     });
 
     it('should calculate broadcast statistics', async () => {
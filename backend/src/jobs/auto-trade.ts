@@ -0,0 +1,45 @@
+/**
+ * @file auto-trade.ts
+ * @description Job that accepts (and executes) copied trades under each consumer's auto-trade policy
+ * Runs on an interval while the server is up (see startAutoTradeWorker), and once per scheduler run
+ */
+
+import { Pool } from 'pg'
+import { getAutoTradeService } from '../services/auto-trade-service'
+
+/**
+ * Work through the confirmations awaiting their policy, a batch at a time, until none are left
+ */
+export async function processAutoTrades(pool: Pool): Promise<number> {
+  const service = getAutoTradeService(pool)
+  let processed = 0
+
+  for (;;) {
+    const outcomes = await service.processQueued()
+    processed += outcomes.length
+
+    if (outcomes.length === 0) break
+  }
+
+  if (processed > 0) {
+    console.log(`[${new Date().toISOString()}] Applied auto-trade policies to ${processed} trade confirmations`)
+  }
+
+  return processed
+}
+
+/**
+ * Run one pass with its own connection pool
+ */
+export async function runAutoTradeJob(): Promise<number> {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    return await processAutoTrades(pool)
+  } catch (error: any) {
+    console.error('Auto-trade job failed:', error.message)
+    throw error
+  } finally {
+    await pool.end()
+  }
+}
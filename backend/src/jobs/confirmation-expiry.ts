@@ -0,0 +1,49 @@
+/**
+ * @file confirmation-expiry.ts
+ * @description Job that moves trade confirmations left unanswered past their broadcast's expiry to EXPIRED
+ * Runs on an interval while the server is up (see startConfirmationExpirySweeper), and once per scheduler run
+ */
+
+import { Pool } from 'pg'
+import { getTradeBroadcastService } from '../lib/trade-broadcast'
+import { getSSEBroadcastService, SSEBroadcastService } from '../services/sse-broadcast-service'
+
+/**
+ * Expire stale confirmations and announce each one to its consumer over SSE
+ * Long-running callers should pass one SSE service, as each instance keeps its own heartbeat timer
+ */
+export async function processExpiredConfirmations(
+  pool: Pool,
+  sseService: SSEBroadcastService = getSSEBroadcastService(pool)
+): Promise<number> {
+  const expired = await getTradeBroadcastService(pool).expireStaleConfirmations()
+
+  for (const confirmation of expired) {
+    await sseService.sendTradeExpired(confirmation.alphaConsumerId, {
+      ...confirmation,
+      status: 'EXPIRED'
+    })
+  }
+
+  if (expired.length > 0) {
+    console.log(`[${new Date().toISOString()}] Expired ${expired.length} unanswered trade confirmations`)
+  }
+
+  return expired.length
+}
+
+/**
+ * Run one sweep with its own connection pool
+ */
+export async function runConfirmationExpiryJob(): Promise<number> {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    return await processExpiredConfirmations(pool)
+  } catch (error: any) {
+    console.error('Confirmation expiry job failed:', error.message)
+    throw error
+  } finally {
+    await pool.end()
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * @file event-bus-cleanup.ts
+ * @description Job that deletes trade events past the event log's retention
+ * Runs once per scheduler run; clients reconnecting after that long get current state instead of a replay
+ */
+
+import { Pool } from 'pg'
+import { purgeEventLog } from '../lib/event-bus'
+
+/**
+ * Purge trade events older than the retention period with its own connection pool
+ */
+export async function runEventBusCleanupJob(): Promise<number> {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    const purged = await purgeEventLog(pool)
+
+    if (purged > 0) {
+      console.log(`[${new Date().toISOString()}] Purged ${purged} trade events from the event log`)
+    }
+
+    return purged
+  } catch (error: any) {
+    console.error('Event bus cleanup job failed:', error.message)
+    throw error
+  } finally {
+    await pool.end()
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * @file idempotency-cleanup.ts
+ * @description Job that deletes Idempotency-Key records past their expiry
+ * Runs once per scheduler run; expired keys are also reclaimed on use, so this only bounds table size
+ */
+
+import { Pool } from 'pg'
+import { getIdempotencyService } from '../lib/idempotency'
+
+/**
+ * Purge expired idempotency keys with its own connection pool
+ */
+export async function runIdempotencyCleanupJob(): Promise<number> {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    const purged = await getIdempotencyService(pool).purgeExpired()
+
+    if (purged > 0) {
+      console.log(`[${new Date().toISOString()}] Purged ${purged} expired idempotency keys`)
+    }
+
+    return purged
+  } catch (error: any) {
+    console.error('Idempotency cleanup job failed:', error.message)
+    throw error
+  } finally {
+    await pool.end()
+  }
+}
@@ -1,15 +1,28 @@
 /**
  * @file scheduler.ts
  * @description Job scheduler for background tasks
- * Currently handles subscription expiry checking and contract event listening
+ * Currently handles subscription expiry checking, trade confirmation expiry, auto-trade policies,
+ * idempotency key cleanup, event log cleanup and contract event listening
  */
 
+import { Pool } from 'pg'
 import { runExpiryJob } from './subscription-expiry'
+import { processExpiredConfirmations, runConfirmationExpiryJob } from './confirmation-expiry'
+import { processAutoTrades, runAutoTradeJob } from './auto-trade'
+import { runIdempotencyCleanupJob } from './idempotency-cleanup'
+import { runEventBusCleanupJob } from './event-bus-cleanup'
 import { ContractEventListener } from '../services/contract-event-listener'
+import { getSSEBroadcastService } from '../services/sse-broadcast-service'
 
 // Global event listener instance
 let eventListener: ContractEventListener | null = null
 
+// Confirmation expiry sweeper, while running
+let expirySweeper: { timer: NodeJS.Timeout; pool: Pool } | null = null
+
+// Auto-trade worker, while running
+let autoTradeWorker: { timer: NodeJS.Timeout; pool: Pool } | null = null
+
 /**
  * Start the contract event listener if not already running
  */
@@ -52,6 +65,93 @@ export async function stopEventListener(): Promise<void> {
   }
 }
 
+/**
+ * Sweep expired trade confirmations every CONFIRMATION_EXPIRY_INTERVAL_MS (default one minute)
+ */
+export function startConfirmationExpirySweeper(): void {
+  if (expirySweeper) {
+    console.log('[Scheduler] Confirmation expiry sweeper is already running')
+    return
+  }
+
+  const intervalMs = parseInt(process.env.CONFIRMATION_EXPIRY_INTERVAL_MS || '60000')
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+  const sseService = getSSEBroadcastService(pool)
+  let sweeping = false
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (sweeping) return
+    sweeping = true
+
+    try {
+      await processExpiredConfirmations(pool, sseService)
+    } catch (error: any) {
+      console.error('[Scheduler] Confirmation expiry sweep failed:', error.message)
+    } finally {
+      sweeping = false
+    }
+  }, intervalMs)
+
+  expirySweeper = { timer, pool }
+  console.log(`[Scheduler] Confirmation expiry sweeper started (every ${intervalMs}ms)`)
+}
+
+/**
+ * Stop the confirmation expiry sweeper
+ */
+export async function stopConfirmationExpirySweeper(): Promise<void> {
+  if (expirySweeper) {
+    clearInterval(expirySweeper.timer)
+    await expirySweeper.pool.end()
+    expirySweeper = null
+    console.log('[Scheduler] Confirmation expiry sweeper stopped')
+  }
+}
+
+/**
+ * Apply auto-trade policies to new confirmations every AUTO_TRADE_INTERVAL_MS (default five seconds)
+ */
+export function startAutoTradeWorker(): void {
+  if (autoTradeWorker) {
+    console.log('[Scheduler] Auto-trade worker is already running')
+    return
+  }
+
+  const intervalMs = parseInt(process.env.AUTO_TRADE_INTERVAL_MS || '5000')
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+  let working = false
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow pass
+    if (working) return
+    working = true
+
+    try {
+      await processAutoTrades(pool)
+    } catch (error: any) {
+      console.error('[Scheduler] Auto-trade pass failed:', error.message)
+    } finally {
+      working = false
+    }
+  }, intervalMs)
+
+  autoTradeWorker = { timer, pool }
+  console.log(`[Scheduler] Auto-trade worker started (every ${intervalMs}ms)`)
+}
+
+/**
+ * Stop the auto-trade worker
+ */
+export async function stopAutoTradeWorker(): Promise<void> {
+  if (autoTradeWorker) {
+    clearInterval(autoTradeWorker.timer)
+    await autoTradeWorker.pool.end()
+    autoTradeWorker = null
+    console.log('[Scheduler] Auto-trade worker stopped')
+  }
+}
+
 /**
  * Main scheduler function that runs all scheduled jobs
  * Can be called manually or via system cron
@@ -66,6 +166,18 @@ export async function runScheduledJobs(): Promise<void> {
     // Run subscription expiry check
     await runExpiryJob()
 
+    // Expire trade confirmations nobody answered in time
+    await runConfirmationExpiryJob()
+
+    // Act on auto-trade policies the worker has not reached
+    await runAutoTradeJob()
+
+    // Drop Idempotency-Key records past their expiry
+    await runIdempotencyCleanupJob()
+
+    // Drop trade events past the event log retention
+    await runEventBusCleanupJob()
+
     console.log(`[${new Date().toISOString()}] All scheduled jobs completed successfully`)
   } catch (error: any) {
     console.error(`[${new Date().toISOString()}] Scheduled jobs failed:`, error.message)
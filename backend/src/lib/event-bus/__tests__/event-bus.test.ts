@@ -0,0 +1,127 @@
+/**
+ * Event Bus Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Client } from 'pg';
+import {
+  BusEvent,
+  INSTANCE_ID,
+  isInAudience,
+  MAX_NOTIFY_PAYLOAD_BYTES,
+  publishEvent,
+  replayEvents,
+  stopEventBusListener,
+  subscribeToEvents,
+  TRADE_EVENTS_CHANNEL
+} from '../index';
+
+jest.mock('pg');
+
+// Let queued notifications and their payload lookups settle
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Event bus', () => {
+  const db = { query: jest.fn() };
+
+  // A trade_events row as INSERT ... RETURNING gives it back
+  const logged = (id: number, sql: string, values: any[]) => sql.startsWith('INSERT')
+    ? { rows: [{ id, event: values[0], audience_type: values[1], audience_id: values[2], data: JSON.parse(values[3]), origin: values[4], topics: values[5], created_at: new Date() }] }
+    : { rows: [], rowCount: 1 };
+
+  beforeEach(() => {
+    db.query.mockImplementation(async (sql: string, values: any[]) => logged(42, sql, values));
+    process.env.DATABASE_URL = 'postgres://localhost/test';
+    (Client.prototype.connect as jest.Mock).mockResolvedValue(undefined);
+    (Client.prototype.end as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await stopEventBusListener();
+    jest.clearAllMocks();
+  });
+
+  it('should match clients to audiences', () => {
+    expect(isInAudience({ type: 'consumer', id: 'c1' }, { consumerId: 'c1' })).toBe(true);
+    expect(isInAudience({ type: 'consumer', id: 'c1' }, { consumerId: 'c2' })).toBe(false);
+    expect(isInAudience({ type: 'generator', id: 'g1' }, { consumerId: 'g1' })).toBe(false);
+    expect(isInAudience({ type: 'consumers' }, { generatorId: 'g1' })).toBe(false);
+    expect(isInAudience({ type: 'all' }, { generatorId: 'g1' })).toBe(true);
+  });
+
+  it('should log the event, deliver it to local handlers at once and NOTIFY the other instances', async () => {
+    const received: BusEvent[] = [];
+    const unsubscribe = subscribeToEvents(event => received.push(event));
+
+    const event = await publishEvent(
+      db, 'trade-expired', { type: 'consumer', id: 'c1' }, { confirmationId: 'tc-1' }, ['confirmation:tc-1']
+    );
+    unsubscribe();
+
+    expect(event).toEqual(expect.objectContaining({
+      id: '42',
+      event: 'trade-expired',
+      audience: { type: 'consumer', id: 'c1' },
+      topics: ['confirmation:tc-1'],
+      data: { confirmationId: 'tc-1' },
+      origin: INSTANCE_ID
+    }));
+    expect(received).toEqual([event]);
+    expect(db.query).toHaveBeenCalledWith('SELECT pg_notify($1, $2)', [TRADE_EVENTS_CHANNEL, JSON.stringify(event)]);
+  });
+
+  it('should send events over the NOTIFY limit by log id', async () => {
+    const data = { parameters: 'x'.repeat(MAX_NOTIFY_PAYLOAD_BYTES) };
+    const event = await publishEvent(db, 'trade-broadcast', { type: 'consumer', id: 'c1' }, data);
+
+    expect(db.query).toHaveBeenCalledWith(
+      'SELECT pg_notify($1, $2)',
+      [TRADE_EVENTS_CHANNEL, JSON.stringify({ ref: event.id, origin: INSTANCE_ID })]
+    );
+  });
+
+  it('should dispatch other instances\' notifications, loading large ones from the log, and skip its own', async () => {
+    const received: string[] = [];
+    const unsubscribe = subscribeToEvents(event => received.push(event.id));
+    await flush();
+
+    const client = (Client as unknown as jest.Mock).mock.instances[0];
+    expect(client.query).toHaveBeenCalledWith(`LISTEN ${TRADE_EVENTS_CHANNEL}`);
+
+    const notify = (client.on as jest.Mock).mock.calls.find(([name]) => name === 'notification')[1];
+    const remote = (id: string) => ({ id, event: 'trade-expired', audience: { type: 'all' }, data: {}, origin: 'other', publishedAt: '' });
+
+    (client.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 7, event: 'trade-broadcast', audience_type: 'all', audience_id: null, data: {}, origin: 'other', created_at: new Date() }]
+    });
+    notify({ channel: TRADE_EVENTS_CHANNEL, payload: JSON.stringify({ ref: '7', origin: 'other' }) });
+    notify({ channel: TRADE_EVENTS_CHANNEL, payload: JSON.stringify({ ...remote('8'), origin: INSTANCE_ID }) });
+    notify({ channel: TRADE_EVENTS_CHANNEL, payload: JSON.stringify(remote('9')) });
+    await flush();
+    unsubscribe();
+
+    expect(client.query).toHaveBeenCalledWith('SELECT * FROM trade_events WHERE id = $1', ['7']);
+    expect(received).toEqual(['7', '9']);
+  });
+
+  it('should replay a recipient\'s events after its last event id, or report the gap', async () => {
+    const lastSeenAt = new Date('2026-10-19T12:00:00Z');
+    db.query
+      .mockResolvedValueOnce({ rows: [{ created_at: lastSeenAt }] })
+      .mockResolvedValueOnce({
+        rows: [{ id: 11, event: 'trade-amended', audience_type: 'consumer', audience_id: 'c1', data: {}, origin: 'other', created_at: lastSeenAt }]
+      });
+
+    const replay = await replayEvents(db, { consumerId: 'c1' }, '10');
+
+    expect(replay).toEqual({ events: [expect.objectContaining({ id: '11', event: 'trade-amended' })], complete: true });
+    expect(db.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('WHERE (id > $1 OR created_at >='),
+      ['10', lastSeenAt, 5, 'c1', null, 1001, null]
+    );
+
+    // Last event already purged from the log
+    db.query.mockResolvedValueOnce({ rows: [] });
+    await expect(replayEvents(db, { consumerId: 'c1' }, '3')).resolves.toEqual({ events: [], complete: false });
+  });
+});
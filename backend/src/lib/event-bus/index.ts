@@ -0,0 +1,256 @@
+/**
+ * Event Bus
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Fan real-time trade events out to every backend instance over Postgres LISTEN/NOTIFY,
+ * so an event published anywhere reaches the clients connected to any instance. Every event is
+ * kept in the trade_events log, whose ids let a reconnecting client resume where it left off.
+ */
+
+import { randomUUID } from 'crypto';
+import { Client } from 'pg';
+import {
+  BusEvent,
+  BusEventHandler,
+  EVENT_LOG_RETENTION_HOURS,
+  EventAudience,
+  EventRecipient,
+  EventReplay,
+  MAX_NOTIFY_PAYLOAD_BYTES,
+  MAX_REPLAY_EVENTS,
+  Queryable,
+  REPLAY_OVERLAP_SECONDS,
+  TRADE_EVENTS_CHANNEL
+} from './types';
+
+export * from './types';
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Identifies this process's events, which it delivers itself rather than from its own NOTIFY
+export const INSTANCE_ID = randomUUID();
+
+const handlers: Set<BusEventHandler> = new Set();
+
+let listener: Client | null = null;
+let receiving: Promise<void> = Promise.resolve(); // Keeps notifications in order while large ones load
+
+// Topics WebSocket clients subscribe to; generator addresses are compared lowercased
+export const strategyTopic = (strategyId: string) => `strategy:${strategyId}`;
+export const generatorTopic = (generatorAddress: string) => `generator:${generatorAddress.toLowerCase()}`;
+export const confirmationTopic = (confirmationId: string) => `confirmation:${confirmationId}`;
+
+/**
+ * Whether an event is meant for a connected client
+ */
+export function isInAudience(audience: EventAudience, recipient: EventRecipient): boolean {
+  switch (audience.type) {
+    case 'consumer':
+      return recipient.consumerId === audience.id;
+    case 'generator':
+      return recipient.generatorId === audience.id;
+    case 'consumers':
+      return !!recipient.consumerId;
+    case 'generators':
+      return !!recipient.generatorId;
+    case 'all':
+      return true;
+  }
+}
+
+/**
+ * Log an event and publish it to every instance. This instance's handlers get it at once; the
+ * others through NOTIFY, which Postgres holds back until commit when `db` is a client inside a
+ * transaction. `topics` are what WebSocket clients subscribe to; SSE clients ignore them.
+ */
+export async function publishEvent(
+  db: Queryable,
+  event: string,
+  audience: EventAudience,
+  data: any,
+  topics: string[] = []
+): Promise<BusEvent> {
+  const result = await db.query(
+    `INSERT INTO trade_events (event, audience_type, audience_id, data, origin, topics)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [event, audience.type, 'id' in audience ? audience.id : null, JSON.stringify(data), INSTANCE_ID, topics]
+  );
+  const busEvent = toBusEvent(result.rows[0]);
+
+  dispatch(busEvent);
+
+  let payload = JSON.stringify(busEvent);
+  if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+    payload = JSON.stringify({ ref: busEvent.id, origin: INSTANCE_ID });
+  }
+
+  await db.query('SELECT pg_notify($1, $2)', [TRADE_EVENTS_CHANNEL, payload]);
+  return busEvent;
+}
+
+/**
+ * Logged events for a client after the last event id it received, oldest first. Includes the
+ * few seconds before that event as well, so clients must skip ids they already have. With
+ * `topics`, only events published under one of them.
+ */
+export async function replayEvents(
+  db: Queryable,
+  recipient: EventRecipient,
+  lastEventId: string,
+  topics?: string[]
+): Promise<EventReplay> {
+  const last = await db.query('SELECT created_at FROM trade_events WHERE id = $1', [lastEventId]);
+  if (last.rows.length === 0) {
+    return { events: [], complete: false };
+  }
+
+  const result = await db.query(
+    `SELECT * FROM trade_events
+     WHERE (id > $1 OR created_at >= $2::timestamptz - make_interval(secs => $3))
+       AND (
+         audience_type = 'all'
+         OR (audience_type = 'consumers' AND $4::text IS NOT NULL)
+         OR (audience_type = 'consumer' AND audience_id = $4)
+         OR (audience_type = 'generators' AND $5::text IS NOT NULL)
+         OR (audience_type = 'generator' AND audience_id = $5)
+       )
+       AND ($7::text[] IS NULL OR topics && $7::text[])
+     ORDER BY id
+     LIMIT $6`,
+    [
+      lastEventId,
+      last.rows[0].created_at,
+      REPLAY_OVERLAP_SECONDS,
+      recipient.consumerId ?? null,
+      recipient.generatorId ?? null,
+      MAX_REPLAY_EVENTS + 1,
+      topics ?? null
+    ]
+  );
+
+  // Too far behind to replay; the caller falls back to current state
+  if (result.rows.length > MAX_REPLAY_EVENTS) {
+    return { events: [], complete: false };
+  }
+
+  return { events: result.rows.map(toBusEvent), complete: true };
+}
+
+/**
+ * Receive every event published by any instance, starting the listener if needed.
+ * Returns a function that removes the handler.
+ */
+export function subscribeToEvents(handler: BusEventHandler): () => void {
+  handlers.add(handler);
+  startEventBusListener();
+
+  return () => {
+    handlers.delete(handler);
+  };
+}
+
+/**
+ * Delete logged events older than `maxAgeHours`; returns how many
+ */
+export async function purgeEventLog(db: Queryable, maxAgeHours: number = EVENT_LOG_RETENTION_HOURS): Promise<number> {
+  const result = await db.query(
+    `DELETE FROM trade_events WHERE created_at < CURRENT_TIMESTAMP - make_interval(hours => $1)`,
+    [maxAgeHours]
+  );
+
+  return result.rowCount || 0;
+}
+
+/**
+ * LISTEN for events published by other instances on a dedicated connection. Idempotent;
+ * reconnects after connection errors. Events published while disconnected are not delivered live;
+ * clients recover them from the log when they reconnect.
+ */
+export function startEventBusListener(connectionString: string | undefined = process.env.DATABASE_URL): void {
+  if (listener || !connectionString) {
+    return;
+  }
+
+  const client = new Client({ connectionString });
+  listener = client;
+
+  const reconnect = (error: Error) => {
+    console.error('Event bus listener error:', error);
+    if (listener !== client) {
+      return;
+    }
+
+    listener = null;
+    client.removeAllListeners();
+    client.end().catch(() => undefined);
+    setTimeout(() => startEventBusListener(connectionString), RECONNECT_DELAY_MS).unref();
+  };
+
+  client.on('notification', message => {
+    if (message.channel !== TRADE_EVENTS_CHANNEL || !message.payload) {
+      return;
+    }
+
+    const payload = message.payload;
+    receiving = receiving
+      .then(() => receiveNotification(client, payload))
+      .catch(error => console.error('Event bus notification dropped:', error.message));
+  });
+  client.on('error', reconnect);
+
+  client.connect()
+    .then(() => client.query(`LISTEN ${TRADE_EVENTS_CHANNEL}`))
+    .catch(reconnect);
+}
+
+/**
+ * Stop listening for other instances' events
+ */
+export async function stopEventBusListener(): Promise<void> {
+  const client = listener;
+  listener = null;
+
+  if (client) {
+    client.removeAllListeners();
+    await client.end();
+  }
+}
+
+async function receiveNotification(client: Client, payload: string): Promise<void> {
+  const message = JSON.parse(payload);
+  if (message.origin === INSTANCE_ID) {
+    return;
+  }
+
+  if (!message.ref) {
+    dispatch(message);
+    return;
+  }
+
+  const result = await client.query('SELECT * FROM trade_events WHERE id = $1', [message.ref]);
+  if (result.rows.length > 0) {
+    dispatch(toBusEvent(result.rows[0]));
+  }
+}
+
+function toBusEvent(row: any): BusEvent {
+  return {
+    id: String(row.id),
+    event: row.event,
+    audience: row.audience_id ? { type: row.audience_type, id: row.audience_id } : { type: row.audience_type },
+    topics: row.topics || [],
+    data: row.data,
+    origin: row.origin,
+    publishedAt: new Date(row.created_at).toISOString()
+  };
+}
+
+function dispatch(event: BusEvent): void {
+  for (const handler of handlers) {
+    try {
+      handler(event);
+    } catch (error: any) {
+      console.error(`Event bus handler failed for ${event.event}:`, error.message);
+    }
+  }
+}
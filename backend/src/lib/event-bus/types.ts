@@ -0,0 +1,54 @@
+/**
+ * Event Bus Types
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Type definitions for real-time trade events shared by every backend instance
+ */
+
+// Postgres channel every instance LISTENs on
+export const TRADE_EVENTS_CHANNEL = 'trade_events';
+
+// NOTIFY payloads are capped at 8000 bytes; larger events are sent by log id only
+export const MAX_NOTIFY_PAYLOAD_BYTES = 7900;
+
+export const EVENT_LOG_RETENTION_HOURS = 24; // How far back a reconnecting client can resume
+export const MAX_REPLAY_EVENTS = 1000;
+
+// Events up to this long before the client's last one are replayed too: log ids are assigned at
+// insert, so a lower id can commit after a higher one the client already has
+export const REPLAY_OVERLAP_SECONDS = 5;
+
+// Connected clients an event is meant for
+export type EventAudience =
+  | { type: 'consumer'; id: string }
+  | { type: 'generator'; id: string }
+  | { type: 'consumers' } // Every connected consumer
+  | { type: 'generators' } // Every connected generator
+  | { type: 'all' };
+
+export interface BusEvent {
+  id: string; // trade_events id; increases with every event published
+  event: string; // SSE event name, e.g. 'trade-broadcast'
+  audience: EventAudience;
+  topics: string[]; // e.g. `strategy:<id>`, `generator:<address>`, `confirmation:<id>`
+  data: any;
+  origin: string; // Instance that published it
+  publishedAt: string;
+}
+
+// A connected client, as far as audiences are concerned
+export interface EventRecipient {
+  consumerId?: string;
+  generatorId?: string;
+}
+
+export type BusEventHandler = (event: BusEvent) => void;
+
+export interface EventReplay {
+  events: BusEvent[]; // Oldest first; may include events the client already has
+  complete: boolean; // False when the log no longer reaches back to the client's last event
+}
+
+// pg Pool, PoolClient or Client
+export interface Queryable {
+  query(text: string, values?: any[]): Promise<any>;
+}
@@ -0,0 +1,116 @@
+/**
+ * Idempotency Key Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Pool } from 'pg';
+import {
+  getIdempotencyService,
+  hashRequest,
+  IdempotencyInProgressError,
+  IdempotencyKeyReuseError,
+  IDEMPOTENCY_LEASE_SECONDS,
+  IDEMPOTENCY_TTL_HOURS,
+  validateIdempotencyKey
+} from '../index';
+
+jest.mock('pg');
+
+describe('Idempotency keys', () => {
+  const consumerId = '00000000-0000-0000-0000-00000000c001';
+  const path = '/api/v1/trade-confirmations/abc';
+
+  describe('validateIdempotencyKey', () => {
+    it('should accept printable keys up to 255 characters', () => {
+      expect(validateIdempotencyKey('7f9c2ba4-e88f-4a1b-9c3d-0b1e2f3a4b5c')).toBeNull();
+      expect(validateIdempotencyKey('')).toMatch('1 to 255');
+      expect(validateIdempotencyKey('x'.repeat(256))).toMatch('1 to 255');
+      expect(validateIdempotencyKey('has space')).toMatch('printable ASCII');
+    });
+  });
+
+  describe('hashRequest', () => {
+    it('should ignore key order but not values, method or path', () => {
+      const hash = hashRequest('PATCH', path, { action: 'accept', slippageBps: 50 });
+
+      expect(hashRequest('patch', path, { slippageBps: 50, action: 'accept' })).toBe(hash);
+      expect(hashRequest('PATCH', path, { action: 'reject', slippageBps: 50 })).not.toBe(hash);
+      expect(hashRequest('POST', path, { action: 'accept', slippageBps: 50 })).not.toBe(hash);
+      expect(hashRequest('PATCH', `${path}x`, { action: 'accept', slippageBps: 50 })).not.toBe(hash);
+    });
+  });
+
+  describe('IdempotencyService.begin', () => {
+    let pool: jest.Mocked<Pool>;
+    const requestHash = hashRequest('PATCH', path, { action: 'accept' });
+
+    beforeEach(() => {
+      pool = new Pool() as jest.Mocked<Pool>;
+    });
+
+    const existing = (row: Record<string, any>) => {
+      (pool.query as jest.Mock).mockImplementation(async (sql: string) =>
+        sql.includes('INSERT') ? { rows: [], rowCount: 0 } : { rows: [row], rowCount: 1 }
+      );
+    };
+
+    it('should claim an unused key', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ idempotency_key: 'k1' }], rowCount: 1 });
+
+      await expect(getIdempotencyService(pool).begin(consumerId, 'k1', requestHash))
+        .resolves.toEqual({ replay: false, claimToken: expect.any(String) });
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hold a claim for a short lease and keep the stored response for the TTL', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ idempotency_key: 'k1' }], rowCount: 1 });
+      const service = getIdempotencyService(pool);
+
+      const claim = await service.begin(consumerId, 'k1', requestHash);
+      await service.complete(consumerId, 'k1', (claim as any).claimToken, 200, { success: true });
+
+      const [[claimSql, claimParams], [completeSql, completeParams]] = (pool.query as jest.Mock).mock.calls;
+      expect(claimSql).toContain('make_interval(secs => $4)');
+      expect(claimParams[3]).toBe(IDEMPOTENCY_LEASE_SECONDS);
+      expect(completeSql).toContain('make_interval(hours => $6)');
+      expect(completeParams[5]).toBe(IDEMPOTENCY_TTL_HOURS);
+    });
+
+    it('should only complete, renew or release the claim holding the key', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ idempotency_key: 'k1' }], rowCount: 1 });
+      const service = getIdempotencyService(pool);
+
+      const first = await service.begin(consumerId, 'k1', requestHash);
+      const second = await service.begin(consumerId, 'k2', requestHash);
+      expect((first as any).claimToken).not.toBe((second as any).claimToken);
+
+      (pool.query as jest.Mock).mockClear().mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(service.complete(consumerId, 'k1', 'lost-token', 200, {})).resolves.toBe(false);
+      await expect(service.renew(consumerId, 'k1', 'lost-token')).resolves.toBe(false);
+      await service.release(consumerId, 'k1', 'lost-token');
+
+      for (const [sql, params] of (pool.query as jest.Mock).mock.calls) {
+        expect(sql).toContain("state = 'IN_PROGRESS' AND claim_token = $3");
+        expect(params[2]).toBe('lost-token');
+      }
+    });
+
+    it('should replay the stored response for a completed request with the same body', async () => {
+      existing({ request_hash: requestHash, state: 'COMPLETED', response_status: 200, response_body: { success: true } });
+
+      await expect(getIdempotencyService(pool).begin(consumerId, 'k1', requestHash))
+        .resolves.toEqual({ replay: true, status: 200, body: { success: true } });
+    });
+
+    it('should reject reuse with a different body and retries while the first is running', async () => {
+      existing({ request_hash: hashRequest('PATCH', path, { action: 'reject' }), state: 'COMPLETED' });
+      await expect(getIdempotencyService(pool).begin(consumerId, 'k1', requestHash))
+        .rejects.toBeInstanceOf(IdempotencyKeyReuseError);
+
+      existing({ request_hash: requestHash, state: 'IN_PROGRESS' });
+      await expect(getIdempotencyService(pool).begin(consumerId, 'k1', requestHash))
+        .rejects.toBeInstanceOf(IdempotencyInProgressError);
+    });
+  });
+});
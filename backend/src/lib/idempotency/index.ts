@@ -0,0 +1,187 @@
+/**
+ * Idempotent Requests
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Store request hashes and responses per Idempotency-Key so retried trade requests
+ * return the original result instead of broadcasting, accepting or executing twice
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import {
+  IdempotencyClaim,
+  IdempotencyInProgressError,
+  IdempotencyKeyReuseError,
+  IDEMPOTENCY_LEASE_SECONDS,
+  IDEMPOTENCY_TTL_HOURS,
+  MAX_IDEMPOTENCY_KEY_LENGTH
+} from './types';
+
+export * from './types';
+
+const KEY_PATTERN = /^[\x21-\x7e]+$/; // Printable ASCII, no spaces
+
+/**
+ * Check an Idempotency-Key header value; returns the problem, or null when it is usable
+ */
+export function validateIdempotencyKey(key: string): string | null {
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`;
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    return 'Idempotency-Key must be printable ASCII without spaces';
+  }
+
+  return null;
+}
+
+/**
+ * JSON with object keys sorted, so bodies that differ only in key order hash the same
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fingerprint of a request: the same key with a different fingerprint is rejected
+ */
+export function hashRequest(method: string, path: string, body: any): string {
+  return createHash('sha256')
+    .update(`${method.toUpperCase()} ${path}\n${canonicalJson(body)}`)
+    .digest('hex');
+}
+
+export class IdempotencyService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Claim a key for a request, or find the stored response of an earlier request with it.
+   * Keys are per caller. A claim is held for IDEMPOTENCY_LEASE_SECONDS unless renewed, so one left behind
+   * by a crashed request is not locked for long; a stored response is kept for IDEMPOTENCY_TTL_HOURS.
+   * Either can be claimed again once it expires.
+   */
+  async begin(callerId: string, idempotencyKey: string, requestHash: string): Promise<IdempotencyClaim> {
+    // A released key can vanish between the insert and the lookup; try the insert once more
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const claimToken = randomUUID();
+      const claimed = await this.pool.query(
+        `INSERT INTO idempotency_keys (caller_id, idempotency_key, request_hash, state, claim_token, expires_at)
+         VALUES ($1, $2, $3, 'IN_PROGRESS', $5, NOW() + make_interval(secs => $4))
+         ON CONFLICT (caller_id, idempotency_key) DO UPDATE
+           SET request_hash = EXCLUDED.request_hash,
+               state = 'IN_PROGRESS',
+               claim_token = EXCLUDED.claim_token,
+               response_status = NULL,
+               response_body = NULL,
+               created_at = NOW(),
+               completed_at = NULL,
+               expires_at = EXCLUDED.expires_at
+           WHERE idempotency_keys.expires_at <= NOW()
+         RETURNING idempotency_key`,
+        [callerId, idempotencyKey, requestHash, IDEMPOTENCY_LEASE_SECONDS, claimToken]
+      );
+
+      if ((claimed.rowCount ?? 0) > 0) {
+        return { replay: false, claimToken };
+      }
+
+      const existing = await this.pool.query(
+        `SELECT request_hash, state, response_status, response_body
+         FROM idempotency_keys
+         WHERE caller_id = $1 AND idempotency_key = $2`,
+        [callerId, idempotencyKey]
+      );
+
+      const row = existing.rows[0];
+      if (!row) continue;
+
+      if (row.request_hash !== requestHash) {
+        throw new IdempotencyKeyReuseError();
+      }
+
+      if (row.state !== 'COMPLETED') {
+        throw new IdempotencyInProgressError();
+      }
+
+      return { replay: true, status: row.response_status, body: row.response_body };
+    }
+
+    throw new IdempotencyInProgressError();
+  }
+
+  /**
+   * Store the response to replay for retries with this key, for IDEMPOTENCY_TTL_HOURS.
+   * Returns false when the claim was lost (its lease lapsed and another request took the key).
+   */
+  async complete(
+    callerId: string,
+    idempotencyKey: string,
+    claimToken: string,
+    status: number,
+    body: any
+  ): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE idempotency_keys
+       SET state = 'COMPLETED', response_status = $4, response_body = $5, completed_at = NOW(),
+           expires_at = NOW() + make_interval(hours => $6)
+       WHERE caller_id = $1 AND idempotency_key = $2 AND state = 'IN_PROGRESS' AND claim_token = $3`,
+      [callerId, idempotencyKey, claimToken, status, JSON.stringify(body ?? null), IDEMPOTENCY_TTL_HOURS]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Extend a running request's claim by IDEMPOTENCY_LEASE_SECONDS; false when the claim was lost
+   */
+  async renew(callerId: string, idempotencyKey: string, claimToken: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE idempotency_keys
+       SET expires_at = NOW() + make_interval(secs => $4)
+       WHERE caller_id = $1 AND idempotency_key = $2 AND state = 'IN_PROGRESS' AND claim_token = $3`,
+      [callerId, idempotencyKey, claimToken, IDEMPOTENCY_LEASE_SECONDS]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Drop a claimed key without a response (the request failed on our side), so a retry runs again
+   */
+  async release(callerId: string, idempotencyKey: string, claimToken: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM idempotency_keys
+       WHERE caller_id = $1 AND idempotency_key = $2 AND state = 'IN_PROGRESS' AND claim_token = $3`,
+      [callerId, idempotencyKey, claimToken]
+    );
+  }
+
+  /**
+   * Delete expired keys; returns how many were removed
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await this.pool.query(`DELETE FROM idempotency_keys WHERE expires_at <= NOW()`);
+    return result.rowCount ?? 0;
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getIdempotencyService(pool: Pool): IdempotencyService {
+  return new IdempotencyService(pool);
+}
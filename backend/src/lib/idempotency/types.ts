@@ -0,0 +1,52 @@
+/**
+ * Idempotency Types
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Type definitions for Idempotency-Key handling on state-changing trade routes
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+export const IDEMPOTENCY_TTL_HOURS = 24; // A key may be reused for a new request after this
+export const IDEMPOTENCY_LEASE_SECONDS = 120; // An IN_PROGRESS claim nobody completed or renewed can be taken over after this
+export const IDEMPOTENCY_RENEW_SECONDS = 40; // A running request extends its claim's lease this often
+
+export type IdempotencyState = 'IN_PROGRESS' | 'COMPLETED';
+
+export interface IdempotencyRecord {
+  callerId: string; // Consumer ID or generator address that sent the request
+  idempotencyKey: string;
+  requestHash: string; // sha256 of method, path and body
+  state: IdempotencyState;
+  claimToken: string | null; // The current claim's holder
+  responseStatus: number | null;
+  responseBody: any;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date; // The claim's lease while IN_PROGRESS, the stored response's TTL once COMPLETED
+}
+
+// What to do with a request carrying a key
+export type IdempotencyClaim =
+  | { replay: false; claimToken: string } // First use: run the request, then complete() or release() the key with the token
+  | { replay: true; status: number; body: any }; // Retry: return the stored response
+
+/**
+ * The key was already used for a request with a different method, path or body
+ */
+export class IdempotencyKeyReuseError extends Error {
+  constructor(message: string = 'Idempotency-Key was already used for a different request') {
+    super(message);
+    this.name = 'IdempotencyKeyReuseError';
+  }
+}
+
+/**
+ * The first request with this key has not finished yet
+ */
+export class IdempotencyInProgressError extends Error {
+  constructor(message: string = 'A request with this Idempotency-Key is still in progress; retry shortly') {
+    super(message);
+    this.name = 'IdempotencyInProgressError';
+  }
+}
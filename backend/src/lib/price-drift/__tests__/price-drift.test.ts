@@ -0,0 +1,90 @@
+/**
+ * Price Drift Guard Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import {
+  capturePrices,
+  DEFAULT_PRICE_DRIFT_RULE,
+  evaluateMissingSnapshot,
+  evaluatePriceDrift,
+  measureDrift,
+  PriceReader,
+  remeasurePrices
+} from '../index';
+
+describe('Price drift guard', () => {
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const wallet = '0x1111111111111111111111111111111111111111';
+
+  const swap = {
+    protocol: 'UNISWAP' as const,
+    functionName: 'exactInputSingle',
+    parameters: { tokenIn: usdc, tokenOut: weth, fee: 500, recipient: wallet, amountIn: '1000000000', amountOutMinimum: '0' }
+  };
+  const supply = {
+    protocol: 'AAVE' as const,
+    functionName: 'supply',
+    parameters: { asset: weth, amount: '1000000000000000000', onBehalfOf: wallet, referralCode: 0 }
+  };
+
+  // Quotes keyed by price kind, so tests can move the market between reads
+  const market = (swapOut: bigint, oraclePrice: bigint): PriceReader =>
+    async ref => ref.kind === 'swap' ? swapOut : oraclePrice;
+
+  it('should snapshot the swap route at the trade size and the oracle price of each leg', async () => {
+    const snapshot = await capturePrices([swap, supply], 'ethereum', market(BigInt(400000), BigInt(250000000000)));
+
+    expect(snapshot!.network).toBe('ethereum');
+    expect(snapshot!.prices).toEqual([
+      expect.objectContaining({
+        key: `swap:${usdc.toLowerCase()}-500-${weth.toLowerCase()}`,
+        leg: 0,
+        baseAmount: '1000000000',
+        quoteAmount: '400000'
+      }),
+      expect.objectContaining({ key: `oracle:${weth.toLowerCase()}`, leg: 1, baseAmount: '1', quoteAmount: '250000000000' })
+    ]);
+  });
+
+  it('should leave out prices that cannot be read, and return null when none can', async () => {
+    const failing: PriceReader = async () => { throw new Error('execution reverted'); };
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(capturePrices([swap], 'ethereum', failing)).resolves.toBeNull();
+  });
+
+  it('should measure signed drift at the snapshot amounts', async () => {
+    const snapshot = await capturePrices([swap], 'ethereum', market(BigInt(400000), BigInt(0)));
+    const drifts = await remeasurePrices(snapshot!, market(BigInt(388000), BigInt(0)));
+
+    expect(drifts).toEqual([
+      expect.objectContaining({ broadcastQuote: '400000', executionQuote: '388000', driftBps: -300 })
+    ]);
+    expect(measureDrift(BigInt(1000), BigInt(1015))).toBe(150);
+  });
+
+  it('should pass, warn or block by the rule', () => {
+    const drifts = [{ key: 'oracle:x', broadcastQuote: '100', executionQuote: '97', driftBps: -300 }];
+
+    expect(evaluatePriceDrift(drifts, { maxDriftBps: 300, action: 'block' }).outcome).toBe('within');
+    expect(evaluatePriceDrift(drifts, DEFAULT_PRICE_DRIFT_RULE)).toEqual(
+      expect.objectContaining({ outcome: 'warned', maxDriftBps: 300 })
+    );
+    expect(evaluatePriceDrift(drifts, { maxDriftBps: 100, action: 'block' }).outcome).toBe('blocked');
+    expect(evaluatePriceDrift([], { maxDriftBps: 100, action: 'block' }).outcome).toBe('unchecked');
+  });
+
+  it('should block price-dependent trades without a snapshot only under a blocking rule', () => {
+    const block = { maxDriftBps: 100, action: 'block' as const };
+    const unknown = { protocol: 'LEGACY' as any, functionName: 'swap', parameters: {} };
+
+    expect(evaluateMissingSnapshot([swap], block)).toEqual(
+      expect.objectContaining({ outcome: 'blocked', reason: expect.stringContaining('no price snapshot') })
+    );
+    expect(evaluateMissingSnapshot([unknown], block).outcome).toBe('blocked');
+    expect(evaluateMissingSnapshot([swap], DEFAULT_PRICE_DRIFT_RULE).outcome).toBe('unchecked');
+    expect(evaluateMissingSnapshot([], block).outcome).toBe('unchecked');
+  });
+});
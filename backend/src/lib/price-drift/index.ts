@@ -0,0 +1,270 @@
+/**
+ * Price Drift Guard
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Snapshot the prices a broadcast depends on and read them again before a consumer
+ * executes, so a trade copied at a very different price is blocked or flagged
+ */
+
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import { getProtocolAdapter, hasProtocolAdapter } from '../protocol-adapters/registry';
+import { PriceRef } from '../protocol-adapters/types';
+import { encodePath } from '../protocol-adapters/uniswap-path';
+import { CONTRACT_ABIS, getProtocolRegistry, ProtocolType } from '../protocol-contracts/registry';
+import { getRpcUrl } from '../protocol-contracts/networks';
+import { getRiskLimitService } from '../risk-limits';
+import {
+  DEFAULT_PRICE_DRIFT_RULE,
+  MarketSnapshot,
+  PriceDrift,
+  PriceDriftCheck,
+  PriceDriftRule,
+  PricePoint,
+  PriceReader
+} from './types';
+
+export * from './types';
+
+const BPS = BigInt(10000);
+
+// QuoterV2's multi-hop quote; the registry ABI only declares the single-pool functions
+const QUOTER_ABI = [
+  ...CONTRACT_ABIS['UNISWAP_QuoterV2'],
+  'function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)'
+];
+const AAVE_POOL_ABI = ['function ADDRESSES_PROVIDER() view returns (address)'];
+const AAVE_ADDRESSES_PROVIDER_ABI = ['function getPriceOracle() view returns (address)'];
+const AAVE_ORACLE_ABI = ['function getAssetPrice(address asset) view returns (uint256)'];
+
+export interface PricedCall {
+  protocol: ProtocolType;
+  functionName: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * Readable identifier of a price reference
+ */
+export function priceKey(ref: PriceRef): string {
+  if (ref.kind === 'oracle') {
+    return `oracle:${ref.asset.toLowerCase()}`;
+  }
+
+  const hops = ref.route.map(hop => `${hop.fee}-${hop.tokenOut.toLowerCase()}`);
+  return `swap:${ref.route[0].tokenIn.toLowerCase()}-${hops.join('-')}`;
+}
+
+/**
+ * Signed move from one quote of the same base amount to another, in basis points
+ */
+export function measureDrift(broadcastQuote: bigint, executionQuote: bigint): number {
+  return Number((executionQuote - broadcastQuote) * BPS / broadcastQuote);
+}
+
+/**
+ * Judge measured drifts against a rule; nothing measured is 'unchecked'
+ */
+export function evaluatePriceDrift(drifts: PriceDrift[], rule: PriceDriftRule): PriceDriftCheck {
+  if (drifts.length === 0) {
+    return { rule, drifts, maxDriftBps: null, outcome: 'unchecked', checkedAt: new Date() };
+  }
+
+  const maxDriftBps = Math.max(...drifts.map(drift => Math.abs(drift.driftBps)));
+  const outcome = maxDriftBps <= rule.maxDriftBps
+    ? 'within'
+    : rule.action === 'block' ? 'blocked' : 'warned';
+
+  return { rule, drifts, maxDriftBps, outcome, checkedAt: new Date() };
+}
+
+/**
+ * Judge a trade whose broadcast has no snapshot. Under a blocking rule a trade that depends on
+ * prices (or whose protocol's prices are unknown) is blocked, as its drift cannot be checked;
+ * anything else is 'unchecked'.
+ */
+export function evaluateMissingSnapshot(calls: PricedCall[], rule: PriceDriftRule): PriceDriftCheck {
+  const dependsOnPrices = calls.some(call => !hasProtocolAdapter(call.protocol) ||
+    (getProtocolAdapter(call.protocol).getPriceRefs?.(call.functionName, call.parameters) || []).length > 0);
+
+  if (rule.action === 'block' && dependsOnPrices) {
+    return {
+      rule,
+      drifts: [],
+      maxDriftBps: null,
+      outcome: 'blocked',
+      reason: 'The broadcast has no price snapshot, so drift cannot be checked',
+      checkedAt: new Date()
+    };
+  }
+
+  return evaluatePriceDrift([], rule);
+}
+
+/**
+ * Read every price the calls depend on. Prices that cannot be read are left out, so a
+ * snapshot never stops a broadcast; null when nothing could be priced.
+ */
+export async function capturePrices(
+  calls: PricedCall[],
+  network: string,
+  readPrice: PriceReader
+): Promise<MarketSnapshot | null> {
+  const prices: PricePoint[] = [];
+
+  for (const [index, call] of calls.entries()) {
+    const refs = getProtocolAdapter(call.protocol).getPriceRefs?.(call.functionName, call.parameters) || [];
+
+    for (const ref of refs) {
+      const baseAmount = ref.kind === 'swap' ? ref.amountIn : '1';
+
+      try {
+        const quote = await readPrice(ref, baseAmount);
+        prices.push({
+          key: priceKey(ref),
+          ref,
+          ...(calls.length > 1 ? { leg: index } : {}),
+          baseAmount,
+          quoteAmount: quote.toString()
+        });
+      } catch (error: any) {
+        console.warn(`Could not price ${priceKey(ref)} on ${network}:`, error.message);
+      }
+    }
+  }
+
+  return prices.length > 0 ? { network, prices, capturedAt: new Date() } : null;
+}
+
+/**
+ * Read a snapshot's prices again at the same base amounts
+ */
+export async function remeasurePrices(snapshot: MarketSnapshot, readPrice: PriceReader): Promise<PriceDrift[]> {
+  const drifts: PriceDrift[] = [];
+
+  for (const point of snapshot.prices) {
+    const broadcastQuote = BigInt(point.quoteAmount);
+    if (broadcastQuote === BigInt(0)) continue;
+
+    try {
+      const executionQuote = await readPrice(point.ref, point.baseAmount);
+      drifts.push({
+        key: point.key,
+        ...(point.leg !== undefined ? { leg: point.leg } : {}),
+        broadcastQuote: point.quoteAmount,
+        executionQuote: executionQuote.toString(),
+        driftBps: measureDrift(broadcastQuote, executionQuote)
+      });
+    } catch (error: any) {
+      console.warn(`Could not re-price ${point.key} on ${snapshot.network}:`, error.message);
+    }
+  }
+
+  return drifts;
+}
+
+/**
+ * Price reader for a network: swaps through Uniswap QuoterV2, assets through the Aave oracle.
+ * Null in simulated mode, where there is no market to read.
+ */
+export function createPriceReader(pool: Pool, network: string): PriceReader | null {
+  if (process.env.EXECUTOR_MODE === 'simulated') {
+    return null;
+  }
+
+  const registry = getProtocolRegistry(pool);
+  let provider: ethers.JsonRpcProvider | undefined;
+  let oracle: ethers.Contract | undefined;
+
+  return async (ref, baseAmount) => {
+    provider = provider || new ethers.JsonRpcProvider(getRpcUrl(network));
+
+    if (ref.kind === 'swap') {
+      const contract = await registry.getContract('UNISWAP', 'QuoterV2', network);
+      if (!contract) {
+        throw new Error(`Uniswap QuoterV2 contract not found on ${network}`);
+      }
+
+      // QuoterV2 functions are non-view (they revert internally), so call them statically
+      const quoter = new ethers.Contract(contract.address, QUOTER_ABI, provider);
+
+      if (ref.route.length === 1) {
+        const [hop] = ref.route;
+        const [amountOut]: bigint[] = await quoter.quoteExactInputSingle.staticCall({
+          tokenIn: hop.tokenIn,
+          tokenOut: hop.tokenOut,
+          fee: BigInt(hop.fee),
+          amountIn: BigInt(baseAmount),
+          sqrtPriceLimitX96: BigInt(0)
+        });
+        return amountOut;
+      }
+
+      const path = encodePath(
+        [ref.route[0].tokenIn, ...ref.route.map(hop => hop.tokenOut)],
+        ref.route.map(hop => hop.fee)
+      );
+      const [amountOut]: bigint[] = await quoter.quoteExactInput.staticCall(path, BigInt(baseAmount));
+      return amountOut;
+    }
+
+    if (!oracle) {
+      const contract = await registry.getContract('AAVE', 'Pool', network);
+      if (!contract) {
+        throw new Error(`Aave Pool contract not found on ${network}`);
+      }
+
+      const aavePool = new ethers.Contract(contract.address, AAVE_POOL_ABI, provider);
+      const addressesProvider = new ethers.Contract(await aavePool.ADDRESSES_PROVIDER(), AAVE_ADDRESSES_PROVIDER_ABI, provider);
+      oracle = new ethers.Contract(await addressesProvider.getPriceOracle(), AAVE_ORACLE_ABI, provider);
+    }
+
+    return oracle.getAssetPrice(ref.asset);
+  };
+}
+
+export class PriceDriftService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Snapshot the prices a broadcast's calls depend on; null when none could be read
+   */
+  async captureSnapshot(calls: PricedCall[], network: string): Promise<MarketSnapshot | null> {
+    const readPrice = createPriceReader(this.pool, network);
+    return readPrice ? capturePrices(calls, network, readPrice) : null;
+  }
+
+  /**
+   * A consumer's drift rule from their risk profile, or the default
+   */
+  async getRule(consumerId: string): Promise<PriceDriftRule> {
+    const profile = await getRiskLimitService(this.pool).getProfile(consumerId);
+    return profile?.priceDriftRule || DEFAULT_PRICE_DRIFT_RULE;
+  }
+
+  /**
+   * Read a broadcast's snapshot prices again and judge the drift by the consumer's rule;
+   * `calls` are what will execute, judged by evaluateMissingSnapshot when there is no snapshot
+   */
+  async checkDrift(consumerId: string, snapshot: MarketSnapshot | null, calls: PricedCall[] = []): Promise<PriceDriftCheck> {
+    const rule = await this.getRule(consumerId);
+
+    // Simulated mode reads no prices, so it never has a snapshot to miss
+    if (!snapshot) {
+      return process.env.EXECUTOR_MODE === 'simulated' ? evaluatePriceDrift([], rule) : evaluateMissingSnapshot(calls, rule);
+    }
+
+    const readPrice = createPriceReader(this.pool, snapshot.network);
+    const drifts = readPrice ? await remeasurePrices(snapshot, readPrice) : [];
+
+    return evaluatePriceDrift(drifts, rule);
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getPriceDriftService(pool: Pool): PriceDriftService {
+  return new PriceDriftService(pool);
+}
@@ -0,0 +1,74 @@
+/**
+ * Price Drift Types
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Type definitions for market snapshots and the price-drift check before execution
+ */
+
+import { PriceRef } from '../protocol-adapters/types';
+
+export type PriceDriftAction = 'block' | 'warn';
+
+export interface PriceDriftRule {
+  maxDriftBps: number; // Largest move, either way, of any price since the broadcast
+  action: PriceDriftAction; // Refuse to execute beyond it, or execute and report it
+}
+
+// Applied when a consumer's risk profile has no rule of its own
+export const DEFAULT_PRICE_DRIFT_RULE: PriceDriftRule = { maxDriftBps: 200, action: 'warn' };
+export const MAX_PRICE_DRIFT_BPS = 10000;
+
+export interface PricePoint {
+  key: string; // e.g. `swap:<tokenIn>-3000-<tokenOut>` or `oracle:<asset>`
+  ref: PriceRef;
+  leg?: number; // Bundle leg the price belongs to
+  baseAmount: string; // Amount priced: the swap's input, or 1 for oracle prices
+  quoteAmount: string; // Quoted output, or the oracle price in its base currency units
+}
+
+export interface MarketSnapshot {
+  network: string;
+  prices: PricePoint[];
+  capturedAt: Date;
+}
+
+export interface PriceDrift {
+  key: string;
+  leg?: number;
+  broadcastQuote: string;
+  executionQuote: string;
+  driftBps: number; // Signed: positive when the same base amount is now worth more
+}
+
+export type PriceDriftOutcome =
+  | 'within' // Every price moved less than the rule allows
+  | 'warned' // Beyond the rule, executed anyway
+  | 'blocked' // Beyond the rule, or unverifiable under a blocking rule; not executed
+  | 'unchecked'; // No snapshot, or no price could be read again
+
+export interface PriceDriftCheck {
+  rule: PriceDriftRule;
+  drifts: PriceDrift[];
+  maxDriftBps: number | null; // Largest absolute drift observed
+  outcome: PriceDriftOutcome;
+  reason?: string; // Why the trade was blocked without a drift being measured
+  checkedAt: Date;
+}
+
+// Reads the current quote for a price reference at the given base amount
+export type PriceReader = (ref: PriceRef, baseAmount: string) => Promise<bigint>;
+
+/**
+ * Thrown when prices moved beyond a blocking drift rule between broadcast and execution
+ */
+export class PriceDriftError extends Error {
+  check: PriceDriftCheck;
+
+  constructor(check: PriceDriftCheck) {
+    super(
+      check.reason ??
+        `Price moved ${check.maxDriftBps} bps since the broadcast, beyond the ${check.rule.maxDriftBps} bps limit`
+    );
+    this.name = 'PriceDriftError';
+    this.check = check;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Protocol Adapter Registry Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import {
+  registerProtocolAdapter,
+  getProtocolAdapter,
+  getRegisteredProtocols,
+  getFunctionSignature,
+  getContractName,
+  FUNCTION_SIGNATURES,
+  ProtocolAdapter
+} from '../index';
+
+jest.mock('pg');
+
+describe('Protocol adapter registry', () => {
+  const compoundAdapter: ProtocolAdapter = {
+    protocol: 'COMPOUND',
+    displayName: 'Compound V3',
+    contractName: 'Comet',
+    functions: {
+      'supply': {
+        name: 'supply',
+        displayName: 'Supply Asset',
+        requiredParams: ['asset', 'amount'],
+        modifiableParams: ['amount'],
+        protocol: 'COMPOUND'
+      },
+      'withdrawTo': {
+        name: 'withdrawTo',
+        displayName: 'Withdraw To',
+        requiredParams: ['to', 'asset', 'amount'],
+        modifiableParams: ['amount'],
+        protocol: 'COMPOUND',
+        contractName: 'CometExt'
+      }
+    },
+    buildCallArgs: (functionName, params) => [params.asset, BigInt(params.amount)],
+    createExecutor: jest.fn() as any
+  };
+
+  beforeAll(() => {
+    registerProtocolAdapter(compoundAdapter);
+  });
+
+  it('should register the built-in adapters at startup', () => {
+    expect(getRegisteredProtocols()).toEqual(expect.arrayContaining(['AAVE', 'UNISWAP']));
+    expect(getProtocolAdapter('AAVE').contractName).toBe('Pool');
+    expect(getProtocolAdapter('UNISWAP').contractName).toBe('SwapRouter');
+  });
+
+  it('should resolve contract names per function', () => {
+    expect(getContractName('AAVE', 'supply')).toBe('Pool');
+    expect(getContractName('COMPOUND', 'supply')).toBe('Comet');
+    expect(getContractName('COMPOUND', 'withdrawTo')).toBe('CometExt');
+  });
+
+  it('should scope function lookups by protocol', () => {
+    expect(getFunctionSignature('supply', 'COMPOUND')?.requiredParams).toEqual(['asset', 'amount']);
+    expect(getFunctionSignature('supply', 'AAVE')?.requiredParams).toHaveLength(4);
+    expect(getFunctionSignature('exactInputSingle', 'AAVE')).toBeUndefined();
+  });
+
+  it('should keep the first registered owner in the flat signature map', () => {
+    expect(FUNCTION_SIGNATURES['supply'].protocol).toBe('AAVE');
+    expect(FUNCTION_SIGNATURES['withdrawTo'].protocol).toBe('COMPOUND');
+  });
+
+  it('should reject duplicate registrations', () => {
+    expect(() => registerProtocolAdapter(compoundAdapter))
+      .toThrow('Protocol adapter already registered: COMPOUND');
+  });
+
+  it('should reject unknown protocols', () => {
+    expect(() => getProtocolAdapter('CURVE')).toThrow('Unsupported protocol: CURVE');
+  });
+
+  it('should build Uniswap swap structs as a single argument', () => {
+    const args = getProtocolAdapter('UNISWAP').buildCallArgs('exactInputSingle', {
+      tokenIn: '0x0000000000000000000000000000000000000001',
+      tokenOut: '0x0000000000000000000000000000000000000002',
+      fee: 500,
+      recipient: '0x0000000000000000000000000000000000000003',
+      deadline: 1700000000,
+      amountIn: '1000',
+      amountOutMinimum: '900',
+      sqrtPriceLimitX96: 0
+    });
+
+    expect(args).toHaveLength(1);
+    expect(args[0].fee).toBe(BigInt(500));
+    expect(args[0].amountIn).toBe(BigInt(1000));
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Uniswap Path Codec Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { decodePath, encodePath, formatPath, parsePathSpec, uniswapAdapter, getSwapRoute } from '../index';
+
+describe('Uniswap path codec', () => {
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+  it('should pack tokens and fees like the router expects', () => {
+    const path = encodePath([usdc, weth, dai], [500, 3000]);
+
+    expect(path).toBe(ethers.solidityPacked(['address', 'uint24', 'address', 'uint24', 'address'], [usdc, 500, weth, 3000, dai]));
+    expect(ethers.dataLength(path)).toBe(66);
+  });
+
+  it('should round-trip hops with checksummed tokens', () => {
+    const path = encodePath([usdc.toLowerCase(), weth, dai], [500, 3000]);
+
+    expect(decodePath(path)).toEqual([
+      { tokenIn: usdc, fee: 500, tokenOut: weth },
+      { tokenIn: weth, fee: 3000, tokenOut: dai }
+    ]);
+  });
+
+  it('should reject malformed routes when encoding', () => {
+    expect(() => encodePath([usdc], [])).toThrow('at least two tokens');
+    expect(() => encodePath([usdc, weth], [500, 3000])).toThrow('needs 1 fees');
+    expect(() => encodePath([usdc, '0x1234'], [500])).toThrow('Invalid token address at position 1');
+    expect(() => encodePath([usdc, weth], [250])).toThrow('Invalid fee tier for hop 1');
+  });
+
+  it('should reject paths that are not 20 + 23n bytes', () => {
+    expect(() => decodePath(usdc)).toThrow('Path length 20');
+    expect(() => decodePath(encodePath([usdc, weth], [500]) + '00')).toThrow('Path length 44');
+    expect(() => decodePath('0xabc')).toThrow('0x-prefixed hex bytes');
+  });
+
+  it('should parse CLI routes and format hops for display', () => {
+    const path = parsePathSpec(`${usdc},500,${weth} 3000 ${dai}`);
+
+    expect(path).toBe(encodePath([usdc, weth, dai], [500, 3000]));
+    expect(formatPath(decodePath(path))).toBe(`${usdc} -(0.05%)-> ${weth} -(0.3%)-> ${dai}`);
+    expect(() => parsePathSpec(`${usdc},500`)).toThrow('alternate token and fee');
+  });
+
+  it('should flag undecodable paths and unknown fee tiers in adapter validation', () => {
+    const badFee = ethers.solidityPacked(['address', 'uint24', 'address'], [usdc, 250, weth]);
+
+    expect(uniswapAdapter.validateParams!('exactInput', { path: encodePath([usdc, weth], [500]) })).toEqual([]);
+    expect(uniswapAdapter.validateParams!('exactInput', { path: badFee })[0]).toMatchObject({ field: 'path', code: 'NOT_ALLOWED' });
+    expect(uniswapAdapter.validateParams!('exactInput', { path: usdc })[0]).toMatchObject({ field: 'path', code: 'INVALID_TYPE' });
+  });
+
+  it('should describe swap routes for confirmations', () => {
+    expect(getSwapRoute('UNISWAP', 'exactInput', { path: encodePath([usdc, weth, dai], [500, 3000]) })).toHaveLength(2);
+    expect(getSwapRoute('UNISWAP', 'exactInputSingle', { tokenIn: usdc, tokenOut: weth, fee: 500 }))
+      .toEqual([{ tokenIn: usdc, fee: 500, tokenOut: weth }]);
+    expect(getSwapRoute('AAVE', 'supply', {})).toBeNull();
+  });
+});
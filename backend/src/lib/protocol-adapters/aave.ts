@@ -0,0 +1,109 @@
+/**
+ * AAVE Protocol Adapter
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: AAVE V3 Pool functions, parameter ordering and executor wiring
+ */
+
+import { ProtocolAdapter } from './types';
+import { AAVEExecutor } from '../protocol-executor/aave-executor';
+
+export const aaveAdapter: ProtocolAdapter = {
+  protocol: 'AAVE',
+  displayName: 'Aave V3',
+  contractName: 'Pool',
+  functions: {
+    'supply': {
+      name: 'supply',
+      displayName: 'Supply Asset',
+      requiredParams: ['asset', 'amount', 'onBehalfOf', 'referralCode'],
+      modifiableParams: ['amount'],
+      sizing: { amount: 'amount' },
+      protocol: 'AAVE'
+    },
+    'withdraw': {
+      name: 'withdraw',
+      displayName: 'Withdraw Asset',
+      requiredParams: ['asset', 'amount', 'to'],
+      modifiableParams: ['amount'],
+      sizing: { amount: 'amount' },
+      protocol: 'AAVE'
+    },
+    'borrow': {
+      name: 'borrow',
+      displayName: 'Borrow Asset',
+      requiredParams: ['asset', 'amount', 'interestRateMode', 'referralCode', 'onBehalfOf'],
+      modifiableParams: ['amount'],
+      sizing: { amount: 'amount' },
+      protocol: 'AAVE'
+    },
+    'repay': {
+      name: 'repay',
+      displayName: 'Repay Debt',
+      requiredParams: ['asset', 'amount', 'interestRateMode', 'onBehalfOf'],
+      modifiableParams: ['amount'],
+      sizing: { amount: 'amount' },
+      protocol: 'AAVE'
+    }
+  },
+
+  paramConstraints: {
+    amount: { positive: true },
+    interestRateMode: { allowedValues: [1, 2] } // 1 = stable, 2 = variable
+  },
+
+  /**
+   * Pool functions take flat arguments in the order defined by the signature
+   */
+  buildCallArgs(functionName: string, params: Record<string, any>): any[] {
+    const signature = this.functions[functionName];
+    if (!signature) {
+      throw new Error(`Unknown function: ${functionName}`);
+    }
+
+    return signature.requiredParams.map(param => {
+      const value = params[param];
+
+      // Convert amounts to BigInt
+      if (param === 'amount' || param.includes('Amount')) {
+        return BigInt(value);
+      }
+
+      return value;
+    });
+  },
+
+  /**
+   * Supply and repay pull the asset from the caller; withdraw and borrow only pay out
+   */
+  getTokenSpend(functionName: string, params: Record<string, any>) {
+    if (functionName === 'supply' || functionName === 'repay') {
+      return { token: params.asset, amount: BigInt(params.amount) };
+    }
+
+    return null;
+  },
+
+  /**
+   * Every Pool call moves `amount` of one asset; borrow and repay change the debt in it
+   */
+  getExposure(functionName: string, params: Record<string, any>) {
+    const amount = BigInt(params.amount);
+
+    return {
+      assets: [params.asset],
+      notional: { token: params.asset, amount },
+      debtChange: functionName === 'borrow' ? amount : functionName === 'repay' ? -amount : BigInt(0)
+    };
+  },
+
+  /**
+   * The call's asset, priced by the Aave oracle
+   */
+  getPriceRefs(functionName: string, params: Record<string, any>) {
+    return params.asset ? [{ kind: 'oracle' as const, asset: params.asset }] : [];
+  },
+
+  createExecutor(config, pool) {
+    return new AAVEExecutor(config, pool);
+  }
+};
@@ -0,0 +1,29 @@
+/**
+ * Protocol Adapters Main Module
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Registers the built-in protocol adapters and exposes the adapter registry
+ */
+
+import { registerProtocolAdapter, hasProtocolAdapter } from './registry';
+import { aaveAdapter } from './aave';
+import { uniswapAdapter } from './uniswap';
+
+export * from './types';
+export * from './registry';
+export * from './uniswap-path';
+export { aaveAdapter, uniswapAdapter };
+
+/**
+ * Register the adapters that ship with the backend.
+ * Safe to call more than once; additional protocols register themselves
+ * with registerProtocolAdapter() during startup.
+ */
+export function registerBuiltInAdapters(): void {
+  for (const adapter of [aaveAdapter, uniswapAdapter]) {
+    if (!hasProtocolAdapter(adapter.protocol)) {
+      registerProtocolAdapter(adapter);
+    }
+  }
+}
+
+registerBuiltInAdapters();
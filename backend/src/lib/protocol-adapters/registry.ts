@@ -0,0 +1,102 @@
+/**
+ * Protocol Adapter Registry
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Runtime registry of protocol adapters and their function signatures
+ */
+
+import type { FunctionSignature, ProtocolType } from '../protocol-contracts/registry';
+import { ProtocolAdapter, SwapHop } from './types';
+
+const adapters: Map<ProtocolType, ProtocolAdapter> = new Map();
+
+// Flat function name lookup across all registered protocols.
+// The first protocol to register a function name owns it here; use
+// getFunctionSignature(name, protocol) when the protocol is known.
+export const FUNCTION_SIGNATURES: Record<string, FunctionSignature> = {};
+
+/**
+ * Register a protocol adapter
+ */
+export function registerProtocolAdapter(adapter: ProtocolAdapter): void {
+  if (adapters.has(adapter.protocol)) {
+    throw new Error(`Protocol adapter already registered: ${adapter.protocol}`);
+  }
+
+  for (const [name, signature] of Object.entries(adapter.functions)) {
+    if (signature.protocol !== adapter.protocol) {
+      throw new Error(`Function ${name} declares protocol ${signature.protocol}, expected ${adapter.protocol}`);
+    }
+
+    if (!FUNCTION_SIGNATURES[name]) {
+      FUNCTION_SIGNATURES[name] = signature;
+    }
+  }
+
+  adapters.set(adapter.protocol, adapter);
+}
+
+/**
+ * Check whether a protocol has a registered adapter
+ */
+export function hasProtocolAdapter(protocol: ProtocolType): boolean {
+  return adapters.has(protocol);
+}
+
+/**
+ * Get the adapter for a protocol
+ */
+export function getProtocolAdapter(protocol: ProtocolType): ProtocolAdapter {
+  const adapter = adapters.get(protocol);
+  if (!adapter) {
+    throw new Error(`Unsupported protocol: ${protocol}`);
+  }
+  return adapter;
+}
+
+/**
+ * List all registered adapters
+ */
+export function listProtocolAdapters(): ProtocolAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * List all registered protocol identifiers
+ */
+export function getRegisteredProtocols(): ProtocolType[] {
+  return Array.from(adapters.keys());
+}
+
+/**
+ * Look up a function signature, optionally scoped to a protocol
+ */
+export function getFunctionSignature(
+  functionName: string,
+  protocol?: ProtocolType
+): FunctionSignature | undefined {
+  if (protocol) {
+    return adapters.get(protocol)?.functions[functionName];
+  }
+  return FUNCTION_SIGNATURES[functionName];
+}
+
+/**
+ * Resolve the protocol_contracts.contract_name that serves a function
+ */
+export function getContractName(protocol: ProtocolType, functionName?: string): string {
+  const adapter = getProtocolAdapter(protocol);
+  const signature = functionName ? adapter.functions[functionName] : undefined;
+  return signature?.contractName || adapter.contractName;
+}
+
+/**
+ * Readable route of a swap call for display; null for non-swaps and unknown protocols
+ */
+export function getSwapRoute(
+  protocol: ProtocolType,
+  functionName: string,
+  params: Record<string, any>
+): SwapHop[] | null {
+  const adapter = adapters.get(protocol);
+  return adapter?.getRoute?.(functionName, params) || null;
+}
@@ -0,0 +1,85 @@
+/**
+ * Protocol Adapter Types
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Contract every pluggable DeFi protocol integration implements
+ */
+
+import { Pool } from 'pg';
+import type { FunctionSignature, ParamFieldError, ProtocolType } from '../protocol-contracts/registry';
+import type { ExecutorConfig, ProtocolExecutor } from '../protocol-executor/types';
+
+export interface ParamConstraint {
+  allowedValues?: number[]; // Semantic enums the ABI cannot express (fee tiers, rate modes)
+  positive?: boolean; // Reject zero for amounts that must move funds
+}
+
+export interface TokenSpend {
+  token: string; // ERC-20 the protocol contract pulls from the caller
+  amount: bigint; // Most the call can pull, in token base units
+}
+
+export interface TradeExposure {
+  assets: string[]; // Every token the call touches
+  notional: TokenSpend | null; // Asset and amount the trade moves, for size and volume limits
+  debtChange?: bigint; // Change in debt of the notional asset (positive borrows, negative repays)
+}
+
+// A market price a trade depends on, captured at broadcast and re-read before execution
+export type PriceRef =
+  | { kind: 'swap'; route: SwapHop[]; amountIn: string } // Output the route quotes for this input
+  | { kind: 'oracle'; asset: string }; // The protocol's oracle price of the asset
+
+export interface SwapHop {
+  tokenIn: string;
+  fee: number; // Pool fee tier in hundredths of a bip
+  tokenOut: string;
+}
+
+export interface ProtocolAdapter {
+  protocol: ProtocolType; // Identifier stored in strategies, broadcasts and protocol_contracts
+  displayName: string;
+  contractName: string; // Default protocol_contracts.contract_name for this protocol's functions
+  functions: Record<string, FunctionSignature>;
+  paramConstraints?: Record<string, ParamConstraint>; // Applied on top of the ABI-derived types
+  helperContracts?: Record<string, string[]>; // Read-only contracts (e.g. quoters) and the functions their ABI must declare
+
+  /**
+   * Build the positional arguments for the contract call, in ABI order
+   */
+  buildCallArgs(functionName: string, params: Record<string, any>): any[];
+
+  /**
+   * Native value (wei) to attach to the call, if any
+   */
+  getCallValue?(functionName: string, params: Record<string, any>): bigint;
+
+  /**
+   * ERC-20 the call transfers from the caller, which needs an allowance first; null if none
+   */
+  getTokenSpend?(functionName: string, params: Record<string, any>): TokenSpend | null;
+
+  /**
+   * Checks the ABI cannot express, such as encoded paths; only params present are checked
+   */
+  validateParams?(functionName: string, params: Record<string, any>): ParamFieldError[];
+
+  /**
+   * Readable swap route for display; null if the call is not a swap or the route is malformed
+   */
+  getRoute?(functionName: string, params: Record<string, any>): SwapHop[] | null;
+
+  /**
+   * What the call exposes the caller to, for consumer risk limits
+   */
+  getExposure?(functionName: string, params: Record<string, any>): TradeExposure;
+
+  /**
+   * Market prices the call depends on, for the price-drift check between broadcast and execution
+   */
+  getPriceRefs?(functionName: string, params: Record<string, any>): PriceRef[];
+
+  /**
+   * Create the executor that submits this protocol's transactions
+   */
+  createExecutor(config: ExecutorConfig, pool: Pool): ProtocolExecutor;
+}
@@ -0,0 +1,112 @@
+/**
+ * Uniswap Path Codec
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Encode token/fee/token hops into exactInput path bytes and decode them back
+ */
+
+import { ethers } from 'ethers';
+import { SwapHop } from './types';
+
+export const UNISWAP_FEE_TIERS = [100, 500, 3000, 10000]; // Hundredths of a bip
+export const MAX_PATH_HOPS = 4;
+
+// Path is tokenIn (20 bytes) | fee (3 bytes) | token | ... | tokenOut
+const ADDRESS_BYTES = 20;
+const FEE_BYTES = 3;
+const HOP_BYTES = ADDRESS_BYTES + FEE_BYTES;
+
+/**
+ * Encode a route of tokens and the fee tier between each pair into path bytes
+ */
+export function encodePath(tokens: string[], fees: number[]): string {
+  if (tokens.length < 2) {
+    throw new Error('Path needs at least two tokens');
+  }
+
+  if (fees.length !== tokens.length - 1) {
+    throw new Error(`Path with ${tokens.length} tokens needs ${tokens.length - 1} fees, got ${fees.length}`);
+  }
+
+  if (fees.length > MAX_PATH_HOPS) {
+    throw new Error(`Path has ${fees.length} hops (max ${MAX_PATH_HOPS})`);
+  }
+
+  tokens.forEach((token, index) => {
+    if (!ethers.isAddress(token)) {
+      throw new Error(`Invalid token address at position ${index}: ${token}`);
+    }
+  });
+
+  fees.forEach((fee, index) => {
+    if (!UNISWAP_FEE_TIERS.includes(Number(fee))) {
+      throw new Error(`Invalid fee tier for hop ${index + 1}: ${fee} (must be one of ${UNISWAP_FEE_TIERS.join(', ')})`);
+    }
+  });
+
+  const types = tokens.flatMap((_, index) => index === 0 ? ['address'] : ['uint24', 'address']);
+  const values = tokens.flatMap((token, index) => index === 0 ? [token] : [Number(fees[index - 1]), token]);
+
+  return ethers.solidityPacked(types, values);
+}
+
+/**
+ * Decode path bytes into hops with checksummed tokens
+ */
+export function decodePath(path: string): SwapHop[] {
+  if (typeof path !== 'string' || !ethers.isHexString(path, true)) {
+    throw new Error('Path must be 0x-prefixed hex bytes');
+  }
+
+  const length = ethers.dataLength(path);
+
+  if (length < ADDRESS_BYTES + HOP_BYTES || (length - ADDRESS_BYTES) % HOP_BYTES !== 0) {
+    throw new Error(`Path length ${length} is not 20 + 23n bytes (n >= 1)`);
+  }
+
+  const hops: SwapHop[] = [];
+
+  for (let offset = 0; offset + ADDRESS_BYTES < length; offset += HOP_BYTES) {
+    hops.push({
+      tokenIn: ethers.getAddress(ethers.dataSlice(path, offset, offset + ADDRESS_BYTES)),
+      fee: Number(ethers.toBigInt(ethers.dataSlice(path, offset + ADDRESS_BYTES, offset + HOP_BYTES))),
+      tokenOut: ethers.getAddress(ethers.dataSlice(path, offset + HOP_BYTES, offset + HOP_BYTES + ADDRESS_BYTES))
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * Parse a CLI route such as "0xA..,3000,0xB..,500,0xC.." (token, fee, token, ...) into path bytes
+ */
+export function parsePathSpec(spec: string): string {
+  const parts = spec.split(/[\s,]+/).filter(Boolean);
+
+  if (parts.length % 2 === 0) {
+    throw new Error('Route must alternate token and fee, starting and ending with a token');
+  }
+
+  const tokens = parts.filter((_, index) => index % 2 === 0);
+  const fees = parts.filter((_, index) => index % 2 === 1).map(fee => {
+    if (!/^\d+$/.test(fee)) {
+      throw new Error(`Invalid fee tier: ${fee}`);
+    }
+    return Number(fee);
+  });
+
+  return encodePath(tokens, fees);
+}
+
+/**
+ * Render hops as "tokenIn -(0.3%)-> token -(0.05%)-> tokenOut"
+ */
+export function formatPath(hops: SwapHop[]): string {
+  if (hops.length === 0) {
+    return '';
+  }
+
+  return hops.reduce(
+    (route, hop) => `${route} -(${hop.fee / 10000}%)-> ${hop.tokenOut}`,
+    hops[0].tokenIn
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Uniswap Protocol Adapter
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Uniswap V3 SwapRouter functions, swap structs and executor wiring
+ */
+
+import { ProtocolAdapter } from './types';
+import { UNISWAP_FEE_TIERS, decodePath } from './uniswap-path';
+import { UniswapExecutor } from '../protocol-executor/uniswap-executor';
+
+// Mainnet WETH - swaps from WETH are funded with native ETH
+const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+export const uniswapAdapter: ProtocolAdapter = {
+  protocol: 'UNISWAP',
+  displayName: 'Uniswap V3',
+  contractName: 'SwapRouter',
+  functions: {
+    'exactInputSingle': {
+      name: 'exactInputSingle',
+      displayName: 'Swap Exact Input',
+      requiredParams: ['tokenIn', 'tokenOut', 'fee', 'recipient', 'deadline', 'amountIn', 'amountOutMinimum', 'sqrtPriceLimitX96'],
+      modifiableParams: ['amountIn', 'amountOutMinimum'],
+      sizing: { amount: 'amountIn', bounds: { amountOutMinimum: 'min' } },
+      protocol: 'UNISWAP'
+    },
+    'exactOutputSingle': {
+      name: 'exactOutputSingle',
+      displayName: 'Swap Exact Output',
+      requiredParams: ['tokenIn', 'tokenOut', 'fee', 'recipient', 'deadline', 'amountOut', 'amountInMaximum', 'sqrtPriceLimitX96'],
+      modifiableParams: ['amountOut', 'amountInMaximum'],
+      sizing: { amount: 'amountOut', bounds: { amountInMaximum: 'max' } },
+      protocol: 'UNISWAP'
+    },
+    'exactInput': {
+      name: 'exactInput',
+      displayName: 'Multi-hop Swap',
+      requiredParams: ['path', 'recipient', 'deadline', 'amountIn', 'amountOutMinimum'],
+      modifiableParams: ['amountIn', 'amountOutMinimum'],
+      sizing: { amount: 'amountIn', bounds: { amountOutMinimum: 'min' } },
+      protocol: 'UNISWAP'
+    }
+  },
+
+  paramConstraints: {
+    fee: { allowedValues: UNISWAP_FEE_TIERS }, // Uniswap V3 fee tiers (hundredths of a bip)
+    amountIn: { positive: true },
+    amountOut: { positive: true },
+    amountInMaximum: { positive: true },
+    amountOutMinimum: { positive: true }
+  },
+
+  helperContracts: {
+    QuoterV2: ['quoteExactInputSingle', 'quoteExactOutputSingle'] // Prices swaps for slippage bounds
+  },
+
+  /**
+   * SwapRouter functions take a single params struct
+   */
+  buildCallArgs(functionName: string, params: Record<string, any>): any[] {
+    if (functionName === 'exactInputSingle' || functionName === 'exactOutputSingle') {
+      return [{
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        fee: BigInt(params.fee || 3000), // Default to 0.3% fee tier
+        recipient: params.recipient,
+        deadline: BigInt(params.deadline || Math.floor(Date.now() / 1000) + 1200), // 20 minutes
+        amountIn: functionName === 'exactInputSingle' ? BigInt(params.amountIn) : undefined,
+        amountOut: functionName === 'exactOutputSingle' ? BigInt(params.amountOut) : undefined,
+        amountOutMinimum: functionName === 'exactInputSingle' ? BigInt(params.amountOutMinimum || 0) : undefined,
+        amountInMaximum: functionName === 'exactOutputSingle' ? BigInt(params.amountInMaximum) : undefined,
+        sqrtPriceLimitX96: BigInt(params.sqrtPriceLimitX96 || 0)
+      }];
+    } else if (functionName === 'exactInput') {
+      return [{
+        path: params.path,
+        recipient: params.recipient,
+        deadline: BigInt(params.deadline || Math.floor(Date.now() / 1000) + 1200),
+        amountIn: BigInt(params.amountIn),
+        amountOutMinimum: BigInt(params.amountOutMinimum || 0)
+      }];
+    }
+
+    throw new Error(`Unsupported Uniswap function: ${functionName}`);
+  },
+
+  /**
+   * Swaps from WETH are paid with native ETH
+   */
+  getCallValue(functionName: string, params: Record<string, any>): bigint {
+    if (params.tokenIn === WETH_ADDRESS) {
+      if (functionName === 'exactInputSingle' || functionName === 'exactInput') {
+        return BigInt(params.amountIn);
+      } else if (functionName === 'exactOutputSingle') {
+        return BigInt(params.amountInMaximum);
+      }
+    }
+
+    return BigInt(0);
+  },
+
+  /**
+   * Swaps pull tokenIn (the first token of a multi-hop path) unless it is paid with native ETH
+   */
+  getTokenSpend(functionName: string, params: Record<string, any>) {
+    if (this.getCallValue!(functionName, params) > BigInt(0)) {
+      return null;
+    }
+
+    if (functionName === 'exactInputSingle') {
+      return { token: params.tokenIn, amount: BigInt(params.amountIn) };
+    } else if (functionName === 'exactOutputSingle') {
+      return { token: params.tokenIn, amount: BigInt(params.amountInMaximum) };
+    } else if (functionName === 'exactInput') {
+      return { token: decodePath(params.path)[0].tokenIn, amount: BigInt(params.amountIn) };
+    }
+
+    return null;
+  },
+
+  /**
+   * Swaps touch every token on the route; notional is what is paid in
+   */
+  getExposure(functionName: string, params: Record<string, any>) {
+    const route = this.getRoute!(functionName, params) || [];
+    const assets = route.length > 0 ? [route[0].tokenIn, ...route.map(hop => hop.tokenOut)] : [];
+
+    if (functionName === 'exactOutputSingle') {
+      return { assets, notional: { token: params.tokenIn, amount: BigInt(params.amountInMaximum) } };
+    }
+
+    return {
+      assets,
+      notional: route.length > 0 ? { token: route[0].tokenIn, amount: BigInt(params.amountIn) } : null
+    };
+  },
+
+  /**
+   * The route priced at the trade's input size (amountInMaximum for exact-output swaps)
+   */
+  getPriceRefs(functionName: string, params: Record<string, any>) {
+    const route = this.getRoute!(functionName, params);
+    const amountIn = functionName === 'exactOutputSingle' ? params.amountInMaximum : params.amountIn;
+
+    return route && amountIn !== undefined ? [{ kind: 'swap' as const, route, amountIn: String(amountIn) }] : [];
+  },
+
+  /**
+   * exactInput paths must decode to hops over known fee tiers
+   */
+  validateParams(functionName: string, params: Record<string, any>) {
+    if (functionName !== 'exactInput' || typeof params.path !== 'string') {
+      return [];
+    }
+
+    try {
+      const hops = decodePath(params.path);
+      const badHop = hops.findIndex(hop => !UNISWAP_FEE_TIERS.includes(hop.fee));
+
+      if (badHop >= 0) {
+        return [{
+          field: 'path',
+          code: 'NOT_ALLOWED' as const,
+          message: `path hop ${badHop + 1} has fee ${hops[badHop].fee}; must be one of ${UNISWAP_FEE_TIERS.join(', ')}`,
+          expected: UNISWAP_FEE_TIERS.join(' | ')
+        }];
+      }
+    } catch (error: any) {
+      return [{ field: 'path', code: 'INVALID_TYPE' as const, message: `Invalid path: ${error.message}`, expected: 'bytes' }];
+    }
+
+    return [];
+  },
+
+  /**
+   * Single-pool swaps are one hop; exactInput hops come from the path
+   */
+  getRoute(functionName: string, params: Record<string, any>) {
+    if (functionName === 'exactInputSingle' || functionName === 'exactOutputSingle') {
+      return [{ tokenIn: params.tokenIn, fee: Number(params.fee || 3000), tokenOut: params.tokenOut }];
+    }
+
+    if (functionName === 'exactInput') {
+      try {
+        return decodePath(params.path);
+      } catch {
+        return null;
+      }
+    }
+
+    return null;
+  },
+
+  createExecutor(config, pool) {
+    return new UniswapExecutor(config, pool);
+  }
+};
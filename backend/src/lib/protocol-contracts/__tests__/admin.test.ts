@@ -0,0 +1,157 @@
+/**
+ * Protocol Contract Admin Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Pool } from 'pg';
+import { ContractAbiError, getProtocolContractAdmin, isAdminAuthorized, validateContractAbi } from '../admin';
+import { CONTRACT_ABIS, getProtocolRegistry } from '../registry';
+
+jest.mock('pg');
+
+describe('Protocol contract admin', () => {
+  const aaveAbi = CONTRACT_ABIS['AAVE_Pool'];
+  const poolAddress = '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2';
+
+  const contractRow = {
+    id: 'contract-2',
+    protocol: 'AAVE',
+    contract_name: 'Pool',
+    network: 'localhost',
+    chain_id: 31337,
+    address: poolAddress,
+    abi: aaveAbi,
+    version: '3.1.0',
+    is_active: true,
+    updated_at: new Date()
+  };
+
+  describe('validateContractAbi', () => {
+    it('should accept an ABI with every function the adapter calls', () => {
+      expect(validateContractAbi('AAVE', 'Pool', aaveAbi)).toEqual({ valid: true, errors: [], missingFunctions: [] });
+    });
+
+    it('should list adapter functions missing from the ABI', () => {
+      const result = validateContractAbi('AAVE', 'Pool', aaveAbi.filter(item => item.name !== 'repay'));
+
+      expect(result.valid).toBe(false);
+      expect(result.missingFunctions).toEqual(['repay']);
+    });
+
+    it('should reject malformed ABIs and unknown contracts', () => {
+      expect(validateContractAbi('AAVE', 'Pool', { name: 'supply' }).errors).toEqual(['ABI must be a JSON array']);
+      expect(validateContractAbi('AAVE', 'Pool', [{ type: 'function', name: 'supply', inputs: [{ type: 'nope' }] }]).valid)
+        .toBe(false);
+      expect(validateContractAbi('AAVE', 'Oracle', aaveAbi).errors).toEqual(['No AAVE functions are served by contract Oracle']);
+    });
+  });
+
+  describe('isAdminAuthorized', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should require the configured bearer token', () => {
+      process.env = { ...env, ADMIN_API_KEY: 'secret' };
+
+      expect(isAdminAuthorized('Bearer secret')).toBe(true);
+      expect(isAdminAuthorized('Bearer wrong')).toBe(false);
+      expect(isAdminAuthorized(null)).toBe(false);
+    });
+
+    it('should reject every request when no key is configured', () => {
+      process.env = { ...env };
+      delete process.env.ADMIN_API_KEY;
+
+      expect(isAdminAuthorized('Bearer ')).toBe(false);
+    });
+  });
+
+  describe('ProtocolContractAdmin', () => {
+    let pool: jest.Mocked<Pool>;
+    let client: { query: jest.Mock; release: jest.Mock };
+
+    beforeEach(() => {
+      pool = new Pool() as jest.Mocked<Pool>;
+      client = { query: jest.fn(), release: jest.fn() };
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+      getProtocolRegistry(pool).clearCache();
+    });
+
+    it('should reject an ABI missing adapter functions before touching the database', async () => {
+      const admin = getProtocolContractAdmin(pool);
+
+      await expect(admin.addContractVersion({
+        protocol: 'AAVE',
+        network: 'localhost',
+        address: poolAddress,
+        abi: aaveAbi.filter(item => item.name !== 'borrow'),
+        version: '3.1.0'
+      })).rejects.toBeInstanceOf(ContractAbiError);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should deactivate the active version when adding a new one', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('SELECT id')) return { rows: [] };
+        if (sql.includes('INSERT INTO protocol_contracts')) return { rows: [contractRow] };
+        return { rows: [] };
+      });
+
+      const contract = await getProtocolContractAdmin(pool).addContractVersion({
+        protocol: 'AAVE',
+        network: 'anvil',
+        address: poolAddress,
+        abi: aaveAbi,
+        version: '3.1.0'
+      });
+
+      const statements = client.query.mock.calls.map(call => call[0].trim().split(/\s+/)[0]);
+      expect(statements).toEqual(['BEGIN', 'SELECT', 'UPDATE', 'INSERT', 'COMMIT']);
+
+      const insertParams = client.query.mock.calls[3][1];
+      expect(insertParams.slice(0, 4)).toEqual(['AAVE', 'Pool', 'localhost', 31337]);
+      expect(insertParams[4]).toBe('0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2');
+      expect(contract).toMatchObject({ id: 'contract-2', version: '3.1.0', chainId: 31337, isActive: true });
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should refuse to overwrite an existing version', async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.startsWith('SELECT id') ? { rows: [{ id: 'contract-1' }] } : { rows: [] }
+      );
+
+      await expect(getProtocolContractAdmin(pool).addContractVersion({
+        protocol: 'AAVE',
+        network: 'localhost',
+        address: poolAddress,
+        abi: aaveAbi,
+        version: '3.0.0'
+      })).rejects.toThrow('Version 3.0.0 already exists for AAVE Pool on localhost');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should drop cached registry entries when a version is activated', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ ...contractRow, id: 'contract-1', version: '3.0.0' }] });
+      const registry = getProtocolRegistry(pool);
+
+      expect((await registry.getContract('AAVE', 'Pool', 'localhost'))!.version).toBe('3.0.0');
+
+      client.query.mockImplementation(async (sql: string) =>
+        sql.startsWith('SELECT') || sql.startsWith('UPDATE protocol_contracts SET is_active = $2')
+          ? { rows: [contractRow] }
+          : { rows: [] }
+      );
+      await getProtocolContractAdmin(pool).setContractActive('contract-2', true);
+
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [contractRow] });
+      expect((await registry.getContract('AAVE', 'Pool', 'localhost'))!.version).toBe('3.1.0');
+    });
+  });
+});
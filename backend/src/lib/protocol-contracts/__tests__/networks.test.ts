@@ -0,0 +1,67 @@
+/**
+ * Network Registry Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { assertNetworkMatch, getRpcUrl, isSupportedNetwork, resolveNetwork } from '../networks';
+
+describe('Network registry', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.BLOCKCHAIN_RPC_URL;
+    delete process.env.RPC_URL_31337;
+    delete process.env.RPC_URL_11155111;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('resolveNetwork', () => {
+    it('should resolve names, aliases and chain IDs to the same network', () => {
+      expect(resolveNetwork('sepolia').chainId).toBe(11155111);
+      expect(resolveNetwork('testnet').name).toBe('sepolia');
+      expect(resolveNetwork(31337).name).toBe('localhost');
+      expect(resolveNetwork('31337').name).toBe('localhost');
+      expect(resolveNetwork('Anvil').name).toBe('localhost');
+    });
+
+    it('should reject unknown networks', () => {
+      expect(() => resolveNetwork('goerli')).toThrow('Unsupported network: goerli');
+      expect(isSupportedNetwork(5)).toBe(false);
+    });
+  });
+
+  describe('getRpcUrl', () => {
+    it('should prefer the per-chain env var over legacy settings', () => {
+      process.env.BLOCKCHAIN_RPC_URL = 'http://anvil:8545';
+      expect(getRpcUrl('localhost')).toBe('http://anvil:8545');
+
+      process.env.RPC_URL_31337 = 'http://anvil-2:8545';
+      expect(getRpcUrl('localhost')).toBe('http://anvil-2:8545');
+      expect(getRpcUrl('localhost', { 31337: 'http://override:8545' })).toBe('http://override:8545');
+    });
+
+    it('should fail when a network has no RPC configured', () => {
+      expect(() => getRpcUrl('sepolia')).toThrow('No RPC URL configured for sepolia (set RPC_URL_11155111)');
+
+      process.env.RPC_URL_11155111 = 'https://sepolia.example';
+      expect(getRpcUrl('testnet')).toBe('https://sepolia.example');
+    });
+  });
+
+  describe('assertNetworkMatch', () => {
+    it('should allow any network for consumers without a configured chain', () => {
+      expect(() => assertNetworkMatch('sepolia', null)).not.toThrow();
+    });
+
+    it('should reject a broadcast on another chain', () => {
+      expect(() => assertNetworkMatch('localhost', 31337)).not.toThrow();
+      expect(() => assertNetworkMatch('sepolia', 31337)).toThrow(
+        'Network mismatch: trade is on sepolia (chain 11155111) but consumer is configured for chain 31337'
+      );
+    });
+  });
+});
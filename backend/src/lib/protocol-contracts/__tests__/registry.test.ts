@@ -0,0 +1,154 @@
+/**
+ * Protocol Contract Registry Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Pool } from 'pg';
+import { getProtocolRegistry, deriveParamSchema, validateParamValue, CONTRACT_ABIS } from '../registry';
+
+jest.mock('pg');
+
+describe('ProtocolContractRegistry parameter validation', () => {
+  let pool: jest.Mocked<Pool>;
+
+  const supplyParams = {
+    asset: '0x0000000000000000000000000000000000000001',
+    amount: '1000000000000000000',
+    onBehalfOf: '0x0000000000000000000000000000000000000002',
+    referralCode: 0
+  };
+
+  beforeEach(() => {
+    pool = new Pool() as jest.Mocked<Pool>;
+    // No stored contract: the bundled ABI is used
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should flatten tuple params into their fields', () => {
+    const abi = CONTRACT_ABIS['UNISWAP_SwapRouter'].find(item => item.name === 'exactInputSingle');
+    const schema = deriveParamSchema(abi);
+
+    expect(schema.map(param => param.name)).toContain('fee');
+    expect(schema.find(param => param.name === 'fee')?.type).toBe('uint24');
+  });
+
+  it('should accept valid AAVE supply params', async () => {
+    const result = await getProtocolRegistry(pool).validateFunctionParams('AAVE', 'supply', supplyParams);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should report field-level errors for bad types', async () => {
+    const result = await getProtocolRegistry(pool).validateFunctionParams('AAVE', 'supply', {
+      ...supplyParams,
+      asset: 'not-an-address',
+      amount: '1.5'
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'asset', code: 'INVALID_TYPE', expected: 'address' }),
+      expect.objectContaining({ field: 'amount', code: 'INVALID_TYPE', expected: 'uint256' })
+    ]));
+  });
+
+  it('should enforce uint ranges', () => {
+    expect(validateParamValue({ name: 'amount', type: 'uint256' }, (1n << 256n).toString()))
+      .toEqual(expect.objectContaining({ code: 'OUT_OF_RANGE' }));
+    expect(validateParamValue({ name: 'referralCode', type: 'uint16' }, 70000))
+      .toEqual(expect.objectContaining({ code: 'OUT_OF_RANGE' }));
+    expect(validateParamValue({ name: 'amount', type: 'uint256' }, '-1'))
+      .toEqual(expect.objectContaining({ code: 'OUT_OF_RANGE' }));
+  });
+
+  it('should enforce AAVE interest rate modes', async () => {
+    const result = await getProtocolRegistry(pool).validateFunctionParams('AAVE', 'borrow', {
+      asset: supplyParams.asset,
+      amount: '100',
+      interestRateMode: 3,
+      referralCode: 0,
+      onBehalfOf: supplyParams.onBehalfOf
+    });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'interestRateMode', code: 'NOT_ALLOWED' })
+    ]);
+  });
+
+  it('should enforce Uniswap fee tiers', async () => {
+    const result = await getProtocolRegistry(pool).validateFunctionParams('UNISWAP', 'exactInputSingle', {
+      tokenIn: supplyParams.asset,
+      tokenOut: supplyParams.onBehalfOf,
+      fee: 2500,
+      recipient: supplyParams.asset,
+      deadline: 1700000000,
+      amountIn: '1000',
+      amountOutMinimum: '900',
+      sqrtPriceLimitX96: 0
+    });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'fee', code: 'NOT_ALLOWED' })
+    ]);
+  });
+
+  it('should report missing and unknown params', async () => {
+    const { asset, ...rest } = supplyParams;
+    const result = await getProtocolRegistry(pool).validateFunctionParams('AAVE', 'supply', {
+      ...rest,
+      slippage: 1
+    });
+
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'asset', code: 'MISSING_PARAM' }),
+      expect.objectContaining({ field: 'slippage', code: 'UNKNOWN_PARAM' })
+    ]));
+  });
+
+  it('should only check provided params in partial mode', async () => {
+    const result = await getProtocolRegistry(pool).validateFunctionParams(
+      'AAVE',
+      'supply',
+      { amount: '0' },
+      { partial: true }
+    );
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ field: 'amount', code: 'OUT_OF_RANGE' })
+    ]);
+  });
+
+  it('should prefer the ABI stored in protocol_contracts', async () => {
+    // Cached contracts expire via setTimeout
+    jest.useFakeTimers();
+
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{
+        id: '1',
+        protocol: 'AAVE',
+        contract_name: 'Pool',
+        network: 'localhost',
+        address: '0x0000000000000000000000000000000000000003',
+        abi: [{
+          type: 'function',
+          name: 'supply',
+          inputs: [{ name: 'asset', type: 'address' }, { name: 'amount', type: 'uint128' }]
+        }],
+        version: '3.0.0',
+        is_active: true,
+        updated_at: new Date()
+      }]
+    });
+
+    const schema = await getProtocolRegistry(pool).getParamSchema('AAVE', 'supply');
+
+    expect(schema?.find(param => param.name === 'amount')?.type).toBe('uint128');
+
+    jest.useRealTimers();
+  });
+});
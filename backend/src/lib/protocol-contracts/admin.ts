@@ -0,0 +1,277 @@
+/**
+ * Protocol Contract Administration
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: List, add, version and activate protocol_contracts entries with ABI validation
+ */
+
+import { Pool } from 'pg';
+import { ethers } from 'ethers';
+import { timingSafeEqual } from 'crypto';
+import { ProtocolContract, ProtocolType, NetworkType, toProtocolContract } from './registry';
+import { resolveNetwork } from './networks';
+import { invalidateContracts } from './contract-cache';
+import { getContractName, getProtocolAdapter, hasProtocolAdapter } from '../protocol-adapters';
+
+export interface ContractListFilter {
+  protocol?: ProtocolType;
+  network?: NetworkType;
+  includeInactive?: boolean; // Include superseded and deactivated versions
+}
+
+export interface NewContractVersion {
+  protocol: ProtocolType;
+  contractName?: string; // Default: the adapter's contract
+  network: NetworkType;
+  address: string;
+  abi: any[];
+  version: string;
+  activate?: boolean; // Default true; deactivates the currently active version
+}
+
+export interface AbiValidationResult {
+  valid: boolean;
+  errors: string[];
+  missingFunctions: string[];
+}
+
+/**
+ * Thrown when an uploaded ABI is malformed or lacks functions the protocol's adapter calls
+ */
+export class ContractAbiError extends Error {
+  missingFunctions: string[];
+
+  constructor(message: string, missingFunctions: string[] = []) {
+    super(message);
+    this.name = 'ContractAbiError';
+    this.missingFunctions = missingFunctions;
+  }
+}
+
+/**
+ * Check an admin bearer token against ADMIN_API_KEY; admin routes are disabled without one
+ */
+export function isAdminAuthorized(authorization: string | null): boolean {
+  const apiKey = process.env.ADMIN_API_KEY;
+  if (!apiKey || !authorization?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = Buffer.from(authorization.slice('Bearer '.length));
+  const expected = Buffer.from(apiKey);
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Validate that an ABI parses and declares every function the adapter calls on the contract
+ */
+export function validateContractAbi(protocol: ProtocolType, contractName: string, abi: any): AbiValidationResult {
+  if (!Array.isArray(abi)) {
+    return { valid: false, errors: ['ABI must be a JSON array'], missingFunctions: [] };
+  }
+
+  let contractInterface: ethers.Interface;
+  try {
+    contractInterface = new ethers.Interface(abi);
+  } catch (error: any) {
+    return { valid: false, errors: [`Malformed ABI: ${error.message}`], missingFunctions: [] };
+  }
+
+  const adapter = getProtocolAdapter(protocol);
+  const expected = adapter.helperContracts?.[contractName]
+    || Object.keys(adapter.functions).filter(functionName => getContractName(protocol, functionName) === contractName);
+
+  if (expected.length === 0) {
+    return { valid: false, errors: [`No ${protocol} functions are served by contract ${contractName}`], missingFunctions: [] };
+  }
+
+  const missingFunctions = expected.filter(functionName => !contractInterface.getFunction(functionName));
+
+  return {
+    valid: missingFunctions.length === 0,
+    errors: missingFunctions.map(functionName => `ABI is missing function: ${functionName}`),
+    missingFunctions
+  };
+}
+
+export class ProtocolContractAdmin {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * List contract entries, newest version first within each contract
+   */
+  async listContracts(filter: ContractListFilter = {}): Promise<ProtocolContract[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.protocol) {
+      params.push(filter.protocol);
+      conditions.push(`protocol = $${params.length}`);
+    }
+
+    if (filter.network !== undefined) {
+      params.push(resolveNetwork(filter.network).chainId);
+      conditions.push(`chain_id = $${params.length}`);
+    }
+
+    if (!filter.includeInactive) {
+      conditions.push('is_active = true');
+    }
+
+    const query = `
+      SELECT * FROM protocol_contracts
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY protocol, contract_name, chain_id, updated_at DESC
+    `;
+
+    const result = await this.pool.query(query, params);
+    return result.rows.map(row => toProtocolContract(row));
+  }
+
+  /**
+   * Get a contract entry by ID, active or not
+   */
+  async getContract(id: string): Promise<ProtocolContract | null> {
+    const result = await this.pool.query('SELECT * FROM protocol_contracts WHERE id = $1', [id]);
+    return result.rows.length > 0 ? toProtocolContract(result.rows[0]) : null;
+  }
+
+  /**
+   * Add a contract entry as a new ABI version, activating it unless told otherwise
+   */
+  async addContractVersion(input: NewContractVersion): Promise<ProtocolContract> {
+    if (!hasProtocolAdapter(input.protocol)) {
+      throw new Error(`Unsupported protocol: ${input.protocol}`);
+    }
+
+    const network = resolveNetwork(input.network);
+    const contractName = input.contractName || getContractName(input.protocol);
+
+    if (!ethers.isAddress(input.address)) {
+      throw new Error(`Invalid contract address: ${input.address}`);
+    }
+
+    if (!input.version) {
+      throw new Error('Version is required');
+    }
+
+    const validation = validateContractAbi(input.protocol, contractName, input.abi);
+    if (!validation.valid) {
+      throw new ContractAbiError(
+        `Invalid ABI for ${input.protocol} ${contractName}: ${validation.errors.join(', ')}`,
+        validation.missingFunctions
+      );
+    }
+
+    const activate = input.activate !== false;
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        `SELECT id FROM protocol_contracts
+         WHERE protocol = $1 AND contract_name = $2 AND chain_id = $3 AND version = $4`,
+        [input.protocol, contractName, network.chainId, input.version]
+      );
+
+      if (existing.rows.length > 0) {
+        throw new Error(`Version ${input.version} already exists for ${input.protocol} ${contractName} on ${network.name}`);
+      }
+
+      if (activate) {
+        await this.deactivateVersions(client, input.protocol, contractName, network.chainId);
+      }
+
+      const result = await client.query(
+        `INSERT INTO protocol_contracts (
+          protocol, contract_name, network, chain_id, address, abi, version, is_active, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+        RETURNING *`,
+        [
+          input.protocol,
+          contractName,
+          network.name,
+          network.chainId,
+          ethers.getAddress(input.address),
+          JSON.stringify(input.abi),
+          input.version,
+          activate
+        ]
+      );
+
+      await client.query('COMMIT');
+      invalidateContracts(input.protocol);
+
+      return toProtocolContract(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Activate or deactivate a contract entry; activating one version deactivates the others
+   */
+  async setContractActive(id: string, isActive: boolean): Promise<ProtocolContract> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query('SELECT * FROM protocol_contracts WHERE id = $1 FOR UPDATE', [id]);
+      if (current.rows.length === 0) {
+        throw new Error('Protocol contract not found');
+      }
+
+      const row = current.rows[0];
+      if (isActive) {
+        await this.deactivateVersions(client, row.protocol, row.contract_name, row.chain_id, id);
+      }
+
+      const result = await client.query(
+        'UPDATE protocol_contracts SET is_active = $2 WHERE id = $1 RETURNING *',
+        [id, isActive]
+      );
+
+      await client.query('COMMIT');
+      invalidateContracts(row.protocol);
+
+      return toProtocolContract(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Deactivate the active version(s) of a contract on a chain
+   */
+  private async deactivateVersions(
+    client: any,
+    protocol: ProtocolType,
+    contractName: string,
+    chainId: number,
+    exceptId?: string
+  ): Promise<void> {
+    await client.query(
+      `UPDATE protocol_contracts SET is_active = false
+       WHERE protocol = $1 AND contract_name = $2 AND chain_id = $3 AND is_active = true
+         AND ($4::uuid IS NULL OR id <> $4::uuid)`,
+      [protocol, contractName, chainId, exceptId || null]
+    );
+  }
+}
+
+// Export factory function
+export function getProtocolContractAdmin(pool: Pool): ProtocolContractAdmin {
+  return new ProtocolContractAdmin(pool);
+}
@@ -0,0 +1,110 @@
+/**
+ * Protocol Contract Cache
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Process-wide contract cache, invalidated across instances via Postgres NOTIFY
+ */
+
+import { Client } from 'pg';
+
+// Sent by the protocol_contracts trigger on every insert, update and delete
+export const CONTRACT_CHANGES_CHANNEL = 'protocol_contracts_changed';
+
+const CACHE_TTL_MS = 5 * 60 * 1000; // Upper bound on staleness if a notification is missed
+const RECONNECT_DELAY_MS = 5000;
+
+const entries: Map<string, { value: any; expiresAt: number }> = new Map();
+
+let listener: Client | null = null;
+
+/**
+ * Get a cached value if it has not expired
+ */
+export function getCached<T>(key: string): T | undefined {
+  const entry = entries.get(key);
+
+  if (!entry) {
+    return undefined;
+  }
+
+  if (entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    return undefined;
+  }
+
+  return entry.value;
+}
+
+/**
+ * Cache a value for the contract cache TTL
+ */
+export function setCached(key: string, value: any): void {
+  entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+}
+
+/**
+ * Drop cached entries for a protocol (keys are prefixed with it), or everything
+ */
+export function invalidateContracts(protocol?: string): void {
+  if (!protocol) {
+    entries.clear();
+    return;
+  }
+
+  for (const key of entries.keys()) {
+    if (key.startsWith(`${protocol}_`)) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * LISTEN for contract changes made by any instance (admin API, seed script, manual SQL)
+ * on a dedicated connection. Idempotent; reconnects after connection errors.
+ */
+export function startContractChangeListener(connectionString: string | undefined = process.env.DATABASE_URL): void {
+  if (listener || !connectionString) {
+    return;
+  }
+
+  const client = new Client({ connectionString });
+  listener = client;
+
+  const reconnect = (error: Error) => {
+    console.error('Protocol contract listener error:', error);
+    if (listener !== client) {
+      return;
+    }
+
+    listener = null;
+    client.removeAllListeners();
+    client.end().catch(() => undefined);
+
+    // Changes missed while disconnected are covered by dropping everything
+    invalidateContracts();
+    setTimeout(() => startContractChangeListener(connectionString), RECONNECT_DELAY_MS).unref();
+  };
+
+  client.on('notification', message => {
+    if (message.channel === CONTRACT_CHANGES_CHANNEL) {
+      invalidateContracts(message.payload || undefined);
+    }
+  });
+  client.on('error', reconnect);
+
+  client.connect()
+    .then(() => client.query(`LISTEN ${CONTRACT_CHANGES_CHANNEL}`))
+    .catch(reconnect);
+}
+
+/**
+ * Stop listening for contract changes
+ */
+export async function stopContractChangeListener(): Promise<void> {
+  const client = listener;
+  listener = null;
+
+  if (client) {
+    client.removeAllListeners();
+    await client.end();
+  }
+}
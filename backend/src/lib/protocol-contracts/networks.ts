@@ -0,0 +1,133 @@
+/**
+ * Network Registry
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Networks keyed by chain ID with per-network RPC configuration
+ */
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string; // Canonical name stored on broadcasts and protocol_contracts.network
+  displayName: string;
+  aliases?: string[]; // Other names accepted on input (e.g. the legacy 'testnet')
+  rpcUrlEnv?: string; // Legacy env var checked after RPC_URL_<chainId>
+  rpcUrl?: string; // Fallback when no env var is set
+}
+
+/**
+ * Thrown when a network name, alias or chain ID is not registered
+ */
+export class UnsupportedNetworkError extends Error {
+  constructor(network: string | number) {
+    super(`Unsupported network: ${network}`);
+    this.name = 'UnsupportedNetworkError';
+  }
+}
+
+const networks: Map<number, NetworkConfig> = new Map();
+
+/**
+ * Network used when a request does not name one
+ */
+export function getDefaultNetwork(): string {
+  return process.env.DEFAULT_NETWORK || 'localhost';
+}
+
+/**
+ * Register a network; replaces an existing entry for the same chain ID
+ */
+export function registerNetwork(network: NetworkConfig): void {
+  networks.set(network.chainId, network);
+}
+
+/**
+ * Resolve a network name, alias or chain ID (number or numeric string)
+ */
+export function resolveNetwork(network: string | number): NetworkConfig {
+  const chainId = typeof network === 'number' ? network : /^\d+$/.test(network) ? Number(network) : null;
+
+  if (chainId !== null) {
+    const byId = networks.get(chainId);
+    if (byId) return byId;
+  } else {
+    const key = String(network).toLowerCase();
+    for (const config of networks.values()) {
+      if (config.name === key || config.aliases?.includes(key)) {
+        return config;
+      }
+    }
+  }
+
+  throw new UnsupportedNetworkError(network);
+}
+
+/**
+ * Check whether a network name, alias or chain ID is configured
+ */
+export function isSupportedNetwork(network: string | number): boolean {
+  try {
+    resolveNetwork(network);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Chain ID for a network name, alias or chain ID
+ */
+export function getChainId(network: string | number): number {
+  return resolveNetwork(network).chainId;
+}
+
+/**
+ * RPC endpoint for a network: explicit override, then RPC_URL_<chainId>, then the network's fallbacks
+ */
+export function getRpcUrl(network: string | number, overrides: Record<number, string> = {}): string {
+  const config = resolveNetwork(network);
+  const rpcUrl = overrides[config.chainId]
+    || process.env[`RPC_URL_${config.chainId}`]
+    || (config.rpcUrlEnv && process.env[config.rpcUrlEnv])
+    || config.rpcUrl;
+
+  if (!rpcUrl) {
+    throw new Error(`No RPC URL configured for ${config.name} (set RPC_URL_${config.chainId})`);
+  }
+
+  return rpcUrl;
+}
+
+/**
+ * Fail unless a consumer configured for consumerChainId can act on a broadcast's network.
+ * Consumers without a configured chain accept any network.
+ */
+export function assertNetworkMatch(broadcastNetwork: string | number, consumerChainId?: number | null): void {
+  if (consumerChainId === null || consumerChainId === undefined) {
+    return;
+  }
+
+  const network = resolveNetwork(broadcastNetwork);
+  if (network.chainId !== consumerChainId) {
+    throw new Error(
+      `Network mismatch: trade is on ${network.name} (chain ${network.chainId}) but consumer is configured for chain ${consumerChainId}`
+    );
+  }
+}
+
+/**
+ * List all configured networks
+ */
+export function listNetworks(): NetworkConfig[] {
+  return Array.from(networks.values());
+}
+
+// Built-in networks; additional chains register themselves with registerNetwork() during startup
+registerNetwork({ chainId: 1, name: 'mainnet', displayName: 'Ethereum Mainnet', aliases: ['ethereum'] });
+registerNetwork({ chainId: 11155111, name: 'sepolia', displayName: 'Sepolia', aliases: ['testnet'] });
+registerNetwork({
+  chainId: 31337,
+  name: 'localhost',
+  displayName: 'Local Anvil',
+  aliases: ['anvil'],
+  rpcUrlEnv: 'BLOCKCHAIN_RPC_URL',
+  rpcUrl: 'http://localhost:8545'
+});
@@ -7,15 +7,29 @@
 import { Pool } from 'pg';
 import aavePoolAbi from './abis/aave-pool.json';
 import uniswapRouterAbi from './abis/uniswap-router.json';
+import uniswapQuoterAbi from './abis/uniswap-quoter.json';
+import multicall3Abi from './abis/multicall3.json';
+import {
+  FUNCTION_SIGNATURES,
+  getContractName,
+  getFunctionSignature,
+  getProtocolAdapter,
+  hasProtocolAdapter
+} from '../protocol-adapters';
+import { getDefaultNetwork, resolveNetwork } from './networks';
+import { getCached, setCached, invalidateContracts } from './contract-cache';
 
-export type ProtocolType = 'AAVE' | 'UNISWAP';
-export type NetworkType = 'mainnet' | 'localhost' | 'testnet';
+// Protocol identifiers are owned by registered protocol adapters (AAVE, UNISWAP, ...)
+export type ProtocolType = string;
+// Network name, alias or chain ID; resolved through the network registry
+export type NetworkType = string | number;
 
 export interface ProtocolContract {
   id: string;
   protocol: ProtocolType;
   contractName: string;
-  network: NetworkType;
+  network: string; // Canonical network name
+  chainId: number;
   address: string;
   abi: any[];
   version: string;
@@ -29,90 +43,210 @@ export interface FunctionSignature {
   requiredParams: string[];
   modifiableParams: string[];
   protocol: ProtocolType;
+  contractName?: string; // Overrides the adapter's default contract for this function
+  sizing?: {
+    amount: string; // Size parameter scaled by consumer copy sizing
+    bounds?: Record<string, 'min' | 'max'>; // Slippage bounds scaled with it (max rounds up)
+  };
 }
 
-// Function signature mappings for each protocol
-export const FUNCTION_SIGNATURES: Record<string, FunctionSignature> = {
-  // AAVE Functions
-  'supply': {
-    name: 'supply',
-    displayName: 'Supply Asset',
-    requiredParams: ['asset', 'amount', 'onBehalfOf', 'referralCode'],
-    modifiableParams: ['amount'],
-    protocol: 'AAVE'
-  },
-  'withdraw': {
-    name: 'withdraw',
-    displayName: 'Withdraw Asset',
-    requiredParams: ['asset', 'amount', 'to'],
-    modifiableParams: ['amount'],
-    protocol: 'AAVE'
-  },
-  'borrow': {
-    name: 'borrow',
-    displayName: 'Borrow Asset',
-    requiredParams: ['asset', 'amount', 'interestRateMode', 'referralCode', 'onBehalfOf'],
-    modifiableParams: ['amount'],
-    protocol: 'AAVE'
-  },
-  'repay': {
-    name: 'repay',
-    displayName: 'Repay Debt',
-    requiredParams: ['asset', 'amount', 'interestRateMode', 'onBehalfOf'],
-    modifiableParams: ['amount'],
-    protocol: 'AAVE'
-  },
-  // Uniswap Functions
-  'exactInputSingle': {
-    name: 'exactInputSingle',
-    displayName: 'Swap Exact Input',
-    requiredParams: ['tokenIn', 'tokenOut', 'fee', 'recipient', 'deadline', 'amountIn', 'amountOutMinimum', 'sqrtPriceLimitX96'],
-    modifiableParams: ['amountIn', 'amountOutMinimum'],
-    protocol: 'UNISWAP'
-  },
-  'exactOutputSingle': {
-    name: 'exactOutputSingle',
-    displayName: 'Swap Exact Output',
-    requiredParams: ['tokenIn', 'tokenOut', 'fee', 'recipient', 'deadline', 'amountOut', 'amountInMaximum', 'sqrtPriceLimitX96'],
-    modifiableParams: ['amountOut', 'amountInMaximum'],
-    protocol: 'UNISWAP'
-  },
-  'exactInput': {
-    name: 'exactInput',
-    displayName: 'Multi-hop Swap',
-    requiredParams: ['path', 'recipient', 'deadline', 'amountIn', 'amountOutMinimum'],
-    modifiableParams: ['amountIn', 'amountOutMinimum'],
-    protocol: 'UNISWAP'
+// Function signatures are declared by each protocol adapter
+export { FUNCTION_SIGNATURES };
+
+// Per-parameter type derived from the contract ABI (tuple params are flattened to their fields)
+export interface ParamSchema {
+  name: string;
+  type: string; // Solidity type, e.g. address, uint256, uint24, bytes
+  allowedValues?: number[];
+  positive?: boolean;
+}
+
+export type ParamErrorCode =
+  | 'UNKNOWN_FUNCTION'
+  | 'MISSING_PARAM'
+  | 'UNKNOWN_PARAM'
+  | 'INVALID_TYPE'
+  | 'OUT_OF_RANGE'
+  | 'NOT_ALLOWED'
+  | 'NOT_MODIFIABLE';
+
+export interface ParamFieldError {
+  field: string;
+  code: ParamErrorCode;
+  message: string;
+  expected?: string;
+}
+
+export interface ParamValidationResult {
+  valid: boolean;
+  errors: ParamFieldError[];
+}
+
+export interface ParamValidationOptions {
+  network?: NetworkType;
+  partial?: boolean; // Only check the params provided (e.g. consumer modifications)
+}
+
+/**
+ * Thrown when protocol call parameters fail validation; carries field-level errors
+ */
+export class ParameterValidationError extends Error {
+  fieldErrors: ParamFieldError[];
+
+  constructor(message: string, fieldErrors: ParamFieldError[]) {
+    super(message);
+    this.name = 'ParameterValidationError';
+    this.fieldErrors = fieldErrors;
   }
-};
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})*$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+
+/**
+ * Derive parameter schemas from a function ABI fragment
+ */
+export function deriveParamSchema(functionAbi: any): ParamSchema[] {
+  const inputs: any[] = functionAbi?.inputs || [];
+
+  // Struct-style functions (SwapRouter) take a single tuple; its fields are the parameters
+  if (inputs.length === 1 && inputs[0].type === 'tuple') {
+    return (inputs[0].components || []).map((component: any) => ({
+      name: component.name,
+      type: component.type
+    }));
+  }
+
+  return inputs.map(input => ({ name: input.name, type: input.type }));
+}
+
+/**
+ * Parse an integer parameter value, returning null if it is not an integer
+ */
+function parseInteger(value: any): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? BigInt(value) : null;
+  }
+  if (typeof value === 'string' && (INTEGER_PATTERN.test(value) || /^0x[0-9a-fA-F]+$/.test(value))) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+/**
+ * Validate a single parameter value against its schema
+ */
+export function validateParamValue(schema: ParamSchema, value: any): ParamFieldError | null {
+  const { name, type } = schema;
+
+  if (value === undefined || value === null) {
+    return { field: name, code: 'MISSING_PARAM', message: `Missing required parameter: ${name}`, expected: type };
+  }
+
+  if (type === 'address') {
+    if (typeof value !== 'string' || !ADDRESS_PATTERN.test(value)) {
+      return { field: name, code: 'INVALID_TYPE', message: `${name} must be a 20-byte hex address`, expected: type };
+    }
+  } else if (/^u?int\d*$/.test(type)) {
+    const integer = parseInteger(value);
+    if (integer === null) {
+      return { field: name, code: 'INVALID_TYPE', message: `${name} must be an integer string`, expected: type };
+    }
+
+    const bits = BigInt(type.replace(/^u?int/, '') || '256');
+    const signed = !type.startsWith('u');
+    const min = signed ? -(1n << (bits - 1n)) : 0n;
+    const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+
+    if (integer < min || integer > max) {
+      return { field: name, code: 'OUT_OF_RANGE', message: `${name} is out of range for ${type}`, expected: type };
+    }
+    if (schema.positive && integer <= 0n) {
+      return { field: name, code: 'OUT_OF_RANGE', message: `${name} must be greater than 0`, expected: type };
+    }
+    if (schema.allowedValues && !schema.allowedValues.some(allowed => BigInt(allowed) === integer)) {
+      return {
+        field: name,
+        code: 'NOT_ALLOWED',
+        message: `${name} must be one of ${schema.allowedValues.join(', ')}`,
+        expected: schema.allowedValues.join(' | ')
+      };
+    }
+  } else if (type === 'bool') {
+    if (typeof value !== 'boolean') {
+      return { field: name, code: 'INVALID_TYPE', message: `${name} must be a boolean`, expected: type };
+    }
+  } else if (/^bytes\d+$/.test(type)) {
+    const size = Number(type.slice(5));
+    if (typeof value !== 'string' || !HEX_PATTERN.test(value) || value.length !== 2 + size * 2) {
+      return { field: name, code: 'INVALID_TYPE', message: `${name} must be ${size} bytes of hex`, expected: type };
+    }
+  } else if (type === 'bytes') {
+    if (typeof value !== 'string' || !HEX_PATTERN.test(value)) {
+      return { field: name, code: 'INVALID_TYPE', message: `${name} must be 0x-prefixed hex bytes`, expected: type };
+    }
+  } else if (type === 'string') {
+    if (typeof value !== 'string') {
+      return { field: name, code: 'INVALID_TYPE', message: `${name} must be a string`, expected: type };
+    }
+  }
+
+  return null;
+}
 
 // ABI mappings
 export const CONTRACT_ABIS: Record<string, any[]> = {
   'AAVE_Pool': aavePoolAbi,
-  'UNISWAP_SwapRouter': uniswapRouterAbi
+  'UNISWAP_SwapRouter': uniswapRouterAbi,
+  'UNISWAP_QuoterV2': uniswapQuoterAbi
 };
 
+// Batch contract used to bundle strategy legs into one all-or-nothing transaction
+export const MULTICALL3_ABI: any[] = multicall3Abi;
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'; // Same address on every chain it is deployed to
+
+/**
+ * Map a protocol_contracts row
+ */
+export function toProtocolContract(row: any): ProtocolContract {
+  return {
+    id: row.id,
+    protocol: row.protocol,
+    contractName: row.contract_name,
+    network: row.network,
+    chainId: Number(row.chain_id),
+    address: row.address,
+    abi: row.abi,
+    version: row.version,
+    isActive: row.is_active,
+    updatedAt: row.updated_at
+  };
+}
+
 export class ProtocolContractRegistry {
   private pool: Pool;
-  private cache: Map<string, ProtocolContract> = new Map();
 
   constructor(pool: Pool) {
     this.pool = pool;
   }
 
   /**
-   * Get protocol contract from database
+   * Get protocol contract from database, looked up by the network's chain ID
    */
   async getContract(
     protocol: ProtocolType,
     contractName: string,
-    network: NetworkType = 'localhost'
+    network: NetworkType = getDefaultNetwork()
   ): Promise<ProtocolContract | null> {
-    const cacheKey = `${protocol}_${contractName}_${network}`;
+    const chainId = resolveNetwork(network).chainId;
+    const cacheKey = `${protocol}_${contractName}_${chainId}`;
 
-    // Check cache first
-    if (this.cache.has(cacheKey)) {
-      return this.cache.get(cacheKey)!;
+    // Check the process-wide cache first; admin changes invalidate it on every instance
+    const cached = getCached<ProtocolContract>(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     try {
@@ -120,32 +254,20 @@ export class ProtocolContractRegistry {
         SELECT * FROM protocol_contracts
         WHERE protocol = $1
           AND contract_name = $2
-          AND network = $3
+          AND chain_id = $3
           AND is_active = true
         LIMIT 1
       `;
 
-      const result = await this.pool.query(query, [protocol, contractName, network]);
+      const result = await this.pool.query(query, [protocol, contractName, chainId]);
 
       if (result.rows.length === 0) {
         return null;
       }
 
-      const contract = {
-        id: result.rows[0].id,
-        protocol: result.rows[0].protocol,
-        contractName: result.rows[0].contract_name,
-        network: result.rows[0].network,
-        address: result.rows[0].address,
-        abi: result.rows[0].abi,
-        version: result.rows[0].version,
-        isActive: result.rows[0].is_active,
-        updatedAt: result.rows[0].updated_at
-      };
+      const contract = toProtocolContract(result.rows[0]);
 
-      // Cache for 5 minutes
-      this.cache.set(cacheKey, contract);
-      setTimeout(() => this.cache.delete(cacheKey), 5 * 60 * 1000);
+      setCached(cacheKey, contract);
 
       return contract;
     } catch (error) {
@@ -154,6 +276,17 @@ export class ProtocolContractRegistry {
     }
   }
 
+  /**
+   * Get the contract that serves a protocol function
+   */
+  async getContractForFunction(
+    protocol: ProtocolType,
+    functionName: string,
+    network: NetworkType = getDefaultNetwork()
+  ): Promise<ProtocolContract | null> {
+    return this.getContract(protocol, getContractName(protocol, functionName), network);
+  }
+
   /**
    * Get all contracts for a protocol
    */
@@ -162,22 +295,12 @@ export class ProtocolContractRegistry {
       const query = `
         SELECT * FROM protocol_contracts
         WHERE protocol = $1 AND is_active = true
-        ORDER BY network, contract_name
+        ORDER BY chain_id, contract_name
       `;
 
       const result = await this.pool.query(query, [protocol]);
 
-      return result.rows.map(row => ({
-        id: row.id,
-        protocol: row.protocol,
-        contractName: row.contract_name,
-        network: row.network,
-        address: row.address,
-        abi: row.abi,
-        version: row.version,
-        isActive: row.is_active,
-        updatedAt: row.updated_at
-      }));
+      return result.rows.map(row => toProtocolContract(row));
     } catch (error) {
       console.error('Error fetching protocol contracts:', error);
       throw error;
@@ -185,31 +308,85 @@ export class ProtocolContractRegistry {
   }
 
   /**
-   * Validate function parameters against signature
+   * Get the parameter schema for a protocol function, derived from the stored ABI
    */
-  validateFunctionParams(
+  async getParamSchema(
+    protocol: ProtocolType,
     functionName: string,
-    params: Record<string, any>
-  ): { valid: boolean; errors: string[] } {
-    const signature = FUNCTION_SIGNATURES[functionName];
+    network: NetworkType = getDefaultNetwork()
+  ): Promise<ParamSchema[] | null> {
+    const signature = getFunctionSignature(functionName, protocol);
     if (!signature) {
-      return { valid: false, errors: [`Unknown function: ${functionName}`] };
+      return null;
+    }
+
+    const contractName = getContractName(protocol, functionName);
+    let abi: any[] | undefined;
+
+    try {
+      const contract = await this.getContract(protocol, contractName, network);
+      abi = contract?.abi;
+    } catch (error) {
+      console.warn(`Falling back to bundled ABI for ${protocol} ${contractName}:`, error);
+    }
+
+    const functionAbi = this.getFunctionAbi(abi || CONTRACT_ABIS[`${protocol}_${contractName}`] || [], functionName);
+
+    // No ABI available: fall back to presence checks on the declared params
+    const schema = functionAbi
+      ? deriveParamSchema(functionAbi)
+      : signature.requiredParams.map(name => ({ name, type: 'unknown' }));
+
+    const constraints = getProtocolAdapter(protocol).paramConstraints || {};
+
+    return schema.map(param => ({ ...param, ...constraints[param.name] }));
+  }
+
+  /**
+   * Validate function parameters against the ABI-derived schema
+   */
+  async validateFunctionParams(
+    protocol: ProtocolType,
+    functionName: string,
+    params: Record<string, any>,
+    options: ParamValidationOptions = {}
+  ): Promise<ParamValidationResult> {
+    if (!hasProtocolAdapter(protocol)) {
+      return {
+        valid: false,
+        errors: [{ field: 'protocol', code: 'NOT_ALLOWED', message: `Unsupported protocol: ${protocol}` }]
+      };
     }
 
-    const errors: string[] = [];
-    const providedKeys = Object.keys(params);
+    const schema = await this.getParamSchema(protocol, functionName, options.network);
+    if (!schema) {
+      return {
+        valid: false,
+        errors: [{ field: 'functionName', code: 'UNKNOWN_FUNCTION', message: `Unknown function: ${functionName}` }]
+      };
+    }
+
+    const errors: ParamFieldError[] = [];
 
-    // Check required parameters
-    for (const required of signature.requiredParams) {
-      if (!providedKeys.includes(required)) {
-        errors.push(`Missing required parameter: ${required}`);
+    for (const param of schema) {
+      if (options.partial && !(param.name in params)) {
+        continue;
+      }
+
+      const error = validateParamValue(param, params[param.name]);
+      if (error) {
+        errors.push(error);
       }
     }
 
+    // Protocol-specific checks (e.g. encoded paths) on fields that passed the type checks
+    const adapterErrors = getProtocolAdapter(protocol).validateParams?.(functionName, params) || [];
+    errors.push(...adapterErrors.filter(error => !errors.some(existing => existing.field === error.field)));
+
     // Check for unknown parameters
-    for (const key of providedKeys) {
-      if (!signature.requiredParams.includes(key)) {
-        errors.push(`Unknown parameter: ${key}`);
+    for (const key of Object.keys(params)) {
+      if (!schema.some(param => param.name === key)) {
+        errors.push({ field: key, code: 'UNKNOWN_PARAM', message: `Unknown parameter: ${key}` });
       }
     }
 
@@ -247,7 +424,7 @@ export class ProtocolContractRegistry {
    * Clear cache
    */
   clearCache(): void {
-    this.cache.clear();
+    invalidateContracts();
   }
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Allowance Management Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { checkAllowance, sendApproval, getApproveAmount } from '../allowance';
+import { ExecutionRequest } from '../types';
+import '../../protocol-adapters';
+
+describe('Allowance management', () => {
+  const owner = '0x1111111111111111111111111111111111111111';
+  const asset = '0x2222222222222222222222222222222222222222';
+  const spender = '0x3333333333333333333333333333333333333333';
+  const tokenOut = '0x4444444444444444444444444444444444444444';
+  const erc20 = new ethers.Interface(['function allowance(address, address) view returns (uint256)']);
+
+  function mockProvider(allowance: bigint): any {
+    return {
+      call: jest.fn().mockResolvedValue(erc20.encodeFunctionResult('allowance', [allowance]))
+    };
+  }
+
+  const supply: ExecutionRequest = {
+    functionName: 'supply',
+    protocol: 'AAVE',
+    parameters: { asset, amount: '1000', onBehalfOf: owner, referralCode: 0 },
+    contractAddress: spender,
+    network: 'localhost',
+    userAddress: owner
+  };
+
+  describe('getApproveAmount', () => {
+    it('should approve the exact requirement by default', () => {
+      expect(getApproveAmount(BigInt(1000), 'exact', '5000')).toBe(BigInt(1000));
+    });
+
+    it('should approve the cap in capped mode when it covers more', () => {
+      expect(getApproveAmount(BigInt(1000), 'capped', '5000')).toBe(BigInt(5000));
+      expect(getApproveAmount(BigInt(9000), 'capped', '5000')).toBe(BigInt(9000));
+    });
+  });
+
+  describe('checkAllowance', () => {
+    it('should build an approve transaction when the allowance is short', async () => {
+      const approval = await checkAllowance(mockProvider(BigInt(400)), supply, owner, spender);
+
+      expect(approval).toMatchObject({
+        token: asset,
+        currentAllowance: '400',
+        requiredAmount: '1000',
+        approveAmount: '1000',
+        mode: 'exact',
+        status: 'required'
+      });
+      expect(approval!.transaction!.to).toBe(asset);
+      expect(approval!.transaction!.data).toBe(
+        new ethers.Interface(['function approve(address, uint256)']).encodeFunctionData('approve', [spender, BigInt(1000)])
+      );
+    });
+
+    it('should report no approval needed when the allowance covers the call', async () => {
+      const approval = await checkAllowance(mockProvider(BigInt(1000)), supply, owner, spender);
+
+      expect(approval!.status).toBe('not_required');
+      expect(approval!.transaction).toBeUndefined();
+    });
+
+    it('should skip calls that spend no token', async () => {
+      const provider = mockProvider(BigInt(0));
+      const withdraw = { ...supply, functionName: 'withdraw', parameters: { asset, amount: '1000', to: owner } };
+
+      expect(await checkAllowance(provider, withdraw, owner, spender)).toBeNull();
+      expect(provider.call).not.toHaveBeenCalled();
+    });
+
+    it('should check the first token of a multi-hop path', async () => {
+      const path = ethers.solidityPacked(['address', 'uint24', 'address'], [asset, 3000, tokenOut]);
+      const swap: ExecutionRequest = {
+        ...supply,
+        functionName: 'exactInput',
+        protocol: 'UNISWAP',
+        parameters: { path, recipient: owner, deadline: 0, amountIn: '500', amountOutMinimum: '1' }
+      };
+
+      const approval = await checkAllowance(mockProvider(BigInt(0)), swap, owner, spender, {
+        approvalMode: 'capped',
+        approvalCap: '10000'
+      });
+
+      expect(approval).toMatchObject({ token: asset, requiredAmount: '500', approveAmount: '10000', mode: 'capped' });
+    });
+  });
+
+  describe('sendApproval', () => {
+    const feeModel: any = {
+      estimateFees: jest.fn().mockResolvedValue({
+        feeType: 'eip1559',
+        speed: 'medium',
+        gasPrice: '2',
+        maxFeePerGas: '3',
+        maxPriorityFeePerGas: '1'
+      })
+    };
+
+    it('should send a required approval and wait for it', async () => {
+      const required = await checkAllowance(mockProvider(BigInt(0)), supply, owner, spender);
+      const signer: any = {
+        sendTransaction: jest.fn().mockResolvedValue({
+          hash: '0xapprove',
+          wait: jest.fn().mockResolvedValue({ status: 1 })
+        })
+      };
+
+      const approval = await sendApproval(signer, feeModel, required!, supply);
+
+      expect(signer.sendTransaction).toHaveBeenCalledWith(expect.objectContaining({
+        to: asset,
+        data: required!.transaction!.data,
+        maxFeePerGas: BigInt(3)
+      }));
+      expect(approval).toMatchObject({ status: 'approved', transactionHash: '0xapprove' });
+    });
+
+    it('should leave a sufficient allowance alone', async () => {
+      const sufficient = await checkAllowance(mockProvider(BigInt(1000)), supply, owner, spender);
+      const signer: any = { sendTransaction: jest.fn() };
+
+      expect(await sendApproval(signer, feeModel, sufficient!, supply)).toBe(sufficient);
+      expect(signer.sendTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Strategy Bundle Executor Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import { BundleExecutor } from '../bundle-executor';
+import { CONTRACT_ABIS } from '../../protocol-contracts/registry';
+
+jest.mock('pg');
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  return {
+    ...actual,
+    ethers: {
+      ...actual.ethers,
+      Contract: jest.fn(),
+      JsonRpcProvider: jest.fn(),
+      Wallet: jest.fn().mockImplementation(() => ({
+        address: '0x0000000000000000000000000000000000000005',
+        connect: jest.fn().mockReturnThis()
+      }))
+    }
+  };
+});
+
+describe('BundleExecutor', () => {
+  const user = '0x0000000000000000000000000000000000000004';
+  const poolAddress = '0x0000000000000000000000000000000000000003';
+  const bundleAddress = '0x0000000000000000000000000000000000000006';
+  const aaveInterface = new ethers.Interface(CONTRACT_ABIS['AAVE_Pool']);
+
+  const calls = [
+    {
+      functionName: 'borrow',
+      protocol: 'AAVE',
+      parameters: {
+        asset: '0x0000000000000000000000000000000000000001',
+        amount: '1000',
+        interestRateMode: 2,
+        referralCode: 0,
+        onBehalfOf: user
+      }
+    },
+    {
+      functionName: 'supply',
+      protocol: 'AAVE',
+      parameters: {
+        asset: '0x0000000000000000000000000000000000000002',
+        amount: '500',
+        onBehalfOf: user,
+        referralCode: 0
+      }
+    }
+  ];
+
+  let pool: jest.Mocked<Pool>;
+  let staticCall: jest.Mock;
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    pool = new Pool() as jest.Mocked<Pool>;
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{
+        id: '1',
+        protocol: 'AAVE',
+        contract_name: 'Pool',
+        network: 'localhost',
+        address: poolAddress,
+        abi: CONTRACT_ABIS['AAVE_Pool'],
+        version: '3.0.0',
+        is_active: true,
+        updated_at: new Date()
+      }]
+    });
+
+    staticCall = jest.fn();
+    send = jest.fn();
+    (ethers.Contract as unknown as jest.Mock).mockImplementation(() => ({
+      aggregate3Value: { staticCall },
+      connect: () => ({ getFunction: () => send })
+    }));
+
+    // Registry caches contracts with a timer
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should report the failing leg and execute nothing', async () => {
+    staticCall.mockResolvedValue([
+      { success: true, returnData: '0x' },
+      { success: false, returnData: aaveInterface.encodeErrorResult('Error(string)', ['26']) }
+    ]);
+
+    const executor = new BundleExecutor({ rpcUrl: 'http://localhost:8545', privateKey: '0x01', bundleAddress }, pool);
+    const result = await executor.executeAtomic('strategy-1', calls, user);
+
+    expect(result.success).toBe(false);
+    expect(result.executions).toHaveLength(0);
+    expect(result.legs.map(leg => leg.status)).toEqual(['not_executed', 'failed']);
+    expect(result.legs[1].revertReason).toBe('26');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should send all legs as one all-or-nothing transaction', async () => {
+    staticCall.mockResolvedValue([
+      { success: true, returnData: '0x' },
+      { success: true, returnData: '0x' }
+    ]);
+    send.mockResolvedValue({
+      wait: async () => ({ hash: '0xabc', gasUsed: 300000n, blockNumber: 7, status: 1 })
+    });
+
+    const executor = new BundleExecutor({ rpcUrl: 'http://localhost:8545', privateKey: '0x01', bundleAddress }, pool);
+    const result = await executor.executeAtomic('strategy-1', calls, user);
+
+    const [bundleCalls] = send.mock.calls[0];
+    expect(bundleCalls).toHaveLength(2);
+    expect(bundleCalls.every((call: any) => call.allowFailure === false && call.target === poolAddress)).toBe(true);
+    expect(aaveInterface.parseTransaction({ data: bundleCalls[0].callData })?.name).toBe('borrow');
+
+    expect(result.success).toBe(true);
+    expect(result.executions).toHaveLength(1);
+    expect(result.legs.every(leg => leg.status === 'success' && leg.transactionHash === '0xabc')).toBe(true);
+  });
+
+  it('should require a signer once preflight passes', async () => {
+    staticCall.mockResolvedValue([
+      { success: true, returnData: '0x' },
+      { success: true, returnData: '0x' }
+    ]);
+
+    const executor = new BundleExecutor({ rpcUrl: 'http://localhost:8545', bundleAddress }, pool);
+
+    await expect(executor.executeAtomic('strategy-1', calls, user))
+      .rejects.toThrow('Atomic strategy execution requires a configured signer');
+  });
+
+  it('should refuse atomic execution without an account-bound bundle contract', async () => {
+    const executor = new BundleExecutor({ rpcUrl: 'http://localhost:8545', privateKey: '0x01' }, pool);
+
+    await expect(executor.executeAtomic('strategy-1', calls, user))
+      .rejects.toThrow('requires an account-bound bundle contract');
+    expect(staticCall).not.toHaveBeenCalled();
+  });
+});
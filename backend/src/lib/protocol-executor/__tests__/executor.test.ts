@@ -6,6 +6,7 @@
 import { getProtocolExecutor, ProtocolExecutorService } from '../index';
 import { ExecutionRequest } from '../types';
 import { Pool } from 'pg';
+import { ethers } from 'ethers';
 
 // Mock dependencies
 jest.mock('pg');
@@ -17,6 +18,15 @@ describe('ProtocolExecutorService', () => {
 
   beforeEach(() => {
     pool = new Pool() as jest.Mocked<Pool>;
+
+    // Fees come from the node's fee history (10 gwei base fee, 2 gwei tips)
+    (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation(() => ({
+      send: jest.fn().mockResolvedValue({
+        baseFeePerGas: ['0x2540be400'],
+        reward: [['0x77359400']]
+      })
+    }));
+
     executor = getProtocolExecutor(pool);
   });
 
@@ -0,0 +1,76 @@
+/**
+ * EIP-1559 Fee Model Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { FeeModel, toFeeOverrides } from '../fee-model';
+
+describe('FeeModel', () => {
+  const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+
+  function mockProvider(overrides: Record<string, jest.Mock>): any {
+    return {
+      send: jest.fn(),
+      getFeeData: jest.fn(),
+      getBlock: jest.fn(),
+      ...overrides
+    };
+  }
+
+  it('should derive fees from fee history for each speed', async () => {
+    const provider = mockProvider({
+      send: jest.fn().mockResolvedValue({
+        baseFeePerGas: [gwei('9'), gwei('10')].map(fee => ethers.toQuantity(fee)),
+        reward: [[ethers.toQuantity(gwei('1'))], [ethers.toQuantity(gwei('3'))], [ethers.toQuantity(gwei('2'))]]
+      })
+    });
+
+    const fees = await new FeeModel(provider).estimateFees('high');
+
+    expect(provider.send).toHaveBeenCalledWith('eth_feeHistory', [ethers.toQuantity(10), 'latest', [90]]);
+    expect(fees.feeType).toBe('eip1559');
+    expect(fees.speed).toBe('high');
+    expect(fees.baseFeePerGas).toBe(gwei('10').toString());
+    expect(fees.maxPriorityFeePerGas).toBe(gwei('2').toString());
+    expect(fees.maxFeePerGas).toBe(gwei('22').toString()); // 2x base fee + priority
+    expect(fees.gasPrice).toBe(gwei('12').toString());
+  });
+
+  it('should floor the priority fee when recent blocks are empty', async () => {
+    const provider = mockProvider({
+      send: jest.fn().mockResolvedValue({
+        baseFeePerGas: [ethers.toQuantity(gwei('1'))],
+        reward: [['0x0'], ['0x0']]
+      })
+    });
+
+    const fees = await new FeeModel(provider).estimateFees('low');
+
+    expect(fees.maxPriorityFeePerGas).toBe(gwei('0.01').toString());
+  });
+
+  it('should fall back to legacy pricing when the chain has no base fee', async () => {
+    const provider = mockProvider({
+      send: jest.fn().mockRejectedValue(new Error('method not found')),
+      getFeeData: jest.fn().mockResolvedValue({ gasPrice: gwei('20'), maxFeePerGas: null, maxPriorityFeePerGas: null })
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const fees = await new FeeModel(provider).estimateFees('medium');
+
+    expect(fees.feeType).toBe('legacy');
+    expect(fees.gasPrice).toBe(gwei('30').toString());
+    expect(toFeeOverrides(fees)).toEqual({ gasPrice: gwei('30') });
+  });
+
+  it('should build EIP-1559 transaction overrides', () => {
+    expect(toFeeOverrides({
+      feeType: 'eip1559',
+      speed: 'medium',
+      gasPrice: '12',
+      maxFeePerGas: '17',
+      maxPriorityFeePerGas: '2'
+    })).toEqual({ maxFeePerGas: 17n, maxPriorityFeePerGas: 2n });
+  });
+});
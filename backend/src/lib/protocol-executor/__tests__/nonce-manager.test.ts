@@ -0,0 +1,189 @@
+/**
+ * Nonce Manager Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { getManagedSigner, sendManaged, trackTransaction, replaceTransaction } from '../nonce-manager';
+
+describe('Nonce Manager', () => {
+  const gwei = (value: string) => ethers.parseUnits(value, 'gwei');
+  const from = '0x1111111111111111111111111111111111111111';
+  const pool = '0x2222222222222222222222222222222222222222';
+
+  function mockSigner(pending: Record<string, any> | null) {
+    const sendTransaction = jest.fn().mockResolvedValue({ hash: '0xreplacement' });
+
+    return {
+      sendTransaction,
+      signer: {
+        provider: { getTransaction: jest.fn().mockResolvedValue(pending) },
+        getAddress: jest.fn().mockResolvedValue(from),
+        signer: { sendTransaction }
+      } as any
+    };
+  }
+
+  function mockFeeModel(fees: Record<string, string> = {}): any {
+    return {
+      estimateFees: jest.fn().mockResolvedValue({
+        feeType: 'eip1559',
+        speed: 'high',
+        gasPrice: gwei('2').toString(),
+        maxFeePerGas: gwei('3').toString(),
+        maxPriorityFeePerGas: gwei('1').toString(),
+        ...fees
+      })
+    };
+  }
+
+  const pendingTx = {
+    hash: '0xoriginal',
+    from,
+    to: pool,
+    data: '0x617ba037',
+    value: BigInt(0),
+    gasLimit: BigInt(250000),
+    nonce: 7,
+    chainId: BigInt(31337),
+    blockNumber: null,
+    gasPrice: null,
+    maxFeePerGas: gwei('20'),
+    maxPriorityFeePerGas: gwei('2')
+  };
+
+  describe('getManagedSigner', () => {
+    it('should share one nonce manager per signer and RPC endpoint', () => {
+      const privateKey = ethers.Wallet.createRandom().privateKey;
+      const provider = new ethers.JsonRpcProvider('http://localhost:8545');
+
+      const first = getManagedSigner({ rpcUrl: 'http://localhost:8545', privateKey }, provider);
+      const second = getManagedSigner({ rpcUrl: 'http://localhost:8545', privateKey }, provider);
+      const otherNetwork = getManagedSigner({ rpcUrl: 'http://localhost:9545', privateKey }, provider);
+
+      expect(first).toBeInstanceOf(ethers.NonceManager);
+      expect(second).toBe(first);
+      expect(otherNetwork).not.toBe(first);
+    });
+  });
+
+  describe('sendManaged', () => {
+    it('should resync the nonce when a send fails', async () => {
+      const signer = { reset: jest.fn() } as any;
+
+      await expect(sendManaged(signer, () => Promise.reject(new Error('insufficient funds'))))
+        .rejects.toThrow('insufficient funds');
+      expect(signer.reset).toHaveBeenCalled();
+    });
+  });
+
+  describe('trackTransaction', () => {
+    it('should report the submitted transaction before it is mined', async () => {
+      const onSubmitted = jest.fn();
+      const tx = {
+        hash: '0xoriginal',
+        nonce: 7,
+        wait: jest.fn().mockResolvedValue({ hash: '0xoriginal', gasUsed: BigInt(21000), blockNumber: 5, status: 1 })
+      } as any;
+
+      const result = await trackTransaction(tx, { onSubmitted });
+
+      expect(onSubmitted).toHaveBeenCalledWith({ hash: '0xoriginal', nonce: 7 });
+      expect(result.status).toBe('success');
+      expect(result.nonce).toBe(7);
+      expect(result.replacement).toBeUndefined();
+    });
+
+    it('should follow a sped-up replacement to its receipt', async () => {
+      const tx = {
+        hash: '0xoriginal',
+        nonce: 7,
+        wait: jest.fn().mockRejectedValue({
+          code: 'TRANSACTION_REPLACED',
+          reason: 'repriced',
+          cancelled: false,
+          replacement: { hash: '0xreplacement' },
+          receipt: { hash: '0xreplacement', gasUsed: BigInt(90000), blockNumber: 6, status: 1 }
+        })
+      } as any;
+
+      const result = await trackTransaction(tx);
+
+      expect(result.status).toBe('success');
+      expect(result.transactionHash).toBe('0xreplacement');
+      expect(result.replacement).toEqual({ hash: '0xreplacement', reason: 'repriced', cancelled: false });
+    });
+
+    it('should fail a cancelled transaction', async () => {
+      const tx = {
+        hash: '0xoriginal',
+        nonce: 7,
+        wait: jest.fn().mockRejectedValue({
+          code: 'TRANSACTION_REPLACED',
+          reason: 'cancelled',
+          cancelled: true,
+          replacement: { hash: '0xcancel' },
+          receipt: { hash: '0xcancel', gasUsed: BigInt(21000), blockNumber: 6, status: 1 }
+        })
+      } as any;
+
+      const result = await trackTransaction(tx);
+
+      expect(result.status).toBe('failed');
+      expect(result.errorMessage).toBe('Transaction cancelled by replacement 0xcancel');
+    });
+  });
+
+  describe('replaceTransaction', () => {
+    it('should resend at the same nonce with fees bumped past the original', async () => {
+      const { signer, sendTransaction } = mockSigner(pendingTx);
+
+      const result = await replaceTransaction(signer, mockFeeModel(), '0xoriginal', 'speed-up');
+
+      const sent = sendTransaction.mock.calls[0][0];
+      expect(sent.nonce).toBe(7);
+      expect(sent.to).toBe(pool);
+      expect(sent.data).toBe(pendingTx.data);
+      expect(sent.maxFeePerGas).toBe(gwei('22.5') + BigInt(1));
+      expect(sent.maxPriorityFeePerGas).toBe(gwei('2.25') + BigInt(1));
+      expect(result).toMatchObject({ mode: 'speed-up', originalHash: '0xoriginal', replacementHash: '0xreplacement', nonce: 7 });
+    });
+
+    it('should use current network fees when they exceed the bump', async () => {
+      const { signer, sendTransaction } = mockSigner(pendingTx);
+
+      await replaceTransaction(signer, mockFeeModel({
+        maxFeePerGas: gwei('50').toString(),
+        maxPriorityFeePerGas: gwei('5').toString()
+      }), '0xoriginal', 'speed-up');
+
+      const sent = sendTransaction.mock.calls[0][0];
+      expect(sent.maxFeePerGas).toBe(gwei('50'));
+      expect(sent.maxPriorityFeePerGas).toBe(gwei('5'));
+    });
+
+    it('should cancel with a 0-value self-transfer', async () => {
+      const { signer, sendTransaction } = mockSigner(pendingTx);
+
+      await replaceTransaction(signer, mockFeeModel(), '0xoriginal', 'cancel');
+
+      const sent = sendTransaction.mock.calls[0][0];
+      expect(sent).toMatchObject({ to: from, value: BigInt(0), data: '0x', gasLimit: BigInt(21000), nonce: 7 });
+    });
+
+    it('should reject mined transactions', async () => {
+      const { signer, sendTransaction } = mockSigner({ ...pendingTx, blockNumber: 12 });
+
+      await expect(replaceTransaction(signer, mockFeeModel(), '0xoriginal', 'cancel'))
+        .rejects.toThrow('Transaction already mined');
+      expect(sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject transactions from another account', async () => {
+      const { signer } = mockSigner({ ...pendingTx, from: pool });
+
+      await expect(replaceTransaction(signer, mockFeeModel(), '0xoriginal', 'speed-up'))
+        .rejects.toThrow('Unauthorized');
+    });
+  });
+});
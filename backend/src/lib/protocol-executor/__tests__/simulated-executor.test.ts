@@ -0,0 +1,156 @@
+/**
+ * Simulated Executor Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Pool } from 'pg';
+import { getProtocolExecutor } from '../index';
+import { SimulatedExecutor } from '../simulated-executor';
+import { PositionLedger, MAX_UINT256, getSimulatedLedger } from '../position-ledger';
+import { ExecutionRequest } from '../types';
+
+jest.mock('pg');
+
+describe('SimulatedExecutor', () => {
+  const user = '0x1111111111111111111111111111111111111111';
+  const asset = '0x2222222222222222222222222222222222222222';
+  const tokenOut = '0x3333333333333333333333333333333333333333';
+  const poolAddress = '0x4444444444444444444444444444444444444444';
+
+  let pool: jest.Mocked<Pool>;
+  let ledger: PositionLedger;
+  let aave: SimulatedExecutor;
+  let uniswap: SimulatedExecutor;
+
+  function aaveRequest(functionName: string, parameters: Record<string, any>): ExecutionRequest {
+    return {
+      functionName,
+      protocol: 'AAVE',
+      parameters,
+      contractAddress: poolAddress,
+      network: 'localhost',
+      userAddress: user
+    };
+  }
+
+  const supply = (amount: string) => aaveRequest('supply', { asset, amount, onBehalfOf: user, referralCode: 0 });
+
+  beforeEach(() => {
+    pool = new Pool() as jest.Mocked<Pool>;
+    ledger = new PositionLedger();
+    aave = new SimulatedExecutor('AAVE', pool, ledger);
+    uniswap = new SimulatedExecutor('UNISWAP', pool, ledger);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('execute', () => {
+    it('should track deposits and borrows like MockAavePool', async () => {
+      await aave.execute(supply('1000'));
+      await aave.execute(aaveRequest('borrow', { asset, amount: '400', interestRateMode: 2, referralCode: 0, onBehalfOf: user }));
+      await aave.execute(aaveRequest('withdraw', { asset, amount: '250', to: user }));
+
+      expect(ledger.getPositions(user)).toEqual({
+        user,
+        deposits: { [asset]: '750' },
+        borrows: { [asset]: '400' },
+        balances: { [asset]: '650' }
+      });
+    });
+
+    it('should repay the whole debt with MAX_UINT256', async () => {
+      await aave.execute(aaveRequest('borrow', { asset, amount: '400', interestRateMode: 1, referralCode: 0, onBehalfOf: user }));
+
+      const result = await aave.simulate(aaveRequest('repay', { asset, amount: MAX_UINT256.toString(), interestRateMode: 1, onBehalfOf: user }));
+
+      expect(result.success).toBe(true);
+      expect(result.returnValue).toBe('400');
+    });
+
+    it('should return an ExecutionResponse with a deterministic receipt', async () => {
+      const first = await aave.execute(supply('1000'));
+      const replayed = await new SimulatedExecutor('AAVE', pool, new PositionLedger()).execute(supply('1000'));
+
+      expect(first).toMatchObject({
+        status: 'success',
+        gasUsed: '150000',
+        blockNumber: 1,
+        nonce: 0
+      });
+      expect(first.transactionHash).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(replayed.transactionHash).toBe(first.transactionHash);
+      expect(first.timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should fail with the pool revert reason and leave the ledger untouched', async () => {
+      await aave.execute(supply('100'));
+
+      const result = await aave.execute(aaveRequest('withdraw', { asset, amount: '500', to: user }));
+
+      expect(result.status).toBe('failed');
+      expect(result.transactionHash).toBe('');
+      expect(result.errorMessage).toBe('Insufficient balance');
+      expect(ledger.getDeposit(user, asset)).toBe(BigInt(100));
+      expect(ledger.getBlockNumber()).toBe(1);
+    });
+
+    it('should report the submitted hash and nonce', async () => {
+      const onSubmitted = jest.fn();
+
+      await aave.execute(supply('1'));
+      const result = await aave.execute(supply('1'), { onSubmitted });
+
+      expect(onSubmitted).toHaveBeenCalledWith({ hash: result.transactionHash, nonce: 1 });
+    });
+
+    it('should settle swaps at the minimum output', async () => {
+      ledger.fund(user, asset, BigInt(1000));
+
+      const result = await uniswap.execute({
+        functionName: 'exactInputSingle',
+        protocol: 'UNISWAP',
+        parameters: {
+          tokenIn: asset,
+          tokenOut,
+          fee: 3000,
+          recipient: user,
+          deadline: Math.floor(Date.now() / 1000) + 3600,
+          amountIn: '600',
+          amountOutMinimum: '590',
+          sqrtPriceLimitX96: 0
+        },
+        contractAddress: poolAddress,
+        network: 'localhost',
+        userAddress: user
+      });
+
+      expect(result.status).toBe('success');
+      expect(ledger.getBalance(user, asset)).toBe(BigInt(400));
+      expect(ledger.getBalance(user, tokenOut)).toBe(BigInt(590));
+    });
+  });
+
+  describe('PositionLedger', () => {
+    it('should reject overspending when balances are enforced', () => {
+      const strict = new PositionLedger({ enforceBalances: true });
+
+      expect(() => strict.supply(user, asset, BigInt(1), user)).toThrow('Insufficient token balance');
+    });
+  });
+
+  describe('ProtocolExecutorService', () => {
+    it('should use simulated executors when configured', async () => {
+      getSimulatedLedger().reset();
+      const executor = getProtocolExecutor(pool, { mode: 'simulated' });
+
+      const result = await executor.execute(supply('1000'));
+
+      expect(result.status).toBe('success');
+      expect(getSimulatedLedger().getDeposit(user, asset)).toBe(BigInt(1000));
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Protocol Call Simulation Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { decodeRevert, simulateContractCall, toSerializable } from '../simulation';
+
+describe('Protocol call simulation', () => {
+  const iface = new ethers.Interface([
+    'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
+    'function quote(uint256 amountIn) view returns (uint256 amountOut, uint160 sqrtPriceX96After)',
+    'error InsufficientBalance(address account, uint256 needed)'
+  ]);
+
+  const provider = { getBlockNumber: jest.fn().mockResolvedValue(42) } as any;
+
+  function mockContract(functionName: string, staticCallResult: jest.Mock): any {
+    return {
+      interface: iface,
+      getFunction: () => ({
+        fragment: iface.getFunction(functionName),
+        staticCallResult,
+        estimateGas: jest.fn().mockResolvedValue(120000n)
+      })
+    };
+  }
+
+  it('should serialize bigints in nested results', () => {
+    expect(toSerializable({ amounts: [1n, 2n], ok: true })).toEqual({ amounts: ['1', '2'], ok: true });
+  });
+
+  it('should decode named return values', async () => {
+    const encoded = iface.encodeFunctionResult('quote', [900n, 79228162514264337593543950336n]);
+    const result = iface.decodeFunctionResult('quote', encoded);
+    const contract = mockContract('quote', jest.fn().mockResolvedValue(result));
+
+    const simulation = await simulateContractCall(provider, contract, 'quote', [1000n], {
+      from: '0x0000000000000000000000000000000000000001'
+    });
+
+    expect(simulation.success).toBe(true);
+    expect(simulation.blockNumber).toBe(42);
+    expect(simulation.gasEstimate).toBe('120000');
+    expect(simulation.returnValue).toEqual({
+      amountOut: '900',
+      sqrtPriceX96After: '79228162514264337593543950336'
+    });
+  });
+
+  it('should decode custom errors from revert data', () => {
+    const data = iface.encodeErrorResult('InsufficientBalance', [
+      '0x0000000000000000000000000000000000000001',
+      5n
+    ]);
+
+    const decoded = decodeRevert(iface, { code: 'CALL_EXCEPTION', data, reason: null, revert: null });
+
+    expect(decoded.customError).toEqual({
+      name: 'InsufficientBalance',
+      signature: 'InsufficientBalance(address,uint256)',
+      args: ['0x0000000000000000000000000000000000000001', '5']
+    });
+    expect(decoded.revertReason).toBe('InsufficientBalance');
+    expect(decoded.revertData).toBeUndefined();
+  });
+
+  it('should report require() reasons without a custom error', async () => {
+    const revertError = {
+      code: 'CALL_EXCEPTION',
+      reason: '26',
+      revert: { name: 'Error', signature: 'Error(string)', args: ['26'] }
+    };
+    const contract = mockContract('supply', jest.fn().mockRejectedValue(revertError));
+
+    const simulation = await simulateContractCall(provider, contract, 'supply', [], {
+      from: '0x0000000000000000000000000000000000000001'
+    });
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.revertReason).toBe('26');
+    expect(simulation.customError).toBeUndefined();
+  });
+
+  it('should keep undecodable revert data', () => {
+    const decoded = decodeRevert(iface, { code: 'CALL_EXCEPTION', data: '0xdeadbeef', shortMessage: 'execution reverted' });
+
+    expect(decoded.revertData).toBe('0xdeadbeef');
+    expect(decoded.revertReason).toBe('execution reverted');
+  });
+
+  it('should propagate non-revert errors', async () => {
+    const contract = mockContract('supply', jest.fn().mockRejectedValue({ code: 'NETWORK_ERROR', message: 'down' }));
+
+    await expect(simulateContractCall(provider, contract, 'supply', [], {
+      from: '0x0000000000000000000000000000000000000001'
+    })).rejects.toEqual(expect.objectContaining({ code: 'NETWORK_ERROR' }));
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Swap Quoter Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { applyQuote, applySlippage, isQuotableSwap, isValidSlippage, quoteSwap } from '../swap-quoter';
+import { CONTRACT_ABIS } from '../../protocol-contracts/registry';
+
+describe('Swap quoter', () => {
+  const quoterAddress = '0x61fFE014bA17989E743c5F6cB21bF9697530B21e';
+  const tokenIn = '0x1111111111111111111111111111111111111111';
+  const tokenOut = '0x2222222222222222222222222222222222222222';
+  const quoterInterface = new ethers.Interface(CONTRACT_ABIS['UNISWAP_QuoterV2']);
+
+  function mockProvider(functionName: string, quoted: bigint): any {
+    return {
+      call: jest.fn().mockResolvedValue(
+        quoterInterface.encodeFunctionResult(functionName, [quoted, BigInt(0), 0, BigInt(90000)])
+      )
+    };
+  }
+
+  describe('applySlippage', () => {
+    it('should lower a minimum output by the tolerance', () => {
+      expect(applySlippage(BigInt(10000), 50, 'min')).toBe(BigInt(9950));
+      expect(applySlippage(BigInt(10000), 0, 'min')).toBe(BigInt(10000));
+    });
+
+    it('should raise a maximum input and round up', () => {
+      expect(applySlippage(BigInt(10000), 50, 'max')).toBe(BigInt(10050));
+      expect(applySlippage(BigInt(3), 50, 'max')).toBe(BigInt(4));
+    });
+  });
+
+  describe('validation', () => {
+    it('should only quote Uniswap single-pool swaps', () => {
+      expect(isQuotableSwap('UNISWAP', 'exactInputSingle')).toBe(true);
+      expect(isQuotableSwap('UNISWAP', 'exactInput')).toBe(false);
+      expect(isQuotableSwap('AAVE', 'exactInputSingle')).toBe(false);
+    });
+
+    it('should accept whole basis points up to the maximum', () => {
+      expect(isValidSlippage(100)).toBe(true);
+      expect(isValidSlippage(0.5)).toBe(false);
+      expect(isValidSlippage(-1)).toBe(false);
+      expect(isValidSlippage(5001)).toBe(false);
+      expect(isValidSlippage('50')).toBe(false);
+    });
+  });
+
+  describe('quoteSwap', () => {
+    it('should derive amountOutMinimum from an exact input quote', async () => {
+      const provider = mockProvider('quoteExactInputSingle', BigInt(2000000));
+
+      const quote = await quoteSwap(provider, quoterAddress, 'exactInputSingle', {
+        tokenIn, tokenOut, fee: 500, amountIn: '1000000000000000000', amountOutMinimum: '0'
+      }, 100);
+
+      expect(quote).toMatchObject({
+        functionName: 'exactInputSingle',
+        quoter: quoterAddress,
+        amountIn: '1000000000000000000',
+        amountOut: '2000000',
+        slippageBps: 100,
+        amountOutMinimum: '1980000',
+        gasEstimate: '90000'
+      });
+
+      const [tx] = provider.call.mock.calls[0];
+      const [params] = quoterInterface.decodeFunctionData('quoteExactInputSingle', tx.data);
+      expect(params.fee).toBe(BigInt(500));
+      expect(params.amountIn).toBe(BigInt('1000000000000000000'));
+    });
+
+    it('should derive amountInMaximum from an exact output quote', async () => {
+      const quote = await quoteSwap(mockProvider('quoteExactOutputSingle', BigInt(1000)), quoterAddress, 'exactOutputSingle', {
+        tokenIn, tokenOut, fee: 3000, amountOut: '500'
+      });
+
+      expect(quote.amountIn).toBe('1000');
+      expect(quote.amountInMaximum).toBe('1005');
+      expect(quote.amountOutMinimum).toBeUndefined();
+    });
+
+    it('should reject unquotable functions and invalid tolerances', async () => {
+      const provider = mockProvider('quoteExactInputSingle', BigInt(1));
+
+      await expect(quoteSwap(provider, quoterAddress, 'exactInput', {})).rejects.toThrow('Cannot quote Uniswap function');
+      await expect(quoteSwap(provider, quoterAddress, 'exactInputSingle', { amountIn: '1' }, 6000))
+        .rejects.toThrow('Invalid slippage');
+      expect(provider.call).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyQuote', () => {
+    it('should replace only the slippage bound', async () => {
+      const params = { tokenIn, tokenOut, fee: 3000, amountIn: '10', amountOutMinimum: '1' };
+      const quote = await quoteSwap(mockProvider('quoteExactInputSingle', BigInt(20)), quoterAddress, 'exactInputSingle', params, 50);
+
+      expect(applyQuote(params, quote)).toEqual({ ...params, amountOutMinimum: '19' });
+    });
+  });
+});
@@ -5,15 +5,20 @@
  */
 
 import { ethers } from 'ethers';
-import { ProtocolExecutor, ExecutionRequest, ExecutionResponse, GasEstimation, ExecutorConfig } from './types';
-import { getProtocolRegistry, FUNCTION_SIGNATURES } from '../protocol-contracts/registry';
+import { ProtocolExecutor, ExecutionRequest, ExecutionResponse, ExecutionOptions, GasEstimation, ExecutorConfig, SimulationResult, ApprovalStep } from './types';
+import { checkAllowance, ensureAllowance } from './allowance';
+import { simulateContractCall } from './simulation';
+import { sendManaged, trackTransaction } from './nonce-manager';
+import { NetworkConnections } from './network-connections';
+import { DEFAULT_FEE_SPEED, toFeeOverrides, FALLBACK_GAS_LIMIT } from './fee-model';
+import { getProtocolRegistry } from '../protocol-contracts/registry';
+import { getProtocolAdapter, getFunctionSignature } from '../protocol-adapters/registry';
 import { Pool } from 'pg';
 
 export class AAVEExecutor implements ProtocolExecutor {
-  private provider: ethers.Provider;
-  private signer?: ethers.Signer;
   private config: ExecutorConfig;
   private gasCache: Map<string, { estimation: GasEstimation; expiresAt: number }> = new Map();
+  private connections: NetworkConnections;
   private pool: Pool;
 
   constructor(config: ExecutorConfig, pool: Pool) {
@@ -23,17 +28,14 @@ export class AAVEExecutor implements ProtocolExecutor {
       ...config
     };
     this.pool = pool;
-    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
-
-    if (config.privateKey) {
-      this.signer = new ethers.Wallet(config.privateKey, this.provider);
-    }
+    // Provider, fee model and signer are opened per network on first use
+    this.connections = new NetworkConnections(this.config);
   }
 
   /**
    * Execute AAVE protocol function
    */
-  async execute(request: ExecutionRequest): Promise<ExecutionResponse> {
+  async execute(request: ExecutionRequest, options: ExecutionOptions = {}): Promise<ExecutionResponse> {
     try {
       // Validate request
       const validation = await this.validateRequest(request);
@@ -41,58 +43,58 @@ export class AAVEExecutor implements ProtocolExecutor {
         throw new Error(`Invalid request: ${validation.errors.join(', ')}`);
       }
 
-      // In development without signer, return mock response
-      if (!this.signer) {
-        console.log('[AAVE Executor] Mock mode: No signer configured, returning mock response');
-        return {
-          success: true,
-          transactionHash: `0x${Math.random().toString(36).substring(2)}${'0'.repeat(40)}`.substring(0, 66),
-          gasUsed: '150000',
-          blockNumber: 1,
-          timestamp: Date.now()
-        };
+      const { signer, feeModel } = this.connections.get(request.network);
+      if (!signer) {
+        throw new Error('No signer configured for execution (set EXECUTOR_MODE=simulated to run without one)');
       }
 
       // Get contract details
       const registry = getProtocolRegistry(this.pool);
-      const contractDetails = await registry.getContract('AAVE', 'Pool', request.network as any);
+      const contractDetails = await registry.getContractForFunction('AAVE', request.functionName, request.network as any);
 
       if (!contractDetails) {
         throw new Error('AAVE Pool contract not found');
       }
 
+      // Approve the contract to pull the token first if the signer's allowance is short
+      const approval = await ensureAllowance(signer, feeModel, request, contractDetails.address, this.config);
+      if (approval?.status === 'failed') {
+        return {
+          transactionHash: '',
+          gasUsed: '0',
+          blockNumber: 0,
+          status: 'failed',
+          errorMessage: `Token approval failed for ${approval.token}`,
+          approval,
+          timestamp: new Date()
+        };
+      }
+
       // Create contract instance
       const contract = new ethers.Contract(
         contractDetails.address,
         contractDetails.abi,
-        this.signer
+        signer
       );
 
       // Estimate gas
       const gasEstimation = await this.estimateGas(request);
 
       // Build transaction parameters
-      const txParams = this.buildTransactionParams(request.functionName, request.parameters);
+      const txParams = getProtocolAdapter('AAVE').buildCallArgs(request.functionName, request.parameters);
 
       // Execute transaction
-      const tx = await contract[request.functionName](
+      const tx = await sendManaged(signer, () => contract[request.functionName](
         ...txParams,
         {
           gasLimit: gasEstimation.gasLimit,
-          gasPrice: gasEstimation.gasPrice
+          ...toFeeOverrides(gasEstimation)
         }
-      );
-
-      // Wait for confirmation
-      const receipt = await tx.wait();
+      ));
 
-      return {
-        transactionHash: receipt.hash,
-        gasUsed: receipt.gasUsed.toString(),
-        blockNumber: receipt.blockNumber,
-        status: receipt.status === 1 ? 'success' : 'failed',
-        timestamp: new Date()
-      };
+      // Wait for confirmation, following speed-up/cancel replacements
+      const response = await trackTransaction(tx, options);
+      return { ...response, approval: approval || undefined };
     } catch (error: any) {
       console.error('AAVE execution error:', error);
       return {
@@ -110,18 +112,22 @@ export class AAVEExecutor implements ProtocolExecutor {
    * Estimate gas for AAVE transaction
    */
   async estimateGas(request: ExecutionRequest): Promise<GasEstimation> {
-    try {
-      // Check cache
-      const cacheKey = this.getCacheKey(request);
-      const cached = this.gasCache.get(cacheKey);
+    // Check cache
+    const cacheKey = this.getCacheKey(request);
+    const cached = this.gasCache.get(cacheKey);
 
-      if (cached && cached.expiresAt > Date.now()) {
-        return cached.estimation;
-      }
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.estimation;
+    }
 
+    const { provider, feeModel } = this.connections.get(request.network);
+    let gasLimit: bigint;
+    let estimated = true;
+
+    try {
       // Get contract details
       const registry = getProtocolRegistry(this.pool);
-      const contractDetails = await registry.getContract('AAVE', 'Pool', request.network as any);
+      const contractDetails = await registry.getContractForFunction('AAVE', request.functionName, request.network as any);
 
       if (!contractDetails) {
         throw new Error('AAVE Pool contract not found');
@@ -131,54 +137,85 @@ export class AAVEExecutor implements ProtocolExecutor {
       const contract = new ethers.Contract(
         contractDetails.address,
         contractDetails.abi,
-        this.provider
+        provider
       );
 
       // Build transaction parameters
-      const txParams = this.buildTransactionParams(request.functionName, request.parameters);
+      const txParams = getProtocolAdapter('AAVE').buildCallArgs(request.functionName, request.parameters);
 
       // Estimate gas
-      const gasLimit = await contract[request.functionName].estimateGas(
+      const estimatedGas = await contract[request.functionName].estimateGas(
         ...txParams,
         { from: request.userAddress }
       );
 
-      // Get current gas price
-      const feeData = await this.provider.getFeeData();
-      const gasPrice = feeData.gasPrice || ethers.parseUnits('20', 'gwei');
-
       // Apply multiplier for safety
-      const adjustedGasLimit = gasLimit * BigInt(Math.floor(this.config.gasMultiplier! * 100)) / BigInt(100);
+      gasLimit = estimatedGas * BigInt(Math.floor(this.config.gasMultiplier! * 100)) / BigInt(100);
+    } catch (error: any) {
+      console.error('Gas estimation error:', error);
+      // Fall back to a conservative limit; fees still come from the network
+      gasLimit = FALLBACK_GAS_LIMIT;
+      estimated = false;
+    }
 
-      // Calculate total cost
-      const totalCost = adjustedGasLimit * gasPrice;
+    // Price the limit with EIP-1559 fees for the requested speed
+    const fees = await feeModel.estimateFees(request.feeSpeed || DEFAULT_FEE_SPEED);
 
-      const estimation: GasEstimation = {
-        gasLimit: adjustedGasLimit.toString(),
-        gasPrice: gasPrice.toString(),
-        totalCost: totalCost.toString(),
-        estimatedAt: new Date(),
-        ttl: this.config.cacheTtl!
-      };
+    const estimation: GasEstimation = {
+      ...fees,
+      gasLimit: gasLimit.toString(),
+      totalCost: (gasLimit * BigInt(fees.maxFeePerGas)).toString(),
+      estimatedAt: new Date(),
+      ttl: estimated ? this.config.cacheTtl! : 0
+    };
 
-      // Cache the estimation
+    // Cache the estimation
+    if (estimated) {
       this.gasCache.set(cacheKey, {
         estimation,
         expiresAt: Date.now() + (this.config.cacheTtl! * 1000)
       });
+    }
 
-      return estimation;
-    } catch (error: any) {
-      console.error('Gas estimation error:', error);
-      // Return fallback estimation
-      return {
-        gasLimit: '500000',
-        gasPrice: ethers.parseUnits('20', 'gwei').toString(),
-        totalCost: ethers.parseUnits('0.01', 'ether').toString(),
-        estimatedAt: new Date(),
-        ttl: 0
-      };
+    return estimation;
+  }
+
+  /**
+   * Simulate AAVE transaction with eth_call
+   */
+  async simulate(request: ExecutionRequest): Promise<SimulationResult> {
+    const { provider } = this.connections.get(request.network);
+
+    // Get contract details
+    const registry = getProtocolRegistry(this.pool);
+    const contractDetails = await registry.getContractForFunction('AAVE', request.functionName, request.network as any);
+
+    if (!contractDetails) {
+      throw new Error('AAVE Pool contract not found');
     }
+
+    // Create contract instance
+    const contract = new ethers.Contract(
+      contractDetails.address,
+      contractDetails.abi,
+      provider
+    );
+
+    // Build transaction parameters
+    const txParams = getProtocolAdapter('AAVE').buildCallArgs(request.functionName, request.parameters);
+
+    return simulateContractCall(provider, contract, request.functionName, txParams, {
+      from: request.userAddress
+    });
+  }
+
+  /**
+   * Check the allowance the call needs; the owner is the signer when one is configured
+   */
+  async checkAllowance(request: ExecutionRequest): Promise<ApprovalStep | null> {
+    const { provider, signer } = this.connections.get(request.network);
+    const owner = signer ? await signer.getAddress() : request.userAddress;
+    return checkAllowance(provider, request, owner, request.contractAddress, this.config);
   }
 
   /**
@@ -193,16 +230,19 @@ export class AAVEExecutor implements ProtocolExecutor {
     }
 
     // Check function signature
-    const signature = FUNCTION_SIGNATURES[request.functionName];
-    if (!signature || signature.protocol !== 'AAVE') {
+    const signature = getFunctionSignature(request.functionName, 'AAVE');
+    if (!signature) {
       errors.push(`Invalid AAVE function: ${request.functionName}`);
     } else {
-      // Validate required parameters
-      for (const param of signature.requiredParams) {
-        if (!(param in request.parameters)) {
-          errors.push(`Missing required parameter: ${param}`);
-        }
-      }
+      // Validate parameters against the ABI-derived schema
+      const registry = getProtocolRegistry(this.pool);
+      const paramValidation = await registry.validateFunctionParams(
+        'AAVE',
+        request.functionName,
+        request.parameters,
+        { network: request.network as any }
+      );
+      errors.push(...paramValidation.errors.map(error => error.message));
     }
 
     // Validate addresses
@@ -213,47 +253,12 @@ export class AAVEExecutor implements ProtocolExecutor {
       errors.push('Invalid user address');
     }
 
-    // Validate amounts
-    if ('amount' in request.parameters) {
-      try {
-        const amount = BigInt(request.parameters.amount);
-        if (amount <= 0n) {
-          errors.push('Amount must be greater than 0');
-        }
-      } catch {
-        errors.push('Invalid amount format');
-      }
-    }
-
     return {
       valid: errors.length === 0,
       errors
     };
   }
 
-  /**
-   * Build transaction parameters in correct order
-   */
-  private buildTransactionParams(functionName: string, params: Record<string, any>): any[] {
-    const signature = FUNCTION_SIGNATURES[functionName];
-    if (!signature) {
-      throw new Error(`Unknown function: ${functionName}`);
-    }
-
-    // Return parameters in the order defined by the signature
-    return signature.requiredParams.map(param => {
-      const value = params[param];
-
-      // Convert amounts to BigInt
-      if (param === 'amount' || param.includes('Amount')) {
-        return BigInt(value);
-      }
-
-      // Handle other types as needed
-      return value;
-    });
-  }
-
   /**
    * Generate cache key for gas estimation
    */
@@ -263,7 +268,7 @@ export class AAVEExecutor implements ProtocolExecutor {
       .map(key => `${key}:${request.parameters[key]}`)
       .join('|');
 
-    return `aave:${request.functionName}:${request.network}:${params}`;
+    return `aave:${request.functionName}:${request.network}:${request.feeSpeed || DEFAULT_FEE_SPEED}:${params}`;
   }
 
   /**
@@ -0,0 +1,122 @@
+/**
+ * ERC-20 Allowance Management
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Detect a short allowance for the token a protocol call pulls and build or send the approval
+ */
+
+import { ethers } from 'ethers';
+import { ApprovalMode, ApprovalStep, ExecutionRequest, ExecutorConfig } from './types';
+import { FeeModel, DEFAULT_FEE_SPEED, toFeeOverrides } from './fee-model';
+import { sendManaged } from './nonce-manager';
+import { getProtocolAdapter } from '../protocol-adapters/registry';
+
+const ERC20_ABI = [
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+/**
+ * Amount to approve: the exact requirement, or the cap when it covers more
+ */
+export function getApproveAmount(required: bigint, mode: ApprovalMode, cap?: string): bigint {
+  if (mode === 'capped' && cap && BigInt(cap) > required) {
+    return BigInt(cap);
+  }
+  return required;
+}
+
+/**
+ * Check whether owner has approved spender for the token the request pulls.
+ * Returns null when the call spends no ERC-20 (e.g. withdraw, or swaps paid in ETH).
+ */
+export async function checkAllowance(
+  provider: ethers.Provider,
+  request: ExecutionRequest,
+  owner: string,
+  spender: string,
+  config: Pick<ExecutorConfig, 'approvalMode' | 'approvalCap'> = {}
+): Promise<ApprovalStep | null> {
+  const spend = getProtocolAdapter(request.protocol).getTokenSpend?.(request.functionName, request.parameters);
+  if (!spend) {
+    return null;
+  }
+
+  const token = new ethers.Contract(spend.token, ERC20_ABI, provider);
+  const currentAllowance: bigint = await token.allowance(owner, spender);
+  const mode = request.approvalMode || config.approvalMode || 'exact';
+  const approveAmount = getApproveAmount(spend.amount, mode, config.approvalCap);
+  const sufficient = currentAllowance >= spend.amount;
+
+  return {
+    token: spend.token,
+    owner,
+    spender,
+    currentAllowance: currentAllowance.toString(),
+    requiredAmount: spend.amount.toString(),
+    approveAmount: approveAmount.toString(),
+    mode,
+    status: sufficient ? 'not_required' : 'required',
+    transaction: sufficient
+      ? undefined
+      : {
+          to: spend.token,
+          data: erc20Interface.encodeFunctionData('approve', [spender, approveAmount]),
+          value: '0'
+        }
+  };
+}
+
+/**
+ * Send a required approval from the managed signer and wait for it to be mined
+ */
+export async function sendApproval(
+  signer: ethers.NonceManager,
+  feeModel: FeeModel,
+  approval: ApprovalStep,
+  request: ExecutionRequest
+): Promise<ApprovalStep> {
+  if (approval.status !== 'required' || !approval.transaction) {
+    return approval;
+  }
+
+  const fees = await feeModel.estimateFees(request.feeSpeed || DEFAULT_FEE_SPEED);
+  const call = approval.transaction;
+
+  try {
+    const tx = await sendManaged(signer, () => signer.sendTransaction({
+      to: call.to,
+      data: call.data,
+      ...toFeeOverrides(fees)
+    }));
+    const receipt = await tx.wait();
+
+    return {
+      ...approval,
+      transactionHash: tx.hash,
+      status: receipt?.status === 1 ? 'approved' : 'failed'
+    };
+  } catch (error: any) {
+    console.error('Token approval error:', error);
+    return { ...approval, status: 'failed' };
+  }
+}
+
+/**
+ * Check the signer's allowance and approve the spender first if it is short
+ */
+export async function ensureAllowance(
+  signer: ethers.NonceManager,
+  feeModel: FeeModel,
+  request: ExecutionRequest,
+  spender: string,
+  config: Pick<ExecutorConfig, 'approvalMode' | 'approvalCap'>
+): Promise<ApprovalStep | null> {
+  const approval = await checkAllowance(signer.provider!, request, await signer.getAddress(), spender, config);
+  if (!approval) {
+    return null;
+  }
+
+  return sendApproval(signer, feeModel, approval, request);
+}
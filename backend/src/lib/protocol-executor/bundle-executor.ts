@@ -0,0 +1,226 @@
+/**
+ * Strategy Bundle Executor
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Execute a strategy's legs atomically as one Multicall3-style aggregate3Value transaction
+ *
+ * Legs run with the batch contract as msg.sender, so it must be account-bound (e.g. the user's
+ * smart account): under the shared Multicall3 deployment, supplies and swaps would pull from and
+ * credit the multicall contract instead of the user. Atomic mode is refused until one is set.
+ */
+
+import { ethers } from 'ethers';
+import { Pool } from 'pg';
+import {
+  ExecutorConfig,
+  StrategyFunctionCall,
+  StrategyLegResult,
+  StrategyExecutionResult
+} from './types';
+import {
+  getProtocolRegistry,
+  MULTICALL3_ABI,
+  NetworkType
+} from '../protocol-contracts/registry';
+import { getProtocolAdapter } from '../protocol-adapters';
+import { decodeRevert, toSerializable } from './simulation';
+import { sendManaged, trackTransaction } from './nonce-manager';
+import { NetworkConnections } from './network-connections';
+import { getDefaultNetwork } from '../protocol-contracts/networks';
+
+interface EncodedLeg {
+  call: StrategyFunctionCall;
+  target: string;
+  value: bigint;
+  callData: string;
+  contractInterface: ethers.Interface;
+}
+
+export const ATOMIC_BUNDLE_REQUIRED = 'Atomic strategy execution requires an account-bound bundle contract in BUNDLE_CONTRACT_ADDRESS';
+
+/**
+ * Get the batch contract atomic bundles are sent through; undefined when none is configured
+ */
+export function getBundleContractAddress(config: Pick<ExecutorConfig, 'bundleAddress'> = {}): string | undefined {
+  return config.bundleAddress || process.env.BUNDLE_CONTRACT_ADDRESS || undefined;
+}
+
+export class BundleExecutor {
+  private connections: NetworkConnections;
+  private pool: Pool;
+  private bundleAddress?: string;
+
+  constructor(config: ExecutorConfig, pool: Pool) {
+    this.pool = pool;
+    this.connections = new NetworkConnections(config);
+    this.bundleAddress = getBundleContractAddress(config);
+  }
+
+  /**
+   * Execute all legs in a single transaction; either every leg lands or none does
+   */
+  async executeAtomic(
+    strategyId: string,
+    calls: StrategyFunctionCall[],
+    userAddress: string,
+    network: string = getDefaultNetwork()
+  ): Promise<StrategyExecutionResult> {
+    if (!this.bundleAddress) {
+      throw new Error(ATOMIC_BUNDLE_REQUIRED);
+    }
+
+    const { provider, signer } = this.connections.get(network);
+    const legs = await this.encodeLegs(calls, network);
+    const totalValue = legs.reduce((sum, leg) => sum + leg.value, BigInt(0));
+    const bundle = new ethers.Contract(this.bundleAddress, MULTICALL3_ABI, provider);
+
+    // Preflight with allowFailure so every failing leg is reported, not just the first
+    const preflight: Array<{ success: boolean; returnData: string }> =
+      await bundle.aggregate3Value.staticCall(
+        legs.map(leg => this.toCall(leg, true)),
+        { from: userAddress, value: totalValue }
+      );
+
+    const results: StrategyLegResult[] = legs.map((leg, index) =>
+      this.decodeLegResult(leg, index, preflight[index])
+    );
+
+    if (results.some(result => result.status === 'failed')) {
+      return {
+        strategyId,
+        mode: 'atomic',
+        executions: [],
+        legs: results.map(result => result.status === 'failed'
+          ? result
+          : { ...result, status: 'not_executed', returnValue: undefined }),
+        totalGasUsed: '0',
+        success: false
+      };
+    }
+
+    if (!signer) {
+      throw new Error('Atomic strategy execution requires a configured signer');
+    }
+
+    try {
+      // allowFailure=false: any leg reverting reverts the whole bundle
+      const tx = await sendManaged(signer, () => bundle.connect(signer).getFunction('aggregate3Value')(
+        legs.map(leg => this.toCall(leg, false)),
+        { value: totalValue }
+      ));
+      const execution = await trackTransaction(tx);
+      const success = execution.status === 'success';
+
+      return {
+        strategyId,
+        mode: 'atomic',
+        executions: [execution],
+        legs: results.map(result => ({
+          ...result,
+          status: success ? 'success' : 'reverted',
+          transactionHash: execution.transactionHash
+        })),
+        totalGasUsed: execution.gasUsed,
+        success
+      };
+    } catch (error: any) {
+      console.error('Bundle execution error:', error);
+
+      return {
+        strategyId,
+        mode: 'atomic',
+        executions: [{
+          transactionHash: '',
+          gasUsed: '0',
+          blockNumber: 0,
+          status: 'failed',
+          errorMessage: error.message,
+          timestamp: new Date()
+        }],
+        legs: results.map(result => ({
+          ...result,
+          status: 'reverted',
+          returnValue: undefined,
+          revertReason: error.reason || error.shortMessage || error.message
+        })),
+        totalGasUsed: '0',
+        success: false
+      };
+    }
+  }
+
+  /**
+   * Resolve each leg's contract and encode its calldata
+   */
+  private async encodeLegs(calls: StrategyFunctionCall[], network: string): Promise<EncodedLeg[]> {
+    const registry = getProtocolRegistry(this.pool);
+    const legs: EncodedLeg[] = [];
+
+    for (const call of calls) {
+      const contract = await registry.getContractForFunction(call.protocol, call.functionName, network as NetworkType);
+
+      if (!contract) {
+        throw new Error(`Contract not found for ${call.protocol} ${call.functionName}`);
+      }
+
+      const adapter = getProtocolAdapter(call.protocol);
+      const contractInterface = new ethers.Interface(contract.abi);
+
+      legs.push({
+        call,
+        target: contract.address,
+        value: adapter.getCallValue?.(call.functionName, call.parameters) ?? BigInt(0),
+        callData: contractInterface.encodeFunctionData(
+          call.functionName,
+          adapter.buildCallArgs(call.functionName, call.parameters)
+        ),
+        contractInterface
+      });
+    }
+
+    return legs;
+  }
+
+  /**
+   * Build a Call3Value struct for a leg
+   */
+  private toCall(leg: EncodedLeg, allowFailure: boolean) {
+    return {
+      target: leg.target,
+      allowFailure,
+      value: leg.value,
+      callData: leg.callData
+    };
+  }
+
+  /**
+   * Decode a leg's preflight outcome into its return value or revert reason
+   */
+  private decodeLegResult(
+    leg: EncodedLeg,
+    index: number,
+    outcome: { success: boolean; returnData: string }
+  ): StrategyLegResult {
+    const base = {
+      index,
+      functionName: leg.call.functionName,
+      protocol: leg.call.protocol,
+      target: leg.target
+    };
+
+    if (!outcome.success) {
+      return {
+        ...base,
+        status: 'failed',
+        ...decodeRevert(leg.contractInterface, { data: outcome.returnData, message: 'execution reverted' })
+      };
+    }
+
+    const decoded = leg.contractInterface.decodeFunctionResult(leg.call.functionName, outcome.returnData);
+
+    return {
+      ...base,
+      status: 'success',
+      returnValue: decoded.length === 1 ? toSerializable(decoded[0]) : toSerializable(Array.from(decoded))
+    };
+  }
+}
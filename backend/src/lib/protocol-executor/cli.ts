@@ -7,9 +7,19 @@
 
 import { Command } from 'commander';
 import { Pool } from 'pg';
+import { ethers } from 'ethers';
 import { getProtocolExecutor } from './index';
-import { ExecutionRequest } from './types';
-import { ProtocolType } from '../protocol-contracts/registry';
+import { ExecutionRequest, GasEstimation } from './types';
+import { FEE_PRESETS, DEFAULT_FEE_SPEED, isFeeSpeed } from './fee-model';
+import { ProtocolType, getProtocolRegistry } from '../protocol-contracts/registry';
+import { getDefaultNetwork } from '../protocol-contracts/networks';
+import {
+  listProtocolAdapters,
+  getRegisteredProtocols,
+  decodePath,
+  formatPath,
+  parsePathSpec
+} from '../protocol-adapters';
 import * as dotenv from 'dotenv';
 import path from 'path';
 
@@ -25,6 +35,31 @@ function createPool(): Pool {
   });
 }
 
+/**
+ * Print a gas estimation with its EIP-1559 fee breakdown
+ */
+function printGasEstimation(estimation: GasEstimation): void {
+  const gwei = (wei: string) => `${ethers.formatUnits(wei, 'gwei')} gwei`;
+
+  console.log(`  Gas Limit: ${estimation.gasLimit}`);
+  console.log(`  Fee Type: ${estimation.feeType} (${estimation.speed})`);
+  if (estimation.baseFeePerGas) {
+    console.log(`  Base Fee: ${gwei(estimation.baseFeePerGas)}`);
+  }
+  console.log(`  Max Fee Per Gas: ${gwei(estimation.maxFeePerGas)}`);
+  console.log(`  Max Priority Fee Per Gas: ${gwei(estimation.maxPriorityFeePerGas)}`);
+  console.log(`  Expected Gas Price: ${gwei(estimation.gasPrice)}`);
+  console.log(`  Max Total Cost: ${estimation.totalCost} wei (${ethers.formatEther(estimation.totalCost)} ETH)`);
+  console.log(`  Cache TTL: ${estimation.ttl} seconds`);
+}
+
+/**
+ * Encode a --path route into params.path so multi-hop swaps need no hand-encoded bytes
+ */
+function withPath(params: Record<string, any>, route?: string): Record<string, any> {
+  return route ? { ...params, path: parsePathSpec(route) } : params;
+}
+
 program
   .name('executor-cli')
   .description('Protocol Executor CLI for testing DeFi protocol functions')
@@ -34,26 +69,31 @@ program
 program
   .command('execute')
   .description('Execute a protocol function')
-  .requiredOption('-p, --protocol <protocol>', 'Protocol (AAVE or UNISWAP)')
+  .requiredOption('-p, --protocol <protocol>', `Protocol (${getRegisteredProtocols().join(', ')})`)
   .requiredOption('-f, --function <function>', 'Function name')
   .requiredOption('-a, --address <address>', 'User address')
-  .option('-n, --network <network>', 'Network', 'localhost')
+  .option('-n, --network <network>', 'Network name or chain ID', getDefaultNetwork())
   .option('--params <params>', 'JSON parameters', '{}')
+  .option('--path <route>', 'exactInput route as token,fee,token[,fee,token...]; encoded into params.path')
   .option('--dry-run', 'Perform dry run (estimate gas only)')
+  .option('--speed <speed>', `Fee speed (${Object.keys(FEE_PRESETS).join(', ')})`, DEFAULT_FEE_SPEED)
   .action(async (options) => {
     const pool = createPool();
 
     try {
       const executor = getProtocolExecutor(pool);
-      const params = JSON.parse(options.params);
+      const params = withPath(JSON.parse(options.params), options.path);
+
+      if (!isFeeSpeed(options.speed)) {
+        console.error(`❌ Invalid fee speed: ${options.speed}`);
+        process.exit(1);
+      }
 
       // Get contract address from registry
-      const contractName = options.protocol === 'AAVE' ? 'Pool' : 'SwapRouter';
-      const registry = await import('../protocol-contracts/registry');
-      const protocolRegistry = registry.getProtocolRegistry(pool);
-      const contract = await protocolRegistry.getContract(
+      const protocolRegistry = getProtocolRegistry(pool);
+      const contract = await protocolRegistry.getContractForFunction(
         options.protocol as ProtocolType,
-        contractName,
+        options.function,
         options.network
       );
 
@@ -68,7 +108,8 @@ program
         parameters: params,
         contractAddress: contract.address,
         network: options.network,
-        userAddress: options.address
+        userAddress: options.address,
+        feeSpeed: options.speed
       };
 
       // Validate request
@@ -83,10 +124,7 @@ program
         console.log('🔍 Estimating gas...');
         const estimation = await executor.estimateGas(request);
         console.log('✅ Gas Estimation:');
-        console.log(`  Gas Limit: ${estimation.gasLimit}`);
-        console.log(`  Gas Price: ${estimation.gasPrice} wei`);
-        console.log(`  Total Cost: ${estimation.totalCost} wei`);
-        console.log(`  TTL: ${estimation.ttl} seconds`);
+        printGasEstimation(estimation);
       } else {
         // Execute transaction
         console.log('🚀 Executing transaction...');
@@ -97,6 +135,9 @@ program
           console.log(`  Hash: ${result.transactionHash}`);
           console.log(`  Block: ${result.blockNumber}`);
           console.log(`  Gas Used: ${result.gasUsed}`);
+          if (result.replacement) {
+            console.log(`  Replaced by: ${result.replacement.hash} (${result.replacement.reason})`);
+          }
         } else {
           console.error('❌ Transaction failed:', result.errorMessage);
           process.exit(1);
@@ -114,25 +155,30 @@ program
 program
   .command('estimate')
   .description('Estimate gas for a protocol function')
-  .requiredOption('-p, --protocol <protocol>', 'Protocol (AAVE or UNISWAP)')
+  .requiredOption('-p, --protocol <protocol>', `Protocol (${getRegisteredProtocols().join(', ')})`)
   .requiredOption('-f, --function <function>', 'Function name')
   .requiredOption('-a, --address <address>', 'User address')
-  .option('-n, --network <network>', 'Network', 'localhost')
+  .option('-n, --network <network>', 'Network name or chain ID', getDefaultNetwork())
   .option('--params <params>', 'JSON parameters', '{}')
+  .option('--path <route>', 'exactInput route as token,fee,token[,fee,token...]; encoded into params.path')
+  .option('--speed <speed>', `Fee speed (${Object.keys(FEE_PRESETS).join(', ')})`, DEFAULT_FEE_SPEED)
   .action(async (options) => {
     const pool = createPool();
 
     try {
       const executor = getProtocolExecutor(pool);
-      const params = JSON.parse(options.params);
+      const params = withPath(JSON.parse(options.params), options.path);
+
+      if (!isFeeSpeed(options.speed)) {
+        console.error(`❌ Invalid fee speed: ${options.speed}`);
+        process.exit(1);
+      }
 
       // Get contract address from registry
-      const contractName = options.protocol === 'AAVE' ? 'Pool' : 'SwapRouter';
-      const registry = await import('../protocol-contracts/registry');
-      const protocolRegistry = registry.getProtocolRegistry(pool);
-      const contract = await protocolRegistry.getContract(
+      const protocolRegistry = getProtocolRegistry(pool);
+      const contract = await protocolRegistry.getContractForFunction(
         options.protocol as ProtocolType,
-        contractName,
+        options.function,
         options.network
       );
 
@@ -147,22 +193,84 @@ program
         parameters: params,
         contractAddress: contract.address,
         network: options.network,
-        userAddress: options.address
+        userAddress: options.address,
+        feeSpeed: options.speed
       };
 
       console.log('🔍 Estimating gas...');
       const estimation = await executor.estimateGas(request);
 
       console.log('✅ Gas Estimation:');
-      console.log(`  Gas Limit: ${estimation.gasLimit}`);
-      console.log(`  Gas Price: ${estimation.gasPrice} wei`);
-      console.log(`  Total Cost: ${estimation.totalCost} wei`);
+      printGasEstimation(estimation);
       console.log(`  Estimated At: ${estimation.estimatedAt.toISOString()}`);
-      console.log(`  Cache TTL: ${estimation.ttl} seconds`);
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    } finally {
+      await pool.end();
+    }
+  });
 
-      // Convert to ETH for readability
-      const ethCost = Number(estimation.totalCost) / 1e18;
-      console.log(`  Total Cost (ETH): ${ethCost.toFixed(6)} ETH`);
+// Simulate command
+program
+  .command('simulate')
+  .description('Simulate a protocol function with eth_call (no transaction sent)')
+  .requiredOption('-p, --protocol <protocol>', `Protocol (${getRegisteredProtocols().join(', ')})`)
+  .requiredOption('-f, --function <function>', 'Function name')
+  .requiredOption('-a, --address <address>', 'User address')
+  .option('-n, --network <network>', 'Network name or chain ID', getDefaultNetwork())
+  .option('--params <params>', 'JSON parameters', '{}')
+  .option('--path <route>', 'exactInput route as token,fee,token[,fee,token...]; encoded into params.path')
+  .action(async (options) => {
+    const pool = createPool();
+
+    try {
+      const executor = getProtocolExecutor(pool);
+      const params = withPath(JSON.parse(options.params), options.path);
+
+      // Get contract address from registry
+      const protocolRegistry = getProtocolRegistry(pool);
+      const contract = await protocolRegistry.getContractForFunction(
+        options.protocol as ProtocolType,
+        options.function,
+        options.network
+      );
+
+      if (!contract) {
+        console.error(`❌ Contract not found for ${options.protocol} on ${options.network}`);
+        process.exit(1);
+      }
+
+      const request: ExecutionRequest = {
+        functionName: options.function,
+        protocol: options.protocol as ProtocolType,
+        parameters: params,
+        contractAddress: contract.address,
+        network: options.network,
+        userAddress: options.address
+      };
+
+      console.log('🧪 Simulating call...');
+      const simulation = await executor.simulate(request);
+
+      if (simulation.success) {
+        console.log(`✅ Call succeeds at block ${simulation.blockNumber}`);
+        console.log(`  Return Value: ${JSON.stringify(simulation.returnValue)}`);
+        if (simulation.gasEstimate) {
+          console.log(`  Gas Estimate: ${simulation.gasEstimate}`);
+        }
+      } else {
+        console.error(`❌ Call reverts at block ${simulation.blockNumber}`);
+        console.error(`  Reason: ${simulation.revertReason}`);
+        if (simulation.customError) {
+          console.error(`  Custom Error: ${simulation.customError.signature}`);
+          console.error(`  Args: ${JSON.stringify(simulation.customError.args)}`);
+        }
+        if (simulation.revertData) {
+          console.error(`  Revert Data: ${simulation.revertData}`);
+        }
+        process.exit(1);
+      }
     } catch (error: any) {
       console.error('❌ Error:', error.message);
       process.exit(1);
@@ -177,8 +285,9 @@ program
   .description('Execute a complete strategy')
   .requiredOption('-s, --strategy <id>', 'Strategy ID')
   .requiredOption('-a, --address <address>', 'User address')
-  .option('-n, --network <network>', 'Network', 'localhost')
+  .option('-n, --network <network>', 'Network name or chain ID', getDefaultNetwork())
   .option('--functions <functions>', 'JSON array of functions', '[]')
+  .option('--atomic', 'Bundle all functions into one all-or-nothing transaction')
   .action(async (options) => {
     const pool = createPool();
 
@@ -191,28 +300,38 @@ program
         process.exit(1);
       }
 
-      console.log(`🚀 Executing strategy ${options.strategy}...`);
+      const mode = options.atomic ? 'atomic' : 'sequential';
+
+      console.log(`🚀 Executing strategy ${options.strategy} (${mode})...`);
       const result = await executor.executeStrategy(
         options.strategy,
         functions,
         options.address,
-        options.network
+        options.network,
+        mode
       );
 
+      const legIcons = { success: '✅', failed: '❌', reverted: '↩️', not_executed: '⏭️' };
+
       if (result.success) {
         console.log('✅ Strategy executed successfully!');
         console.log(`  Total Gas Used: ${result.totalGasUsed}`);
-        console.log(`  Executions:`);
-        result.executions.forEach((exec, i) => {
-          console.log(`    ${i + 1}. ${exec.status === 'success' ? '✅' : '❌'} TX: ${exec.transactionHash || 'N/A'}`);
-        });
       } else {
         console.error('❌ Strategy execution failed');
-        result.executions.forEach((exec, i) => {
-          if (exec.status === 'failed') {
-            console.error(`  ${i + 1}. Error: ${exec.errorMessage}`);
-          }
-        });
+      }
+
+      console.log(`  Legs:`);
+      result.legs.forEach(leg => {
+        console.log(`    ${leg.index + 1}. ${legIcons[leg.status]} ${leg.protocol} ${leg.functionName} (${leg.status})`);
+        if (leg.transactionHash) {
+          console.log(`       TX: ${leg.transactionHash}`);
+        }
+        if (leg.revertReason) {
+          console.log(`       Reason: ${leg.revertReason}`);
+        }
+      });
+
+      if (!result.success) {
         process.exit(1);
       }
     } catch (error: any) {
@@ -227,25 +346,24 @@ program
 program
   .command('validate')
   .description('Validate an execution request')
-  .requiredOption('-p, --protocol <protocol>', 'Protocol (AAVE or UNISWAP)')
+  .requiredOption('-p, --protocol <protocol>', `Protocol (${getRegisteredProtocols().join(', ')})`)
   .requiredOption('-f, --function <function>', 'Function name')
   .requiredOption('-a, --address <address>', 'User address')
-  .option('-n, --network <network>', 'Network', 'localhost')
+  .option('-n, --network <network>', 'Network name or chain ID', getDefaultNetwork())
   .option('--params <params>', 'JSON parameters', '{}')
+  .option('--path <route>', 'exactInput route as token,fee,token[,fee,token...]; encoded into params.path')
   .action(async (options) => {
     const pool = createPool();
 
     try {
       const executor = getProtocolExecutor(pool);
-      const params = JSON.parse(options.params);
+      const params = withPath(JSON.parse(options.params), options.path);
 
       // Get contract address from registry
-      const contractName = options.protocol === 'AAVE' ? 'Pool' : 'SwapRouter';
-      const registry = await import('../protocol-contracts/registry');
-      const protocolRegistry = registry.getProtocolRegistry(pool);
-      const contract = await protocolRegistry.getContract(
+      const protocolRegistry = getProtocolRegistry(pool);
+      const contract = await protocolRegistry.getContractForFunction(
         options.protocol as ProtocolType,
-        contractName,
+        options.function,
         options.network
       );
 
@@ -264,15 +382,30 @@ program
       };
 
       console.log('🔍 Validating request...');
+      const paramValidation = await protocolRegistry.validateFunctionParams(
+        request.protocol,
+        request.functionName,
+        params,
+        { network: options.network }
+      );
       const validation = await executor.validateRequest(request);
 
-      if (validation.valid) {
+      if (validation.valid && paramValidation.valid) {
         console.log('✅ Request is valid!');
       } else {
         console.error('❌ Validation failed:');
-        validation.errors.forEach(error => {
-          console.error(`  - ${error}`);
+        paramValidation.errors.forEach(error => {
+          const expected = error.expected ? ` (expected ${error.expected})` : '';
+          console.error(`  - ${error.field} [${error.code}]: ${error.message}${expected}`);
         });
+
+        // Request-level errors not already reported per field
+        const fieldMessages = paramValidation.errors.map(error => error.message);
+        validation.errors
+          .filter(error => !fieldMessages.includes(error))
+          .forEach(error => {
+            console.error(`  - ${error}`);
+          });
         process.exit(1);
       }
     } catch (error: any) {
@@ -283,24 +416,96 @@ program
     }
   });
 
+// Replace command
+program
+  .command('replace')
+  .description('Speed up or cancel a pending transaction (same nonce, bumped fees)')
+  .requiredOption('-t, --tx <hash>', 'Pending transaction hash')
+  .requiredOption('-k, --private-key <key>', 'Private key of the account that sent the transaction')
+  .option('-n, --network <network>', 'Network the transaction was sent on', getDefaultNetwork())
+  .option('--cancel', 'Cancel instead of speeding up (0-value self-transfer)')
+  .option('--speed <speed>', `Minimum fee speed (${Object.keys(FEE_PRESETS).join(', ')})`, 'high')
+  .action(async (options) => {
+    const pool = createPool();
+
+    try {
+      if (!isFeeSpeed(options.speed)) {
+        console.error(`❌ Invalid fee speed: ${options.speed}`);
+        process.exit(1);
+      }
+
+      const executor = getProtocolExecutor(pool, { privateKey: options.privateKey });
+      const mode = options.cancel ? 'cancel' : 'speed-up';
+
+      console.log(`🔁 Sending ${mode} replacement for ${options.tx}...`);
+      const result = await executor.replaceTransaction(options.tx, mode, options.speed, options.network);
+
+      console.log('✅ Replacement sent!');
+      console.log(`  Hash: ${result.replacementHash}`);
+      console.log(`  Nonce: ${result.nonce}`);
+      console.log(`  Max Fee: ${ethers.formatUnits(result.maxFeePerGas, 'gwei')} gwei`);
+      console.log(`  Priority Fee: ${ethers.formatUnits(result.maxPriorityFeePerGas, 'gwei')} gwei`);
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    } finally {
+      await pool.end();
+    }
+  });
+
+// Encode a multi-hop route
+program
+  .command('encode-path')
+  .description('Encode a Uniswap route (token fee token [fee token...]) into exactInput path bytes')
+  .argument('<route...>', 'Tokens and fee tiers, alternating')
+  .action((route: string[]) => {
+    try {
+      console.log(parsePathSpec(route.join(',')));
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    }
+  });
+
+// Decode a multi-hop route
+program
+  .command('decode-path')
+  .description('Decode exactInput path bytes into readable hops')
+  .argument('<path>', '0x-prefixed path bytes')
+  .action((encoded: string) => {
+    try {
+      const hops = decodePath(encoded);
+
+      console.log(`🛣️  ${formatPath(hops)}\n`);
+      hops.forEach((hop, index) => {
+        console.log(`  Hop ${index + 1}: ${hop.tokenIn} -> ${hop.tokenOut} (fee ${hop.fee})`);
+      });
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    }
+  });
+
 // List supported functions
 program
   .command('list-functions')
   .description('List all supported protocol functions')
   .option('-p, --protocol <protocol>', 'Filter by protocol')
-  .action(async () => {
-    const registry = await import('../protocol-contracts/registry');
-    const functions = registry.FUNCTION_SIGNATURES;
-
+  .action(async (options) => {
     console.log('📋 Supported Protocol Functions:\n');
 
-    Object.entries(functions).forEach(([name, sig]) => {
-      if (!program.opts().protocol || sig.protocol === program.opts().protocol) {
+    for (const adapter of listProtocolAdapters()) {
+      if (options.protocol && adapter.protocol !== options.protocol) {
+        continue;
+      }
+
+      Object.entries(adapter.functions).forEach(([name, sig]) => {
         console.log(`${sig.protocol} - ${name} (${sig.displayName})`);
+        console.log(`  Contract: ${sig.contractName || adapter.contractName}`);
         console.log(`  Required: ${sig.requiredParams.join(', ')}`);
         console.log(`  Modifiable: ${sig.modifiableParams.join(', ')}\n`);
-      }
-    });
+      });
+    }
   });
 
 program.parse(process.argv);
\ No newline at end of file
@@ -0,0 +1,154 @@
+/**
+ * EIP-1559 Fee Model
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Derive maxFeePerGas/maxPriorityFeePerGas from fee history with speed presets
+ */
+
+import { ethers } from 'ethers';
+import { FeeEstimate, FeeSpeed } from './types';
+
+interface FeePreset {
+  rewardPercentile: number; // Priority fee percentile paid by recent blocks
+  baseFeeMultiplier: number; // Headroom for base fee growth while the tx is pending
+}
+
+export const FEE_PRESETS: Record<FeeSpeed, FeePreset> = {
+  low: { rewardPercentile: 10, baseFeeMultiplier: 1.125 }, // Survives one full block of base fee growth
+  medium: { rewardPercentile: 50, baseFeeMultiplier: 1.5 },
+  high: { rewardPercentile: 90, baseFeeMultiplier: 2 }
+};
+
+export const DEFAULT_FEE_SPEED: FeeSpeed = 'medium';
+export const FALLBACK_GAS_LIMIT = BigInt(500000); // Used when eth_estimateGas fails
+export const FALLBACK_GAS_PRICE = BigInt(20_000_000_000); // 20 gwei, used when the network's fees cannot be read
+
+const FEE_HISTORY_BLOCKS = 10;
+const MIN_PRIORITY_FEE = BigInt(10_000_000); // 0.01 gwei floor for empty blocks (e.g. local Anvil)
+
+/**
+ * Check a value is a known fee speed preset
+ */
+export function isFeeSpeed(value: any): value is FeeSpeed {
+  return typeof value === 'string' && value in FEE_PRESETS;
+}
+
+/**
+ * Median of a list of bigints
+ */
+function median(values: bigint[]): bigint {
+  if (values.length === 0) return BigInt(0);
+
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Scale a bigint by a decimal multiplier
+ */
+function scale(value: bigint, multiplier: number): bigint {
+  return value * BigInt(Math.round(multiplier * 1000)) / BigInt(1000);
+}
+
+export class FeeModel {
+  private provider: ethers.JsonRpcProvider;
+
+  constructor(provider: ethers.JsonRpcProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Estimate fees for a speed preset from eth_feeHistory, falling back to the node's fee data
+   */
+  async estimateFees(speed: FeeSpeed = DEFAULT_FEE_SPEED): Promise<FeeEstimate> {
+    const preset = FEE_PRESETS[speed];
+
+    try {
+      const history = await this.provider.send('eth_feeHistory', [
+        ethers.toQuantity(FEE_HISTORY_BLOCKS),
+        'latest',
+        [preset.rewardPercentile]
+      ]);
+
+      // baseFeePerGas has one extra entry: the base fee of the next block
+      const baseFees: string[] = history.baseFeePerGas || [];
+      if (baseFees.length > 0) {
+        const nextBaseFee = BigInt(baseFees[baseFees.length - 1]);
+        const rewards = (history.reward || [])
+          .map((blockRewards: string[]) => BigInt(blockRewards[0]))
+          .filter((reward: bigint) => reward > BigInt(0));
+
+        return this.buildEstimate(speed, nextBaseFee, median(rewards));
+      }
+    } catch (error) {
+      console.warn('eth_feeHistory unavailable, falling back to fee data:', error);
+    }
+
+    const feeData = await this.provider.getFeeData();
+
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const block = await this.provider.getBlock('latest');
+      const baseFee = block?.baseFeePerGas ?? (feeData.maxFeePerGas - feeData.maxPriorityFeePerGas) / BigInt(2);
+
+      return this.buildEstimate(speed, baseFee, feeData.maxPriorityFeePerGas);
+    }
+
+    // Pre-London chains only support legacy pricing
+    if (feeData.gasPrice === null) {
+      throw new Error('Unable to determine network fees');
+    }
+
+    const gasPrice = scale(feeData.gasPrice, preset.baseFeeMultiplier);
+
+    return {
+      feeType: 'legacy',
+      speed,
+      gasPrice: gasPrice.toString(),
+      maxFeePerGas: gasPrice.toString(),
+      maxPriorityFeePerGas: gasPrice.toString()
+    };
+  }
+
+  /**
+   * Combine base fee and priority fee into an EIP-1559 estimate
+   */
+  private buildEstimate(speed: FeeSpeed, baseFee: bigint, priorityFee: bigint): FeeEstimate {
+    const maxPriorityFeePerGas = priorityFee > MIN_PRIORITY_FEE ? priorityFee : MIN_PRIORITY_FEE;
+    const maxFeePerGas = scale(baseFee, FEE_PRESETS[speed].baseFeeMultiplier) + maxPriorityFeePerGas;
+
+    return {
+      feeType: 'eip1559',
+      speed,
+      baseFeePerGas: baseFee.toString(),
+      gasPrice: (baseFee + maxPriorityFeePerGas).toString(), // Expected effective price
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString()
+    };
+  }
+}
+
+/**
+ * Legacy estimate at FALLBACK_GAS_PRICE, for cost estimates made while the network is unreachable
+ */
+export function getFallbackFees(speed: FeeSpeed = DEFAULT_FEE_SPEED): FeeEstimate {
+  return {
+    feeType: 'legacy',
+    speed,
+    gasPrice: FALLBACK_GAS_PRICE.toString(),
+    maxFeePerGas: FALLBACK_GAS_PRICE.toString(),
+    maxPriorityFeePerGas: FALLBACK_GAS_PRICE.toString()
+  };
+}
+
+/**
+ * Transaction fee overrides for an estimate
+ */
+export function toFeeOverrides(fees: FeeEstimate): { gasPrice: bigint } | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+  if (fees.feeType === 'legacy') {
+    return { gasPrice: BigInt(fees.gasPrice) };
+  }
+
+  return {
+    maxFeePerGas: BigInt(fees.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(fees.maxPriorityFeePerGas)
+  };
+}
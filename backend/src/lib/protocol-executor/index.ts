@@ -5,45 +5,69 @@
  */
 
 import { Pool } from 'pg';
-import { AAVEExecutor } from './aave-executor';
-import { UniswapExecutor } from './uniswap-executor';
 import {
+  ApprovalStep,
   ExecutionRequest,
   ExecutionResponse,
+  ExecutionOptions,
   GasEstimation,
   ExecutorConfig,
-  ProtocolExecutor
+  FeeEstimate,
+  FeeSpeed,
+  ProtocolExecutor,
+  ReplacementMode,
+  ReplacementResult,
+  SimulationResult,
+  StrategyExecutionMode,
+  StrategyExecutionResult,
+  StrategyFunctionCall,
+  StrategyLegResult,
+  SwapQuote
 } from './types';
-import { ProtocolType } from '../protocol-contracts/registry';
+import { ProtocolType, getProtocolRegistry } from '../protocol-contracts/registry';
+import { listProtocolAdapters } from '../protocol-adapters';
+import { BundleExecutor } from './bundle-executor';
+import { DEFAULT_FEE_SPEED, FALLBACK_GAS_LIMIT, getFallbackFees } from './fee-model';
+import { replaceTransaction } from './nonce-manager';
+import { NetworkConnections } from './network-connections';
+import { getDefaultNetwork } from '../protocol-contracts/networks';
+import { SimulatedExecutor, estimateSimulatedFees } from './simulated-executor';
+import { DEFAULT_SLIPPAGE_BPS, quoteSwap } from './swap-quoter';
 
 export * from './types';
+export { FEE_PRESETS, DEFAULT_FEE_SPEED, isFeeSpeed } from './fee-model';
+export { SimulatedExecutor } from './simulated-executor';
+export { ATOMIC_BUNDLE_REQUIRED, getBundleContractAddress } from './bundle-executor';
+export { PositionLedger, getSimulatedLedger } from './position-ledger';
+export { DEFAULT_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS, QUOTED_SWAPS, isQuotableSwap, isValidSlippage, applyQuote } from './swap-quoter';
 
 export class ProtocolExecutorService {
   private executors: Map<ProtocolType, ProtocolExecutor>;
   private pool: Pool;
   private config: ExecutorConfig;
+  private connections: NetworkConnections;
 
   constructor(pool: Pool, config?: Partial<ExecutorConfig>) {
     this.pool = pool;
     this.config = {
-      rpcUrl: process.env.BLOCKCHAIN_RPC_URL || 'http://localhost:8545',
       gasMultiplier: 1.2,
       cacheTtl: 30,
+      mode: process.env.EXECUTOR_MODE === 'simulated' ? 'simulated' : 'live',
       ...config
     };
+    this.connections = new NetworkConnections(this.config);
 
-    // Initialize protocol executors
+    // Initialize one executor per registered protocol adapter
     this.executors = new Map();
-    this.executors.set('AAVE', new AAVEExecutor(this.config, pool));
-    this.executors.set('UNISWAP', new UniswapExecutor(this.config, pool));
+    this.createExecutors();
   }
 
   /**
    * Execute a protocol function
    */
-  async execute(request: ExecutionRequest): Promise<ExecutionResponse> {
+  async execute(request: ExecutionRequest, options?: ExecutionOptions): Promise<ExecutionResponse> {
     const executor = this.getExecutor(request.protocol);
-    return executor.execute(request);
+    return executor.execute(request, options);
   }
 
   /**
@@ -54,6 +78,22 @@ export class ProtocolExecutorService {
     return executor.estimateGas(request);
   }
 
+  /**
+   * Simulate a protocol function without sending a transaction
+   */
+  async simulate(request: ExecutionRequest): Promise<SimulationResult> {
+    const executor = this.getExecutor(request.protocol);
+    return executor.simulate(request);
+  }
+
+  /**
+   * Check the ERC-20 allowance a protocol function needs; null when it spends no token
+   */
+  async checkAllowance(request: ExecutionRequest): Promise<ApprovalStep | null> {
+    const executor = this.getExecutor(request.protocol);
+    return executor.checkAllowance ? executor.checkAllowance(request) : null;
+  }
+
   /**
    * Validate an execution request
    */
@@ -67,37 +107,45 @@ export class ProtocolExecutorService {
    */
   async executeStrategy(
     strategyId: string,
-    functions: Array<{
-      functionName: string;
-      protocol: ProtocolType;
-      parameters: Record<string, any>;
-    }>,
+    functions: StrategyFunctionCall[],
     userAddress: string,
-    network: string = 'localhost'
-  ): Promise<{
-    strategyId: string;
-    executions: ExecutionResponse[];
-    totalGasUsed: string;
-    success: boolean;
-  }> {
+    network: string = getDefaultNetwork(),
+    mode: StrategyExecutionMode = 'sequential'
+  ): Promise<StrategyExecutionResult> {
+    console.log(`Executing strategy ${strategyId} with ${functions.length} functions (${mode})`);
+
+    // Atomic: one bundled transaction, all legs land or none do
+    if (mode === 'atomic') {
+      if (this.config.mode === 'simulated') {
+        throw new Error('Atomic strategy execution is not supported in simulated mode');
+      }
+
+      const bundleExecutor = new BundleExecutor(this.config, this.pool);
+      return bundleExecutor.executeAtomic(strategyId, functions, userAddress, network);
+    }
+
     const executions: ExecutionResponse[] = [];
+    const legs: StrategyLegResult[] = functions.map((func, index) => ({
+      index,
+      functionName: func.functionName,
+      protocol: func.protocol,
+      status: 'not_executed'
+    }));
     let totalGasUsed = BigInt(0);
     let success = true;
 
-    console.log(`Executing strategy ${strategyId} with ${functions.length} functions`);
-
-    for (const func of functions) {
+    for (const [index, func] of functions.entries()) {
       try {
         // Get contract address from registry
-        const contractName = func.protocol === 'AAVE' ? 'Pool' : 'SwapRouter';
-        const registry = await import('../protocol-contracts/registry');
-        const protocolRegistry = registry.getProtocolRegistry(this.pool);
-        const contract = await protocolRegistry.getContract(func.protocol, contractName, network as any);
+        const protocolRegistry = getProtocolRegistry(this.pool);
+        const contract = await protocolRegistry.getContractForFunction(func.protocol, func.functionName, network as any);
 
         if (!contract) {
-          throw new Error(`Contract not found for ${func.protocol} ${contractName}`);
+          throw new Error(`Contract not found for ${func.protocol} ${func.functionName}`);
         }
 
+        legs[index].target = contract.address;
+
         const request: ExecutionRequest = {
           functionName: func.functionName,
           protocol: func.protocol,
@@ -109,10 +157,14 @@ export class ProtocolExecutorService {
 
         const result = await this.execute(request);
         executions.push(result);
+        legs[index].transactionHash = result.transactionHash || undefined;
 
         if (result.status === 'success') {
+          legs[index].status = 'success';
           totalGasUsed += BigInt(result.gasUsed);
         } else {
+          legs[index].status = 'failed';
+          legs[index].revertReason = result.errorMessage;
           success = false;
           console.error(`Function ${func.functionName} failed:`, result.errorMessage);
           break; // Stop on first failure
@@ -127,6 +179,8 @@ export class ProtocolExecutorService {
           errorMessage: error.message,
           timestamp: new Date()
         });
+        legs[index].status = 'failed';
+        legs[index].revertReason = error.message;
         success = false;
         break;
       }
@@ -134,7 +188,9 @@ export class ProtocolExecutorService {
 
     return {
       strategyId,
+      mode,
       executions,
+      legs,
       totalGasUsed: totalGasUsed.toString(),
       success
     };
@@ -150,7 +206,8 @@ export class ProtocolExecutorService {
       parameters: Record<string, any>;
     }>,
     userAddress: string,
-    network: string = 'localhost'
+    network: string = getDefaultNetwork(),
+    feeSpeed: FeeSpeed = DEFAULT_FEE_SPEED
   ): Promise<{
     estimates: GasEstimation[];
     totalEstimatedCost: string;
@@ -161,13 +218,11 @@ export class ProtocolExecutorService {
     for (const func of functions) {
       try {
         // Get contract address from registry
-        const contractName = func.protocol === 'AAVE' ? 'Pool' : 'SwapRouter';
-        const registry = await import('../protocol-contracts/registry');
-        const protocolRegistry = registry.getProtocolRegistry(this.pool);
-        const contract = await protocolRegistry.getContract(func.protocol, contractName, network as any);
+        const protocolRegistry = getProtocolRegistry(this.pool);
+        const contract = await protocolRegistry.getContractForFunction(func.protocol, func.functionName, network as any);
 
         if (!contract) {
-          throw new Error(`Contract not found for ${func.protocol} ${contractName}`);
+          throw new Error(`Contract not found for ${func.protocol} ${func.functionName}`);
         }
 
         const request: ExecutionRequest = {
@@ -176,7 +231,8 @@ export class ProtocolExecutorService {
           parameters: func.parameters,
           contractAddress: contract.address,
           network,
-          userAddress
+          userAddress,
+          feeSpeed
         };
 
         const estimate = await this.estimateGas(request);
@@ -184,15 +240,19 @@ export class ProtocolExecutorService {
         totalCost += BigInt(estimate.totalCost);
       } catch (error: any) {
         console.error(`Error estimating gas for ${func.functionName}:`, error);
-        // Add fallback estimate
+        // Fall back to a conservative limit priced at current network fees, or a fixed price
+        // when the fees cannot be read either
+        const fees = await this.estimateFees(feeSpeed, network).catch(() => getFallbackFees(feeSpeed));
+        const fallbackCost = FALLBACK_GAS_LIMIT * BigInt(fees.maxFeePerGas);
+
         estimates.push({
-          gasLimit: '500000',
-          gasPrice: '20000000000', // 20 gwei
-          totalCost: '10000000000000000', // 0.01 ETH
+          ...fees,
+          gasLimit: FALLBACK_GAS_LIMIT.toString(),
+          totalCost: fallbackCost.toString(),
           estimatedAt: new Date(),
           ttl: 0
         });
-        totalCost += BigInt('10000000000000000');
+        totalCost += fallbackCost;
       }
     }
 
@@ -202,6 +262,59 @@ export class ProtocolExecutorService {
     };
   }
 
+  /**
+   * Estimate EIP-1559 fees for a speed preset on a network (default network if omitted)
+   */
+  async estimateFees(speed: FeeSpeed = DEFAULT_FEE_SPEED, network?: string): Promise<FeeEstimate> {
+    if (this.config.mode === 'simulated') {
+      return estimateSimulatedFees(speed);
+    }
+
+    return this.connections.get(network).feeModel.estimateFees(speed);
+  }
+
+  /**
+   * Quote a Uniswap single-pool swap at its size and derive its slippage bound
+   */
+  async quoteSwap(
+    functionName: string,
+    parameters: Record<string, any>,
+    network: string = getDefaultNetwork(),
+    slippageBps: number = DEFAULT_SLIPPAGE_BPS
+  ): Promise<SwapQuote> {
+    if (this.config.mode === 'simulated') {
+      throw new Error('Swap quoting requires a live network and is not available in simulated mode');
+    }
+
+    const quoter = await getProtocolRegistry(this.pool).getContract('UNISWAP', 'QuoterV2', network);
+    if (!quoter) {
+      throw new Error(`Uniswap QuoterV2 contract not found on ${network}`);
+    }
+
+    return quoteSwap(this.connections.get(network).provider, quoter.address, functionName, parameters, slippageBps);
+  }
+
+  /**
+   * Speed up or cancel a pending transaction sent by the configured signer on a network
+   */
+  async replaceTransaction(
+    transactionHash: string,
+    mode: ReplacementMode,
+    speed: FeeSpeed = 'high',
+    network?: string
+  ): Promise<ReplacementResult> {
+    if (this.config.mode === 'simulated') {
+      throw new Error('Simulated transactions are mined immediately and cannot be replaced');
+    }
+
+    const { signer, feeModel } = this.connections.get(network);
+    if (!signer) {
+      throw new Error('Transaction replacement requires a configured signer');
+    }
+
+    return replaceTransaction(signer, feeModel, transactionHash, mode, speed);
+  }
+
   /**
    * Get executor for a specific protocol
    */
@@ -218,18 +331,33 @@ export class ProtocolExecutorService {
    */
   updateConfig(config: Partial<ExecutorConfig>): void {
     this.config = { ...this.config, ...config };
+    this.connections = new NetworkConnections(this.config);
 
     // Recreate executors with new config
-    this.executors.set('AAVE', new AAVEExecutor(this.config, this.pool));
-    this.executors.set('UNISWAP', new UniswapExecutor(this.config, this.pool));
+    this.createExecutors();
   }
 
   /**
    * Clear all gas caches
    */
   clearCaches(): void {
-    (this.executors.get('AAVE') as AAVEExecutor)?.clearCache();
-    (this.executors.get('UNISWAP') as UniswapExecutor)?.clearCache();
+    for (const executor of this.executors.values()) {
+      executor.clearCache?.();
+    }
+  }
+
+  /**
+   * Create executors for every registered protocol adapter, or in-memory ones in simulated mode
+   */
+  private createExecutors(): void {
+    for (const adapter of listProtocolAdapters()) {
+      this.executors.set(
+        adapter.protocol,
+        this.config.mode === 'simulated'
+          ? new SimulatedExecutor(adapter.protocol, this.pool)
+          : adapter.createExecutor(this.config, this.pool)
+      );
+    }
   }
 }
 
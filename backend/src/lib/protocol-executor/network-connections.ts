@@ -0,0 +1,71 @@
+/**
+ * Network Connections
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Route each request to the provider, fee model and signer for its network's chain
+ */
+
+import { ethers } from 'ethers';
+import { ExecutorConfig } from './types';
+import { FeeModel } from './fee-model';
+import { getManagedSigner } from './nonce-manager';
+import { NetworkConfig, getDefaultNetwork, getRpcUrl, resolveNetwork } from '../protocol-contracts/networks';
+import { NetworkType } from '../protocol-contracts/registry';
+
+export interface NetworkConnection {
+  network: NetworkConfig;
+  rpcUrl: string;
+  provider: ethers.JsonRpcProvider;
+  feeModel: FeeModel;
+  signer?: ethers.NonceManager; // Set when a private key is configured
+}
+
+export class NetworkConnections {
+  private config: ExecutorConfig;
+  private connections: Map<number, NetworkConnection> = new Map();
+
+  constructor(config: ExecutorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get (or open) the connection for a network name, alias or chain ID
+   */
+  get(network: NetworkType = getDefaultNetwork()): NetworkConnection {
+    const networkConfig = resolveNetwork(network);
+
+    const cached = this.connections.get(networkConfig.chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const rpcUrl = getRpcUrl(networkConfig.chainId, this.getRpcOverrides());
+
+    // Pinning the chain ID makes ethers reject an endpoint that serves a different chain
+    const provider = new ethers.JsonRpcProvider(rpcUrl, networkConfig.chainId);
+
+    const connection: NetworkConnection = {
+      network: networkConfig,
+      rpcUrl,
+      provider,
+      feeModel: new FeeModel(provider),
+      // Shared per signer and endpoint so concurrent executors never reuse a nonce
+      signer: this.config.privateKey ? getManagedSigner({ ...this.config, rpcUrl }, provider) : undefined
+    };
+
+    this.connections.set(networkConfig.chainId, connection);
+    return connection;
+  }
+
+  /**
+   * Per-chain RPC overrides; a bare rpcUrl applies to the default network
+   */
+  private getRpcOverrides(): Record<number, string> {
+    const overrides: Record<number, string> = {};
+
+    if (this.config.rpcUrl) {
+      overrides[resolveNetwork(getDefaultNetwork()).chainId] = this.config.rpcUrl;
+    }
+
+    return { ...overrides, ...this.config.rpcUrls };
+  }
+}
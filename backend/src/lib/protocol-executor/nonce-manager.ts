@@ -0,0 +1,174 @@
+/**
+ * Nonce Manager
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Share one nonce sequence per signer across executors and replace stuck transactions
+ */
+
+import { ethers } from 'ethers';
+import {
+  ExecutionOptions,
+  ExecutionResponse,
+  ExecutorConfig,
+  FeeSpeed,
+  ReplacementMode,
+  ReplacementResult,
+  TransactionReplacement
+} from './types';
+import { FeeModel } from './fee-model';
+
+// Replacements must outbid the pending tx; nodes require at least +10% on both fee fields
+const REPLACEMENT_BUMP_PERMILLE = BigInt(1125);
+const CANCEL_GAS_LIMIT = BigInt(21000);
+
+// One nonce manager per (RPC endpoint, signer address), shared by every executor in the process
+const managedSigners: Map<string, ethers.NonceManager> = new Map();
+
+/**
+ * Get the shared nonce-managed signer for the configured private key
+ */
+export function getManagedSigner(config: ExecutorConfig, provider: ethers.Provider): ethers.NonceManager {
+  if (!config.privateKey) {
+    throw new Error('No signer configured');
+  }
+
+  const wallet = new ethers.Wallet(config.privateKey);
+  const key = `${config.rpcUrl}|${wallet.address.toLowerCase()}`;
+
+  let signer = managedSigners.get(key);
+  if (!signer) {
+    signer = new ethers.NonceManager(wallet.connect(provider));
+    managedSigners.set(key, signer);
+  }
+
+  return signer;
+}
+
+/**
+ * Send a transaction through a managed signer, resyncing the nonce if it never reached the node
+ */
+export async function sendManaged<T>(signer: ethers.NonceManager, send: () => Promise<T>): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    // The nonce was reserved locally; re-read the pending count so no gap is left behind
+    signer.reset();
+    throw error;
+  }
+}
+
+/**
+ * Report a broadcast transaction and wait for it, following it if it was sped up or cancelled
+ */
+export async function trackTransaction(
+  tx: ethers.TransactionResponse,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResponse> {
+  await options.onSubmitted?.({ hash: tx.hash, nonce: tx.nonce });
+
+  let receipt: ethers.TransactionReceipt;
+  let replacement: TransactionReplacement | undefined;
+
+  try {
+    receipt = (await tx.wait())!;
+  } catch (error: any) {
+    if (error?.code !== 'TRANSACTION_REPLACED') {
+      throw error;
+    }
+
+    receipt = error.receipt;
+    replacement = {
+      hash: error.replacement.hash,
+      reason: error.reason,
+      cancelled: error.cancelled
+    };
+  }
+
+  return {
+    transactionHash: receipt.hash,
+    gasUsed: receipt.gasUsed.toString(),
+    blockNumber: receipt.blockNumber,
+    status: receipt.status === 1 && !replacement?.cancelled ? 'success' : 'failed',
+    errorMessage: replacement?.cancelled ? `Transaction cancelled by replacement ${replacement.hash}` : undefined,
+    effectiveGasPrice: receipt.gasPrice?.toString(),
+    nonce: tx.nonce,
+    replacement,
+    timestamp: new Date()
+  };
+}
+
+/**
+ * Bump a fee by the replacement premium
+ */
+function bump(value: bigint | null | undefined): bigint {
+  return value ? value * REPLACEMENT_BUMP_PERMILLE / BigInt(1000) + BigInt(1) : BigInt(0);
+}
+
+/**
+ * Largest of a list of bigints
+ */
+function max(...values: bigint[]): bigint {
+  return values.reduce((largest, value) => (value > largest ? value : largest));
+}
+
+/**
+ * Replace a pending transaction at the same nonce: resend it with higher fees, or cancel it
+ */
+export async function replaceTransaction(
+  signer: ethers.NonceManager,
+  feeModel: FeeModel,
+  transactionHash: string,
+  mode: ReplacementMode,
+  speed: FeeSpeed = 'high'
+): Promise<ReplacementResult> {
+  const provider = signer.provider!;
+  const original = await provider.getTransaction(transactionHash);
+
+  if (!original) {
+    throw new Error(`Transaction not found: ${transactionHash}`);
+  }
+
+  if (original.blockNumber !== null) {
+    throw new Error(`Transaction already mined: ${transactionHash}`);
+  }
+
+  const from = await signer.getAddress();
+  if (original.from.toLowerCase() !== from.toLowerCase()) {
+    throw new Error('Unauthorized: transaction was not sent by the configured signer');
+  }
+
+  // Pay at least the bumped original fees, or the current market rate if that is higher
+  const current = await feeModel.estimateFees(speed);
+  const fees = original.maxFeePerGas === null || current.feeType === 'legacy'
+    ? {
+        gasPrice: max(bump(original.gasPrice), BigInt(current.gasPrice))
+      }
+    : (() => {
+        const maxPriorityFeePerGas = max(bump(original.maxPriorityFeePerGas), BigInt(current.maxPriorityFeePerGas));
+        return {
+          maxPriorityFeePerGas,
+          maxFeePerGas: max(bump(original.maxFeePerGas), BigInt(current.maxFeePerGas), maxPriorityFeePerGas)
+        };
+      })();
+
+  // Cancelling sends a 0-value self-transfer that consumes the nonce
+  const call = mode === 'cancel'
+    ? { to: from, value: BigInt(0), data: '0x', gasLimit: CANCEL_GAS_LIMIT }
+    : { to: original.to, value: original.value, data: original.data, gasLimit: original.gasLimit };
+
+  // Bypass the nonce manager: a replacement reuses the stuck nonce instead of taking a new one
+  const replacement = await signer.signer.sendTransaction({
+    ...call,
+    ...fees,
+    nonce: original.nonce,
+    chainId: original.chainId
+  });
+
+  return {
+    mode,
+    originalHash: transactionHash,
+    replacementHash: replacement.hash,
+    nonce: original.nonce,
+    maxFeePerGas: ('maxFeePerGas' in fees ? fees.maxFeePerGas : fees.gasPrice).toString(),
+    maxPriorityFeePerGas: ('maxPriorityFeePerGas' in fees ? fees.maxPriorityFeePerGas : fees.gasPrice).toString()
+  };
+}
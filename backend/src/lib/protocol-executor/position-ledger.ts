@@ -0,0 +1,277 @@
+/**
+ * Simulated Position Ledger
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: In-memory deposits, borrows and token balances for the simulated executor
+ *
+ * Lending follows MockAavePool: deposits and debt are keyed by user and asset, supply/borrow
+ * credit onBehalfOf, withdraw debits the caller, and repay with MAX_UINT256 clears the debt.
+ */
+
+export const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface PositionLedgerOptions {
+  enforceBalances?: boolean; // Revert when a wallet spends more than the ledger credited it
+}
+
+export interface LedgerPositions {
+  user: string;
+  deposits: Record<string, string>; // asset => amount
+  borrows: Record<string, string>; // asset => amount
+  balances: Record<string, string>; // token => amount
+}
+
+type Book = Map<string, Map<string, bigint>>; // user => asset => amount
+
+interface LedgerState {
+  deposits: Book;
+  borrows: Book;
+  balances: Book;
+  nonces: Map<string, number>; // sender => next nonce
+  blockNumber: number;
+}
+
+/**
+ * Raised when a simulated call hits one of the pool's require() checks
+ */
+export class SimulatedRevertError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'SimulatedRevertError';
+  }
+}
+
+/**
+ * Fail with a revert reason unless the condition holds
+ */
+function ensure(condition: boolean, reason: string): void {
+  if (!condition) {
+    throw new SimulatedRevertError(reason);
+  }
+}
+
+/**
+ * Deep copy a book so a snapshot is unaffected by later writes
+ */
+function copyBook(book: Book): Book {
+  return new Map(Array.from(book, ([user, assets]) => [user, new Map(assets)]));
+}
+
+/**
+ * A user's non-zero entries as decimal strings
+ */
+function toRecord(book: Book, user: string): Record<string, string> {
+  const entries = Array.from(book.get(user) || new Map<string, bigint>())
+    .filter(([, amount]) => amount > BigInt(0))
+    .map(([asset, amount]) => [asset, amount.toString()]);
+
+  return Object.fromEntries(entries);
+}
+
+export class PositionLedger {
+  private state: LedgerState;
+  private enforceBalances: boolean;
+
+  constructor(options: PositionLedgerOptions = {}) {
+    this.enforceBalances = options.enforceBalances ?? false;
+    this.state = PositionLedger.emptyState();
+  }
+
+  /**
+   * Supply an asset into the pool on behalf of a user
+   */
+  supply(sender: string, asset: string, amount: bigint, onBehalfOf: string): void {
+    ensure(asset.toLowerCase() !== ZERO_ADDRESS, 'Invalid asset address');
+    ensure(amount > BigInt(0), 'Amount must be greater than 0');
+    ensure(onBehalfOf.toLowerCase() !== ZERO_ADDRESS, 'Invalid onBehalfOf address');
+
+    this.debit(this.state.balances, sender, asset, amount);
+    this.credit(this.state.deposits, onBehalfOf, asset, amount);
+  }
+
+  /**
+   * Withdraw the caller's deposit to an address
+   */
+  withdraw(sender: string, asset: string, amount: bigint, to: string): bigint {
+    ensure(asset.toLowerCase() !== ZERO_ADDRESS, 'Invalid asset address');
+    ensure(amount > BigInt(0), 'Amount must be greater than 0');
+    ensure(to.toLowerCase() !== ZERO_ADDRESS, 'Invalid to address');
+    ensure(this.getDeposit(sender, asset) >= amount, 'Insufficient balance');
+
+    this.credit(this.state.deposits, sender, asset, -amount);
+    this.credit(this.state.balances, to, asset, amount);
+
+    return amount;
+  }
+
+  /**
+   * Borrow an asset against a user's debt; the caller receives the funds
+   */
+  borrow(sender: string, asset: string, amount: bigint, interestRateMode: bigint, onBehalfOf: string): void {
+    ensure(asset.toLowerCase() !== ZERO_ADDRESS, 'Invalid asset address');
+    ensure(amount > BigInt(0), 'Amount must be greater than 0');
+    ensure(onBehalfOf.toLowerCase() !== ZERO_ADDRESS, 'Invalid onBehalfOf address');
+    ensure(interestRateMode === BigInt(1) || interestRateMode === BigInt(2), 'Invalid interest rate mode');
+
+    this.credit(this.state.borrows, onBehalfOf, asset, amount);
+    this.credit(this.state.balances, sender, asset, amount);
+  }
+
+  /**
+   * Repay a user's debt from the caller's wallet; MAX_UINT256 repays all of it
+   */
+  repay(sender: string, asset: string, amount: bigint, onBehalfOf: string): bigint {
+    ensure(asset.toLowerCase() !== ZERO_ADDRESS, 'Invalid asset address');
+    ensure(onBehalfOf.toLowerCase() !== ZERO_ADDRESS, 'Invalid onBehalfOf address');
+
+    const debt = this.getBorrow(onBehalfOf, asset);
+    const repayAmount = amount === MAX_UINT256 ? debt : amount;
+
+    ensure(repayAmount <= debt, 'Repay amount exceeds debt');
+
+    this.debit(this.state.balances, sender, asset, repayAmount);
+    this.credit(this.state.borrows, onBehalfOf, asset, -repayAmount);
+
+    return repayAmount;
+  }
+
+  /**
+   * Swap tokens: the caller pays amountIn, the recipient receives amountOut
+   */
+  swap(sender: string, tokenIn: string, amountIn: bigint, tokenOut: string, amountOut: bigint, recipient: string): void {
+    ensure(amountIn > BigInt(0), 'Amount must be greater than 0');
+    ensure(recipient.toLowerCase() !== ZERO_ADDRESS, 'Invalid recipient address');
+
+    this.debit(this.state.balances, sender, tokenIn, amountIn);
+    this.credit(this.state.balances, recipient, tokenOut, amountOut);
+  }
+
+  /**
+   * Credit a wallet with tokens, e.g. to seed a demo account
+   */
+  fund(user: string, token: string, amount: bigint): void {
+    this.credit(this.state.balances, user, token, amount);
+  }
+
+  getDeposit(user: string, asset: string): bigint {
+    return this.read(this.state.deposits, user, asset);
+  }
+
+  getBorrow(user: string, asset: string): bigint {
+    return this.read(this.state.borrows, user, asset);
+  }
+
+  getBalance(user: string, token: string): bigint {
+    return this.read(this.state.balances, user, token);
+  }
+
+  /**
+   * Everything the ledger holds for a user
+   */
+  getPositions(user: string): LedgerPositions {
+    const key = user.toLowerCase();
+
+    return {
+      user: key,
+      deposits: toRecord(this.state.deposits, key),
+      borrows: toRecord(this.state.borrows, key),
+      balances: toRecord(this.state.balances, key)
+    };
+  }
+
+  /**
+   * Take the sender's next transaction nonce
+   */
+  takeNonce(sender: string): number {
+    const key = sender.toLowerCase();
+    const nonce = this.state.nonces.get(key) ?? 0;
+
+    this.state.nonces.set(key, nonce + 1);
+    return nonce;
+  }
+
+  /**
+   * Current simulated block height
+   */
+  getBlockNumber(): number {
+    return this.state.blockNumber;
+  }
+
+  /**
+   * Seal a block and return its number
+   */
+  mineBlock(): number {
+    this.state.blockNumber += 1;
+    return this.state.blockNumber;
+  }
+
+  /**
+   * Run a mutation on a scratch copy and discard it, for dry runs
+   */
+  dryRun<T>(mutation: (ledger: PositionLedger) => T): T {
+    const scratch = new PositionLedger({ enforceBalances: this.enforceBalances });
+    scratch.state = this.snapshot();
+
+    return mutation(scratch);
+  }
+
+  /**
+   * Clear all positions and restart block numbering
+   */
+  reset(): void {
+    this.state = PositionLedger.emptyState();
+  }
+
+  private snapshot(): LedgerState {
+    return {
+      deposits: copyBook(this.state.deposits),
+      borrows: copyBook(this.state.borrows),
+      balances: copyBook(this.state.balances),
+      nonces: new Map(this.state.nonces),
+      blockNumber: this.state.blockNumber
+    };
+  }
+
+  private read(book: Book, user: string, asset: string): bigint {
+    return book.get(user.toLowerCase())?.get(asset.toLowerCase()) ?? BigInt(0);
+  }
+
+  private credit(book: Book, user: string, asset: string, amount: bigint): void {
+    const userKey = user.toLowerCase();
+    const assets = book.get(userKey) || new Map<string, bigint>();
+
+    assets.set(asset.toLowerCase(), (assets.get(asset.toLowerCase()) ?? BigInt(0)) + amount);
+    book.set(userKey, assets);
+  }
+
+  /**
+   * Spend from a wallet. Unless balances are enforced, tokens the ledger never credited
+   * are assumed to come from outside the simulation and the balance floors at zero.
+   */
+  private debit(book: Book, user: string, token: string, amount: bigint): void {
+    const balance = this.read(book, user, token);
+
+    if (this.enforceBalances) {
+      ensure(balance >= amount, 'Insufficient token balance');
+    }
+
+    this.credit(book, user, token, (balance >= amount ? amount : balance) * BigInt(-1));
+  }
+
+  private static emptyState(): LedgerState {
+    return { deposits: new Map(), borrows: new Map(), balances: new Map(), nonces: new Map(), blockNumber: 0 };
+  }
+}
+
+// Shared by every simulated executor in the process so positions survive per-request services
+let sharedLedger: PositionLedger | null = null;
+
+export function getSimulatedLedger(): PositionLedger {
+  if (!sharedLedger) {
+    sharedLedger = new PositionLedger({
+      enforceBalances: process.env.SIMULATED_ENFORCE_BALANCES === 'true'
+    });
+  }
+  return sharedLedger;
+}
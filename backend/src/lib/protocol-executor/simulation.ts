@@ -0,0 +1,138 @@
+/**
+ * Protocol Call Simulation
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Dry-run protocol calls via eth_call and decode return values or revert reasons
+ */
+
+import { ethers } from 'ethers';
+import { SimulationResult } from './types';
+
+export interface SimulationOverrides {
+  from: string;
+  value?: bigint;
+}
+
+/**
+ * Convert ethers results into JSON-safe values
+ */
+export function toSerializable(value: any): any {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return Array.from(value, toSerializable);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toSerializable(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Decode a function's return values, keyed by output name when the ABI names them
+ */
+function decodeReturnValue(fragment: ethers.FunctionFragment, result: ethers.Result): any {
+  if (fragment.outputs.length === 0) {
+    return null;
+  }
+
+  if (fragment.outputs.length === 1) {
+    return toSerializable(result[0]);
+  }
+
+  if (fragment.outputs.every(output => output.name)) {
+    return Object.fromEntries(
+      fragment.outputs.map((output, index) => [output.name, toSerializable(result[index])])
+    );
+  }
+
+  return toSerializable(Array.from(result));
+}
+
+/**
+ * Decode a CALL_EXCEPTION into a revert reason and, where the ABI knows it, a custom error
+ */
+export function decodeRevert(
+  contractInterface: ethers.Interface,
+  error: any
+): Pick<SimulationResult, 'revertReason' | 'customError' | 'revertData'> {
+  const revertData: string | undefined = typeof error?.data === 'string' ? error.data : undefined;
+  let revert: { name: string; signature: string; args: any } | null = error?.revert || null;
+
+  // ethers only decodes errors it finds in the ABI; try the contract interface explicitly
+  if (!revert && revertData && revertData !== '0x') {
+    try {
+      const parsed = contractInterface.parseError(revertData);
+      if (parsed) {
+        revert = { name: parsed.name, signature: parsed.signature, args: parsed.args };
+      }
+    } catch {
+      // Unknown selector: leave the raw data for the caller
+    }
+  }
+
+  // Error(string) and Panic(uint256) are surfaced through the reason only
+  const isBuiltin = revert?.name === 'Error' || revert?.name === 'Panic';
+  const customError = revert && !isBuiltin
+    ? { name: revert.name, signature: revert.signature, args: toSerializable(Array.from(revert.args || [])) }
+    : undefined;
+
+  // Reason for builtin errors decoded from raw data (ethers only sets reason on thrown errors)
+  const builtinReason = revert?.name === 'Error'
+    ? String(revert.args?.[0])
+    : revert?.name === 'Panic' ? `Panic(${revert.args?.[0]})` : undefined;
+
+  return {
+    revertReason: error?.reason || builtinReason || customError?.name || error?.shortMessage || error?.message,
+    customError,
+    revertData: revert ? undefined : revertData
+  };
+}
+
+/**
+ * Simulate a contract call with eth_call pinned to the latest block
+ */
+export async function simulateContractCall(
+  provider: ethers.Provider,
+  contract: ethers.Contract,
+  functionName: string,
+  args: any[],
+  overrides: SimulationOverrides
+): Promise<SimulationResult> {
+  const blockNumber = await provider.getBlockNumber();
+  const callOverrides = { ...overrides, blockTag: blockNumber };
+  const method = contract.getFunction(functionName);
+
+  try {
+    const result = await method.staticCallResult(...args, callOverrides);
+
+    let gasEstimate: string | undefined;
+    try {
+      gasEstimate = (await method.estimateGas(...args, overrides)).toString();
+    } catch {
+      // Gas estimation is informational for simulations
+    }
+
+    return {
+      success: true,
+      returnValue: decodeReturnValue(method.fragment, result),
+      gasEstimate,
+      blockNumber,
+      simulatedAt: new Date()
+    };
+  } catch (error: any) {
+    // Only reverts are simulation results; RPC and encoding failures propagate
+    if (error?.code !== 'CALL_EXCEPTION') {
+      throw error;
+    }
+
+    return {
+      success: false,
+      ...decodeRevert(contract.interface, error),
+      blockNumber,
+      simulatedAt: new Date()
+    };
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Uniswap Swap Quoter
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Quote single-pool swaps with QuoterV2 and derive slippage bounds for the consumer's size
+ */
+
+import { ethers } from 'ethers';
+import { SwapQuote } from './types';
+import { CONTRACT_ABIS } from '../protocol-contracts/registry';
+
+export const DEFAULT_SLIPPAGE_BPS = 50; // 0.5%
+export const MAX_SLIPPAGE_BPS = 5000; // 50%
+
+const BPS = BigInt(10000);
+
+// Size parameter the consumer scales, and the bound derived from it, per quotable function
+export const QUOTED_SWAPS: Record<string, { amount: string; bound: string }> = {
+  exactInputSingle: { amount: 'amountIn', bound: 'amountOutMinimum' },
+  exactOutputSingle: { amount: 'amountOut', bound: 'amountInMaximum' }
+};
+
+/**
+ * Check whether a protocol function's slippage bound can be requoted
+ */
+export function isQuotableSwap(protocol: string, functionName: string): boolean {
+  return protocol === 'UNISWAP' && functionName in QUOTED_SWAPS;
+}
+
+/**
+ * Check a slippage tolerance is a whole number of basis points within range
+ */
+export function isValidSlippage(slippageBps: any): slippageBps is number {
+  return Number.isInteger(slippageBps) && slippageBps >= 0 && slippageBps <= MAX_SLIPPAGE_BPS;
+}
+
+/**
+ * Widen a quoted amount by the tolerance: down for a minimum output, up (rounded up) for a maximum input
+ */
+export function applySlippage(amount: bigint, slippageBps: number, side: 'min' | 'max'): bigint {
+  const bps = BigInt(slippageBps);
+
+  return side === 'min'
+    ? amount * (BPS - bps) / BPS
+    : (amount * (BPS + bps) + BPS - BigInt(1)) / BPS;
+}
+
+/**
+ * Quote a single-pool swap at the given size and compute its slippage bound
+ */
+export async function quoteSwap(
+  provider: ethers.Provider,
+  quoterAddress: string,
+  functionName: string,
+  params: Record<string, any>,
+  slippageBps: number = DEFAULT_SLIPPAGE_BPS
+): Promise<SwapQuote> {
+  if (!(functionName in QUOTED_SWAPS)) {
+    throw new Error(`Cannot quote Uniswap function: ${functionName}`);
+  }
+
+  if (!isValidSlippage(slippageBps)) {
+    throw new Error(`Invalid slippage: ${slippageBps} bps (must be an integer from 0 to ${MAX_SLIPPAGE_BPS})`);
+  }
+
+  // QuoterV2 functions are non-view (they revert internally), so call them statically
+  const quoter = new ethers.Contract(quoterAddress, CONTRACT_ABIS['UNISWAP_QuoterV2'], provider);
+  const pool = {
+    tokenIn: params.tokenIn,
+    tokenOut: params.tokenOut,
+    fee: BigInt(params.fee || 3000),
+    sqrtPriceLimitX96: BigInt(params.sqrtPriceLimitX96 || 0)
+  };
+  const quotedAt = new Date();
+
+  if (functionName === 'exactInputSingle') {
+    const amountIn = BigInt(params.amountIn);
+    const [amountOut, , , gasEstimate]: bigint[] =
+      await quoter.quoteExactInputSingle.staticCall({ ...pool, amountIn });
+
+    return {
+      functionName,
+      quoter: quoterAddress,
+      amountIn: amountIn.toString(),
+      amountOut: amountOut.toString(),
+      slippageBps,
+      amountOutMinimum: applySlippage(amountOut, slippageBps, 'min').toString(),
+      gasEstimate: gasEstimate.toString(),
+      quotedAt
+    };
+  }
+
+  const amountOut = BigInt(params.amountOut);
+  const [amountIn, , , gasEstimate]: bigint[] =
+    await quoter.quoteExactOutputSingle.staticCall({ ...pool, amount: amountOut });
+
+  return {
+    functionName,
+    quoter: quoterAddress,
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    slippageBps,
+    amountInMaximum: applySlippage(amountIn, slippageBps, 'max').toString(),
+    gasEstimate: gasEstimate.toString(),
+    quotedAt
+  };
+}
+
+/**
+ * Replace a swap's slippage bound with the quoted one
+ */
+export function applyQuote(params: Record<string, any>, quote: SwapQuote): Record<string, any> {
+  const { bound } = QUOTED_SWAPS[quote.functionName];
+
+  return {
+    ...params,
+    [bound]: bound === 'amountOutMinimum' ? quote.amountOutMinimum : quote.amountInMaximum
+  };
+}
@@ -13,6 +13,8 @@ export interface ExecutionRequest {
   contractAddress: string;
   network: string;
   userAddress: string;
+  feeSpeed?: FeeSpeed; // Fee preset for the transaction (default 'medium')
+  approvalMode?: ApprovalMode; // How much to approve when the allowance is short (default from config)
 }
 
 export interface ExecutionResponse {
@@ -21,26 +23,142 @@ export interface ExecutionResponse {
   blockNumber: number;
   status: 'success' | 'failed';
   errorMessage?: string;
+  effectiveGasPrice?: string; // Price actually paid per gas, from the receipt
+  nonce?: number;
+  replacement?: TransactionReplacement; // Set when the submitted tx was sped up or cancelled
+  approval?: ApprovalStep; // ERC-20 approval checked (and sent, if short) before the call
   timestamp: Date;
 }
 
-export interface GasEstimation {
+export interface ExecutionOptions {
+  onSubmitted?: (tx: { hash: string; nonce: number }) => Promise<void> | void; // Called once broadcast, before mining
+}
+
+export type ApprovalMode = 'exact' | 'capped';
+
+export interface ApprovalStep {
+  token: string;
+  owner: string;
+  spender: string; // Protocol contract that pulls the token
+  currentAllowance: string;
+  requiredAmount: string;
+  approveAmount: string; // Exact requirement, or the configured cap when larger
+  mode: ApprovalMode;
+  status: 'not_required' | 'required' | 'approved' | 'failed';
+  transaction?: { to: string; data: string; value: string }; // Unsigned approve() for client-side execution
+  transactionHash?: string; // Set once a server-side approval is sent
+}
+
+export type ReplacementMode = 'speed-up' | 'cancel';
+
+export interface TransactionReplacement {
+  hash: string;
+  reason: 'repriced' | 'cancelled' | 'replaced';
+  cancelled: boolean;
+}
+
+export interface ReplacementResult {
+  mode: ReplacementMode;
+  originalHash: string;
+  replacementHash: string;
+  nonce: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+export type FeeSpeed = 'low' | 'medium' | 'high';
+
+export interface FeeEstimate {
+  feeType: 'eip1559' | 'legacy';
+  speed: FeeSpeed;
+  baseFeePerGas?: string; // Next block's base fee (EIP-1559 only)
+  gasPrice: string; // Expected effective price per gas
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+export interface GasEstimation extends FeeEstimate {
   gasLimit: string;
-  gasPrice: string;
-  totalCost: string;
+  totalCost: string; // Upper bound: gasLimit * maxFeePerGas
   estimatedAt: Date;
   ttl: number; // Time to live in seconds
 }
 
+export interface SimulationResult {
+  success: boolean;
+  returnValue?: any; // Decoded return value(s), bigints as decimal strings
+  revertReason?: string;
+  customError?: {
+    name: string;
+    signature: string;
+    args: any[];
+  };
+  revertData?: string; // Raw revert data, kept when it could not be decoded
+  gasEstimate?: string;
+  blockNumber: number;
+  simulatedAt: Date;
+}
+
+export type StrategyExecutionMode = 'sequential' | 'atomic';
+
+export interface StrategyFunctionCall {
+  functionName: string;
+  protocol: ProtocolType;
+  parameters: Record<string, any>;
+}
+
+export interface StrategyLegResult {
+  index: number;
+  functionName: string;
+  protocol: ProtocolType;
+  target?: string;
+  status: 'success' | 'failed' | 'reverted' | 'not_executed';
+  transactionHash?: string;
+  returnValue?: any;
+  revertReason?: string;
+  customError?: SimulationResult['customError'];
+}
+
+export interface StrategyExecutionResult {
+  strategyId: string;
+  mode: StrategyExecutionMode;
+  executions: ExecutionResponse[]; // One per transaction sent (a single bundle tx in atomic mode)
+  legs: StrategyLegResult[];
+  totalGasUsed: string;
+  success: boolean;
+}
+
+export interface SwapQuote {
+  functionName: string;
+  quoter: string; // QuoterV2 address the quote came from
+  amountIn: string;
+  amountOut: string;
+  slippageBps: number; // Tolerance applied to the quoted side (50 = 0.5%)
+  amountOutMinimum?: string; // exactInputSingle: amountOut less slippage
+  amountInMaximum?: string; // exactOutputSingle: amountIn plus slippage
+  gasEstimate: string; // Quoter's estimate of the swap's gas
+  quotedAt: Date;
+}
+
+export type ExecutorMode = 'live' | 'simulated';
+
 export interface ExecutorConfig {
-  rpcUrl: string;
+  rpcUrl?: string; // RPC for the default network; others resolve via RPC_URL_<chainId>
+  rpcUrls?: Record<number, string>; // Per-chain RPC overrides keyed by chain ID
+  mode?: ExecutorMode; // 'simulated' executes against an in-memory ledger (default from EXECUTOR_MODE, else 'live')
   privateKey?: string;
+  bundleAddress?: string; // Account-bound, Multicall3-compatible batch contract; atomic strategies need one
+  approvalMode?: ApprovalMode; // Default 'exact'
+  approvalCap?: string; // Base units approved in 'capped' mode so repeat trades skip approval
   gasMultiplier?: number; // Default 1.2 (20% buffer)
   cacheTtl?: number; // Default 30 seconds
 }
 
 export interface ProtocolExecutor {
-  execute(request: ExecutionRequest): Promise<ExecutionResponse>;
+  execute(request: ExecutionRequest, options?: ExecutionOptions): Promise<ExecutionResponse>;
   estimateGas(request: ExecutionRequest): Promise<GasEstimation>;
+  simulate(request: ExecutionRequest): Promise<SimulationResult>;
   validateRequest(request: ExecutionRequest): Promise<{ valid: boolean; errors: string[] }>;
+  checkAllowance?(request: ExecutionRequest): Promise<ApprovalStep | null>;
+  clearCache?(): void;
 }
\ No newline at end of file
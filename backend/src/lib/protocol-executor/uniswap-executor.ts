@@ -5,15 +5,22 @@
  */
 
 import { ethers } from 'ethers';
-import { ProtocolExecutor, ExecutionRequest, ExecutionResponse, GasEstimation, ExecutorConfig } from './types';
-import { getProtocolRegistry, FUNCTION_SIGNATURES } from '../protocol-contracts/registry';
+import { ProtocolExecutor, ExecutionRequest, ExecutionResponse, ExecutionOptions, GasEstimation, ExecutorConfig, SimulationResult, ApprovalStep } from './types';
+import { checkAllowance, ensureAllowance } from './allowance';
+import { simulateContractCall } from './simulation';
+import { sendManaged, trackTransaction } from './nonce-manager';
+import { NetworkConnections } from './network-connections';
+import { DEFAULT_FEE_SPEED, toFeeOverrides } from './fee-model';
+import { getProtocolRegistry } from '../protocol-contracts/registry';
+import { getProtocolAdapter, getFunctionSignature } from '../protocol-adapters/registry';
 import { Pool } from 'pg';
 
+const SWAP_FALLBACK_GAS_LIMIT = BigInt(300000); // Used when eth_estimateGas fails
+
 export class UniswapExecutor implements ProtocolExecutor {
-  private provider: ethers.Provider;
-  private signer?: ethers.Signer;
   private config: ExecutorConfig;
   private gasCache: Map<string, { estimation: GasEstimation; expiresAt: number }> = new Map();
+  private connections: NetworkConnections;
   private pool: Pool;
 
   constructor(config: ExecutorConfig, pool: Pool) {
@@ -23,17 +30,14 @@ export class UniswapExecutor implements ProtocolExecutor {
       ...config
     };
     this.pool = pool;
-    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
-
-    if (config.privateKey) {
-      this.signer = new ethers.Wallet(config.privateKey, this.provider);
-    }
+    // Provider, fee model and signer are opened per network on first use
+    this.connections = new NetworkConnections(this.config);
   }
 
   /**
    * Execute Uniswap protocol function
    */
-  async execute(request: ExecutionRequest): Promise<ExecutionResponse> {
+  async execute(request: ExecutionRequest, options: ExecutionOptions = {}): Promise<ExecutionResponse> {
     try {
       // Validate request
       const validation = await this.validateRequest(request);
@@ -41,51 +45,60 @@ export class UniswapExecutor implements ProtocolExecutor {
         throw new Error(`Invalid request: ${validation.errors.join(', ')}`);
       }
 
-      if (!this.signer) {
+      const { signer, feeModel } = this.connections.get(request.network);
+      if (!signer) {
         throw new Error('No signer configured for execution');
       }
 
       // Get contract details
       const registry = getProtocolRegistry(this.pool);
-      const contractDetails = await registry.getContract('UNISWAP', 'SwapRouter', request.network as any);
+      const contractDetails = await registry.getContractForFunction('UNISWAP', request.functionName, request.network as any);
 
       if (!contractDetails) {
         throw new Error('Uniswap SwapRouter contract not found');
       }
 
+      // Approve the contract to pull the token first if the signer's allowance is short
+      const approval = await ensureAllowance(signer, feeModel, request, contractDetails.address, this.config);
+      if (approval?.status === 'failed') {
+        return {
+          transactionHash: '',
+          gasUsed: '0',
+          blockNumber: 0,
+          status: 'failed',
+          errorMessage: `Token approval failed for ${approval.token}`,
+          approval,
+          timestamp: new Date()
+        };
+      }
+
       // Create contract instance
       const contract = new ethers.Contract(
         contractDetails.address,
         contractDetails.abi,
-        this.signer
+        signer
       );
 
       // Estimate gas
       const gasEstimation = await this.estimateGas(request);
 
       // Build transaction parameters
-      const txParams = this.buildSwapParams(request.functionName, request.parameters);
+      const adapter = getProtocolAdapter('UNISWAP');
+      const txParams = adapter.buildCallArgs(request.functionName, request.parameters);
 
       // Execute transaction
-      const tx = await contract[request.functionName](
-        txParams,
+      const tx = await sendManaged(signer, () => contract[request.functionName](
+        ...txParams,
         {
           gasLimit: gasEstimation.gasLimit,
-          gasPrice: gasEstimation.gasPrice,
-          value: this.getValueForSwap(request.functionName, request.parameters)
+          ...toFeeOverrides(gasEstimation),
+          value: adapter.getCallValue!(request.functionName, request.parameters)
         }
-      );
-
-      // Wait for confirmation
-      const receipt = await tx.wait();
+      ));
 
-      return {
-        transactionHash: receipt.hash,
-        gasUsed: receipt.gasUsed.toString(),
-        blockNumber: receipt.blockNumber,
-        status: receipt.status === 1 ? 'success' : 'failed',
-        timestamp: new Date()
-      };
+      // Wait for confirmation, following speed-up/cancel replacements
+      const response = await trackTransaction(tx, options);
+      return { ...response, approval: approval || undefined };
     } catch (error: any) {
       console.error('Uniswap execution error:', error);
       return {
@@ -103,18 +116,22 @@ export class UniswapExecutor implements ProtocolExecutor {
    * Estimate gas for Uniswap transaction
    */
   async estimateGas(request: ExecutionRequest): Promise<GasEstimation> {
-    try {
-      // Check cache
-      const cacheKey = this.getCacheKey(request);
-      const cached = this.gasCache.get(cacheKey);
+    // Check cache
+    const cacheKey = this.getCacheKey(request);
+    const cached = this.gasCache.get(cacheKey);
 
-      if (cached && cached.expiresAt > Date.now()) {
-        return cached.estimation;
-      }
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.estimation;
+    }
+
+    const { provider, feeModel } = this.connections.get(request.network);
+    let gasLimit: bigint;
+    let estimated = true;
 
+    try {
       // Get contract details
       const registry = getProtocolRegistry(this.pool);
-      const contractDetails = await registry.getContract('UNISWAP', 'SwapRouter', request.network as any);
+      const contractDetails = await registry.getContractForFunction('UNISWAP', request.functionName, request.network as any);
 
       if (!contractDetails) {
         throw new Error('Uniswap SwapRouter contract not found');
@@ -124,57 +141,91 @@ export class UniswapExecutor implements ProtocolExecutor {
       const contract = new ethers.Contract(
         contractDetails.address,
         contractDetails.abi,
-        this.provider
+        provider
       );
 
       // Build transaction parameters
-      const txParams = this.buildSwapParams(request.functionName, request.parameters);
+      const adapter = getProtocolAdapter('UNISWAP');
+      const txParams = adapter.buildCallArgs(request.functionName, request.parameters);
 
       // Estimate gas
-      const gasLimit = await contract[request.functionName].estimateGas(
-        txParams,
+      const estimatedGas = await contract[request.functionName].estimateGas(
+        ...txParams,
         {
           from: request.userAddress,
-          value: this.getValueForSwap(request.functionName, request.parameters)
+          value: adapter.getCallValue!(request.functionName, request.parameters)
         }
       );
 
-      // Get current gas price
-      const feeData = await this.provider.getFeeData();
-      const gasPrice = feeData.gasPrice || ethers.parseUnits('20', 'gwei');
-
       // Apply multiplier for safety
-      const adjustedGasLimit = gasLimit * BigInt(Math.floor(this.config.gasMultiplier! * 100)) / BigInt(100);
+      gasLimit = estimatedGas * BigInt(Math.floor(this.config.gasMultiplier! * 100)) / BigInt(100);
+    } catch (error: any) {
+      console.error('Gas estimation error:', error);
+      // Fall back to a conservative limit; fees still come from the network
+      gasLimit = SWAP_FALLBACK_GAS_LIMIT;
+      estimated = false;
+    }
 
-      // Calculate total cost
-      const totalCost = adjustedGasLimit * gasPrice;
+    // Price the limit with EIP-1559 fees for the requested speed
+    const fees = await feeModel.estimateFees(request.feeSpeed || DEFAULT_FEE_SPEED);
 
-      const estimation: GasEstimation = {
-        gasLimit: adjustedGasLimit.toString(),
-        gasPrice: gasPrice.toString(),
-        totalCost: totalCost.toString(),
-        estimatedAt: new Date(),
-        ttl: this.config.cacheTtl!
-      };
+    const estimation: GasEstimation = {
+      ...fees,
+      gasLimit: gasLimit.toString(),
+      totalCost: (gasLimit * BigInt(fees.maxFeePerGas)).toString(),
+      estimatedAt: new Date(),
+      ttl: estimated ? this.config.cacheTtl! : 0
+    };
 
-      // Cache the estimation
+    // Cache the estimation
+    if (estimated) {
       this.gasCache.set(cacheKey, {
         estimation,
         expiresAt: Date.now() + (this.config.cacheTtl! * 1000)
       });
+    }
 
-      return estimation;
-    } catch (error: any) {
-      console.error('Gas estimation error:', error);
-      // Return fallback estimation (higher for swaps)
-      return {
-        gasLimit: '300000',
-        gasPrice: ethers.parseUnits('20', 'gwei').toString(),
-        totalCost: ethers.parseUnits('0.006', 'ether').toString(),
-        estimatedAt: new Date(),
-        ttl: 0
-      };
+    return estimation;
+  }
+
+  /**
+   * Simulate Uniswap transaction with eth_call
+   */
+  async simulate(request: ExecutionRequest): Promise<SimulationResult> {
+    const { provider } = this.connections.get(request.network);
+
+    // Get contract details
+    const registry = getProtocolRegistry(this.pool);
+    const contractDetails = await registry.getContractForFunction('UNISWAP', request.functionName, request.network as any);
+
+    if (!contractDetails) {
+      throw new Error('Uniswap SwapRouter contract not found');
     }
+
+    // Create contract instance
+    const contract = new ethers.Contract(
+      contractDetails.address,
+      contractDetails.abi,
+      provider
+    );
+
+    // Build transaction parameters
+    const adapter = getProtocolAdapter('UNISWAP');
+    const txParams = adapter.buildCallArgs(request.functionName, request.parameters);
+
+    return simulateContractCall(provider, contract, request.functionName, txParams, {
+      from: request.userAddress,
+      value: adapter.getCallValue!(request.functionName, request.parameters)
+    });
+  }
+
+  /**
+   * Check the allowance the call needs; the owner is the signer when one is configured
+   */
+  async checkAllowance(request: ExecutionRequest): Promise<ApprovalStep | null> {
+    const { provider, signer } = this.connections.get(request.network);
+    const owner = signer ? await signer.getAddress() : request.userAddress;
+    return checkAllowance(provider, request, owner, request.contractAddress, this.config);
   }
 
   /**
@@ -189,16 +240,19 @@ export class UniswapExecutor implements ProtocolExecutor {
     }
 
     // Check function signature
-    const signature = FUNCTION_SIGNATURES[request.functionName];
-    if (!signature || signature.protocol !== 'UNISWAP') {
+    const signature = getFunctionSignature(request.functionName, 'UNISWAP');
+    if (!signature) {
       errors.push(`Invalid Uniswap function: ${request.functionName}`);
     } else {
-      // Validate required parameters
-      for (const param of signature.requiredParams) {
-        if (!(param in request.parameters)) {
-          errors.push(`Missing required parameter: ${param}`);
-        }
-      }
+      // Validate parameters against the ABI-derived schema
+      const registry = getProtocolRegistry(this.pool);
+      const paramValidation = await registry.validateFunctionParams(
+        'UNISWAP',
+        request.functionName,
+        request.parameters,
+        { network: request.network as any }
+      );
+      errors.push(...paramValidation.errors.map(error => error.message));
     }
 
     // Validate addresses
@@ -209,29 +263,6 @@ export class UniswapExecutor implements ProtocolExecutor {
       errors.push('Invalid user address');
     }
 
-    // Validate token addresses
-    if ('tokenIn' in request.parameters && !ethers.isAddress(request.parameters.tokenIn)) {
-      errors.push('Invalid tokenIn address');
-    }
-    if ('tokenOut' in request.parameters && !ethers.isAddress(request.parameters.tokenOut)) {
-      errors.push('Invalid tokenOut address');
-    }
-
-    // Validate amounts
-    const amountFields = ['amountIn', 'amountOut', 'amountInMaximum', 'amountOutMinimum'];
-    for (const field of amountFields) {
-      if (field in request.parameters) {
-        try {
-          const amount = BigInt(request.parameters[field]);
-          if (amount <= 0n) {
-            errors.push(`${field} must be greater than 0`);
-          }
-        } catch {
-          errors.push(`Invalid ${field} format`);
-        }
-      }
-    }
-
     // Validate deadline
     if ('deadline' in request.parameters) {
       const deadline = Number(request.parameters.deadline);
@@ -246,60 +277,6 @@ export class UniswapExecutor implements ProtocolExecutor {
     };
   }
 
-  /**
-   * Build swap parameters object
-   */
-  private buildSwapParams(functionName: string, params: Record<string, any>): any {
-    const signature = FUNCTION_SIGNATURES[functionName];
-    if (!signature) {
-      throw new Error(`Unknown function: ${functionName}`);
-    }
-
-    // Uniswap V3 expects a struct for swap parameters
-    if (functionName === 'exactInputSingle' || functionName === 'exactOutputSingle') {
-      return {
-        tokenIn: params.tokenIn,
-        tokenOut: params.tokenOut,
-        fee: BigInt(params.fee || 3000), // Default to 0.3% fee tier
-        recipient: params.recipient,
-        deadline: BigInt(params.deadline || Math.floor(Date.now() / 1000) + 1200), // 20 minutes
-        amountIn: functionName === 'exactInputSingle' ? BigInt(params.amountIn) : undefined,
-        amountOut: functionName === 'exactOutputSingle' ? BigInt(params.amountOut) : undefined,
-        amountOutMinimum: functionName === 'exactInputSingle' ? BigInt(params.amountOutMinimum || 0) : undefined,
-        amountInMaximum: functionName === 'exactOutputSingle' ? BigInt(params.amountInMaximum) : undefined,
-        sqrtPriceLimitX96: BigInt(params.sqrtPriceLimitX96 || 0)
-      };
-    } else if (functionName === 'exactInput') {
-      return {
-        path: params.path,
-        recipient: params.recipient,
-        deadline: BigInt(params.deadline || Math.floor(Date.now() / 1000) + 1200),
-        amountIn: BigInt(params.amountIn),
-        amountOutMinimum: BigInt(params.amountOutMinimum || 0)
-      };
-    }
-
-    throw new Error(`Unsupported Uniswap function: ${functionName}`);
-  }
-
-  /**
-   * Get ETH value for swap (if swapping ETH)
-   */
-  private getValueForSwap(functionName: string, params: Record<string, any>): bigint {
-    // Check if tokenIn is WETH address (would need ETH value)
-    const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'; // Mainnet WETH
-
-    if (params.tokenIn === WETH_ADDRESS) {
-      if (functionName === 'exactInputSingle' || functionName === 'exactInput') {
-        return BigInt(params.amountIn);
-      } else if (functionName === 'exactOutputSingle') {
-        return BigInt(params.amountInMaximum);
-      }
-    }
-
-    return BigInt(0);
-  }
-
   /**
    * Generate cache key for gas estimation
    */
@@ -309,7 +286,7 @@ export class UniswapExecutor implements ProtocolExecutor {
       .map(key => `${key}:${request.parameters[key]}`)
       .join('|');
 
-    return `uniswap:${request.functionName}:${request.network}:${params}`;
+    return `uniswap:${request.functionName}:${request.network}:${request.feeSpeed || DEFAULT_FEE_SPEED}:${params}`;
   }
 
   /**
@@ -15,7 +15,7 @@ import {
   ProtocolType,
   StrategyFunction
 } from './types';
-import { FUNCTION_SIGNATURES } from '../protocol-contracts/registry';
+import { getFunctionSignature, hasProtocolAdapter } from '../protocol-adapters';
 
 export class ProtocolStrategiesLib {
   private pool: Pool;
@@ -43,15 +43,19 @@ export class ProtocolStrategiesLib {
       throw new Error(`Strategy name "${input.name}" already exists globally`);
     }
 
+    if (!hasProtocolAdapter(input.protocol)) {
+      throw new Error(`Unsupported protocol: ${input.protocol}`);
+    }
+
     // Validate and build function objects
     const functionObjects: StrategyFunction[] = input.functions.map(fnName => {
-      const signature = FUNCTION_SIGNATURES[fnName];
+      const signature = getFunctionSignature(fnName, input.protocol);
       if (!signature) {
+        if (getFunctionSignature(fnName)) {
+          throw new Error(`Function ${fnName} is not available for protocol ${input.protocol}`);
+        }
         throw new Error(`Unknown function: ${fnName}`);
       }
-      if (signature.protocol !== input.protocol) {
-        throw new Error(`Function ${fnName} is not available for protocol ${input.protocol}`);
-      }
       return {
         functionName: signature.name,
         displayName: signature.displayName,
@@ -125,13 +129,13 @@ export class ProtocolStrategiesLib {
       }
 
       functionObjects = input.functions.map(fnName => {
-        const signature = FUNCTION_SIGNATURES[fnName];
+        const signature = getFunctionSignature(fnName, existing.protocol);
         if (!signature) {
+          if (getFunctionSignature(fnName)) {
+            throw new Error(`Function ${fnName} is not available for protocol ${existing.protocol}`);
+          }
           throw new Error(`Unknown function: ${fnName}`);
         }
-        if (signature.protocol !== existing.protocol) {
-          throw new Error(`Function ${fnName} is not available for protocol ${existing.protocol}`);
-        }
         return {
           functionName: signature.name,
           displayName: signature.displayName,
@@ -3,7 +3,9 @@
  * Feature: 003-protocol-strategy-integration
  */
 
-export type ProtocolType = 'AAVE' | 'UNISWAP';
+import { ProtocolType } from '../protocol-contracts/registry';
+
+export type { ProtocolType };
 
 export interface StrategyFunction {
   functionName: string;
@@ -0,0 +1,213 @@
+/**
+ * Consumer Risk Limit Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Pool } from 'pg';
+import {
+  evaluateRiskLimits,
+  getRiskLimitService,
+  getTradeExposure,
+  RiskLimitError,
+  RiskProfile,
+  validateRiskProfile
+} from '../index';
+import '../../protocol-adapters';
+
+jest.mock('pg');
+
+describe('Consumer risk limits', () => {
+  const consumerId = '00000000-0000-0000-0000-00000000c001';
+  const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+  const dai = '0x6b175474e89094c44da98b954eedeac495271d0f';
+  const wallet = '0x1111111111111111111111111111111111111111';
+
+  const profile: RiskProfile = {
+    consumerId,
+    maxNotionalPerTrade: null,
+    dailyVolumeCap: null,
+    allowedAssets: null,
+    allowedFunctions: null,
+    maxOpenBorrow: null,
+    priceDriftRule: null
+  };
+
+  const supply = (amount: string) => ({
+    protocol: 'AAVE' as const,
+    functionName: 'supply',
+    parameters: { asset: usdc, amount, onBehalfOf: wallet, referralCode: 0 }
+  });
+
+  const noUsage = { dailyVolume: {}, openBorrow: {} };
+
+  describe('validateRiskProfile', () => {
+    it('should accept token-keyed limits and lists', () => {
+      expect(validateRiskProfile({
+        maxNotionalPerTrade: { [usdc]: '1000' },
+        allowedAssets: [usdc],
+        allowedFunctions: ['supply']
+      })).toEqual([]);
+    });
+
+    it('should reject non-address keys and non-integer amounts', () => {
+      expect(validateRiskProfile({ dailyVolumeCap: { USDC: '1' }, maxOpenBorrow: { [usdc]: 5 } })).toEqual([
+        'dailyVolumeCap key USDC is not a token address',
+        `maxOpenBorrow.${usdc} must be an integer string`
+      ]);
+      expect(validateRiskProfile({ allowedAssets: ['USDC'] })).toEqual(['allowedAssets must contain token addresses']);
+    });
+
+    it('should check the price-drift rule', () => {
+      expect(validateRiskProfile({ priceDriftRule: { maxDriftBps: 150, action: 'block' } })).toEqual([]);
+      expect(validateRiskProfile({ priceDriftRule: { maxDriftBps: 1.5, action: 'stop' } })).toEqual([
+        'priceDriftRule.maxDriftBps must be an integer from 0 to 10000',
+        'priceDriftRule.action must be "block" or "warn"'
+      ]);
+    });
+  });
+
+  describe('evaluateRiskLimits', () => {
+    it('should pass trades within every limit', () => {
+      const trade = supply('500');
+      const limits = { ...profile, maxNotionalPerTrade: { [usdc]: '500' }, allowedFunctions: ['supply'], allowedAssets: [usdc] };
+
+      expect(evaluateRiskLimits(limits, trade, getTradeExposure(trade), noUsage)).toEqual([]);
+    });
+
+    it('should name the function and assets a trade is not allowed to use', () => {
+      const swap = {
+        protocol: 'UNISWAP' as const,
+        functionName: 'exactInputSingle',
+        parameters: { tokenIn: usdc, tokenOut: dai, fee: 500, amountIn: '10', amountOutMinimum: '9' }
+      };
+      const limits = { ...profile, allowedFunctions: ['supply'], allowedAssets: [usdc] };
+
+      const violations = evaluateRiskLimits(limits, swap, getTradeExposure(swap), noUsage);
+
+      expect(violations.map(violation => violation.code)).toEqual(['FUNCTION_NOT_ALLOWED', 'ASSET_NOT_ALLOWED']);
+      expect(violations[1].asset).toBe(dai);
+    });
+
+    it('should cap per-trade notional and 24-hour volume in the traded asset', () => {
+      const trade = supply('600');
+      const limits = { ...profile, maxNotionalPerTrade: { [usdc]: '500' }, dailyVolumeCap: { [usdc]: '1000' } };
+
+      const violations = evaluateRiskLimits(limits, trade, getTradeExposure(trade), {
+        dailyVolume: { [usdc]: BigInt(450) },
+        openBorrow: {}
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({ code: 'MAX_NOTIONAL', limit: '500', actual: '600' }),
+        expect.objectContaining({ code: 'DAILY_VOLUME', limit: '1000', actual: '1050' })
+      ]);
+    });
+
+    it('should only count borrows against the open borrow limit', () => {
+      const limits = { ...profile, maxOpenBorrow: { [usdc]: '100' } };
+      const borrow = { ...supply('80'), functionName: 'borrow' };
+      const repay = { ...supply('80'), functionName: 'repay' };
+      const usage = { dailyVolume: {}, openBorrow: { [usdc]: BigInt(50) } };
+
+      expect(evaluateRiskLimits(limits, borrow, getTradeExposure(borrow), usage)[0])
+        .toMatchObject({ code: 'MAX_OPEN_BORROW', actual: '130' });
+      expect(evaluateRiskLimits(limits, repay, getTradeExposure(repay), usage)).toEqual([]);
+    });
+  });
+
+  describe('RiskLimitService', () => {
+    let pool: jest.Mocked<Pool>;
+
+    beforeEach(() => {
+      pool = new Pool() as jest.Mocked<Pool>;
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should let consumers without a profile through', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      await expect(getRiskLimitService(pool).assertWithinLimits(consumerId, supply('1'))).resolves.toBeUndefined();
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should sum other recent trades in the asset, excluding the one being checked', async () => {
+      (pool.query as jest.Mock).mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM consumer_risk_profiles')) {
+          return { rows: [{ consumer_id: consumerId, daily_volume_cap: { [usdc]: '1000' } }] };
+        }
+        return {
+          rows: [
+            { protocol: 'AAVE', function_name: 'supply', modified_parameters: supply('700').parameters },
+            { protocol: 'AAVE', function_name: 'supply', modified_parameters: { ...supply('900').parameters, asset: dai } }
+          ]
+        };
+      });
+
+      const check = getRiskLimitService(pool).assertWithinLimits(consumerId, { ...supply('400'), confirmationId: 'tc-1' });
+
+      await expect(check).rejects.toBeInstanceOf(RiskLimitError);
+      await expect(check).rejects.toThrow(`24-hour volume in ${usdc} to 1100`);
+
+      const [, usageParams] = (pool.query as jest.Mock).mock.calls[1];
+      expect(usageParams).toEqual([consumerId, ['ACCEPTED', 'EXECUTING', 'EXECUTED'], 'tc-1']);
+    });
+
+    it('should count other bundles\' legs and the bundle\'s earlier legs toward each leg', async () => {
+      (pool.query as jest.Mock).mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM consumer_risk_profiles')) {
+          return { rows: [{ consumer_id: consumerId, daily_volume_cap: { [usdc]: '1000' } }] };
+        }
+        return {
+          rows: [{
+            protocol: 'AAVE',
+            function_name: 'supply+withdraw',
+            legs: [{ functionName: 'supply' }, { functionName: 'withdraw' }],
+            modified_parameters: { legs: [supply('300').parameters, { asset: dai, amount: '50', to: wallet }] }
+          }]
+        };
+      });
+
+      const check = getRiskLimitService(pool).assertBundleWithinLimits(consumerId, [supply('400'), supply('400')]);
+
+      await expect(check).rejects.toMatchObject({
+        violations: [expect.objectContaining({ code: 'DAILY_VOLUME', leg: 1, actual: '1100' })]
+      });
+    });
+
+    it('should check and apply under the consumer\'s lock, rolling back on a violation', async () => {
+      const client = {
+        query: jest.fn(async (sql: string) => {
+          if (sql.includes('FROM consumer_risk_profiles')) {
+            return { rows: [{ consumer_id: consumerId, max_notional_per_trade: { [usdc]: '500' } }] };
+          }
+          return { rows: [] };
+        }),
+        release: jest.fn()
+      };
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+      const apply = jest.fn().mockResolvedValue(true);
+      const service = getRiskLimitService(pool);
+
+      await expect(service.applyWithinLimits(consumerId, [supply('400')], apply)).resolves.toBe(true);
+      expect(apply).toHaveBeenCalledWith(client);
+      expect(client.query.mock.calls.map(([sql]) => sql)).toEqual([
+        'BEGIN',
+        'SELECT pg_advisory_xact_lock(hashtext($1))',
+        'SELECT * FROM consumer_risk_profiles WHERE consumer_id = $1',
+        'COMMIT'
+      ]);
+
+      client.query.mockClear();
+      apply.mockClear();
+
+      await expect(service.applyWithinLimits(consumerId, [supply('600')], apply)).rejects.toBeInstanceOf(RiskLimitError);
+      expect(apply).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalledTimes(2);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
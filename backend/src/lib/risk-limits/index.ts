@@ -0,0 +1,464 @@
+/**
+ * Consumer Risk Limits
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Store consumer risk profiles and enforce them when trades are accepted and executed
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { getProtocolAdapter } from '../protocol-adapters/registry';
+import { TradeExposure } from '../protocol-adapters/types';
+import { BundleLeg } from '../trade-broadcast/bundle';
+import { MAX_PRICE_DRIFT_BPS } from '../price-drift/types';
+import {
+  AssetLimits,
+  RiskCheckTrade,
+  RiskLimitError,
+  RiskProfile,
+  RiskProfileUpdate,
+  RiskUsage,
+  RiskViolation
+} from './types';
+
+export * from './types';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const AMOUNT_PATTERN = /^\d+$/;
+const ASSET_LIMIT_FIELDS = ['maxNotionalPerTrade', 'dailyVolumeCap', 'maxOpenBorrow'] as const;
+
+/**
+ * Check a risk profile update's shape; returns the problems found
+ */
+export function validateRiskProfile(update: any): string[] {
+  if (!update || typeof update !== 'object') {
+    return ['Risk profile must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  for (const field of ASSET_LIMIT_FIELDS) {
+    const limits = update[field];
+    if (limits === undefined || limits === null) continue;
+
+    if (typeof limits !== 'object' || Array.isArray(limits)) {
+      errors.push(`${field} must map token addresses to amounts`);
+      continue;
+    }
+
+    for (const [token, amount] of Object.entries(limits)) {
+      if (!ADDRESS_PATTERN.test(token)) {
+        errors.push(`${field} key ${token} is not a token address`);
+      } else if (typeof amount !== 'string' || !AMOUNT_PATTERN.test(amount)) {
+        errors.push(`${field}.${token} must be an integer string`);
+      }
+    }
+  }
+
+  for (const field of ['allowedAssets', 'allowedFunctions']) {
+    const list = update[field];
+    if (list === undefined || list === null) continue;
+
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      errors.push(`${field} must be an array of strings`);
+    } else if (field === 'allowedAssets' && list.some(item => !ADDRESS_PATTERN.test(item))) {
+      errors.push('allowedAssets must contain token addresses');
+    }
+  }
+
+  const rule = update.priceDriftRule;
+  if (rule !== undefined && rule !== null) {
+    if (typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push('priceDriftRule must be an object with maxDriftBps and action');
+    } else {
+      if (!Number.isInteger(rule.maxDriftBps) || rule.maxDriftBps < 0 || rule.maxDriftBps > MAX_PRICE_DRIFT_BPS) {
+        errors.push(`priceDriftRule.maxDriftBps must be an integer from 0 to ${MAX_PRICE_DRIFT_BPS}`);
+      }
+      if (rule.action !== 'block' && rule.action !== 'warn') {
+        errors.push('priceDriftRule.action must be "block" or "warn"');
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Get what a call exposes the caller to; protocols without the hook expose nothing measurable
+ */
+export function getTradeExposure(trade: RiskCheckTrade): TradeExposure {
+  const adapter = getProtocolAdapter(trade.protocol);
+  return adapter.getExposure?.(trade.functionName, trade.parameters) || { assets: [], notional: null };
+}
+
+/**
+ * Compare one trade against a profile, given the consumer's usage so far
+ */
+export function evaluateRiskLimits(
+  profile: RiskProfile,
+  trade: RiskCheckTrade,
+  exposure: TradeExposure,
+  usage: RiskUsage
+): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+
+  if (profile.allowedFunctions && !profile.allowedFunctions.includes(trade.functionName)) {
+    violations.push({
+      code: 'FUNCTION_NOT_ALLOWED',
+      message: `${trade.functionName} is not in your allowed functions (${profile.allowedFunctions.join(', ') || 'none'})`
+    });
+  }
+
+  if (profile.allowedAssets) {
+    const allowed = profile.allowedAssets.map(asset => asset.toLowerCase());
+
+    for (const asset of exposure.assets) {
+      if (!allowed.includes(asset.toLowerCase())) {
+        violations.push({ code: 'ASSET_NOT_ALLOWED', message: `Asset ${asset} is not in your allowed assets`, asset });
+      }
+    }
+  }
+
+  if (!exposure.notional) {
+    return violations;
+  }
+
+  const asset = exposure.notional.token.toLowerCase();
+  const amount = exposure.notional.amount;
+
+  const maxNotional = limitFor(profile.maxNotionalPerTrade, asset);
+  if (maxNotional !== null && amount > maxNotional) {
+    violations.push({
+      code: 'MAX_NOTIONAL',
+      message: `Trade moves ${amount} of ${asset}, above your per-trade maximum of ${maxNotional}`,
+      asset,
+      limit: maxNotional.toString(),
+      actual: amount.toString()
+    });
+  }
+
+  const dailyCap = limitFor(profile.dailyVolumeCap, asset);
+  const dailyVolume = (usage.dailyVolume[asset] || BigInt(0)) + amount;
+  if (dailyCap !== null && dailyVolume > dailyCap) {
+    violations.push({
+      code: 'DAILY_VOLUME',
+      message: `Trade would bring your 24-hour volume in ${asset} to ${dailyVolume}, above your cap of ${dailyCap}`,
+      asset,
+      limit: dailyCap.toString(),
+      actual: dailyVolume.toString()
+    });
+  }
+
+  const maxBorrow = limitFor(profile.maxOpenBorrow, asset);
+  if (maxBorrow !== null && exposure.debtChange && exposure.debtChange > BigInt(0)) {
+    const openBorrow = (usage.openBorrow[asset] || BigInt(0)) + exposure.debtChange;
+
+    if (openBorrow > maxBorrow) {
+      violations.push({
+        code: 'MAX_OPEN_BORROW',
+        message: `Borrow would bring your open debt in ${asset} to ${openBorrow}, above your maximum of ${maxBorrow}`,
+        asset,
+        limit: maxBorrow.toString(),
+        actual: openBorrow.toString()
+      });
+    }
+  }
+
+  return violations;
+}
+
+function limitFor(limits: AssetLimits | null, asset: string): bigint | null {
+  const limit = limits?.[asset];
+  return limit === undefined ? null : BigInt(limit);
+}
+
+/**
+ * Lowercase token keys so lookups match however the consumer wrote the address
+ */
+function normalizeLimits(limits: AssetLimits | null | undefined): AssetLimits | null {
+  if (!limits) return null;
+
+  return Object.fromEntries(Object.entries(limits).map(([token, amount]) => [token.toLowerCase(), amount]));
+}
+
+function toRiskProfile(row: any): RiskProfile {
+  return {
+    consumerId: row.consumer_id,
+    maxNotionalPerTrade: row.max_notional_per_trade,
+    dailyVolumeCap: row.daily_volume_cap,
+    allowedAssets: row.allowed_assets,
+    allowedFunctions: row.allowed_functions,
+    maxOpenBorrow: row.max_open_borrow,
+    priceDriftRule: row.price_drift_rule,
+    updatedAt: row.updated_at
+  };
+}
+
+export class RiskLimitService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Resolve a consumer wallet address to its consumer ID; UUIDs pass through
+   */
+  async resolveConsumerId(consumerId: string): Promise<string> {
+    if (!ADDRESS_PATTERN.test(consumerId)) {
+      return consumerId;
+    }
+
+    const result = await this.pool.query(
+      'SELECT consumer_id FROM alpha_consumers WHERE LOWER(wallet_address) = LOWER($1)',
+      [consumerId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Consumer not found');
+    }
+
+    return result.rows[0].consumer_id;
+  }
+
+  /**
+   * Get a consumer's risk profile; null when they have not set one
+   */
+  async getProfile(consumerId: string, db: Pick<Pool, 'query'> = this.pool): Promise<RiskProfile | null> {
+    const result = await db.query(
+      'SELECT * FROM consumer_risk_profiles WHERE consumer_id = $1',
+      [consumerId]
+    );
+
+    return result.rows.length > 0 ? toRiskProfile(result.rows[0]) : null;
+  }
+
+  /**
+   * Create or replace a consumer's risk profile; omitted fields are unlimited
+   */
+  async updateProfile(consumerId: string, update: Partial<RiskProfileUpdate>): Promise<RiskProfile> {
+    const errors = validateRiskProfile(update);
+    if (errors.length > 0) {
+      throw new Error(`Invalid risk profile: ${errors.join('; ')}`);
+    }
+
+    const json = (value: any) => value === undefined || value === null ? null : JSON.stringify(value);
+
+    const result = await this.pool.query(
+      `INSERT INTO consumer_risk_profiles (
+        consumer_id, max_notional_per_trade, daily_volume_cap, allowed_assets,
+        allowed_functions, max_open_borrow, price_drift_rule, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)
+      ON CONFLICT (consumer_id) DO UPDATE SET
+        max_notional_per_trade = EXCLUDED.max_notional_per_trade,
+        daily_volume_cap = EXCLUDED.daily_volume_cap,
+        allowed_assets = EXCLUDED.allowed_assets,
+        allowed_functions = EXCLUDED.allowed_functions,
+        max_open_borrow = EXCLUDED.max_open_borrow,
+        price_drift_rule = EXCLUDED.price_drift_rule,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *`,
+      [
+        consumerId,
+        json(normalizeLimits(update.maxNotionalPerTrade)),
+        json(normalizeLimits(update.dailyVolumeCap)),
+        json(update.allowedAssets?.map(asset => asset.toLowerCase())),
+        json(update.allowedFunctions),
+        json(normalizeLimits(update.maxOpenBorrow)),
+        json(update.priceDriftRule)
+      ]
+    );
+
+    return toRiskProfile(result.rows[0]);
+  }
+
+  /**
+   * Throw RiskLimitError if the trade breaks the consumer's limits; consumers without a profile pass
+   */
+  async assertWithinLimits(consumerId: string, trade: RiskCheckTrade): Promise<void> {
+    const violations = await this.findViolations(consumerId, [trade]);
+
+    if (violations.length > 0) {
+      throw new RiskLimitError(violations);
+    }
+  }
+
+  /**
+   * Throw RiskLimitError if any leg of a bundle breaks the consumer's limits.
+   * Earlier legs count toward later legs' daily volume and open borrow.
+   */
+  async assertBundleWithinLimits(consumerId: string, legs: RiskCheckTrade[]): Promise<void> {
+    const violations = await this.findViolations(consumerId, legs);
+
+    if (violations.length > 0) {
+      throw new RiskLimitError(violations);
+    }
+  }
+
+  /**
+   * Check trades against the consumer's limits and, when they pass, run `apply` in the same
+   * transaction. A per-consumer lock is held until commit, so concurrent accepts or executions
+   * count each other's trades instead of each passing against the same usage.
+   * Several trades are checked as the legs of one bundle.
+   */
+  async applyWithinLimits<T>(
+    consumerId: string,
+    trades: RiskCheckTrade[],
+    apply: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [consumerId]);
+
+      const violations = await this.findViolations(consumerId, trades, client);
+
+      if (violations.length > 0) {
+        throw new RiskLimitError(violations);
+      }
+
+      const result = await apply(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async findViolations(
+    consumerId: string,
+    trades: RiskCheckTrade[],
+    db: Pick<Pool, 'query'> = this.pool
+  ): Promise<RiskViolation[]> {
+    const profile = await this.getProfile(consumerId, db);
+    if (!profile) return [];
+
+    const violations: RiskViolation[] = [];
+    const earlier: TradeExposure[] = [];
+
+    for (const [index, trade] of trades.entries()) {
+      const exposure = getTradeExposure(trade);
+      const usage = await this.getUsage(consumerId, trade, exposure, profile, db);
+
+      for (const previous of earlier) {
+        if (!previous.notional) continue;
+
+        const asset = previous.notional.token.toLowerCase();
+        usage.dailyVolume[asset] = (usage.dailyVolume[asset] || BigInt(0)) + previous.notional.amount;
+
+        if (previous.debtChange) {
+          usage.openBorrow[asset] = (usage.openBorrow[asset] || BigInt(0)) + previous.debtChange;
+        }
+      }
+
+      const found = evaluateRiskLimits(profile, trade, exposure, usage);
+      violations.push(...(trades.length > 1 ? found.map(violation => ({ ...violation, leg: index })) : found));
+      earlier.push(exposure);
+    }
+
+    return violations;
+  }
+
+  /**
+   * Sum the consumer's other trades in the trade's notional asset, only for limits that are set
+   */
+  private async getUsage(
+    consumerId: string,
+    trade: RiskCheckTrade,
+    exposure: TradeExposure,
+    profile: RiskProfile,
+    db: Pick<Pool, 'query'>
+  ): Promise<RiskUsage> {
+    const usage: RiskUsage = { dailyVolume: {}, openBorrow: {} };
+    const asset = exposure.notional?.token.toLowerCase();
+
+    if (!asset) return usage;
+
+    if (limitFor(profile.dailyVolumeCap, asset) !== null) {
+      const rows = await this.getOtherTrades(
+        consumerId,
+        trade.confirmationId,
+        ['ACCEPTED', 'EXECUTING', 'EXECUTED'],
+        "AND tc.decided_at > CURRENT_TIMESTAMP - INTERVAL '24 hours'",
+        db
+      );
+      usage.dailyVolume[asset] = this.sumExposure(rows, asset, exposure => exposure.notional?.amount);
+    }
+
+    if (limitFor(profile.maxOpenBorrow, asset) !== null && exposure.debtChange && exposure.debtChange > BigInt(0)) {
+      const rows = await this.getOtherTrades(consumerId, trade.confirmationId, ['EXECUTING', 'EXECUTED'], '', db);
+      const openBorrow = this.sumExposure(rows, asset, exposure => exposure.debtChange);
+      usage.openBorrow[asset] = openBorrow > BigInt(0) ? openBorrow : BigInt(0);
+    }
+
+    return usage;
+  }
+
+  private async getOtherTrades(
+    consumerId: string,
+    excludeConfirmationId: string | undefined,
+    statuses: string[],
+    extraCondition: string,
+    db: Pick<Pool, 'query'>
+  ): Promise<any[]> {
+    const result = await db.query(
+      `SELECT tc.modified_parameters, tb.protocol, tb.function_name, tb.legs
+       FROM protocol_trade_confirmations tc
+       JOIN trade_broadcasts tb ON tc.trade_broadcast_id = tb.id
+       WHERE tc.alpha_consumer_id = $1
+         AND tc.status = ANY($2)
+         AND ($3::uuid IS NULL OR tc.id <> $3)
+         ${extraCondition}`,
+      [consumerId, statuses, excludeConfirmationId || null]
+    );
+
+    return result.rows;
+  }
+
+  private sumExposure(
+    rows: any[],
+    asset: string,
+    pick: (exposure: TradeExposure) => bigint | undefined
+  ): bigint {
+    let total = BigInt(0);
+
+    for (const row of rows) {
+      try {
+        for (const trade of this.toRiskTrades(row)) {
+          const exposure = getTradeExposure(trade);
+
+          if (exposure.notional?.token.toLowerCase() === asset) {
+            total += pick(exposure) || BigInt(0);
+          }
+        }
+      } catch (error) {
+        // Rows from protocols no longer registered (or malformed params) carry no exposure
+        console.warn('Skipping trade in risk usage:', error);
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * A bundle row counts as each of its legs, with the consumer's parameters for that leg
+   */
+  private toRiskTrades(row: any): RiskCheckTrade[] {
+    if (!row.legs) {
+      return [{ protocol: row.protocol, functionName: row.function_name, parameters: row.modified_parameters }];
+    }
+
+    return (row.legs as BundleLeg[]).map((leg, index) => ({
+      protocol: row.protocol,
+      functionName: leg.functionName,
+      parameters: row.modified_parameters?.legs?.[index] ?? leg.parameters
+    }));
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getRiskLimitService(pool: Pool): RiskLimitService {
+  return new RiskLimitService(pool);
+}
@@ -0,0 +1,66 @@
+/**
+ * Risk Limit Types
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Type definitions for consumer risk profiles and limit violations
+ */
+
+import { ProtocolType } from '../protocol-contracts/registry';
+import { PriceDriftRule } from '../price-drift/types';
+
+// Token address (lowercase) => amount in that token's base units.
+// Limits are per asset because the backend has no price feed to value trades in one currency.
+export type AssetLimits = Record<string, string>;
+
+export interface RiskProfile {
+  consumerId: string;
+  maxNotionalPerTrade: AssetLimits | null; // Most one trade may move of each asset
+  dailyVolumeCap: AssetLimits | null; // Most accepted/executed trades may move per asset in 24 hours
+  allowedAssets: string[] | null; // Tokens trades may touch; null allows any
+  allowedFunctions: string[] | null; // e.g. ['supply', 'withdraw'] to never borrow; null allows any
+  maxOpenBorrow: AssetLimits | null; // Most outstanding debt per asset from executed borrows less repays
+  priceDriftRule: PriceDriftRule | null; // How far prices may move between broadcast and execution; null uses the default
+  updatedAt?: Date;
+}
+
+export type RiskProfileUpdate = Omit<RiskProfile, 'consumerId' | 'updatedAt'>;
+
+export type RiskViolationCode =
+  | 'FUNCTION_NOT_ALLOWED'
+  | 'ASSET_NOT_ALLOWED'
+  | 'MAX_NOTIONAL'
+  | 'DAILY_VOLUME'
+  | 'MAX_OPEN_BORROW';
+
+export interface RiskViolation {
+  code: RiskViolationCode;
+  message: string;
+  asset?: string;
+  limit?: string;
+  actual?: string; // Amount the trade would reach, in the asset's base units
+  leg?: number; // Index of the bundle leg that broke the limit
+}
+
+export interface RiskCheckTrade {
+  confirmationId?: string; // Excluded from usage so re-checking an accepted trade does not count it twice
+  protocol: ProtocolType;
+  functionName: string;
+  parameters: Record<string, any>;
+}
+
+export interface RiskUsage {
+  dailyVolume: Record<string, bigint>; // Asset => amount moved in the last 24 hours
+  openBorrow: Record<string, bigint>; // Asset => outstanding debt
+}
+
+/**
+ * Thrown when a trade breaks one or more of the consumer's risk limits
+ */
+export class RiskLimitError extends Error {
+  violations: RiskViolation[];
+
+  constructor(violations: RiskViolation[]) {
+    super(`Risk limit exceeded: ${violations.map(violation => violation.message).join('; ')}`);
+    this.name = 'RiskLimitError';
+    this.violations = violations;
+  }
+}
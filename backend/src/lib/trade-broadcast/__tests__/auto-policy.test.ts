@@ -0,0 +1,142 @@
+/**
+ * Auto-Trade Policy Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { createHmac } from 'crypto';
+import {
+  AutoTradeNotice,
+  getAutoSignerKey,
+  isPublicAddress,
+  matchAutoPolicy,
+  postAutoTradeWebhook,
+  signWebhookBody,
+  validateAutoPolicy
+} from '../auto-policy';
+import '../../protocol-adapters';
+
+describe('Auto-trade policies', () => {
+  const consumer = '0x1111111111111111111111111111111111111111';
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+  const supply = { asset: usdc, amount: '500', onBehalfOf: consumer, referralCode: 0 };
+  const swap = { tokenIn: usdc, tokenOut: dai, fee: 500, amountIn: '1000', amountOutMinimum: '990' };
+
+  describe('validateAutoPolicy', () => {
+    it('should accept accept-only and executing policies', () => {
+      expect(validateAutoPolicy({ autoAccept: true, functions: ['supply'], assets: [usdc], maxAmount: '1000' })).toEqual([]);
+      expect(validateAutoPolicy({
+        autoAccept: true,
+        autoExecute: true,
+        signer: 'delegated',
+        webhookUrl: 'https://example.com/hooks/trades'
+      })).toEqual([]);
+    });
+
+    it('should reject executing without accepting or a delegated signer', () => {
+      expect(validateAutoPolicy({ autoAccept: false, autoExecute: true, signer: 'delegated' }))
+        .toEqual(['autoExecute requires autoAccept']);
+      expect(validateAutoPolicy({ autoAccept: true, autoExecute: true }))
+        .toEqual(['signer must be one of delegated when autoExecute is set']);
+      expect(validateAutoPolicy({ autoAccept: true, autoExecute: true, signer: 'server' }))
+        .toEqual(['signer must be one of delegated when autoExecute is set']);
+    });
+
+    it('should reject malformed bounds, assets and webhooks', () => {
+      expect(validateAutoPolicy({ autoAccept: true, minAmount: '10', maxAmount: '5' }))
+        .toEqual(['minAmount must not exceed maxAmount']);
+      expect(validateAutoPolicy({ autoAccept: true, assets: ['USDC'], maxAmount: 5, webhookUrl: 'ftp://x' })).toEqual([
+        'assets must be an array of token addresses',
+        'maxAmount must be an integer string',
+        'webhookUrl must be an https URL'
+      ]);
+    });
+
+    it('should reject webhooks over http or on non-public hosts', () => {
+      for (const webhookUrl of ['http://example.com/hook', 'https://localhost/hook', 'https://127.0.0.1/hook',
+        'https://169.254.169.254/latest', 'https://10.1.2.3/hook', 'https://[::1]/hook', 'https://[::ffff:7f00:1]/hook']) {
+        expect(validateAutoPolicy({ autoAccept: true, webhookUrl })).toHaveLength(1);
+      }
+    });
+  });
+
+  describe('isPublicAddress', () => {
+    it('should only pass publicly routable addresses', () => {
+      expect(isPublicAddress('93.184.216.34')).toBe(true);
+      expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+
+      for (const address of ['127.0.0.1', '10.0.0.1', '172.20.0.1', '192.168.1.1', '169.254.169.254',
+        '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1', 'example.com']) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+    });
+  });
+
+  describe('postAutoTradeWebhook', () => {
+    const notice = { event: 'auto-trade', confirmationId: 'c-1' } as AutoTradeNotice;
+
+    it('should refuse to deliver to http or non-public hosts', async () => {
+      await expect(postAutoTradeWebhook('http://example.com/hook', notice)).resolves.toBe('webhookUrl must be an https URL');
+      await expect(postAutoTradeWebhook('https://169.254.169.254/latest', notice))
+        .resolves.toBe('webhookUrl must point to a public host');
+    });
+  });
+
+  describe('matchAutoPolicy', () => {
+    it('should match trades inside every condition', () => {
+      const policy = { autoAccept: true, functions: ['supply'], assets: [usdc.toLowerCase()], minAmount: '100', maxAmount: '500' };
+
+      expect(matchAutoPolicy(policy, 'AAVE', 'supply', supply)).toEqual({ matched: true });
+    });
+
+    it('should name the first condition a trade fails', () => {
+      expect(matchAutoPolicy({ autoAccept: false }, 'AAVE', 'supply', supply).reason).toBe('autoAccept is off');
+      expect(matchAutoPolicy({ autoAccept: true, functions: ['supply'] }, 'AAVE', 'borrow', supply).reason)
+        .toBe("borrow is not in the policy's functions");
+      expect(matchAutoPolicy({ autoAccept: true, assets: [usdc] }, 'UNISWAP', 'exactInputSingle', swap).reason)
+        .toBe(`Asset ${dai} is not in the policy's assets`);
+      expect(matchAutoPolicy({ autoAccept: true, maxAmount: '999' }, 'UNISWAP', 'exactInputSingle', swap).reason)
+        .toBe("Amount 1000 is above the policy's maximum of 999");
+    });
+  });
+
+  describe('getAutoSignerKey', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should only use the key delegated for the wallet', () => {
+      const wallet = '0xAbCdEf0000000000000000000000000000000001';
+      process.env = {
+        ...env,
+        AUTO_EXECUTE_PRIVATE_KEY: '0xserver',
+        AUTO_EXECUTE_DELEGATE_KEYS: JSON.stringify({ [wallet]: '0xdelegate' })
+      };
+
+      expect(getAutoSignerKey('server' as any, wallet)).toBeUndefined();
+      expect(getAutoSignerKey('delegated', wallet.toLowerCase())).toBe('0xdelegate');
+      expect(getAutoSignerKey('delegated', '0x2222222222222222222222222222222222222222')).toBeUndefined();
+    });
+  });
+
+  describe('signWebhookBody', () => {
+    const env = process.env;
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('should sign with the shared secret when one is set', () => {
+      process.env = { ...env, AUTO_TRADE_WEBHOOK_SECRET: 'shh' };
+      const expected = createHmac('sha256', 'shh').update('{"a":1}').digest('hex');
+
+      expect(signWebhookBody('{"a":1}')).toBe(`sha256=${expected}`);
+
+      process.env = { ...env, AUTO_TRADE_WEBHOOK_SECRET: '' };
+      expect(signWebhookBody('{"a":1}')).toBeNull();
+    });
+  });
+});
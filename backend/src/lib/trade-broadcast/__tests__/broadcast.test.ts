@@ -5,6 +5,7 @@
 
 import { getTradeBroadcastService, TradeBroadcastService } from '../index';
 import { BroadcastRequest } from '../types';
+import { ParameterValidationError } from '../../protocol-contracts/registry';
 import { Pool } from 'pg';
 
 // Mock dependencies
@@ -111,7 +112,7 @@ describe('TradeBroadcastService', () => {
         .toThrow('Strategy ID and AlphaGenerator ID are required');
     });
 
-    it('should rollback on error', async () => {
+    it('should reject invalid parameters before opening a transaction', async () => {
       const request: BroadcastRequest = {
         strategyId: 'strategy-123',
         alphaGeneratorId: 'generator-123',
@@ -121,6 +122,35 @@ describe('TradeBroadcastService', () => {
         gasEstimate: '500000'
       };
 
+      pool.query = jest.fn().mockResolvedValue({ rows: [] });
+
+      await expect(service.broadcast(request))
+        .rejects
+        .toThrow(ParameterValidationError);
+
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should rollback on error', async () => {
+      const request: BroadcastRequest = {
+        strategyId: 'strategy-123',
+        alphaGeneratorId: 'generator-123',
+        functionName: 'supply',
+        protocol: 'AAVE',
+        parameters: {
+          asset: '0x0000000000000000000000000000000000000001',
+          amount: '1000000000000000000',
+          onBehalfOf: '0x0000000000000000000000000000000000000002',
+          referralCode: 0
+        },
+        gasEstimate: '500000'
+      };
+
+      // Contract lookups find the pool; its bundled ABI validates the parameters
+      pool.query = jest.fn().mockResolvedValue({
+        rows: [{ protocol: 'AAVE', chain_id: 31337, address: '0x0000000000000000000000000000000000000003', abi: null, is_active: true }]
+      });
+
       mockClient.query
         .mockResolvedValueOnce({ rows: [] }) // BEGIN
         .mockRejectedValueOnce(new Error('Database error')); // Insert fails
@@ -160,6 +190,30 @@ describe('TradeBroadcastService', () => {
     });
   });
 
+  describe('resolveConsumerId', () => {
+    const wallet = '0x1111111111111111111111111111111111111111';
+
+    it('should resolve a wallet address to its consumer ID', async () => {
+      pool.query = jest.fn().mockResolvedValueOnce({ rows: [{ consumer_id: 'consumer-123' }] });
+
+      await expect(service.resolveConsumerId(wallet)).resolves.toBe('consumer-123');
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('FROM alpha_consumers'), [wallet]);
+    });
+
+    it('should return null for an address no consumer has', async () => {
+      pool.query = jest.fn().mockResolvedValueOnce({ rows: [] });
+
+      await expect(service.resolveConsumerId(wallet)).resolves.toBeNull();
+    });
+
+    it('should pass consumer IDs through without a lookup', async () => {
+      pool.query = jest.fn();
+
+      await expect(service.resolveConsumerId('consumer-123')).resolves.toBe('consumer-123');
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
   describe('acceptTrade', () => {
     it('should accept a trade with modified parameters', async () => {
       const confirmationId = 'confirmation-123';
@@ -167,16 +221,19 @@ describe('TradeBroadcastService', () => {
 
       mockClient.query
         .mockResolvedValueOnce({ rows: [] }) // BEGIN
+        .mockResolvedValueOnce({ rows: [{ status: 'PENDING', alpha_consumer_id: 'consumer-1', modified_parameters: { amount: '1000' }, broadcast_revision: 1 }] }) // SELECT ... FOR UPDATE
         .mockResolvedValueOnce({ rowCount: 1 }) // UPDATE
+        .mockResolvedValueOnce({ rowCount: 1 }) // INSERT confirmation_events
         .mockResolvedValueOnce({ rows: [] }); // COMMIT
 
       const success = await service.acceptTrade(confirmationId, modifiedParams);
 
       expect(success).toBe(true);
       expect(mockClient.query).toHaveBeenCalledWith(
-        expect.stringContaining('UPDATE trade_confirmations'),
+        expect.stringContaining('UPDATE protocol_trade_confirmations SET'),
         expect.arrayContaining([confirmationId, 'ACCEPTED', JSON.stringify(modifiedParams)])
       );
+      expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
     });
 
     it('should return false if trade is not pending', async () => {
@@ -184,12 +241,17 @@ describe('TradeBroadcastService', () => {
 
       mockClient.query
         .mockResolvedValueOnce({ rows: [] }) // BEGIN
-        .mockResolvedValueOnce({ rowCount: 0 }) // UPDATE fails
+        .mockResolvedValueOnce({ rows: [{ status: 'EXECUTED', alpha_consumer_id: 'consumer-1', modified_parameters: {}, broadcast_revision: 1 }] }) // SELECT ... FOR UPDATE
         .mockResolvedValueOnce({ rows: [] }); // ROLLBACK
 
       const success = await service.acceptTrade(confirmationId);
 
       expect(success).toBe(false);
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE protocol_trade_confirmations'),
+        expect.anything()
+      );
     });
   });
 
@@ -235,16 +297,24 @@ describe('TradeBroadcastService', () => {
   });
 
   describe('cleanupExpired', () => {
-    it('should cleanup expired broadcasts', async () => {
-      pool.query = jest.fn().mockResolvedValueOnce({
-        rowCount: 5
+    it('should expire unanswered confirmations past their broadcast expiry', async () => {
+      const stale = [
+        { id: 'tc-1', trade_broadcast_id: 'tb-1', alpha_consumer_id: 'consumer-1', correlation_id: 'TB-1' },
+        { id: 'tc-2', trade_broadcast_id: 'tb-1', alpha_consumer_id: 'consumer-2', correlation_id: 'TB-1' }
+      ];
+
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('SKIP LOCKED')) return { rows: stale };
+        if (sql.includes('FOR UPDATE')) return { rows: [{ status: 'PENDING', broadcast_revision: 1 }] };
+        return { rows: [], rowCount: 1 };
       });
 
       const count = await service.cleanupExpired();
 
-      expect(count).toBe(5);
-      expect(pool.query).toHaveBeenCalledWith(
-        expect.stringContaining('UPDATE trade_confirmations')
+      expect(count).toBe(2);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO confirmation_events'),
+        expect.arrayContaining(['tc-1', 'PENDING', 'EXPIRED', 'system'])
       );
     });
   });
@@ -0,0 +1,73 @@
+/**
+ * Bundle Broadcast Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import {
+  describeBundle,
+  getLegParameters,
+  mergeLegModifications,
+  toBundleParameters,
+  toLegFieldErrors,
+  validateBundleRequest
+} from '../bundle';
+import { BroadcastValidationError } from '../types';
+
+describe('Bundle broadcasts', () => {
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const wallet = '0x1111111111111111111111111111111111111111';
+
+  const supply = { asset: usdc, amount: '1000', onBehalfOf: wallet, referralCode: 0 };
+  const borrow = { asset: usdc, amount: '400', interestRateMode: 2, referralCode: 0, onBehalfOf: wallet };
+
+  describe('validateBundleRequest', () => {
+    it('should accept 2-3 named legs and a known mode', () => {
+      const legs = [
+        { functionName: 'supply', parameters: supply },
+        { functionName: 'borrow', parameters: borrow }
+      ];
+
+      expect(validateBundleRequest(legs)).toEqual([]);
+      expect(validateBundleRequest(legs, 'atomic')).toEqual([]);
+    });
+
+    it('should reject leg counts, malformed legs and unknown modes', () => {
+      expect(validateBundleRequest([{ functionName: 'supply', parameters: supply }]))
+        .toEqual(['legs must be an array of 2 to 3 functions']);
+      expect(validateBundleRequest([{ functionName: 'supply', parameters: supply }, { parameters: [] }], 'parallel')).toEqual([
+        'legs[1].functionName is required',
+        'legs[1].parameters must be an object',
+        'mode must be one of sequential, atomic'
+      ]);
+    });
+  });
+
+  it('should store legs in order under one function name and parameter set', () => {
+    const legs = [{ functionName: 'supply', parameters: supply }, { functionName: 'borrow', parameters: borrow }];
+
+    expect(describeBundle(legs)).toBe('supply+borrow');
+    expect(toBundleParameters(legs)).toEqual({ legs: [supply, borrow] });
+  });
+
+  describe('getLegParameters', () => {
+    it('should require one parameter set per leg', () => {
+      expect(getLegParameters({ legs: [supply, borrow] }, 2)).toEqual([supply, borrow]);
+      expect(() => getLegParameters({ legs: [supply] }, 2)).toThrow('Invalid bundle parameters');
+      expect(() => getLegParameters(supply, 2)).toThrow('Invalid bundle parameters');
+      expect(() => getLegParameters(supply, 2)).toThrow(BroadcastValidationError);
+    });
+  });
+
+  describe('mergeLegModifications', () => {
+    it('should keep legs the consumer left null', () => {
+      const smallerBorrow = { ...borrow, amount: '200' };
+
+      expect(mergeLegModifications([supply, borrow], { legs: [null, smallerBorrow] })).toEqual([supply, smallerBorrow]);
+    });
+  });
+
+  it('should point field errors at their leg', () => {
+    expect(toLegFieldErrors(1, [{ field: 'amount', code: 'INVALID_TYPE', message: 'amount must be a uint256' }]))
+      .toEqual([{ field: 'legs[1].amount', code: 'INVALID_TYPE', message: 'amount must be a uint256' }]);
+  });
+});
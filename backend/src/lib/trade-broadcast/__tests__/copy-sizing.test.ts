@@ -0,0 +1,141 @@
+/**
+ * Copy Sizing Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { ethers } from 'ethers';
+import { applySizingRule, BALANCE_READ_TIMEOUT_MS, createBalanceReader, validateSizingRule } from '../copy-sizing';
+import '../../protocol-adapters';
+
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  return {
+    ...actual,
+    ethers: {
+      ...actual.ethers,
+      JsonRpcProvider: jest.fn()
+    }
+  };
+});
+
+describe('Copy sizing', () => {
+  const consumer = '0x1111111111111111111111111111111111111111';
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+
+  const supply = { asset: usdc, amount: '500000000', onBehalfOf: consumer, referralCode: 0 };
+  const swap = {
+    tokenIn: usdc,
+    tokenOut: dai,
+    fee: 500,
+    recipient: consumer,
+    deadline: 0,
+    amountIn: '1000',
+    amountOutMinimum: '990',
+    sqrtPriceLimitX96: 0
+  };
+
+  const noBalance = jest.fn().mockRejectedValue(new Error('not called'));
+
+  describe('validateSizingRule', () => {
+    it('should accept each mode with its required field', () => {
+      expect(validateSizingRule({ mode: 'fixed', amount: '100' })).toEqual([]);
+      expect(validateSizingRule({ mode: 'percent_of_trade', percent: 12.5, maxAmount: '1000' })).toEqual([]);
+      expect(validateSizingRule({ mode: 'percent_of_balance', percent: 100 })).toEqual([]);
+    });
+
+    it('should accept two-decimal percents that are inexact in floating point', () => {
+      expect(validateSizingRule({ mode: 'percent_of_trade', percent: 1.1 })).toEqual([]);
+      expect(validateSizingRule({ mode: 'percent_of_balance', percent: 4.35 })).toEqual([]);
+    });
+
+    it('should reject unknown modes and out-of-range values', () => {
+      expect(validateSizingRule({ mode: 'all_in' })[0]).toContain('mode must be one of');
+      expect(validateSizingRule({ mode: 'fixed', amount: '0' })).toHaveLength(1);
+      expect(validateSizingRule({ mode: 'percent_of_balance', percent: 150 })).toHaveLength(1);
+      expect(validateSizingRule({ mode: 'percent_of_trade', percent: 0.001 })).toHaveLength(1);
+      expect(validateSizingRule({ mode: 'fixed', amount: '1', maxAmount: 5 })).toEqual(['maxAmount must be an integer string']);
+    });
+  });
+
+  describe('applySizingRule', () => {
+    it('should set a fixed size', async () => {
+      const { parameters, result } = await applySizingRule('AAVE', 'supply', supply, { mode: 'fixed', amount: '1000000' }, consumer, noBalance);
+
+      expect(parameters).toEqual({ ...supply, amount: '1000000' });
+      expect(result).toEqual({ applied: true, sizeParam: 'amount', originalAmount: '500000000', amount: '1000000', capped: false });
+      expect(noBalance).not.toHaveBeenCalled();
+    });
+
+    it('should scale a percentage of the trade and its slippage bound, then cap', async () => {
+      const scaled = await applySizingRule('UNISWAP', 'exactInputSingle', swap, { mode: 'percent_of_trade', percent: 25 }, consumer, noBalance);
+
+      expect(scaled.parameters).toMatchObject({ amountIn: '250', amountOutMinimum: '247' });
+
+      const capped = await applySizingRule(
+        'UNISWAP', 'exactInputSingle', swap, { mode: 'percent_of_trade', percent: 200, maxAmount: '1500' }, consumer, noBalance
+      );
+
+      expect(capped.parameters).toMatchObject({ amountIn: '1500', amountOutMinimum: '1485' });
+      expect(capped.result.capped).toBe(true);
+    });
+
+    it('should round maximum-input bounds up', async () => {
+      const exactOut = { ...swap, amountIn: undefined, amountOutMinimum: undefined, amountOut: '3', amountInMaximum: '10' };
+      const { parameters } = await applySizingRule('UNISWAP', 'exactOutputSingle', exactOut, { mode: 'fixed', amount: '2' }, consumer, noBalance);
+
+      expect(parameters).toMatchObject({ amountOut: '2', amountInMaximum: '7' });
+    });
+
+    it('should size a percentage of the balance of the token the call spends', async () => {
+      const readBalance = jest.fn().mockResolvedValue(BigInt(2000000));
+
+      const { parameters, result } = await applySizingRule(
+        'AAVE', 'supply', supply, { mode: 'percent_of_balance', percent: 10 }, consumer, readBalance
+      );
+
+      expect(readBalance).toHaveBeenCalledWith(usdc, consumer);
+      expect(parameters.amount).toBe('200000');
+      expect(result.balance).toBe('2000000');
+    });
+
+    it('should keep the capped generator size when the balance cannot be read', async () => {
+      const readBalance = jest.fn().mockRejectedValue(new Error('RPC down'));
+
+      const { parameters, result } = await applySizingRule(
+        'AAVE', 'supply', supply, { mode: 'percent_of_balance', percent: 10, maxAmount: '1000' }, consumer, readBalance
+      );
+
+      expect(parameters.amount).toBe('1000');
+      expect(result).toMatchObject({ applied: false, capped: true, reason: 'Balance lookup failed: RPC down' });
+    });
+
+    it('should not size balances for calls that spend nothing', async () => {
+      const withdraw = { asset: usdc, amount: '500', to: consumer };
+      const { parameters, result } = await applySizingRule(
+        'AAVE', 'withdraw', withdraw, { mode: 'percent_of_balance', percent: 50 }, consumer, noBalance
+      );
+
+      expect(parameters).toEqual(withdraw);
+      expect(result.reason).toBe("withdraw does not spend from the consumer's balance");
+    });
+  });
+
+  describe('createBalanceReader', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should give up on a balance read that does not return in time', async () => {
+      jest.useFakeTimers();
+      (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation(() => ({
+        call: () => new Promise(() => {})
+      }));
+
+      const read = createBalanceReader('localhost')(usdc, consumer);
+      jest.advanceTimersByTime(BALANCE_READ_TIMEOUT_MS);
+
+      await expect(read).rejects.toThrow(`Timed out after ${BALANCE_READ_TIMEOUT_MS}ms`);
+    });
+  });
+});
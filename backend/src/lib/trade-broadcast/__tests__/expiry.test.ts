@@ -0,0 +1,28 @@
+/**
+ * Broadcast Expiry Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { DEFAULT_EXPIRY_MINUTES, MAX_EXPIRY_MINUTES, isValidExpiryMinutes, resolveExpiryMinutes } from '../expiry';
+
+describe('Broadcast expiry', () => {
+  it('should accept whole minutes up to one day', () => {
+    expect(isValidExpiryMinutes(1)).toBe(true);
+    expect(isValidExpiryMinutes(MAX_EXPIRY_MINUTES)).toBe(true);
+    expect(isValidExpiryMinutes(0)).toBe(false);
+    expect(isValidExpiryMinutes(2.5)).toBe(false);
+    expect(isValidExpiryMinutes('5')).toBe(false);
+    expect(isValidExpiryMinutes(MAX_EXPIRY_MINUTES + 1)).toBe(false);
+  });
+
+  it('should prefer the request, then the strategy, then the default', () => {
+    expect(resolveExpiryMinutes(10, 30)).toBe(10);
+    expect(resolveExpiryMinutes(undefined, 30)).toBe(30);
+    expect(resolveExpiryMinutes(null, null)).toBe(DEFAULT_EXPIRY_MINUTES);
+    expect(DEFAULT_EXPIRY_MINUTES).toBe(5);
+  });
+
+  it('should reject windows outside the allowed range', () => {
+    expect(() => resolveExpiryMinutes(5000)).toThrow(`Invalid expiryMinutes: must be an integer from 1 to ${MAX_EXPIRY_MINUTES}`);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Confirmation State Machine Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { Pool } from 'pg';
+import { canTransition, diffParameters, getConfirmationStateMachine, SQL_NOW } from '../state-machine';
+
+jest.mock('pg');
+
+describe('Confirmation state machine', () => {
+  describe('canTransition', () => {
+    it('should follow the transition table', () => {
+      expect(canTransition('PENDING', 'ACCEPTED')).toBe(true);
+      expect(canTransition('ACCEPTED', 'EXECUTING')).toBe(true);
+      expect(canTransition('EXECUTING', 'EXECUTED')).toBe(true);
+      expect(canTransition('ACCEPTED', 'PENDING')).toBe(true); // Amended broadcast
+
+      expect(canTransition('ACCEPTED', 'REJECTED')).toBe(false);
+      expect(canTransition('PENDING', 'EXECUTING')).toBe(false);
+      expect(canTransition('EXECUTING', 'CANCELLED')).toBe(false);
+      expect(canTransition('EXPIRED', 'ACCEPTED')).toBe(false);
+    });
+  });
+
+  describe('diffParameters', () => {
+    it('should report changed, added and removed paths', () => {
+      expect(diffParameters(
+        { amountIn: '100', path: ['0xa', '0xb'], legs: [{ amount: '1' }, { amount: '2' }] },
+        { amountIn: '50', path: ['0xa', '0xb'], legs: [{ amount: '1' }, { amount: '3' }], deadline: 60 }
+      )).toEqual({
+        amountIn: { from: '100', to: '50' },
+        'legs[1].amount': { from: '2', to: '3' },
+        deadline: { from: null, to: 60 }
+      });
+
+      expect(diffParameters({ amount: '1' }, { amount: '1' })).toEqual({});
+    });
+  });
+
+  describe('transition', () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+    let pool: jest.Mocked<Pool>;
+
+    const currentRow = (row: Record<string, any>) => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE') ? { rows: [row] } : { rows: [], rowCount: 1 }
+      );
+    };
+
+    beforeEach(() => {
+      client = { query: jest.fn(), release: jest.fn() };
+      pool = new Pool() as jest.Mocked<Pool>;
+      (pool.connect as jest.Mock).mockResolvedValue(client);
+    });
+
+    it('should update the status and record who moved it, with the parameter diff', async () => {
+      currentRow({ status: 'PENDING', alpha_consumer_id: 'consumer-1', modified_parameters: { amount: '10' }, broadcast_revision: 2 });
+
+      const transition = await getConfirmationStateMachine(pool).transition('tc-1', 'ACCEPTED', {
+        actor: { type: 'consumer' },
+        parameters: { amount: '5' },
+        set: { decided_at: SQL_NOW }
+      });
+
+      expect(transition).toEqual({ confirmationId: 'tc-1', alphaConsumerId: 'consumer-1', from: 'PENDING', to: 'ACCEPTED' });
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('decided_at = CURRENT_TIMESTAMP, status = $2, modified_parameters = $3'),
+        ['tc-1', 'ACCEPTED', JSON.stringify({ amount: '5' })]
+      );
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO confirmation_events'),
+        ['tc-1', 'PENDING', 'ACCEPTED', 'consumer', 'consumer-1', null, JSON.stringify({ amount: { from: '10', to: '5' } }), 2]
+      );
+      expect(client.query).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should change nothing for a move the table does not allow or a stale revision', async () => {
+      const machine = getConfirmationStateMachine(pool);
+
+      currentRow({ status: 'REJECTED', alpha_consumer_id: 'consumer-1', broadcast_revision: 1 });
+      await expect(machine.transition('tc-1', 'ACCEPTED', { actor: { type: 'consumer' } })).resolves.toBeNull();
+
+      currentRow({ status: 'ACCEPTED', alpha_consumer_id: 'consumer-1', broadcast_revision: 2 });
+      await expect(machine.transition('tc-1', 'EXECUTING', { actor: { type: 'consumer' }, revision: 1 })).resolves.toBeNull();
+
+      expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE protocol_trade_confirmations SET'), expect.anything());
+      expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT'), expect.anything());
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Auto-Trade Policies
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Decide which copied trades a subscription accepts (and executes) without the consumer
+ */
+
+import { createHmac } from 'crypto';
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import { request } from 'https';
+import { BlockList, isIP } from 'net';
+import { ProtocolType } from '../protocol-contracts/registry';
+import { getProtocolAdapter } from '../protocol-adapters/registry';
+
+// Only keys a consumer delegated themselves; a key shared by every consumer is not offered
+export type AutoSigner = 'delegated';
+
+export const AUTO_SIGNERS: AutoSigner[] = ['delegated'];
+export const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface AutoPolicy {
+  autoAccept: boolean;
+  functions?: string[]; // Functions to accept; omitted accepts any
+  assets?: string[]; // Every token the trade touches must be listed; omitted accepts any
+  minAmount?: string; // Bounds on the amount the trade moves, in that token's base units
+  maxAmount?: string;
+  autoExecute?: boolean; // Also execute accepted trades with `signer`
+  signer?: AutoSigner; // 'delegated' uses the key registered for the consumer's wallet
+  webhookUrl?: string; // https URL on a public host; receives a signed POST for every trade handled on the consumer's behalf
+}
+
+export type AutoAction = 'skipped' | 'accepted' | 'executed' | 'failed';
+
+export interface AutoResult {
+  action: AutoAction;
+  reason?: string; // Why the trade was skipped, or why acceptance/execution failed
+  transactionHash?: string;
+  processedAt: string;
+  webhookStatus?: number | string; // HTTP status, or the delivery error
+}
+
+export interface AutoTradeNotice {
+  event: 'auto-trade';
+  confirmationId: string;
+  broadcastId: string;
+  correlationId: string;
+  consumerId: string;
+  protocol: ProtocolType;
+  functionName: string;
+  parameters: Record<string, any>;
+  action: AutoAction;
+  reason?: string;
+  transactionHash?: string;
+  processedAt: string;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const AMOUNT_PATTERN = /^\d+$/;
+
+/**
+ * Check an auto-trade policy's shape; returns the problems found
+ */
+export function validateAutoPolicy(policy: any): string[] {
+  if (!policy || typeof policy !== 'object') {
+    return ['Auto policy must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof policy.autoAccept !== 'boolean') {
+    errors.push('autoAccept must be a boolean');
+  }
+
+  if (policy.functions !== undefined && !(Array.isArray(policy.functions) && policy.functions.every((fn: any) => typeof fn === 'string'))) {
+    errors.push('functions must be an array of function names');
+  }
+
+  if (policy.assets !== undefined && !(Array.isArray(policy.assets) && policy.assets.every((asset: any) => ADDRESS_PATTERN.test(asset)))) {
+    errors.push('assets must be an array of token addresses');
+  }
+
+  for (const field of ['minAmount', 'maxAmount']) {
+    if (policy[field] !== undefined && !(typeof policy[field] === 'string' && AMOUNT_PATTERN.test(policy[field]))) {
+      errors.push(`${field} must be an integer string`);
+    }
+  }
+
+  if (errors.length === 0 && policy.minAmount !== undefined && policy.maxAmount !== undefined &&
+      BigInt(policy.minAmount) > BigInt(policy.maxAmount)) {
+    errors.push('minAmount must not exceed maxAmount');
+  }
+
+  if (policy.autoExecute !== undefined && typeof policy.autoExecute !== 'boolean') {
+    errors.push('autoExecute must be a boolean');
+  }
+
+  if (policy.autoExecute && !policy.autoAccept) {
+    errors.push('autoExecute requires autoAccept');
+  }
+
+  if (policy.autoExecute && !AUTO_SIGNERS.includes(policy.signer)) {
+    errors.push(`signer must be one of ${AUTO_SIGNERS.join(', ')} when autoExecute is set`);
+  }
+
+  if (policy.webhookUrl !== undefined) {
+    const problem = checkWebhookUrl(policy.webhookUrl);
+    if (problem) {
+      errors.push(problem);
+    }
+  }
+
+  return errors;
+}
+
+// Loopback, private, link-local, shared (CGNAT), multicast and reserved ranges; BlockList also
+// checks IPv4-mapped IPv6 addresses against the IPv4 rules
+const NON_PUBLIC_ADDRESSES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable; anything that is not an IP address is not
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check a webhook URL before anything is sent to it; returns the problem, or null
+ *
+ * Host names are checked again when the webhook is delivered, against the addresses they resolve to.
+ */
+function checkWebhookUrl(value: any): string | null {
+  let url: URL;
+
+  try {
+    url = new URL(value);
+  } catch {
+    return 'webhookUrl must be an https URL';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'webhookUrl must be an https URL';
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) !== 0 && !isPublicAddress(host))) {
+    return 'webhookUrl must point to a public host';
+  }
+
+  return null;
+}
+
+/**
+ * dns.lookup that fails for hosts resolving to any non-public address, so the connection
+ * is made to the address that was checked
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Webhook host ${hostname} resolves to non-public address ${blocked?.address ?? '(none)'}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * Check a trade against a policy; the reason names the first condition it fails
+ */
+export function matchAutoPolicy(
+  policy: AutoPolicy,
+  protocol: ProtocolType,
+  functionName: string,
+  params: Record<string, any>
+): { matched: boolean; reason?: string } {
+  if (!policy.autoAccept) {
+    return { matched: false, reason: 'autoAccept is off' };
+  }
+
+  if (policy.functions && !policy.functions.includes(functionName)) {
+    return { matched: false, reason: `${functionName} is not in the policy's functions` };
+  }
+
+  const exposure = getProtocolAdapter(protocol).getExposure?.(functionName, params);
+
+  if (policy.assets) {
+    if (!exposure) {
+      return { matched: false, reason: `Assets of ${protocol} ${functionName} are unknown` };
+    }
+
+    const allowed = policy.assets.map(asset => asset.toLowerCase());
+    const other = exposure.assets.find(asset => !allowed.includes(asset.toLowerCase()));
+
+    if (other) {
+      return { matched: false, reason: `Asset ${other} is not in the policy's assets` };
+    }
+  }
+
+  if (policy.minAmount !== undefined || policy.maxAmount !== undefined) {
+    if (!exposure?.notional) {
+      return { matched: false, reason: `Size of ${protocol} ${functionName} is unknown` };
+    }
+
+    const amount = exposure.notional.amount;
+
+    if (policy.minAmount !== undefined && amount < BigInt(policy.minAmount)) {
+      return { matched: false, reason: `Amount ${amount} is below the policy's minimum of ${policy.minAmount}` };
+    }
+
+    if (policy.maxAmount !== undefined && amount > BigInt(policy.maxAmount)) {
+      return { matched: false, reason: `Amount ${amount} is above the policy's maximum of ${policy.maxAmount}` };
+    }
+  }
+
+  return { matched: true };
+}
+
+/**
+ * Get the private key auto-execution signs with; undefined when none is configured
+ *
+ * Delegated keys come from AUTO_EXECUTE_DELEGATE_KEYS, a JSON map of consumer wallet to the
+ * session key that wallet delegated to.
+ */
+export function getAutoSignerKey(signer: AutoSigner, walletAddress: string): string | undefined {
+  // Policies saved while a shared server signer was offered may still name it
+  if (signer !== 'delegated') {
+    return undefined;
+  }
+
+  const keys: Record<string, string> = JSON.parse(process.env.AUTO_EXECUTE_DELEGATE_KEYS || '{}');
+  const entry = Object.entries(keys).find(([wallet]) => wallet.toLowerCase() === walletAddress.toLowerCase());
+
+  return entry?.[1];
+}
+
+/**
+ * Sign a webhook body with AUTO_TRADE_WEBHOOK_SECRET; null when no secret is set
+ */
+export function signWebhookBody(body: string): string | null {
+  const secret = process.env.AUTO_TRADE_WEBHOOK_SECRET;
+  return secret ? `sha256=${createHmac('sha256', secret).update(body).digest('hex')}` : null;
+}
+
+/**
+ * POST a notice to a consumer's webhook; returns the HTTP status or the delivery error
+ *
+ * Only https URLs on public hosts are delivered to, so a policy cannot aim the server at its own network.
+ */
+export async function postAutoTradeWebhook(url: string, notice: AutoTradeNotice): Promise<number | string> {
+  const problem = checkWebhookUrl(url);
+  if (problem) {
+    return problem;
+  }
+
+  const body = JSON.stringify(notice);
+  const signature = signWebhookBody(body);
+
+  return new Promise(resolve => {
+    const req = request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        ...(signature ? { 'X-Webhook-Signature': signature } : {})
+      },
+      lookup: publicLookup as any,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 'Webhook delivery failed');
+    });
+
+    req.on('error', (error: any) => resolve(error.message || 'Webhook delivery failed'));
+    req.end(body);
+  });
+}
@@ -4,29 +4,171 @@
  * Purpose: Core broadcasting logic for trade propagation
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import {
   TradeBroadcast,
   BroadcastRequest,
   BroadcastResponse,
   BroadcastStatistics,
-  SubscriberNotification
+  BroadcastSubscriber,
+  BroadcastAmendment,
+  BroadcastCancellation,
+  BroadcastRecipient,
+  BundleBroadcastRequest,
+  ExpiredConfirmation,
+  ConfirmationActor,
+  SubscriberNotification,
+  TradeStatus
 } from './types';
-import { getProtocolRegistry } from '../protocol-contracts/registry';
+import { applySizingRule, createBalanceReader, SizingResult, SizingRule } from './copy-sizing';
+import { resolveExpiryMinutes } from './expiry';
+import { BundleLeg, describeBundle, getLegParameters, toBundleParameters, toLegFieldErrors } from './bundle';
+import { getProtocolRegistry, ParameterValidationError, ProtocolType } from '../protocol-contracts/registry';
+import { getDefaultNetwork, resolveNetwork } from '../protocol-contracts/networks';
+import { ConfirmationStateMachine, SQL_NOW } from './state-machine';
+import { getPriceDriftService, MarketSnapshot } from '../price-drift';
+import { generatorTopic, publishEvent, strategyTopic } from '../event-bus';
+import { AutoPolicy } from './auto-policy';
+
+// A subscriber's copy of a broadcast, sized before its confirmation is created
+interface SizedTrade {
+  subscriber: BroadcastSubscriber;
+  parameters: Record<string, any>;
+  sizingRule: SizingRule | null;
+  sizingResult: SizingResult | null;
+  autoPolicy: AutoPolicy | null;
+}
 
 export class TradeBroadcaster {
   private pool: Pool;
-  private sseClients: Map<string, any> = new Map(); // SSE client connections
+  private stateMachine: ConfirmationStateMachine;
 
   constructor(pool: Pool) {
     this.pool = pool;
+    this.stateMachine = new ConfirmationStateMachine(pool);
   }
 
   /**
    * Broadcast a trade to all active subscribers
    */
   async broadcastTrade(request: BroadcastRequest): Promise<BroadcastResponse> {
+    // Store the canonical network name; unknown networks are rejected here
+    const network = resolveNetwork(request.network || getDefaultNetwork());
+    const expiryMinutes = resolveExpiryMinutes(request.expiryMinutes);
+
+    // Reject malformed parameters before anything is fanned out to subscribers
+    await this.assertValidParameters(request.protocol, request.functionName, request.parameters, network.chainId);
+
+    // Get contract address from registry
+    const contract = await getProtocolRegistry(this.pool).getContractForFunction(
+      request.protocol,
+      request.functionName,
+      network.chainId
+    );
+
+    if (!contract) {
+      throw new Error(`Contract not found for ${request.protocol}`);
+    }
+
+    return this.publishBroadcast({
+      strategyId: request.strategyId,
+      alphaGeneratorId: request.alphaGeneratorId,
+      functionName: request.functionName,
+      protocol: request.protocol,
+      parameters: request.parameters,
+      contractAddress: contract.address,
+      gasEstimate: request.gasEstimate,
+      network: network.name
+    }, network.chainId, expiryMinutes);
+  }
+
+  /**
+   * Broadcast a strategy's ordered legs as one bundle; each subscriber gets one confirmation for all of them
+   */
+  async broadcastBundle(request: BundleBroadcastRequest): Promise<BroadcastResponse> {
+    const network = resolveNetwork(request.network || getDefaultNetwork());
+    const expiryMinutes = resolveExpiryMinutes(request.expiryMinutes);
+    const registry = getProtocolRegistry(this.pool);
+    const legs: BundleLeg[] = [];
+
+    for (const [index, leg] of request.legs.entries()) {
+      await this.assertValidParameters(request.protocol, leg.functionName, leg.parameters, network.chainId, index);
+
+      const contract = await registry.getContractForFunction(request.protocol, leg.functionName, network.chainId);
+
+      if (!contract) {
+        throw new Error(`Contract not found for ${request.protocol} ${leg.functionName}`);
+      }
+
+      legs.push({
+        functionName: leg.functionName,
+        parameters: leg.parameters,
+        contractAddress: contract.address,
+        gasEstimate: leg.gasEstimate || '0'
+      });
+    }
+
+    return this.publishBroadcast({
+      strategyId: request.strategyId,
+      alphaGeneratorId: request.alphaGeneratorId,
+      functionName: describeBundle(legs),
+      protocol: request.protocol,
+      parameters: toBundleParameters(legs),
+      contractAddress: legs[0].contractAddress,
+      gasEstimate: legs.reduce((sum, leg) => sum + BigInt(leg.gasEstimate), BigInt(0)).toString(),
+      network: network.name,
+      legs,
+      executionMode: request.mode || 'sequential'
+    }, network.chainId, expiryMinutes);
+  }
+
+  /**
+   * Throw ParameterValidationError unless the parameters fit the function; bundle legs name their leg
+   */
+  private async assertValidParameters(
+    protocol: ProtocolType,
+    functionName: string,
+    parameters: Record<string, any>,
+    chainId: number,
+    legIndex?: number
+  ): Promise<void> {
+    const validation = await getProtocolRegistry(this.pool).validateFunctionParams(
+      protocol,
+      functionName,
+      parameters,
+      { network: chainId }
+    );
+
+    if (validation.valid) {
+      return;
+    }
+
+    if (legIndex === undefined) {
+      throw new ParameterValidationError(`Invalid parameters for ${protocol} ${functionName}`, validation.errors);
+    }
+
+    throw new ParameterValidationError(
+      `Invalid parameters for leg ${legIndex + 1} (${protocol} ${functionName})`,
+      toLegFieldErrors(legIndex, validation.errors)
+    );
+  }
+
+  /**
+   * Store a broadcast and fan it out to subscribers in one transaction
+   */
+  private async publishBroadcast(
+    draft: Omit<TradeBroadcast, 'id' | 'correlationId' | 'broadcastAt' | 'expiresAt'>,
+    chainId: number,
+    expiryMinutes: number
+  ): Promise<BroadcastResponse> {
+    // Prices at broadcast time, read again before each consumer executes
+    const marketSnapshot = await this.captureMarketSnapshot(draft);
+
+    // Get active subscribers that can execute on this chain, and size their trades before the
+    // transaction opens so balance reads hold no locks
+    const subscribers = await this.getActiveSubscribers(draft.alphaGeneratorId, draft.strategyId, chainId, this.pool);
+    const sizedTrades = await this.sizeTrades(draft, subscribers);
     const client = await this.pool.connect();
 
     try {
@@ -36,44 +178,35 @@ export class TradeBroadcaster {
       const correlationId = this.generateCorrelationId();
       const broadcastId = uuidv4();
       const now = new Date();
-      const expiresAt = new Date(now.getTime() + (request.expiryMinutes || 5000) * 60000);
-
-      // Get contract address from registry
-      const registry = getProtocolRegistry(this.pool);
-      const contractName = request.protocol === 'AAVE' ? 'Pool' : 'SwapRouter';
-      const contract = await registry.getContract(
-        request.protocol,
-        contractName,
-        request.network as any || 'localhost'
-      );
-
-      if (!contract) {
-        throw new Error(`Contract not found for ${request.protocol}`);
-      }
+      const expiresAt = new Date(now.getTime() + expiryMinutes * 60000);
 
       // Insert trade broadcast
       const insertQuery = `
         INSERT INTO trade_broadcasts (
           id, strategy_id, alpha_generator_id, function_name,
           protocol, parameters, contract_address, gas_estimate,
-          network, correlation_id, broadcast_at, expires_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          network, correlation_id, broadcast_at, expires_at,
+          legs, execution_mode, market_snapshot
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
         RETURNING *
       `;
 
       const result = await client.query(insertQuery, [
         broadcastId,
-        request.strategyId,
-        request.alphaGeneratorId,
-        request.functionName,
-        request.protocol,
-        JSON.stringify(request.parameters),
-        contract.address,
-        request.gasEstimate,
-        request.network || 'localhost',
+        draft.strategyId,
+        draft.alphaGeneratorId,
+        draft.functionName,
+        draft.protocol,
+        JSON.stringify(draft.parameters),
+        draft.contractAddress,
+        draft.gasEstimate,
+        draft.network,
         correlationId,
         now,
-        expiresAt
+        expiresAt,
+        draft.legs ? JSON.stringify(draft.legs) : null,
+        draft.executionMode || null,
+        marketSnapshot ? JSON.stringify(marketSnapshot) : null
       ]);
 
       const tradeBroadcast: TradeBroadcast = {
@@ -88,24 +221,30 @@ export class TradeBroadcaster {
         network: result.rows[0].network,
         correlationId: result.rows[0].correlation_id,
         broadcastAt: result.rows[0].broadcast_at,
-        expiresAt: result.rows[0].expires_at
+        expiresAt: result.rows[0].expires_at,
+        legs: result.rows[0].legs,
+        executionMode: result.rows[0].execution_mode,
+        revision: result.rows[0].revision,
+        marketSnapshot: result.rows[0].market_snapshot
       };
 
-      // Get active subscribers
-      const subscribers = await this.getActiveSubscribers(request.alphaGeneratorId, client);
-
       // Create trade confirmations for each subscriber
       const recipientCount = await this.createTradeConfirmations(
         tradeBroadcast,
-        subscribers,
+        sizedTrades,
         client
       );
 
-      // Send SSE notifications
-      await this.sendSSENotifications(tradeBroadcast, subscribers);
-
       await client.query('COMMIT');
 
+      // Notify only once the confirmations are visible to every instance; subscribers who miss
+      // the event still find the trade in their pending trades
+      try {
+        await this.sendSSENotifications(tradeBroadcast, subscribers);
+      } catch (error: any) {
+        console.error(`Failed to notify subscribers of broadcast ${broadcastId}:`, error.message);
+      }
+
       return {
         broadcastId,
         correlationId,
@@ -123,15 +262,42 @@ export class TradeBroadcaster {
   }
 
   /**
-   * Get active subscribers for an AlphaGenerator
+   * Snapshot the prices a broadcast's calls depend on; a failed read never stops the broadcast
+   */
+  private async captureMarketSnapshot(
+    draft: Pick<TradeBroadcast, 'protocol' | 'functionName' | 'parameters' | 'legs' | 'network'>
+  ): Promise<MarketSnapshot | null> {
+    const calls = draft.legs
+      ? draft.legs.map(leg => ({ protocol: draft.protocol, functionName: leg.functionName, parameters: leg.parameters }))
+      : [{ protocol: draft.protocol, functionName: draft.functionName, parameters: draft.parameters }];
+
+    try {
+      return await getPriceDriftService(this.pool).captureSnapshot(calls, draft.network);
+    } catch (error: any) {
+      console.warn('Market snapshot failed:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Get active subscribers for an AlphaGenerator's strategy: generator-wide subscriptions plus those
+   * scoped to this strategy. Consumers pinned to another chain are skipped, and a consumer holding
+   * both kinds gets one confirmation, under the strategy-scoped subscription's sizing and policy.
+   * A draft with no generator has no subscribers.
    */
   private async getActiveSubscribers(
-    alphaGeneratorId: string,
-    client: any
-  ): Promise<Array<{ id: string; consumerId: string; consumerName: string }>> {
+    alphaGeneratorId: string | null | undefined,
+    strategyId: string,
+    chainId: number,
+    db: Pick<Pool, 'query'>
+  ): Promise<BroadcastSubscriber[]> {
+    if (!alphaGeneratorId) {
+      return [];
+    }
+
     // Get generator address from ID
     const generatorQuery = `SELECT generator_address FROM alpha_generators WHERE generator_id = $1`;
-    const genResult = await client.query(generatorQuery, [alphaGeneratorId]);
+    const genResult = await db.query(generatorQuery, [alphaGeneratorId]);
 
     if (!genResult.rows[0]) {
       return [];
@@ -140,76 +306,130 @@ export class TradeBroadcaster {
     const generatorAddress = genResult.rows[0].generator_address;
 
     const query = `
-      SELECT
+      SELECT DISTINCT ON (ac.consumer_id)
         s.subscription_id as id,
+        s.sizing_rule,
+        s.auto_policy,
         ac.consumer_id,
-        ac.display_name as consumer_name
+        ac.display_name as consumer_name,
+        ac.wallet_address
       FROM subscriptions s
       JOIN alpha_consumers ac ON s.alpha_consumer_address = ac.wallet_address
       WHERE s.alpha_generator_address = $1
+        AND (s.strategy_id IS NULL OR s.strategy_id = $2)
         AND s.is_active = true
         AND s.expires_at > CURRENT_TIMESTAMP
+        AND (ac.chain_id IS NULL OR ac.chain_id = $3)
+      ORDER BY ac.consumer_id, s.strategy_id IS NULL
     `;
 
-    const result = await client.query(query, [generatorAddress]);
+    const result = await db.query(query, [generatorAddress, strategyId, chainId]);
 
     return result.rows.map((row: any) => ({
       id: row.id,
       consumerId: row.consumer_id,
-      consumerName: row.consumer_name
+      consumerName: row.consumer_name,
+      walletAddress: row.wallet_address,
+      sizingRule: row.sizing_rule,
+      autoPolicy: row.auto_policy
     }));
   }
 
   /**
-   * Create trade confirmations for subscribers
+   * Size each subscriber's trade by their subscription's sizing rule; balance reads run in parallel.
+   * Bundles go out at the generator's size and always wait for the consumer: sizing rules and
+   * auto-trade policies describe a single function call, not a set of legs.
+   */
+  private async sizeTrades(
+    draft: Pick<TradeBroadcast, 'protocol' | 'functionName' | 'parameters' | 'legs' | 'network'>,
+    subscribers: BroadcastSubscriber[]
+  ): Promise<SizedTrade[]> {
+    const readBalance = createBalanceReader(draft.network);
+
+    return Promise.all(subscribers.map(async subscriber => {
+      const sizingRule = draft.legs ? null : subscriber.sizingRule ?? null;
+      const autoPolicy = draft.legs ? null : subscriber.autoPolicy ?? null;
+
+      // Generator's size unless the subscription sets a rule
+      if (!sizingRule) {
+        return { subscriber, parameters: draft.parameters, sizingRule, sizingResult: null, autoPolicy };
+      }
+
+      const { parameters, result } = await applySizingRule(
+        draft.protocol,
+        draft.functionName,
+        draft.parameters,
+        sizingRule,
+        subscriber.walletAddress,
+        readBalance
+      );
+
+      return { subscriber, parameters, sizingRule, sizingResult: result, autoPolicy };
+    }));
+  }
+
+  /**
+   * Create trade confirmations for sized subscriber trades
    */
   private async createTradeConfirmations(
     broadcast: TradeBroadcast,
-    subscribers: Array<{ id: string; consumerId: string }>,
+    sizedTrades: SizedTrade[],
     client: any
   ): Promise<number> {
-    if (subscribers.length === 0) {
+    if (sizedTrades.length === 0) {
       return 0;
     }
 
     const values: any[] = [];
     const placeholders: string[] = [];
+    const confirmationIds: string[] = [];
 
-    subscribers.forEach((subscriber, index) => {
-      const offset = index * 5;
+    for (const [index, { subscriber, parameters, sizingRule, sizingResult, autoPolicy }] of sizedTrades.entries()) {
+      const offset = index * 8;
+      const confirmationId = uuidv4();
+      confirmationIds.push(confirmationId);
       placeholders.push(
-        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`
+        `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`
       );
       values.push(
-        uuidv4(),
+        confirmationId,
         broadcast.id,
         subscriber.consumerId,
         JSON.stringify(broadcast.parameters),
-        JSON.stringify(broadcast.parameters) // Initially same as original
+        JSON.stringify(parameters),
+        sizingRule ? JSON.stringify(sizingRule) : null,
+        sizingResult ? JSON.stringify(sizingResult) : null,
+        autoPolicy ? JSON.stringify(autoPolicy) : null
       );
-    });
+    }
 
     const insertQuery = `
       INSERT INTO protocol_trade_confirmations (
         id, trade_broadcast_id, alpha_consumer_id,
-        original_parameters, modified_parameters
+        original_parameters, modified_parameters,
+        sizing_rule, sizing_result, auto_policy
       ) VALUES ${placeholders.join(', ')}
     `;
 
     await client.query(insertQuery, values);
-    return subscribers.length;
+    await this.stateMachine.recordCreated(
+      confirmationIds,
+      { type: 'generator', id: broadcast.alphaGeneratorId },
+      client
+    );
+    return sizedTrades.length;
   }
 
   /**
-   * Send SSE notifications to connected clients
+   * Publish a trade-broadcast event per subscriber for whichever instances hold their SSE connections
    */
   private async sendSSENotifications(
     broadcast: TradeBroadcast,
-    subscribers: Array<{ id: string; consumerId: string; consumerName: string }>
+    subscribers: BroadcastSubscriber[]
   ): Promise<void> {
     // Get strategy and generator details
     const strategyQuery = `
-      SELECT s.strategy_name, ag.name as generator_name
+      SELECT s.strategy_name, s.alpha_generator_address, ag.name as generator_name
       FROM strategies s
       JOIN alpha_generators ag ON s.alpha_generator_address = ag.generator_address
       WHERE s.strategy_id = $1
@@ -222,9 +442,9 @@ export class TradeBroadcaster {
       return;
     }
 
-    const { strategy_name, generator_name } = result.rows[0];
+    const { strategy_name, alpha_generator_address, generator_name } = result.rows[0];
+    const topics = [strategyTopic(broadcast.strategyId), generatorTopic(alpha_generator_address)];
 
-    // Send to each subscriber's SSE connection if they're connected
     for (const subscriber of subscribers) {
       const notification: SubscriberNotification = {
         subscriberId: subscriber.consumerId,
@@ -233,38 +453,16 @@ export class TradeBroadcaster {
         alphaGeneratorName: generator_name
       };
 
-      // If SSE client is connected, send notification
-      const client = this.sseClients.get(subscriber.consumerId);
-      if (client) {
-        this.sendSSEEvent(client, 'trade-broadcast', notification);
-      }
+      await publishEvent(
+        this.pool,
+        'trade-broadcast',
+        { type: 'consumer', id: subscriber.consumerId },
+        notification,
+        topics
+      );
     }
 
-    console.log(`Sent SSE notifications to ${subscribers.length} subscribers`);
-  }
-
-  /**
-   * Send SSE event to a client
-   */
-  private sendSSEEvent(client: any, eventType: string, data: any): void {
-    const message = `event: ${eventType}\ndata: ${JSON.stringify(data)}\n\n`;
-    client.write(message);
-  }
-
-  /**
-   * Register SSE client connection
-   */
-  registerSSEClient(consumerId: string, client: any): void {
-    this.sseClients.set(consumerId, client);
-    console.log(`SSE client registered for consumer: ${consumerId}`);
-  }
-
-  /**
-   * Unregister SSE client connection
-   */
-  unregisterSSEClient(consumerId: string): void {
-    this.sseClients.delete(consumerId);
-    console.log(`SSE client unregistered for consumer: ${consumerId}`);
+    console.log(`Published SSE notifications for ${subscribers.length} subscribers`);
   }
 
   /**
@@ -325,6 +523,8 @@ export class TradeBroadcaster {
         tb.network,
         tb.correlation_id,
         tb.expires_at,
+        tb.legs,
+        tb.execution_mode,
         s.strategy_name,
         ag.name as generator_name
       FROM protocol_trade_confirmations tc
@@ -342,46 +542,91 @@ export class TradeBroadcaster {
   }
 
   /**
-   * Update trade confirmation status
+   * Accept or reject a PENDING trade confirmation
    */
   async updateTradeStatus(
     confirmationId: string,
     status: 'ACCEPTED' | 'REJECTED',
-    modifiedParameters?: Record<string, any>
+    modifiedParameters?: Record<string, any>,
+    revision?: number, // When set, only a confirmation still at this broadcast revision is updated
+    actor: ConfirmationActor = { type: 'consumer' },
+    client?: PoolClient
   ): Promise<boolean> {
+    // Both are only legal from PENDING; ACCEPTED -> REJECTED is not in the table
+    const transition = await this.stateMachine.transition(confirmationId, status, {
+      actor,
+      parameters: status === 'ACCEPTED' ? modifiedParameters || {} : undefined,
+      revision,
+      set: { decided_at: SQL_NOW }
+    }, client);
+
+    return transition !== null;
+  }
+
+  /**
+   * Cancel a broadcast; its PENDING and ACCEPTED confirmations become CANCELLED.
+   * Confirmations already executing or executed are left alone and counted in `inFlight`.
+   */
+  async cancelBroadcast(broadcastId: string, reason?: string | null): Promise<BroadcastCancellation> {
     const client = await this.pool.connect();
 
     try {
       await client.query('BEGIN');
 
-      // Update the trade confirmation
-      const updateQuery = `
-        UPDATE protocol_trade_confirmations
-        SET
-          status = $2,
-          decided_at = CURRENT_TIMESTAMP,
-          modified_parameters = $3
-        WHERE id = $1
-          AND status = 'PENDING'
-        RETURNING *
-      `;
+      const broadcast = await this.lockBroadcast(broadcastId, client);
 
-      const result = await client.query(updateQuery, [
-        confirmationId,
-        status,
-        JSON.stringify(modifiedParameters || {})
-      ]);
+      if (broadcast.cancelled_at) {
+        throw new Error('Trade broadcast is already cancelled');
+      }
 
-      if (result.rowCount === 0) {
-        await client.query('ROLLBACK');
-        return false;
+      const updated = await client.query(
+        `UPDATE trade_broadcasts
+         SET cancelled_at = CURRENT_TIMESTAMP, cancel_reason = $2
+         WHERE id = $1
+         RETURNING cancelled_at`,
+        [broadcastId, reason || null]
+      );
+
+      const open = await client.query(
+        `SELECT id FROM protocol_trade_confirmations
+         WHERE trade_broadcast_id = $1
+           AND status IN ('PENDING', 'ACCEPTED')`,
+        [broadcastId]
+      );
+
+      const cancelled: BroadcastRecipient[] = [];
+      for (const row of open.rows) {
+        const transition = await this.stateMachine.transition(
+          row.id,
+          'CANCELLED',
+          { actor: { type: 'generator', id: broadcast.alpha_generator_id }, reason: reason || 'Broadcast cancelled' },
+          client
+        );
+
+        if (transition) {
+          cancelled.push({
+            confirmationId: transition.confirmationId,
+            alphaConsumerId: transition.alphaConsumerId,
+            previousStatus: transition.from
+          });
+        }
       }
 
+      const inFlight = await this.countInFlight(broadcastId, client);
+
       await client.query('COMMIT');
-      return true;
+
+      return {
+        broadcastId,
+        correlationId: broadcast.correlation_id,
+        reason: reason || null,
+        cancelledAt: updated.rows[0].cancelled_at,
+        cancelled,
+        inFlight
+      };
     } catch (error) {
       await client.query('ROLLBACK');
-      console.error('Update status error:', error);
+      console.error('Cancel broadcast error:', error);
       throw error;
     } finally {
       client.release();
@@ -389,21 +634,248 @@ export class TradeBroadcaster {
   }
 
   /**
-   * Clean up expired broadcasts
+   * Replace a live broadcast's parameters as a new revision. Open confirmations take the new
+   * parameters (re-sized by their sizing rule) and go back to PENDING, as any acceptance was of
+   * the old revision. For bundles, `parameters` is `{ legs: [...] }` in leg order.
    */
-  async cleanupExpiredBroadcasts(): Promise<number> {
-    const query = `
-      UPDATE protocol_trade_confirmations
-      SET status = 'REJECTED'
-      WHERE status = 'PENDING'
-        AND trade_broadcast_id IN (
-          SELECT id FROM trade_broadcasts
-          WHERE expires_at < CURRENT_TIMESTAMP
+  async amendBroadcast(broadcastId: string, parameters: Record<string, any>): Promise<BroadcastAmendment> {
+    // Validate, snapshot prices and re-size before locking, so no row stays locked across RPC calls
+    const current = await this.pool.query('SELECT * FROM trade_broadcasts WHERE id = $1', [broadcastId]);
+
+    if (current.rows.length === 0) {
+      throw new Error('Trade broadcast not found');
+    }
+
+    const broadcast = current.rows[0];
+    this.assertAmendable(broadcast);
+
+    const { chainId } = resolveNetwork(broadcast.network);
+    let legs: BundleLeg[] | null = null;
+    let amendedParameters = parameters;
+
+    if (broadcast.legs) {
+      const legParameters = getLegParameters(parameters, broadcast.legs.length);
+
+      legs = (broadcast.legs as BundleLeg[]).map((leg, index) => ({ ...leg, parameters: legParameters[index] }));
+      for (const [index, leg] of legs.entries()) {
+        await this.assertValidParameters(broadcast.protocol, leg.functionName, leg.parameters, chainId, index);
+      }
+      amendedParameters = toBundleParameters(legs);
+    } else {
+      await this.assertValidParameters(broadcast.protocol, broadcast.function_name, parameters, chainId);
+    }
+
+    // Drift is measured from the amended parameters, at the prices they were amended at
+    const marketSnapshot = await this.captureMarketSnapshot({
+      protocol: broadcast.protocol,
+      functionName: broadcast.function_name,
+      parameters: amendedParameters,
+      legs,
+      network: broadcast.network
+    });
+
+    const open = await this.pool.query(
+      `SELECT tc.id, tc.sizing_rule, ac.wallet_address
+       FROM protocol_trade_confirmations tc
+       JOIN alpha_consumers ac ON ac.consumer_id = tc.alpha_consumer_id
+       WHERE tc.trade_broadcast_id = $1
+         AND tc.status IN ('PENDING', 'ACCEPTED')`,
+      [broadcastId]
+    );
+
+    const readBalance = createBalanceReader(broadcast.network);
+    const sized = new Map<string, { parameters: Record<string, any>; result: SizingResult | null }>();
+
+    await Promise.all(open.rows.map(async (row: any) => {
+      sized.set(row.id, row.sizing_rule
+        ? await applySizingRule(
+          broadcast.protocol,
+          broadcast.function_name,
+          amendedParameters,
+          row.sizing_rule,
+          row.wallet_address,
+          readBalance
         )
-    `;
+        : { parameters: amendedParameters, result: null });
+    }));
+
+    const client = await this.pool.connect();
 
-    const result = await this.pool.query(query);
-    return result.rowCount || 0;
+    try {
+      await client.query('BEGIN');
+
+      const locked = await this.lockBroadcast(broadcastId, client);
+      this.assertAmendable(locked);
+
+      // Another amendment won the lock; ours was validated and sized against the old revision
+      if (locked.revision !== broadcast.revision) {
+        throw new Error('Cannot amend: the broadcast was amended concurrently; retry with the current revision');
+      }
+
+      const updated = await client.query(
+        `UPDATE trade_broadcasts
+         SET parameters = $2, legs = $3, market_snapshot = $4, revision = revision + 1, amended_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING revision, amended_at`,
+        [
+          broadcastId,
+          JSON.stringify(amendedParameters),
+          legs ? JSON.stringify(legs) : null,
+          marketSnapshot ? JSON.stringify(marketSnapshot) : null
+        ]
+      );
+      const { revision, amended_at: amendedAt } = updated.rows[0];
+
+      const lockedOpen = await client.query(
+        `SELECT id, alpha_consumer_id, status
+         FROM protocol_trade_confirmations
+         WHERE trade_broadcast_id = $1
+           AND status IN ('PENDING', 'ACCEPTED')
+         FOR UPDATE`,
+        [broadcastId]
+      );
+      const amended: BroadcastRecipient[] = [];
+
+      for (const row of lockedOpen.rows) {
+        // Nothing reopens a confirmation but an amendment (ruled out above), so every open one was sized
+        const { parameters: sizedParameters, result: sizingResult } = sized.get(row.id)!;
+
+        const transition = await this.stateMachine.transition(
+          row.id,
+          'PENDING',
+          {
+            actor: { type: 'generator', id: broadcast.alpha_generator_id },
+            reason: `Broadcast amended to revision ${revision}`,
+            parameters: sizedParameters,
+            set: {
+              original_parameters: JSON.stringify(amendedParameters),
+              sizing_result: sizingResult ? JSON.stringify(sizingResult) : null,
+              decided_at: null,
+              auto_result: null, // Queue the new revision for the auto-trade worker
+              auto_claimed_at: null,
+              broadcast_revision: revision
+            }
+          },
+          client
+        );
+
+        if (transition) {
+          amended.push(this.toRecipient(row, row.status));
+        }
+      }
+
+      const inFlight = await this.countInFlight(broadcastId, client);
+
+      await client.query('COMMIT');
+
+      return {
+        broadcastId,
+        correlationId: broadcast.correlation_id,
+        revision,
+        parameters: amendedParameters,
+        amendedAt,
+        amended,
+        inFlight
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Amend broadcast error:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private assertAmendable(broadcast: any): void {
+    if (broadcast.cancelled_at) {
+      throw new Error('Cannot amend a cancelled broadcast');
+    }
+
+    if (new Date(broadcast.expires_at) < new Date()) {
+      throw new Error('Cannot amend an expired broadcast');
+    }
+  }
+
+  private async lockBroadcast(broadcastId: string, client: any): Promise<any> {
+    const result = await client.query('SELECT * FROM trade_broadcasts WHERE id = $1 FOR UPDATE', [broadcastId]);
+
+    if (result.rows.length === 0) {
+      throw new Error('Trade broadcast not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async countInFlight(broadcastId: string, client: any): Promise<number> {
+    const result = await client.query(
+      `SELECT COUNT(*) FROM protocol_trade_confirmations
+       WHERE trade_broadcast_id = $1 AND status IN ('EXECUTING', 'EXECUTED')`,
+      [broadcastId]
+    );
+
+    return parseInt(result.rows[0].count) || 0;
+  }
+
+  private toRecipient(row: any, previousStatus: TradeStatus): BroadcastRecipient {
+    return {
+      confirmationId: row.id,
+      alphaConsumerId: row.alpha_consumer_id,
+      previousStatus
+    };
+  }
+
+  /**
+   * Move confirmations left PENDING past their broadcast's expiry to EXPIRED
+   */
+  async expireStaleConfirmations(): Promise<ExpiredConfirmation[]> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // SKIP LOCKED leaves confirmations being accepted right now to that request
+      const stale = await client.query(`
+        SELECT
+          tc.id, tc.trade_broadcast_id, tc.alpha_consumer_id,
+          tb.strategy_id, tb.function_name, tb.correlation_id, tb.expires_at
+        FROM protocol_trade_confirmations tc
+        JOIN trade_broadcasts tb ON tc.trade_broadcast_id = tb.id
+        WHERE tc.status = 'PENDING'
+          AND tb.expires_at < CURRENT_TIMESTAMP
+        FOR UPDATE OF tc SKIP LOCKED
+      `);
+
+      const expired: ExpiredConfirmation[] = [];
+      for (const row of stale.rows) {
+        const transition = await this.stateMachine.transition(
+          row.id,
+          'EXPIRED',
+          { actor: { type: 'system' }, reason: 'Broadcast expired before a decision' },
+          client
+        );
+
+        if (transition) {
+          expired.push({
+            confirmationId: row.id,
+            tradeBroadcastId: row.trade_broadcast_id,
+            alphaConsumerId: row.alpha_consumer_id,
+            strategyId: row.strategy_id,
+            functionName: row.function_name,
+            correlationId: row.correlation_id,
+            expiresAt: row.expires_at
+          });
+        }
+      }
+
+      await client.query('COMMIT');
+      return expired;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Expire confirmations error:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   /**
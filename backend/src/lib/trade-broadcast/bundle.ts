@@ -0,0 +1,101 @@
+/**
+ * Bundle Broadcasts
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Broadcast a strategy's ordered legs under one correlation ID, confirmed and executed as one unit
+ *
+ * A bundle is one trade_broadcasts row with `legs` set. Its confirmations keep one parameter set
+ * per leg in original/modified parameters, as `{ legs: [...] }`, in the broadcast's leg order.
+ */
+
+import { ParamFieldError } from '../protocol-contracts/registry';
+import { StrategyExecutionMode } from '../protocol-executor/types';
+import { BroadcastValidationError } from './types';
+
+export const MIN_BUNDLE_LEGS = 2;
+export const MAX_BUNDLE_LEGS = 3; // Strategies define 2-3 functions
+export const BUNDLE_EXECUTION_MODES: StrategyExecutionMode[] = ['sequential', 'atomic'];
+
+export interface BundleLegRequest {
+  functionName: string;
+  parameters: Record<string, any>;
+  gasEstimate?: string;
+}
+
+export interface BundleLeg {
+  functionName: string;
+  parameters: Record<string, any>; // Generator's parameters for this leg
+  contractAddress: string;
+  gasEstimate: string;
+}
+
+export interface BundleParameters {
+  legs: Record<string, any>[];
+}
+
+/**
+ * Check a bundle's legs and execution mode; returns one message per problem
+ */
+export function validateBundleRequest(legs: any, mode?: any): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(legs) || legs.length < MIN_BUNDLE_LEGS || legs.length > MAX_BUNDLE_LEGS) {
+    errors.push(`legs must be an array of ${MIN_BUNDLE_LEGS} to ${MAX_BUNDLE_LEGS} functions`);
+  } else {
+    legs.forEach((leg, index) => {
+      if (!leg || typeof leg.functionName !== 'string' || !leg.functionName) {
+        errors.push(`legs[${index}].functionName is required`);
+      }
+      if (!leg || typeof leg.parameters !== 'object' || leg.parameters === null || Array.isArray(leg.parameters)) {
+        errors.push(`legs[${index}].parameters must be an object`);
+      }
+    });
+  }
+
+  if (mode !== undefined && !BUNDLE_EXECUTION_MODES.includes(mode)) {
+    errors.push(`mode must be one of ${BUNDLE_EXECUTION_MODES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Name stored in trade_broadcasts.function_name for a bundle, e.g. "supply+borrow"
+ */
+export function describeBundle(legs: Array<{ functionName: string }>): string {
+  return legs.map(leg => leg.functionName).join('+');
+}
+
+export function toBundleParameters(legs: Array<{ parameters: Record<string, any> }>): BundleParameters {
+  return { legs: legs.map(leg => leg.parameters) };
+}
+
+/**
+ * Read per-leg parameters out of a bundle confirmation's parameters
+ */
+export function getLegParameters(parameters: Record<string, any> | null | undefined, legCount: number): Record<string, any>[] {
+  const legs = parameters?.legs;
+
+  if (!Array.isArray(legs) || legs.length !== legCount) {
+    throw new BroadcastValidationError(`Invalid bundle parameters: expected { legs: [...] } with ${legCount} entries`);
+  }
+
+  return legs;
+}
+
+/**
+ * Merge a consumer's per-leg modifications over the originals; a null entry keeps that leg as it was
+ */
+export function mergeLegModifications(
+  original: Record<string, any>[],
+  modified: Record<string, any> | null | undefined
+): Record<string, any>[] {
+  const legs = getLegParameters(modified, original.length);
+  return legs.map((leg, index) => leg ?? original[index]);
+}
+
+/**
+ * Point a leg's field errors at that leg, e.g. "amount" becomes "legs[1].amount"
+ */
+export function toLegFieldErrors(index: number, errors: ParamFieldError[]): ParamFieldError[] {
+  return errors.map(error => ({ ...error, field: `legs[${index}].${error.field}` }));
+}
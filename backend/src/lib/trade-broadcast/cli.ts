@@ -12,6 +12,8 @@ import { BroadcastRequest } from './types';
 import * as dotenv from 'dotenv';
 import path from 'path';
 import { ProtocolType } from '../protocol-contracts/registry';
+import { getDefaultNetwork } from '../protocol-contracts/networks';
+import { getRegisteredProtocols, parsePathSpec } from '../protocol-adapters';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') });
@@ -47,23 +49,29 @@ program
   .requiredOption('-s, --strategy <id>', 'Strategy ID')
   .requiredOption('-g, --generator <id>', 'AlphaGenerator ID')
   .requiredOption('-f, --function <name>', 'Function name')
-  .requiredOption('-p, --protocol <protocol>', 'Protocol (AAVE or UNISWAP)')
+  .requiredOption('-p, --protocol <protocol>', `Protocol (${getRegisteredProtocols().join(', ')})`)
   .option('--params <params>', 'JSON parameters', '{}')
+  .option('--path <route>', 'exactInput route as token,fee,token[,fee,token...]; encoded into params.path')
   .option('--gas <estimate>', 'Gas estimate in wei', '500000')
-  .option('-n, --network <network>', 'Network', 'localhost')
+  .option('-n, --network <network>', 'Network name or chain ID', getDefaultNetwork())
   .option('-e, --expiry <minutes>', 'Expiry time in minutes', '5')
   .action(async (options) => {
     const pool = createPool();
 
     try {
       const service = getTradeBroadcastService(pool);
+      const parameters = JSON.parse(options.params);
+
+      if (options.path) {
+        parameters.path = parsePathSpec(options.path);
+      }
 
       const request: BroadcastRequest = {
         strategyId: options.strategy,
         alphaGeneratorId: options.generator,
         functionName: options.function,
         protocol: options.protocol as ProtocolType,
-        parameters: JSON.parse(options.params),
+        parameters,
         gasEstimate: options.gas,
         network: options.network,
         expiryMinutes: parseInt(options.expiry)
@@ -172,6 +180,54 @@ program
     }
   });
 
+// Cancel broadcast command
+program
+  .command('cancel')
+  .description('Cancel a broadcast; its pending and accepted confirmations become CANCELLED')
+  .requiredOption('-b, --broadcast <id>', 'Trade broadcast ID')
+  .option('-r, --reason <reason>', 'Reason shown to consumers')
+  .action(async (options) => {
+    const pool = createPool();
+
+    try {
+      const service = getTradeBroadcastService(pool);
+      const result = await service.cancelBroadcast(options.broadcast, options.reason);
+
+      console.log(`✅ Broadcast ${result.correlationId} cancelled`);
+      console.log(`   Confirmations cancelled: ${result.cancelled.length}`);
+      console.log(`   Already executing/executed: ${result.inFlight}`);
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    } finally {
+      await pool.end();
+    }
+  });
+
+// Amend broadcast command
+program
+  .command('amend')
+  .description('Replace a broadcast\'s parameters as a new revision; open confirmations go back to PENDING')
+  .requiredOption('-b, --broadcast <id>', 'Trade broadcast ID')
+  .requiredOption('--params <params>', 'Replacement parameters JSON ({"legs": [...]} for bundles)')
+  .action(async (options) => {
+    const pool = createPool();
+
+    try {
+      const service = getTradeBroadcastService(pool);
+      const result = await service.amendBroadcast(options.broadcast, JSON.parse(options.params));
+
+      console.log(`✅ Broadcast ${result.correlationId} amended to revision ${result.revision}`);
+      console.log(`   Confirmations reset to PENDING: ${result.amended.length}`);
+      console.log(`   Already executing/executed: ${result.inFlight}`);
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    } finally {
+      await pool.end();
+    }
+  });
+
 // Statistics command
 program
   .command('stats')
@@ -235,10 +291,44 @@ program
     }
   });
 
+// Timeline command
+program
+  .command('timeline')
+  .description('Show the status history of a trade confirmation')
+  .requiredOption('-i, --id <id>', 'Trade confirmation ID')
+  .action(async (options) => {
+    const pool = createPool();
+
+    try {
+      const service = getTradeBroadcastService(pool);
+      const events = await service.getConfirmationTimeline(options.id);
+
+      if (events.length === 0) {
+        console.log('No history for this confirmation');
+      } else {
+        console.log(`🕒 Confirmation Timeline (${events.length} events):`);
+        formatTable(events.map(event => ({
+          At: event.createdAt,
+          From: event.fromStatus || '-',
+          To: event.toStatus,
+          Actor: event.actorId ? `${event.actorType}:${event.actorId.substring(0, 8)}` : event.actorType,
+          Revision: event.revision,
+          Reason: event.reason || '',
+          Changed: event.parametersDiff ? Object.keys(event.parametersDiff).join(', ') : ''
+        })));
+      }
+    } catch (error: any) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    } finally {
+      await pool.end();
+    }
+  });
+
 // Cleanup command
 program
   .command('cleanup')
-  .description('Clean up expired broadcasts')
+  .description('Expire confirmations left pending past their broadcast expiry')
   .action(async () => {
     const pool = createPool();
 
@@ -246,7 +336,7 @@ program
       const service = getTradeBroadcastService(pool);
       const count = await service.cleanupExpired();
 
-      console.log(`🧹 Cleaned up ${count} expired broadcasts`);
+      console.log(`🧹 Expired ${count} unanswered confirmations`);
     } catch (error: any) {
       console.error('❌ Error:', error.message);
       process.exit(1);
@@ -0,0 +1,195 @@
+/**
+ * Copy Sizing
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Scale a generator's trade to each consumer's subscription sizing rule at fan-out
+ */
+
+import { ethers } from 'ethers';
+import { ProtocolType } from '../protocol-contracts/registry';
+import { getRpcUrl } from '../protocol-contracts/networks';
+import { getFunctionSignature, getProtocolAdapter } from '../protocol-adapters/registry';
+import { getSimulatedLedger } from '../protocol-executor/position-ledger';
+
+export type SizingMode = 'fixed' | 'percent_of_trade' | 'percent_of_balance';
+
+export const SIZING_MODES: SizingMode[] = ['fixed', 'percent_of_trade', 'percent_of_balance'];
+export const MAX_TRADE_PERCENT = 1000; // Up to 10x the generator's size
+export const BALANCE_READ_TIMEOUT_MS = 3000; // A slower read keeps the generator's size
+
+export interface SizingRule {
+  mode: SizingMode;
+  amount?: string; // fixed: size in the function's size-parameter units
+  percent?: number; // percent_of_trade / percent_of_balance, up to two decimals
+  maxAmount?: string; // Cap on the size parameter after the rule is applied
+}
+
+export interface SizingResult {
+  applied: boolean;
+  sizeParam?: string; // Parameter that was scaled (e.g. amount, amountIn)
+  originalAmount?: string; // Generator's size
+  amount?: string; // Consumer's size after the rule and cap
+  capped: boolean;
+  balance?: string; // Balance the percent_of_balance rule was applied to
+  reason?: string; // Why the generator's size was kept
+}
+
+// Reads an ERC-20 balance, or the native balance when token is null
+export type BalanceReader = (token: string | null, owner: string) => Promise<bigint>;
+
+const BPS = BigInt(10000);
+const AMOUNT_PATTERN = /^\d+$/;
+
+/**
+ * Check a sizing rule's shape; returns the problems found
+ */
+export function validateSizingRule(rule: any): string[] {
+  if (!rule || typeof rule !== 'object') {
+    return ['Sizing rule must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (!SIZING_MODES.includes(rule.mode)) {
+    errors.push(`mode must be one of ${SIZING_MODES.join(', ')}`);
+  }
+
+  if (rule.mode === 'fixed' && !(typeof rule.amount === 'string' && AMOUNT_PATTERN.test(rule.amount) && BigInt(rule.amount) > BigInt(0))) {
+    errors.push('amount must be a positive integer string for fixed sizing');
+  }
+
+  if (rule.mode === 'percent_of_trade' || rule.mode === 'percent_of_balance') {
+    const max = rule.mode === 'percent_of_trade' ? MAX_TRADE_PERCENT : 100;
+    const percent = rule.percent;
+
+    if (typeof percent !== 'number' || !(percent > 0) || percent > max || Math.abs(Math.round(percent * 100) - percent * 100) > 1e-9) {
+      errors.push(`percent must be a number above 0 and at most ${max}, with up to two decimals`);
+    }
+  }
+
+  if (rule.maxAmount !== undefined && !(typeof rule.maxAmount === 'string' && AMOUNT_PATTERN.test(rule.maxAmount))) {
+    errors.push('maxAmount must be an integer string');
+  }
+
+  return errors;
+}
+
+/**
+ * Scale the generator's parameters to a consumer's rule; bounds move in proportion with the size
+ */
+export async function applySizingRule(
+  protocol: ProtocolType,
+  functionName: string,
+  params: Record<string, any>,
+  rule: SizingRule,
+  owner: string,
+  readBalance: BalanceReader
+): Promise<{ parameters: Record<string, any>; result: SizingResult }> {
+  const sizing = getFunctionSignature(functionName, protocol)?.sizing;
+
+  if (!sizing || params[sizing.amount] === undefined) {
+    return { parameters: params, result: { applied: false, capped: false, reason: `${functionName} has no size parameter` } };
+  }
+
+  const originalAmount = BigInt(params[sizing.amount]);
+  const result: SizingResult = {
+    applied: true,
+    sizeParam: sizing.amount,
+    originalAmount: originalAmount.toString(),
+    capped: false
+  };
+
+  let amount = originalAmount;
+
+  if (rule.mode === 'fixed') {
+    amount = BigInt(rule.amount!);
+  } else if (rule.mode === 'percent_of_trade') {
+    amount = originalAmount * BigInt(Math.round(rule.percent! * 100)) / BPS;
+  } else {
+    // Size so the consumer spends the percentage of the balance of the token the call pulls
+    const adapter = getProtocolAdapter(protocol);
+    const spend = adapter.getTokenSpend?.(functionName, params);
+    const callValue = adapter.getCallValue?.(functionName, params) || BigInt(0);
+    const spent = spend ? spend.amount : callValue;
+
+    if (spent === BigInt(0)) {
+      Object.assign(result, { applied: false, reason: `${functionName} does not spend from the consumer's balance` });
+    } else {
+      try {
+        const balance = await readBalance(spend ? spend.token : null, owner);
+        const target = balance * BigInt(Math.round(rule.percent! * 100)) / BPS;
+
+        result.balance = balance.toString();
+        amount = originalAmount * target / spent;
+      } catch (error: any) {
+        Object.assign(result, { applied: false, reason: `Balance lookup failed: ${error.message}` });
+      }
+    }
+  }
+
+  // The cap also applies when the rule could not be, so a fallback never exceeds it
+  if (rule.maxAmount !== undefined && amount > BigInt(rule.maxAmount)) {
+    amount = BigInt(rule.maxAmount);
+    result.capped = true;
+  }
+
+  result.amount = amount.toString();
+
+  const parameters: Record<string, any> = { ...params, [sizing.amount]: amount.toString() };
+
+  for (const [bound, side] of Object.entries(sizing.bounds || {})) {
+    if (params[bound] === undefined || originalAmount === BigInt(0)) {
+      continue;
+    }
+
+    const scaled = BigInt(params[bound]) * amount;
+    parameters[bound] = (side === 'max'
+      ? (scaled + originalAmount - BigInt(1)) / originalAmount
+      : scaled / originalAmount
+    ).toString();
+  }
+
+  return { parameters, result };
+}
+
+/**
+ * Reject once `ms` pass without the promise settling
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Balance reader for a network: the simulated ledger in simulated mode, otherwise the chain's RPC,
+ * giving up after BALANCE_READ_TIMEOUT_MS
+ */
+export function createBalanceReader(network: string | number): BalanceReader {
+  if (process.env.EXECUTOR_MODE === 'simulated') {
+    return async (token, owner) => {
+      if (!token) {
+        throw new Error('Native balances are not tracked in simulated mode');
+      }
+      return getSimulatedLedger().getBalance(owner, token);
+    };
+  }
+
+  let provider: ethers.JsonRpcProvider | undefined;
+  const erc20 = new ethers.Interface(['function balanceOf(address) view returns (uint256)']);
+
+  const read = async (token: string | null, owner: string): Promise<bigint> => {
+    provider = provider || new ethers.JsonRpcProvider(getRpcUrl(network));
+
+    if (!token) {
+      return provider.getBalance(owner);
+    }
+
+    const data = await provider.call({ to: token, data: erc20.encodeFunctionData('balanceOf', [owner]) });
+    return erc20.decodeFunctionResult('balanceOf', data)[0];
+  };
+
+  return (token, owner) => withTimeout(read(token, owner), BALANCE_READ_TIMEOUT_MS);
+}
@@ -0,0 +1,27 @@
+/**
+ * Broadcast Expiry
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Expiry windows for broadcasts; confirmations left unanswered past them become EXPIRED
+ */
+
+import { BroadcastValidationError } from './types';
+
+export const DEFAULT_EXPIRY_MINUTES = 5;
+export const MAX_EXPIRY_MINUTES = 1440; // One day
+
+export function isValidExpiryMinutes(value: any): value is number {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_EXPIRY_MINUTES;
+}
+
+/**
+ * Pick a broadcast's expiry window: the request's, else the strategy's, else the default
+ */
+export function resolveExpiryMinutes(requested?: number | null, strategyDefault?: number | null): number {
+  const minutes = requested ?? strategyDefault ?? DEFAULT_EXPIRY_MINUTES;
+
+  if (!isValidExpiryMinutes(minutes)) {
+    throw new BroadcastValidationError(`Invalid expiryMinutes: must be an integer from 1 to ${MAX_EXPIRY_MINUTES}`);
+  }
+
+  return minutes;
+}
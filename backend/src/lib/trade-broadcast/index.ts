@@ -4,26 +4,48 @@
  * Purpose: Central interface for trade broadcasting and confirmation management
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { TradeBroadcaster } from './broadcaster';
+import { ConfirmationStateMachine, SQL_NOW } from './state-machine';
 import {
+  BroadcastAmendment,
+  BroadcastCancellation,
   BroadcastRequest,
   BroadcastResponse,
   BroadcastStatistics,
+  BroadcastValidationError,
+  BundleBroadcastRequest,
+  ConfirmationActor,
+  ConfirmationEvent,
+  ExpiredConfirmation,
   TradeConfirmation,
   TradeStatus
 } from './types';
+import { AutoResult } from './auto-policy';
+import { PriceDriftCheck } from '../price-drift/types';
+import { validateBundleRequest } from './bundle';
+import { FeeEstimate, StrategyLegResult } from '../protocol-executor/types';
+import { getBundleContractAddress } from '../protocol-executor/bundle-executor';
 
 export * from './types';
+export * from './copy-sizing';
+export * from './auto-policy';
+export * from './expiry';
+export * from './bundle';
+export * from './state-machine';
 export { TradeBroadcaster };
 
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
 export class TradeBroadcastService {
   private broadcaster: TradeBroadcaster;
+  private stateMachine: ConfirmationStateMachine;
   private pool: Pool;
 
   constructor(pool: Pool) {
     this.pool = pool;
     this.broadcaster = new TradeBroadcaster(pool);
+    this.stateMachine = new ConfirmationStateMachine(pool);
   }
 
   /**
@@ -32,16 +54,41 @@ export class TradeBroadcastService {
   async broadcast(request: BroadcastRequest): Promise<BroadcastResponse> {
     // Validate request
     if (!request.strategyId) {
-      throw new Error('Strategy ID is required');
+      throw new BroadcastValidationError('Strategy ID is required');
     }
 
     if (!request.functionName || !request.protocol) {
-      throw new Error('Function name and protocol are required');
+      throw new BroadcastValidationError('Function name and protocol are required');
     }
 
     return this.broadcaster.broadcastTrade(request);
   }
 
+  /**
+   * Broadcast a strategy's ordered legs to subscribers as one bundle
+   */
+  async broadcastBundle(request: BundleBroadcastRequest): Promise<BroadcastResponse> {
+    if (!request.strategyId) {
+      throw new BroadcastValidationError('Strategy ID is required');
+    }
+
+    if (!request.protocol) {
+      throw new BroadcastValidationError('Protocol is required');
+    }
+
+    const errors = validateBundleRequest(request.legs, request.mode);
+
+    // Nothing could execute an atomic bundle for its consumers
+    if (request.mode === 'atomic' && !getBundleContractAddress()) {
+      errors.push('atomic mode requires an account-bound bundle contract in BUNDLE_CONTRACT_ADDRESS');
+    }
+    if (errors.length > 0) {
+      throw new BroadcastValidationError(`Invalid bundle: ${errors.join(', ')}`);
+    }
+
+    return this.broadcaster.broadcastBundle(request);
+  }
+
   /**
    * Get broadcast statistics
    */
@@ -49,6 +96,23 @@ export class TradeBroadcastService {
     return this.broadcaster.getStatistics(alphaGeneratorId);
   }
 
+  /**
+   * Resolve a consumer wallet address to its consumer ID; UUIDs pass through. Null when no
+   * consumer has the address.
+   */
+  async resolveConsumerId(consumerId: string): Promise<string | null> {
+    if (!ADDRESS_PATTERN.test(consumerId)) {
+      return consumerId;
+    }
+
+    const result = await this.pool.query(
+      'SELECT consumer_id FROM alpha_consumers WHERE LOWER(wallet_address) = LOWER($1)',
+      [consumerId]
+    );
+
+    return result.rows[0]?.consumer_id ?? null;
+  }
+
   /**
    * Get pending trades for a consumer
    */
@@ -63,7 +127,21 @@ export class TradeBroadcastService {
       modifiedParameters: row.modified_parameters,
       status: row.status as TradeStatus,
       gasPrice: row.gas_price,
+      feeSpeed: row.fee_speed,
+      maxFeePerGas: row.max_fee_per_gas,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas,
       transactionHash: row.transaction_hash,
+      nonce: row.nonce ?? undefined,
+      replacementTransactionHash: row.replacement_transaction_hash,
+      replacementType: row.replacement_type,
+      replacedAt: row.replaced_at,
+      sizingRule: row.sizing_rule,
+      sizingResult: row.sizing_result,
+      autoPolicy: row.auto_policy,
+      autoResult: row.auto_result,
+      legResults: row.leg_results,
+      broadcastRevision: row.broadcast_revision,
+      priceDrift: row.price_drift,
       errorMessage: row.error_message,
       receivedAt: row.received_at,
       decidedAt: row.decided_at,
@@ -72,45 +150,71 @@ export class TradeBroadcastService {
   }
 
   /**
-   * Accept a trade with optional parameter modifications
+   * Accept a trade with optional parameter modifications; with a revision, only if the broadcast
+   * has not been amended since. The actor defaults to the confirmation's consumer.
    */
   async acceptTrade(
     confirmationId: string,
-    modifiedParameters?: Record<string, any>
+    modifiedParameters?: Record<string, any>,
+    revision?: number,
+    actor?: ConfirmationActor,
+    client?: PoolClient // Accept inside the caller's transaction
   ): Promise<boolean> {
     return this.broadcaster.updateTradeStatus(
       confirmationId,
       'ACCEPTED',
-      modifiedParameters
+      modifiedParameters,
+      revision,
+      actor,
+      client
     );
   }
 
   /**
    * Reject a trade
    */
-  async rejectTrade(confirmationId: string): Promise<boolean> {
-    return this.broadcaster.updateTradeStatus(confirmationId, 'REJECTED');
+  async rejectTrade(confirmationId: string, actor?: ConfirmationActor): Promise<boolean> {
+    return this.broadcaster.updateTradeStatus(confirmationId, 'REJECTED', undefined, undefined, actor);
+  }
+
+  /**
+   * Status history of a trade confirmation, oldest first
+   */
+  async getConfirmationTimeline(confirmationId: string): Promise<ConfirmationEvent[]> {
+    return this.stateMachine.getTimeline(confirmationId);
   }
 
   /**
-   * Register SSE client for real-time updates
+   * Cancel a broadcast; its open confirmations become CANCELLED
    */
-  registerSSEClient(consumerId: string, client: any): void {
-    this.broadcaster.registerSSEClient(consumerId, client);
+  async cancelBroadcast(broadcastId: string, reason?: string | null): Promise<BroadcastCancellation> {
+    return this.broadcaster.cancelBroadcast(broadcastId, reason);
   }
 
   /**
-   * Unregister SSE client
+   * Amend a broadcast's parameters as a new revision; its open confirmations go back to PENDING
    */
-  unregisterSSEClient(consumerId: string): void {
-    this.broadcaster.unregisterSSEClient(consumerId);
+  async amendBroadcast(broadcastId: string, parameters: Record<string, any>): Promise<BroadcastAmendment> {
+    if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) {
+      throw new Error('Invalid amendment: parameters must be an object');
+    }
+
+    return this.broadcaster.amendBroadcast(broadcastId, parameters);
   }
 
   /**
-   * Cleanup expired broadcasts
+   * Expire confirmations left unanswered past their broadcast's expiry; returns how many
    */
   async cleanupExpired(): Promise<number> {
-    return this.broadcaster.cleanupExpiredBroadcasts();
+    const expired = await this.broadcaster.expireStaleConfirmations();
+    return expired.length;
+  }
+
+  /**
+   * Expire confirmations left unanswered past their broadcast's expiry
+   */
+  async expireStaleConfirmations(): Promise<ExpiredConfirmation[]> {
+    return this.broadcaster.expireStaleConfirmations();
   }
 
   /**
@@ -137,7 +241,21 @@ export class TradeBroadcastService {
       modifiedParameters: row.modified_parameters,
       status: row.status as TradeStatus,
       gasPrice: row.gas_price,
+      feeSpeed: row.fee_speed,
+      maxFeePerGas: row.max_fee_per_gas,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas,
       transactionHash: row.transaction_hash,
+      nonce: row.nonce ?? undefined,
+      replacementTransactionHash: row.replacement_transaction_hash,
+      replacementType: row.replacement_type,
+      replacedAt: row.replaced_at,
+      sizingRule: row.sizing_rule,
+      sizingResult: row.sizing_result,
+      autoPolicy: row.auto_policy,
+      autoResult: row.auto_result,
+      legResults: row.leg_results,
+      broadcastRevision: row.broadcast_revision,
+      priceDrift: row.price_drift,
       errorMessage: row.error_message,
       receivedAt: row.received_at,
       decidedAt: row.decided_at,
@@ -146,69 +264,177 @@ export class TradeBroadcastService {
   }
 
   /**
-   * Mark trade as executing
+   * Mark trade as executing; with a revision, only if the acceptance is of that broadcast revision
+   */
+  async markTradeExecuting(
+    confirmationId: string,
+    revision?: number,
+    actor: ConfirmationActor = { type: 'consumer' },
+    client?: PoolClient // Mark inside the caller's transaction
+  ): Promise<boolean> {
+    const transition = await this.stateMachine.transition(confirmationId, 'EXECUTING', { actor, revision }, client);
+    return transition !== null;
+  }
+
+  /**
+   * Record the EIP-1559 fees chosen for executing a trade
    */
-  async markTradeExecuting(confirmationId: string): Promise<boolean> {
+  async recordTradeFees(confirmationId: string, fees: FeeEstimate): Promise<boolean> {
     const query = `
       UPDATE protocol_trade_confirmations
-      SET status = 'EXECUTING'
+      SET
+        fee_speed = $2,
+        max_fee_per_gas = $3,
+        max_priority_fee_per_gas = $4
       WHERE id = $1
-        AND status = 'ACCEPTED'
     `;
 
-    const result = await this.pool.query(query, [confirmationId]);
+    const result = await this.pool.query(query, [
+      confirmationId,
+      fees.speed,
+      fees.maxFeePerGas,
+      fees.maxPriorityFeePerGas
+    ]);
+
     return result.rowCount !== null && result.rowCount > 0;
   }
 
   /**
-   * Mark trade as executed
+   * Record a trade's transaction as soon as it is broadcast, so it can be replaced while pending
    */
-  async markTradeExecuted(
+  async recordTradeSubmission(
     confirmationId: string,
     transactionHash: string,
-    gasPrice: string
+    nonce: number
   ): Promise<boolean> {
     const query = `
       UPDATE protocol_trade_confirmations
       SET
-        status = 'EXECUTED',
         transaction_hash = $2,
-        gas_price = $3,
-        executed_at = CURRENT_TIMESTAMP
+        nonce = $3
       WHERE id = $1
         AND status = 'EXECUTING'
     `;
 
+    const result = await this.pool.query(query, [confirmationId, transactionHash, nonce]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  /**
+   * Record a speed-up or cancel replacement of a trade's pending transaction
+   */
+  async recordTradeReplacement(
+    confirmationId: string,
+    replacement: {
+      transactionHash: string;
+      type: 'SPEED_UP' | 'CANCEL';
+      maxFeePerGas?: string;
+      maxPriorityFeePerGas?: string;
+    }
+  ): Promise<boolean> {
+    const query = `
+      UPDATE protocol_trade_confirmations
+      SET
+        replacement_transaction_hash = $2,
+        replacement_type = $3,
+        replaced_at = CURRENT_TIMESTAMP,
+        max_fee_per_gas = COALESCE($4, max_fee_per_gas),
+        max_priority_fee_per_gas = COALESCE($5, max_priority_fee_per_gas)
+      WHERE id = $1
+    `;
+
     const result = await this.pool.query(query, [
       confirmationId,
-      transactionHash,
-      gasPrice
+      replacement.transactionHash,
+      replacement.type,
+      replacement.maxFeePerGas ?? null,
+      replacement.maxPriorityFeePerGas ?? null
     ]);
 
     return result.rowCount !== null && result.rowCount > 0;
   }
 
   /**
-   * Mark trade as failed
+   * Record what a subscription's auto-trade policy did with a trade
    */
-  async markTradeFailed(
-    confirmationId: string,
-    errorMessage: string
-  ): Promise<boolean> {
+  async recordAutoResult(confirmationId: string, autoResult: AutoResult): Promise<boolean> {
     const query = `
       UPDATE protocol_trade_confirmations
-      SET
-        status = 'FAILED',
-        error_message = $2,
-        executed_at = CURRENT_TIMESTAMP
+      SET auto_result = $2
+      WHERE id = $1
+    `;
+
+    const result = await this.pool.query(query, [confirmationId, JSON.stringify(autoResult)]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  /**
+   * Record how far prices moved between the broadcast and an execution attempt
+   */
+  async recordPriceDrift(confirmationId: string, priceDrift: PriceDriftCheck): Promise<boolean> {
+    const query = `
+      UPDATE protocol_trade_confirmations
+      SET price_drift = $2
+      WHERE id = $1
+    `;
+
+    const result = await this.pool.query(query, [confirmationId, JSON.stringify(priceDrift)]);
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  /**
+   * Record the per-leg outcome of executing a bundle
+   */
+  async recordLegResults(confirmationId: string, legResults: StrategyLegResult[]): Promise<boolean> {
+    const query = `
+      UPDATE protocol_trade_confirmations
+      SET leg_results = $2
       WHERE id = $1
-        AND status IN ('EXECUTING', 'ACCEPTED')
     `;
 
-    const result = await this.pool.query(query, [confirmationId, errorMessage]);
+    const result = await this.pool.query(query, [confirmationId, JSON.stringify(legResults)]);
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  /**
+   * Mark trade as executed
+   */
+  async markTradeExecuted(
+    confirmationId: string,
+    transactionHash: string,
+    gasPrice: string
+  ): Promise<boolean> {
+    const transition = await this.stateMachine.transition(confirmationId, 'EXECUTED', {
+      actor: { type: 'system' },
+      set: {
+        transaction_hash: transactionHash,
+        gas_price: gasPrice,
+        executed_at: SQL_NOW
+      }
+    });
+
+    return transition !== null;
+  }
+
+  /**
+   * Mark trade as failed
+   */
+  async markTradeFailed(
+    confirmationId: string,
+    errorMessage: string
+  ): Promise<boolean> {
+    const transition = await this.stateMachine.transition(confirmationId, 'FAILED', {
+      actor: { type: 'system' },
+      reason: errorMessage,
+      set: {
+        error_message: errorMessage,
+        executed_at: SQL_NOW
+      }
+    });
+
+    return transition !== null;
+  }
+
   /**
    * Get broadcast history for an AlphaGenerator
    */
@@ -0,0 +1,233 @@
+/**
+ * Confirmation State Machine
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: The one place a trade confirmation's status changes; each change is checked against
+ * the transition table and recorded in the append-only confirmation_events history
+ */
+
+import { Pool } from 'pg';
+import { ConfirmationActor, ConfirmationEvent, ParametersDiff, TradeStatus } from './types';
+
+/**
+ * Statuses each status may move to. PENDING and ACCEPTED go back to PENDING when the broadcast
+ * is amended; EXECUTED, REJECTED, FAILED, EXPIRED and CANCELLED are final.
+ */
+export const CONFIRMATION_TRANSITIONS: Record<TradeStatus, readonly TradeStatus[]> = {
+  PENDING: ['ACCEPTED', 'REJECTED', 'EXPIRED', 'CANCELLED', 'PENDING'],
+  ACCEPTED: ['EXECUTING', 'FAILED', 'CANCELLED', 'PENDING'],
+  EXECUTING: ['EXECUTED', 'FAILED'],
+  EXECUTED: [],
+  REJECTED: [],
+  FAILED: [],
+  EXPIRED: [],
+  CANCELLED: []
+};
+
+// Pass as a `set` value to write CURRENT_TIMESTAMP
+export const SQL_NOW = Symbol('CURRENT_TIMESTAMP');
+
+export function canTransition(from: TradeStatus, to: TradeStatus): boolean {
+  return CONFIRMATION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Parameter paths whose values differ between two parameter sets, e.g. `amountIn` or `legs[1].amount`
+ */
+export function diffParameters(before: any, after: any): ParametersDiff {
+  const diff: ParametersDiff = {};
+
+  const walk = (from: any, to: any, path: string) => {
+    const bothObjects = from && to && typeof from === 'object' && typeof to === 'object';
+
+    if (bothObjects && Array.isArray(from) === Array.isArray(to)) {
+      const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+      for (const key of keys) {
+        const childPath = Array.isArray(from) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+        walk(from[key], to[key], childPath);
+      }
+      return;
+    }
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      diff[path] = { from: from ?? null, to: to ?? null };
+    }
+  };
+
+  walk(before ?? {}, after ?? {}, '');
+  return diff;
+}
+
+export interface TransitionOptions {
+  actor: ConfirmationActor;
+  reason?: string | null;
+  parameters?: Record<string, any>; // New modified_parameters; the event records the diff
+  revision?: number; // Only move a confirmation still at this broadcast revision
+  set?: Record<string, any>; // Other columns written with the status
+}
+
+export interface ConfirmationTransition {
+  confirmationId: string;
+  alphaConsumerId: string;
+  from: TradeStatus;
+  to: TradeStatus;
+}
+
+export class ConfirmationStateMachine {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Move a confirmation to `to` and record the event. Returns null, changing nothing, when the
+   * confirmation does not exist, the table does not allow the move from its current status, or
+   * its revision no longer matches. Pass `client` to run inside the caller's transaction.
+   */
+  async transition(
+    confirmationId: string,
+    to: TradeStatus,
+    options: TransitionOptions,
+    client?: any
+  ): Promise<ConfirmationTransition | null> {
+    if (client) {
+      return this.applyTransition(confirmationId, to, options, client);
+    }
+
+    const ownClient = await this.pool.connect();
+
+    try {
+      await ownClient.query('BEGIN');
+      const transition = await this.applyTransition(confirmationId, to, options, ownClient);
+      await ownClient.query(transition ? 'COMMIT' : 'ROLLBACK');
+      return transition;
+    } catch (error) {
+      await ownClient.query('ROLLBACK');
+      throw error;
+    } finally {
+      ownClient.release();
+    }
+  }
+
+  /**
+   * Record the creation of freshly inserted confirmations (no from-status)
+   */
+  async recordCreated(confirmationIds: string[], actor: ConfirmationActor, client: any): Promise<void> {
+    if (confirmationIds.length === 0) {
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO confirmation_events (
+         confirmation_id, from_status, to_status, actor_type, actor_id, reason, revision
+       )
+       SELECT id, NULL, status::text, $2, $3, 'Broadcast received', broadcast_revision
+       FROM protocol_trade_confirmations
+       WHERE id = ANY($1::uuid[])`,
+      [confirmationIds, actor.type, actor.id ?? null]
+    );
+  }
+
+  /**
+   * A confirmation's events, oldest first
+   */
+  async getTimeline(confirmationId: string): Promise<ConfirmationEvent[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM confirmation_events
+       WHERE confirmation_id = $1
+       ORDER BY created_at, id`,
+      [confirmationId]
+    );
+
+    return result.rows.map((row: any) => ({
+      id: String(row.id),
+      confirmationId: row.confirmation_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      actorType: row.actor_type,
+      actorId: row.actor_id,
+      reason: row.reason,
+      parametersDiff: row.parameters_diff,
+      revision: row.revision,
+      createdAt: row.created_at
+    }));
+  }
+
+  private async applyTransition(
+    confirmationId: string,
+    to: TradeStatus,
+    options: TransitionOptions,
+    client: any
+  ): Promise<ConfirmationTransition | null> {
+    const current = await client.query(
+      `SELECT status, alpha_consumer_id, modified_parameters, broadcast_revision
+       FROM protocol_trade_confirmations
+       WHERE id = $1
+       FOR UPDATE`,
+      [confirmationId]
+    );
+
+    const row = current.rows[0];
+    if (!row || !canTransition(row.status, to)) {
+      return null;
+    }
+
+    if (options.revision !== undefined && row.broadcast_revision !== options.revision) {
+      return null;
+    }
+
+    const columns: Record<string, any> = { ...options.set, status: to };
+    if (options.parameters) {
+      columns.modified_parameters = JSON.stringify(options.parameters);
+    }
+
+    const values: any[] = [confirmationId];
+    const assignments = Object.entries(columns).map(([column, value]) => {
+      if (value === SQL_NOW) {
+        return `${column} = CURRENT_TIMESTAMP`;
+      }
+      values.push(value);
+      return `${column} = $${values.length}`;
+    });
+
+    await client.query(
+      `UPDATE protocol_trade_confirmations SET ${assignments.join(', ')} WHERE id = $1`,
+      values
+    );
+
+    const parametersDiff = options.parameters
+      ? diffParameters(row.modified_parameters, options.parameters)
+      : {};
+    const actsForConsumer = options.actor.type === 'consumer' || options.actor.type === 'auto_policy';
+    const actorId = options.actor.id ?? (actsForConsumer ? row.alpha_consumer_id : null);
+
+    await client.query(
+      `INSERT INTO confirmation_events (
+         confirmation_id, from_status, to_status, actor_type, actor_id, reason, parameters_diff, revision
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        confirmationId,
+        row.status,
+        to,
+        options.actor.type,
+        actorId,
+        options.reason ?? null,
+        Object.keys(parametersDiff).length > 0 ? JSON.stringify(parametersDiff) : null,
+        columns.broadcast_revision ?? row.broadcast_revision
+      ]
+    );
+
+    return {
+      confirmationId,
+      alphaConsumerId: row.alpha_consumer_id,
+      from: row.status,
+      to
+    };
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getConfirmationStateMachine(pool: Pool): ConfirmationStateMachine {
+  return new ConfirmationStateMachine(pool);
+}
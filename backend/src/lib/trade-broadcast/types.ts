@@ -5,6 +5,11 @@
  */
 
 import { ProtocolType } from '../protocol-contracts/registry';
+import { SizingResult, SizingRule } from './copy-sizing';
+import { AutoPolicy, AutoResult } from './auto-policy';
+import { BundleLeg, BundleLegRequest } from './bundle';
+import { StrategyExecutionMode, StrategyLegResult } from '../protocol-executor/types';
+import { MarketSnapshot, PriceDriftCheck } from '../price-drift/types';
 
 export interface TradeBroadcast {
   id: string;
@@ -19,6 +24,13 @@ export interface TradeBroadcast {
   correlationId: string;
   broadcastAt: Date;
   expiresAt: Date;
+  legs?: BundleLeg[] | null; // Set for bundles; functionName then reads e.g. "supply+borrow"
+  executionMode?: StrategyExecutionMode | null; // How a bundle's legs are executed
+  revision?: number; // Starts at 1; each amendment adds one
+  amendedAt?: Date | null;
+  cancelledAt?: Date | null;
+  cancelReason?: string | null;
+  marketSnapshot?: MarketSnapshot | null; // Prices the trade depends on, read when it was broadcast or last amended
 }
 
 export interface BroadcastRequest {
@@ -29,7 +41,17 @@ export interface BroadcastRequest {
   parameters: Record<string, any>;
   gasEstimate: string;
   network?: string;
-  expiryMinutes?: number; // Default 5 minutes
+  expiryMinutes?: number; // Default DEFAULT_EXPIRY_MINUTES (5), at most MAX_EXPIRY_MINUTES
+}
+
+export interface BundleBroadcastRequest {
+  strategyId: string;
+  alphaGeneratorId?: string | null;
+  protocol: ProtocolType;
+  legs: BundleLegRequest[]; // In execution order
+  mode?: StrategyExecutionMode; // Default 'sequential'; 'atomic' sends one Multicall3 transaction
+  network?: string;
+  expiryMinutes?: number;
 }
 
 export interface BroadcastResponse {
@@ -48,7 +70,21 @@ export interface TradeConfirmation {
   modifiedParameters: Record<string, any>;
   status: TradeStatus;
   gasPrice?: string;
+  feeSpeed?: string; // EIP-1559 preset chosen for execution (low/medium/high)
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
   transactionHash?: string;
+  nonce?: number; // Signer nonce of the submitted transaction
+  replacementTransactionHash?: string; // Latest speed-up/cancel replacement for transactionHash
+  replacementType?: 'SPEED_UP' | 'CANCEL';
+  replacedAt?: Date;
+  sizingRule?: SizingRule | null; // Subscription sizing rule applied at fan-out
+  sizingResult?: SizingResult | null; // Generator's vs sized amount, recorded at fan-out
+  autoPolicy?: AutoPolicy | null; // Subscription auto-trade policy in effect at fan-out
+  autoResult?: AutoResult | null; // What the policy did on the consumer's behalf
+  legResults?: StrategyLegResult[] | null; // Per-leg outcome of executing a bundle
+  broadcastRevision?: number; // Broadcast revision the parameters (and any acceptance) belong to
+  priceDrift?: PriceDriftCheck | null; // Price move since the broadcast, checked before execution
   errorMessage?: string;
   receivedAt: Date;
   decidedAt?: Date;
@@ -61,7 +97,9 @@ export type TradeStatus =
   | 'REJECTED'
   | 'EXECUTING'
   | 'EXECUTED'
-  | 'FAILED';
+  | 'FAILED'
+  | 'EXPIRED' // Left PENDING past the broadcast's expires_at
+  | 'CANCELLED'; // Generator cancelled the broadcast before it was executed
 
 export interface BroadcastStatistics {
   totalBroadcasts: number;
@@ -71,9 +109,100 @@ export interface BroadcastStatistics {
   successRate: number;
 }
 
+export interface BroadcastSubscriber {
+  id: string; // Subscription ID
+  consumerId: string;
+  consumerName: string;
+  walletAddress: string;
+  sizingRule?: SizingRule | null;
+  autoPolicy?: AutoPolicy | null;
+}
+
+export interface ExpiredConfirmation {
+  confirmationId: string;
+  tradeBroadcastId: string;
+  alphaConsumerId: string;
+  strategyId: string;
+  functionName: string;
+  correlationId: string;
+  expiresAt: Date;
+}
+
+export interface BroadcastRecipient {
+  confirmationId: string;
+  alphaConsumerId: string;
+  previousStatus: TradeStatus; // PENDING or ACCEPTED
+}
+
+export interface BroadcastCancellation {
+  broadcastId: string;
+  correlationId: string;
+  reason: string | null;
+  cancelledAt: Date;
+  cancelled: BroadcastRecipient[];
+  inFlight: number; // Confirmations already executing or executed, which a cancel cannot stop
+}
+
+export interface BroadcastAmendment {
+  broadcastId: string;
+  correlationId: string;
+  revision: number;
+  parameters: Record<string, any>;
+  amendedAt: Date;
+  amended: BroadcastRecipient[]; // Moved back to PENDING with the new parameters
+  inFlight: number;
+}
+
+export type ConfirmationActorType =
+  | 'consumer' // The confirmation's consumer, through the API, CLI or SDK
+  | 'generator' // The broadcast's generator, by broadcasting, cancelling or amending
+  | 'auto_policy' // The subscription's auto-trade policy, on the consumer's behalf
+  | 'system'; // Expiry sweeps and execution outcomes
+
+export interface ConfirmationActor {
+  type: ConfirmationActorType;
+  id?: string | null; // Consumer ID or generator ID; consumer and auto_policy actors default to the confirmation's consumer
+}
+
+// Changed parameter paths (e.g. `amountIn`, `legs[1].amount`) with their old and new values
+export type ParametersDiff = Record<string, { from: any; to: any }>;
+
+export interface ConfirmationEvent {
+  id: string;
+  confirmationId: string;
+  fromStatus: TradeStatus | null; // Null for the event that created the confirmation
+  toStatus: TradeStatus;
+  actorType: ConfirmationActorType;
+  actorId: string | null;
+  reason: string | null;
+  parametersDiff: ParametersDiff | null;
+  revision: number; // Broadcast revision the confirmation was at after the transition
+  createdAt: Date;
+}
+
 export interface SubscriberNotification {
   subscriberId: string;
   tradeBroadcast: TradeBroadcast;
   strategyName: string;
   alphaGeneratorName: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Thrown when a broadcast or bundle request is malformed; routes answer it with 400
+ */
+export class BroadcastValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BroadcastValidationError';
+  }
+}
+
+/**
+ * Thrown when a trade's acceptance no longer matches its broadcast (amended or cancelled since)
+ */
+export class BroadcastSupersededError extends Error {
+  constructor(message: string = 'Trade broadcast was amended or cancelled after this trade was accepted; accept the current revision first') {
+    super(message);
+    this.name = 'BroadcastSupersededError';
+  }
+}
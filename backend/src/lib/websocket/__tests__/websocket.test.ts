@@ -0,0 +1,205 @@
+/**
+ * WebSocket API Tests
+ * Feature: 003-protocol-strategy-integration
+ */
+
+import { BusEvent } from '../../event-bus';
+import { BroadcastSupersededError } from '../../trade-broadcast/types';
+import {
+  ACK_TIMEOUT_MS,
+  MAX_DELIVERY_ATTEMPTS,
+  parseClientMessage,
+  parseTopic,
+  ServerMessage,
+  TopicAccessService,
+  WebSocketProtocolError,
+  WebSocketSession
+} from '../index';
+
+describe('WebSocket API', () => {
+  const strategyId = '6f1c2b0e-2a4d-4c1e-9b7a-3d5e8f0a1b2c';
+  const confirmationId = '0b8e7c6d-5a4f-4e3d-8c2b-1a0f9e8d7c6b';
+  const generator = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+  const event = (id: string, topics: string[], audience: any = { type: 'consumer', id: 'c1' }): BusEvent => ({
+    id,
+    event: 'trade-broadcast',
+    audience,
+    topics,
+    data: { id },
+    origin: 'instance',
+    publishedAt: '2026-10-19T12:00:00.000Z'
+  });
+
+  let sent: ServerMessage[];
+  let access: { canSubscribe: jest.Mock };
+  let replay: jest.Mock;
+  let decide: jest.Mock;
+
+  const session = (identity: any = { consumerId: 'c1', consumerAddress: '0x1111111111111111111111111111111111111111' }) =>
+    new WebSocketSession({
+      connectionId: 'conn-1',
+      identity,
+      send: message => sent.push(message),
+      access,
+      replay,
+      decide
+    });
+
+  const results = () => sent.filter(message => message.type === 'result');
+  const events = () => sent.filter(message => message.type === 'event').map(message => (message as any).id);
+
+  beforeEach(() => {
+    sent = [];
+    access = { canSubscribe: jest.fn().mockResolvedValue(true) };
+    replay = jest.fn().mockResolvedValue({ events: [], complete: true });
+    decide = jest.fn();
+  });
+
+  it('should parse topics and reject malformed ones', () => {
+    expect(parseTopic(`strategy:${strategyId}`)).toEqual({ kind: 'strategy', id: strategyId });
+    expect(parseTopic(`generator:${generator}`)).toEqual({ kind: 'generator', id: generator });
+    expect(parseTopic(`generator:${generator.toUpperCase().replace('0X', '0x')}`)).toBeNull();
+    expect(parseTopic('confirmation:42')).toBeNull();
+    expect(parseTopic('wallet:0x1')).toBeNull();
+  });
+
+  it('should refuse malformed messages with the request id when there is one', () => {
+    expect(() => parseClientMessage('not json')).toThrow(WebSocketProtocolError);
+    expect(() => parseClientMessage(JSON.stringify({ type: 'subscribe', requestId: 'r1', topics: [] }))).toThrow(
+      expect.objectContaining({ requestId: 'r1' })
+    );
+    expect(() => parseClientMessage(JSON.stringify({ type: 'accept', confirmationId, revision: 0 }))).toThrow(
+      'Invalid revision'
+    );
+    expect(parseClientMessage(JSON.stringify({ type: 'ack', eventIds: ['1'] }))).toEqual({ type: 'ack', eventIds: ['1'] });
+  });
+
+  it('should subscribe to permitted topics and deliver only events under them meant for the client', async () => {
+    access.canSubscribe.mockImplementation(async (identity: any, topic: any) => topic.kind === 'strategy');
+    const ws = session();
+
+    await ws.handleMessage(JSON.stringify({
+      type: 'subscribe',
+      requestId: 'r1',
+      topics: [`strategy:${strategyId}`, `generator:${generator}`, 'bogus']
+    }));
+
+    expect(results()).toEqual([{
+      type: 'result',
+      requestId: 'r1',
+      success: true,
+      data: { subscribed: [`strategy:${strategyId}`], denied: [`generator:${generator}`, 'bogus'] }
+    }]);
+
+    ws.deliver(event('1', [`strategy:${strategyId}`, `generator:${generator}`]));
+    ws.deliver(event('2', [`generator:${generator}`]));
+    ws.deliver(event('3', [`strategy:${strategyId}`], { type: 'consumer', id: 'c2' }));
+
+    expect(events()).toEqual(['1']);
+    expect(sent.find(message => message.type === 'event')).toEqual(expect.objectContaining({
+      topics: [`strategy:${strategyId}`],
+      attempt: 1
+    }));
+  });
+
+  it('should resend unacknowledged events until the attempt limit', async () => {
+    const ws = session();
+    await ws.handleMessage(JSON.stringify({ type: 'subscribe', topics: [`strategy:${strategyId}`] }));
+
+    ws.deliver(event('1', [`strategy:${strategyId}`]));
+    ws.deliver(event('2', [`strategy:${strategyId}`]));
+    await ws.handleMessage(JSON.stringify({ type: 'ack', eventIds: ['1'] }));
+
+    const start = Date.now();
+    for (let attempt = 2; attempt <= MAX_DELIVERY_ATTEMPTS + 1; attempt++) {
+      ws.redeliverUnacked(start + attempt * ACK_TIMEOUT_MS);
+    }
+
+    expect(events()).toEqual(['1', '2', ...Array(MAX_DELIVERY_ATTEMPTS - 1).fill('2')]);
+    expect(ws.unackedCount).toBe(0);
+  });
+
+  it('should replay newly subscribed topics from the last event id', async () => {
+    replay.mockResolvedValue({ events: [event('11', [`confirmation:${confirmationId}`])], complete: true });
+    const ws = session();
+
+    await ws.handleMessage(JSON.stringify({
+      type: 'subscribe',
+      requestId: 'r2',
+      topics: [`confirmation:${confirmationId}`],
+      lastEventId: '10'
+    }));
+
+    expect(replay).toHaveBeenCalledWith({ consumerId: 'c1', generatorId: undefined }, '10', [`confirmation:${confirmationId}`]);
+    expect(events()).toEqual(['11']);
+    expect(results()[0]).toEqual(expect.objectContaining({
+      success: true,
+      data: expect.objectContaining({ replayed: 1, complete: true })
+    }));
+  });
+
+  it('should answer a failed access check or replay with a 500 and leave the topics unsubscribed', async () => {
+    access.canSubscribe.mockRejectedValueOnce(new Error('connection refused'));
+    replay.mockRejectedValueOnce(new Error('replay failed'));
+    const ws = session();
+
+    await ws.handleMessage(JSON.stringify({ type: 'subscribe', requestId: 's1', topics: [`strategy:${strategyId}`] }));
+    await ws.handleMessage(JSON.stringify({
+      type: 'subscribe',
+      requestId: 's2',
+      topics: [`confirmation:${confirmationId}`],
+      lastEventId: '10'
+    }));
+
+    expect(results()).toEqual([
+      expect.objectContaining({ requestId: 's1', success: false, status: 500 }),
+      expect.objectContaining({ requestId: 's2', success: false, status: 500 })
+    ]);
+
+    ws.deliver(event('12', [`strategy:${strategyId}`, `confirmation:${confirmationId}`]));
+    expect(events()).toEqual([]);
+  });
+
+  it('should accept and reject confirmations as the consumer, with REST error statuses', async () => {
+    decide.mockResolvedValueOnce({ id: confirmationId, status: 'ACCEPTED' });
+    decide.mockRejectedValueOnce(new BroadcastSupersededError());
+    const ws = session();
+
+    await ws.handleMessage(JSON.stringify({ type: 'accept', requestId: 'a1', confirmationId, slippageBps: 100 }));
+    await ws.handleMessage(JSON.stringify({ type: 'reject', requestId: 'a2', confirmationId, revision: 1 }));
+
+    expect(decide).toHaveBeenCalledWith(expect.objectContaining({
+      confirmationId, action: 'accept', slippageBps: 100, consumerId: 'c1'
+    }));
+    expect(results()).toEqual([
+      { type: 'result', requestId: 'a1', success: true, data: { id: confirmationId, status: 'ACCEPTED' } },
+      expect.objectContaining({ requestId: 'a2', success: false, status: 409 })
+    ]);
+
+    // Generator-only connections cannot decide
+    sent = [];
+    await session({ generatorId: 'g1', generatorAddress: generator })
+      .handleMessage(JSON.stringify({ type: 'accept', requestId: 'a3', confirmationId }));
+    expect(results()).toEqual([expect.objectContaining({ requestId: 'a3', success: false, status: 401 })]);
+  });
+
+  it('should let generators follow their own topics and consumers what they subscribe to', async () => {
+    const pool = { query: jest.fn() };
+    const service = new TopicAccessService(pool as any);
+
+    await expect(service.canSubscribe({ generatorAddress: generator }, { kind: 'generator', id: generator })).resolves.toBe(true);
+    expect(pool.query).not.toHaveBeenCalled();
+
+    pool.query.mockResolvedValueOnce({ rows: [] });
+    await expect(service.canSubscribe({ consumerAddress: '0x1111111111111111111111111111111111111111' }, {
+      kind: 'strategy', id: strategyId
+    })).resolves.toBe(false);
+    expect(pool.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('sub.strategy_id IS NULL OR sub.strategy_id = s.strategy_id'),
+      [strategyId, '0x1111111111111111111111111111111111111111']
+    );
+
+    await expect(service.canSubscribe({ generatorId: 'g1' }, { kind: 'confirmation', id: confirmationId })).resolves.toBe(false);
+  });
+});
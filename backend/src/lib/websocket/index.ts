@@ -0,0 +1,119 @@
+/**
+ * WebSocket API
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Bidirectional trade messaging for bots: topic subscriptions over the event bus,
+ * acknowledged delivery, and accepting or rejecting confirmations on the same connection
+ */
+
+import { Pool } from 'pg';
+import { ParsedTopic, TopicAccess, WebSocketIdentity } from './types';
+
+export * from './types';
+export * from './protocol';
+export * from './session';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export class TopicAccessService implements TopicAccess {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Resolve the identity headers of an upgrade request: a consumer wallet address or ID,
+   * and a generator address. Throws when either names no one.
+   */
+  async resolveIdentity(consumer?: string | null, generatorAddress?: string | null): Promise<WebSocketIdentity> {
+    const identity: WebSocketIdentity = {};
+
+    if (consumer) {
+      const result = await this.pool.query(
+        ADDRESS_PATTERN.test(consumer)
+          ? 'SELECT consumer_id, wallet_address FROM alpha_consumers WHERE LOWER(wallet_address) = LOWER($1)'
+          : 'SELECT consumer_id, wallet_address FROM alpha_consumers WHERE consumer_id::text = $1',
+        [consumer]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error('Consumer not found');
+      }
+
+      identity.consumerId = result.rows[0].consumer_id;
+      identity.consumerAddress = result.rows[0].wallet_address.toLowerCase();
+    }
+
+    if (generatorAddress) {
+      const result = await this.pool.query(
+        'SELECT generator_id, generator_address FROM alpha_generators WHERE LOWER(generator_address) = LOWER($1)',
+        [generatorAddress]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error('Generator not found');
+      }
+
+      identity.generatorId = result.rows[0].generator_id;
+      identity.generatorAddress = result.rows[0].generator_address.toLowerCase();
+    }
+
+    return identity;
+  }
+
+  /**
+   * Whether a client may follow a topic. Generators may follow their own strategies and
+   * address; consumers the strategies and generators an active subscription covers, and
+   * their own confirmations.
+   */
+  async canSubscribe(identity: WebSocketIdentity, topic: ParsedTopic): Promise<boolean> {
+    switch (topic.kind) {
+      case 'confirmation':
+        return !!identity.consumerId && this.exists(
+          'SELECT 1 FROM protocol_trade_confirmations WHERE id = $1 AND alpha_consumer_id = $2',
+          [topic.id, identity.consumerId]
+        );
+
+      case 'generator':
+        if (identity.generatorAddress === topic.id) {
+          return true;
+        }
+        return !!identity.consumerAddress && this.exists(
+          `SELECT 1 FROM subscriptions
+           WHERE LOWER(alpha_consumer_address) = $1
+             AND LOWER(alpha_generator_address) = $2
+             AND is_active = true
+             AND expires_at > CURRENT_TIMESTAMP`,
+          [identity.consumerAddress, topic.id]
+        );
+
+      case 'strategy':
+        if (identity.generatorAddress && await this.exists(
+          'SELECT 1 FROM strategies WHERE strategy_id = $1 AND LOWER(alpha_generator_address) = $2',
+          [topic.id, identity.generatorAddress]
+        )) {
+          return true;
+        }
+        return !!identity.consumerAddress && this.exists(
+          `SELECT 1 FROM subscriptions sub
+           JOIN strategies s ON LOWER(s.alpha_generator_address) = LOWER(sub.alpha_generator_address)
+           WHERE s.strategy_id = $1
+             AND LOWER(sub.alpha_consumer_address) = $2
+             AND (sub.strategy_id IS NULL OR sub.strategy_id = s.strategy_id)
+             AND sub.is_active = true
+             AND sub.expires_at > CURRENT_TIMESTAMP`,
+          [topic.id, identity.consumerAddress]
+        );
+    }
+  }
+
+  private async exists(query: string, values: any[]): Promise<boolean> {
+    const result = await this.pool.query(query, values);
+    return result.rows.length > 0;
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getTopicAccessService(pool: Pool): TopicAccessService {
+  return new TopicAccessService(pool);
+}
@@ -0,0 +1,98 @@
+/**
+ * WebSocket Protocol
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Parse and check topics and client messages before a session acts on them
+ */
+
+import { ClientMessage, ParsedTopic, WebSocketProtocolError } from './types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const MAX_REQUEST_ID_LENGTH = 100;
+
+/**
+ * Parse `strategy:<id>`, `generator:<address>` or `confirmation:<id>`; null when malformed
+ */
+export function parseTopic(topic: string): ParsedTopic | null {
+  const separator = topic.indexOf(':');
+  const kind = topic.slice(0, separator);
+  const id = topic.slice(separator + 1);
+
+  switch (kind) {
+    case 'strategy':
+    case 'confirmation':
+      return UUID_PATTERN.test(id) ? { kind, id } : null;
+    case 'generator':
+      // Events are tagged with lowercased addresses
+      return ADDRESS_PATTERN.test(id) && id === id.toLowerCase() ? { kind, id } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a text frame into a client message; throws WebSocketProtocolError when it is not one
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    throw new WebSocketProtocolError('Messages must be JSON');
+  }
+
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    throw new WebSocketProtocolError('Messages must be JSON objects');
+  }
+
+  const requestId = message.requestId;
+  if (requestId !== undefined && !(typeof requestId === 'string' && requestId.length <= MAX_REQUEST_ID_LENGTH)) {
+    throw new WebSocketProtocolError(`Invalid requestId. Must be a string of at most ${MAX_REQUEST_ID_LENGTH} characters`);
+  }
+
+  const invalid = (error: string) => new WebSocketProtocolError(error, requestId);
+
+  switch (message.type) {
+    case 'subscribe':
+    case 'unsubscribe':
+      if (!isStringArray(message.topics) || message.topics.length === 0) {
+        throw invalid('topics must be a non-empty array of strings');
+      }
+      if (message.type === 'subscribe' && message.lastEventId !== undefined && typeof message.lastEventId !== 'string') {
+        throw invalid('lastEventId must be a string');
+      }
+      return message;
+
+    case 'ack':
+      if (!isStringArray(message.eventIds)) {
+        throw invalid('eventIds must be an array of event ids');
+      }
+      return message;
+
+    case 'accept':
+    case 'reject':
+      if (typeof message.confirmationId !== 'string' || !UUID_PATTERN.test(message.confirmationId)) {
+        throw invalid('confirmationId must be a confirmation id');
+      }
+      if (message.revision !== undefined && !(Number.isInteger(message.revision) && message.revision >= 1)) {
+        throw invalid('Invalid revision. Must be a positive integer');
+      }
+      if (
+        message.modifiedParameters !== undefined &&
+        (typeof message.modifiedParameters !== 'object' || message.modifiedParameters === null)
+      ) {
+        throw invalid('modifiedParameters must be an object');
+      }
+      return message;
+
+    case 'ping':
+      return message;
+
+    default:
+      throw invalid('Unknown message type. Expected subscribe, unsubscribe, ack, accept, reject or ping');
+  }
+}
+
+function isStringArray(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,285 @@
+/**
+ * WebSocket Session
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: One client connection's subscriptions, unacknowledged events and requests,
+ * independent of the socket so the protocol can be exercised without a server
+ */
+
+import { BusEvent, isInAudience } from '../event-bus';
+import { ParameterValidationError } from '../protocol-contracts/registry';
+import { isValidSlippage, MAX_SLIPPAGE_BPS } from '../protocol-executor/swap-quoter';
+import { RiskLimitError } from '../risk-limits/types';
+import { BroadcastSupersededError } from '../trade-broadcast/types';
+import { parseClientMessage, parseTopic } from './protocol';
+import {
+  ACK_TIMEOUT_MS,
+  ClientMessage,
+  MAX_DELIVERY_ATTEMPTS,
+  MAX_TOPICS_PER_CONNECTION,
+  MAX_UNACKED_EVENTS,
+  ServerMessage,
+  WebSocketProtocolError,
+  WebSocketSessionOptions
+} from './types';
+
+const EVENT_ID_PATTERN = /^[1-9][0-9]{0,18}$/;
+
+interface UnackedEvent {
+  event: BusEvent;
+  attempt: number;
+  sentAt: number;
+}
+
+export class WebSocketSession {
+  private options: WebSocketSessionOptions;
+  private topics: Set<string> = new Set();
+  private unacked: Map<string, UnackedEvent> = new Map(); // In the order first sent
+
+  constructor(options: WebSocketSessionOptions) {
+    this.options = options;
+  }
+
+  get subscribedTopics(): string[] {
+    return [...this.topics];
+  }
+
+  get unackedCount(): number {
+    return this.unacked.size;
+  }
+
+  /**
+   * Greet a new connection with its id and the identity it was accepted as
+   */
+  welcome(): void {
+    const { identity } = this.options;
+    this.options.send({
+      type: 'welcome',
+      connectionId: this.options.connectionId,
+      ...(identity.consumerId ? { consumerId: identity.consumerId } : {}),
+      ...(identity.generatorId ? { generatorId: identity.generatorId } : {})
+    });
+  }
+
+  /**
+   * Handle one text frame from the client. Every failure is answered with a result message;
+   * nothing here closes the connection.
+   */
+  async handleMessage(raw: string): Promise<void> {
+    let message: ClientMessage;
+
+    try {
+      message = parseClientMessage(raw);
+    } catch (error: any) {
+      if (error instanceof WebSocketProtocolError) {
+        this.fail(error.requestId, 400, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    switch (message.type) {
+      case 'subscribe':
+        return this.subscribe(message.topics, message.lastEventId, message.requestId);
+      case 'unsubscribe':
+        return this.unsubscribe(message.topics, message.requestId);
+      case 'ack':
+        return this.acknowledge(message.eventIds);
+      case 'accept':
+      case 'reject':
+        return this.decide(message);
+      case 'ping':
+        this.options.send({ type: 'pong', requestId: message.requestId });
+        return;
+    }
+  }
+
+  /**
+   * Send a published event if it is meant for this client and carries a subscribed topic
+   */
+  deliver(event: BusEvent): void {
+    if (this.unacked.has(event.id) || !event.topics.some(topic => this.topics.has(topic))) {
+      return;
+    }
+
+    const { identity } = this.options;
+    if (!isInAudience(event.audience, { consumerId: identity.consumerId, generatorId: identity.generatorId })) {
+      return;
+    }
+
+    if (this.unacked.size >= MAX_UNACKED_EVENTS) {
+      const [oldest] = this.unacked.keys();
+      this.unacked.delete(oldest);
+    }
+
+    this.unacked.set(event.id, { event, attempt: 1, sentAt: Date.now() });
+    this.sendEvent(event, 1);
+  }
+
+  /**
+   * Send again every event unacknowledged for longer than the ack timeout; events out of
+   * attempts are dropped, and the client can recover them with lastEventId
+   */
+  redeliverUnacked(now: number = Date.now()): void {
+    for (const [id, pending] of this.unacked) {
+      if (now - pending.sentAt < ACK_TIMEOUT_MS) {
+        continue;
+      }
+
+      if (pending.attempt >= MAX_DELIVERY_ATTEMPTS) {
+        this.unacked.delete(id);
+        continue;
+      }
+
+      pending.attempt += 1;
+      pending.sentAt = now;
+      this.sendEvent(pending.event, pending.attempt);
+    }
+  }
+
+  private async subscribe(topics: string[], lastEventId: string | undefined, requestId?: string): Promise<void> {
+    if (lastEventId !== undefined && !EVENT_ID_PATTERN.test(lastEventId)) {
+      this.fail(requestId, 400, 'Invalid lastEventId. Must be an event id received on this API');
+      return;
+    }
+
+    const added = topics.filter(topic => !this.topics.has(topic));
+    if (this.topics.size + added.length > MAX_TOPICS_PER_CONNECTION) {
+      this.fail(requestId, 400, `A connection can subscribe to at most ${MAX_TOPICS_PER_CONNECTION} topics`);
+      return;
+    }
+
+    const subscribed: string[] = [];
+    const denied: string[] = [];
+
+    try {
+      for (const topic of added) {
+        const parsed = parseTopic(topic);
+        if (parsed && await this.options.access.canSubscribe(this.options.identity, parsed)) {
+          subscribed.push(topic);
+        } else {
+          denied.push(topic);
+        }
+      }
+
+      subscribed.forEach(topic => this.topics.add(topic));
+
+      if (!lastEventId || subscribed.length === 0) {
+        this.succeed(requestId, { subscribed, denied });
+        return;
+      }
+
+      // Catch the new topics up from the log; an incomplete replay means the client should
+      // reload current state over the REST API
+      const { identity } = this.options;
+      const replay = await this.options.replay(
+        { consumerId: identity.consumerId, generatorId: identity.generatorId },
+        lastEventId,
+        subscribed
+      );
+      replay.events.forEach(event => this.deliver(event));
+
+      this.succeed(requestId, { subscribed, denied, replayed: replay.events.length, complete: replay.complete });
+    } catch (error: any) {
+      // Leave the connection's topics as they were, so the client can retry the whole request
+      subscribed.forEach(topic => this.topics.delete(topic));
+
+      console.error(`WebSocket subscribe failed on ${this.options.connectionId}:`, error);
+      this.fail(requestId, 500, error.message || 'Subscribe failed');
+    }
+  }
+
+  private unsubscribe(topics: string[], requestId?: string): void {
+    const unsubscribed = topics.filter(topic => this.topics.delete(topic));
+
+    // Stop resending events no remaining topic covers
+    for (const [id, pending] of this.unacked) {
+      if (!pending.event.topics.some(topic => this.topics.has(topic))) {
+        this.unacked.delete(id);
+      }
+    }
+
+    this.succeed(requestId, { unsubscribed });
+  }
+
+  private acknowledge(eventIds: string[]): void {
+    eventIds.forEach(id => this.unacked.delete(id));
+  }
+
+  private async decide(message: Extract<ClientMessage, { type: 'accept' | 'reject' }>): Promise<void> {
+    const { requestId } = message;
+    const consumerId = this.options.identity.consumerId;
+
+    if (!consumerId) {
+      this.fail(requestId, 401, 'Only connections opened with X-Alpha-Consumer-Id can accept or reject trades');
+      return;
+    }
+
+    if (message.type === 'accept' && message.slippageBps !== undefined && !isValidSlippage(message.slippageBps)) {
+      this.fail(requestId, 400, `Invalid slippageBps. Must be an integer from 0 to ${MAX_SLIPPAGE_BPS}`);
+      return;
+    }
+
+    try {
+      const confirmation = await this.options.decide({
+        confirmationId: message.confirmationId,
+        action: message.type,
+        ...(message.type === 'accept'
+          ? { modifiedParameters: message.modifiedParameters, slippageBps: message.slippageBps }
+          : {}),
+        revision: message.revision,
+        consumerId
+      });
+
+      this.succeed(requestId, confirmation);
+    } catch (error: any) {
+      this.failWith(requestId, error);
+    }
+  }
+
+  // Same statuses the trade confirmation route gives these errors
+  private failWith(requestId: string | undefined, error: any): void {
+    if (error instanceof ParameterValidationError) {
+      this.fail(requestId, 400, error.message, error.fieldErrors);
+    } else if (error instanceof RiskLimitError) {
+      this.fail(requestId, 422, error.message, error.violations);
+    } else if (error instanceof BroadcastSupersededError) {
+      this.fail(requestId, 409, error.message);
+    } else if (error.message?.includes('Unauthorized')) {
+      this.fail(requestId, 403, error.message);
+    } else if (error.message?.includes('not found')) {
+      this.fail(requestId, 404, error.message);
+    } else if (error.message?.includes('Invalid') || error.message?.includes('expired')) {
+      this.fail(requestId, 400, error.message);
+    } else {
+      console.error(`WebSocket request failed on ${this.options.connectionId}:`, error);
+      this.fail(requestId, 500, error.message || 'Request failed');
+    }
+  }
+
+  private sendEvent(event: BusEvent, attempt: number): void {
+    this.options.send({
+      type: 'event',
+      id: event.id,
+      event: event.event,
+      topics: event.topics.filter(topic => this.topics.has(topic)),
+      data: event.data,
+      publishedAt: event.publishedAt,
+      attempt
+    });
+  }
+
+  private succeed(requestId: string | undefined, data: any): void {
+    this.options.send({ type: 'result', requestId, success: true, data });
+  }
+
+  private fail(requestId: string | undefined, status: number, error: string, details?: any): void {
+    this.options.send({
+      type: 'result',
+      requestId,
+      success: false,
+      status,
+      error,
+      ...(details !== undefined ? { details } : {})
+    });
+  }
+}
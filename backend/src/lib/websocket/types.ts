@@ -0,0 +1,108 @@
+/**
+ * WebSocket API Types
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Type definitions for the WebSocket protocol trading bots use to subscribe to topics,
+ * acknowledge events and decide on confirmations over one connection
+ */
+
+import { EventRecipient, EventReplay } from '../event-bus/types';
+
+export const WEBSOCKET_PATH = '/api/v1/ws';
+export const DEFAULT_WEBSOCKET_PORT = 3002;
+
+export const MAX_MESSAGE_BYTES = 64 * 1024;
+export const MAX_TOPICS_PER_CONNECTION = 100;
+
+// Events not acknowledged within the timeout are sent again, up to the attempt limit
+export const ACK_TIMEOUT_MS = 10000;
+export const MAX_DELIVERY_ATTEMPTS = 3;
+export const MAX_UNACKED_EVENTS = 500; // Oldest are dropped beyond this; the client resumes from the log
+
+export const HEARTBEAT_INTERVAL_MS = 30000;
+
+export type TopicKind = 'strategy' | 'generator' | 'confirmation';
+
+export interface ParsedTopic {
+  kind: TopicKind;
+  id: string; // Strategy id, lowercased generator address or confirmation id
+}
+
+// Who is on the other end of a connection, from the identity headers of the upgrade request
+export interface WebSocketIdentity {
+  consumerId?: string;
+  consumerAddress?: string;
+  generatorId?: string;
+  generatorAddress?: string;
+}
+
+export type ClientMessage =
+  | { type: 'subscribe'; requestId?: string; topics: string[]; lastEventId?: string }
+  | { type: 'unsubscribe'; requestId?: string; topics: string[] }
+  | { type: 'ack'; eventIds: string[] }
+  | {
+      type: 'accept';
+      requestId?: string;
+      confirmationId: string;
+      modifiedParameters?: Record<string, any>;
+      slippageBps?: number;
+      revision?: number;
+    }
+  | { type: 'reject'; requestId?: string; confirmationId: string; revision?: number }
+  | { type: 'ping'; requestId?: string };
+
+export type ServerMessage =
+  | { type: 'welcome'; connectionId: string; consumerId?: string; generatorId?: string }
+  | {
+      type: 'event';
+      id: string; // trade_events id; acknowledge with it
+      event: string; // Same names as the SSE stream, e.g. 'trade-broadcast'
+      topics: string[];
+      data: any;
+      publishedAt: string;
+      attempt: number; // Above 1 when resent for want of an ack
+    }
+  | { type: 'result'; requestId?: string; success: true; data: any }
+  | {
+      type: 'result';
+      requestId?: string;
+      success: false;
+      status: number; // The HTTP status the REST API gives the same error
+      error: string;
+      details?: any;
+    }
+  | { type: 'pong'; requestId?: string };
+
+export interface ConfirmationDecision {
+  confirmationId: string;
+  action: 'accept' | 'reject';
+  modifiedParameters?: Record<string, any>;
+  slippageBps?: number;
+  revision?: number;
+  consumerId: string;
+}
+
+export interface TopicAccess {
+  canSubscribe(identity: WebSocketIdentity, topic: ParsedTopic): Promise<boolean>;
+}
+
+export interface WebSocketSessionOptions {
+  connectionId: string;
+  identity: WebSocketIdentity;
+  send: (message: ServerMessage) => void;
+  access: TopicAccess;
+  replay: (recipient: EventRecipient, lastEventId: string, topics: string[]) => Promise<EventReplay>;
+  decide: (decision: ConfirmationDecision) => Promise<any>; // Accept or reject as the REST API does
+}
+
+/**
+ * Malformed client message; answered with a 400 result rather than closing the connection
+ */
+export class WebSocketProtocolError extends Error {
+  requestId?: string;
+
+  constructor(message: string, requestId?: string) {
+    super(message);
+    this.name = 'WebSocketProtocolError';
+    this.requestId = requestId;
+  }
+}
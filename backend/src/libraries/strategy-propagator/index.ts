@@ -1,15 +1,20 @@
 /**
  * @file strategy-propagator/index.ts
  * @description Strategy propagation service using Server-Sent Events (SSE)
- * Handles broadcasting strategies to active subscribers with recovery mechanism
+ * Handles broadcasting strategies to active subscribers with recovery mechanism.
+ * Subscribers connected to another backend instance are reached through the event bus.
  */
 
-import { db } from '@/db/db'
+import { db, pool } from '@/db/db'
 import { strategyDeliveriesTable } from '@/db/schema/strategy-deliveries-schema'
 import { subscriptionsTable } from '@/db/schema/subscriptions-schema'
-import { eq, and, gte, lt, lte } from 'drizzle-orm'
+import { eq, and, gte, lt, lte, or, isNull } from 'drizzle-orm'
 import { EventEmitter } from 'events'
 import { randomUUID } from 'crypto'
+import { BusEvent, INSTANCE_ID, publishEvent, subscribeToEvents } from '../../lib/event-bus'
+
+// Bus event carrying a strategy to a consumer connected to another instance
+const STRATEGY_EVENT = 'strategy'
 
 export interface Strategy {
   strategyId: string
@@ -41,7 +46,9 @@ export interface CLIResult {
  * StrategyPropagator - Handles strategy broadcasting to subscribers
  */
 export class StrategyPropagator extends EventEmitter {
-  private sseConnections: Map<string, any> = new Map()
+  private sseConnections: Map<string, any> = new Map() // Connected to this instance
+  private connectedConsumerIds: Map<string, string> = new Map() // Consumer ID -> address of each connection here
+  private unsubscribe: (() => void) | null = null // Set while connections are registered
   private maxRetries = 3
 
   /**
@@ -52,49 +59,11 @@ export class StrategyPropagator extends EventEmitter {
     const results: DeliveryResult[] = []
     const startTime = Date.now()
 
-    // Get target subscribers and their subscription IDs
-    let targetSubscribers: string[] = []
-    const subscriptionMap = new Map<string, string>()  // consumerAddress -> subscriptionId
-
-    if (subscribers) {
-      targetSubscribers = subscribers
-      // For manually specified subscribers, we need to fetch their subscription IDs
-      const now = new Date()
-      const subscriptions = await db
-        .select()
-        .from(subscriptionsTable)
-        .where(
-          and(
-            eq(subscriptionsTable.alphaGeneratorAddress, strategy.alphaGeneratorAddress),
-            eq(subscriptionsTable.isActive, true),
-            gte(subscriptionsTable.expiresAt, now)
-          )
-        )
-
-      for (const sub of subscriptions) {
-        if (subscribers.includes(sub.alphaConsumerAddress)) {
-          subscriptionMap.set(sub.alphaConsumerAddress, sub.subscriptionId)
-        }
-      }
-    } else {
-      // Get all active subscribers for this generator
-      const now = new Date()
-      const activeSubscriptions = await db
-        .select()
-        .from(subscriptionsTable)
-        .where(
-          and(
-            eq(subscriptionsTable.alphaGeneratorAddress, strategy.alphaGeneratorAddress),
-            eq(subscriptionsTable.isActive, true),
-            gte(subscriptionsTable.expiresAt, now)
-          )
-        )
+    // Get target subscribers and their subscription IDs (consumerAddress -> subscriptionId)
+    const subscriptionMap = await this.getStrategySubscriptions(strategy)
 
-      for (const sub of activeSubscriptions) {
-        targetSubscribers.push(sub.alphaConsumerAddress)
-        subscriptionMap.set(sub.alphaConsumerAddress, sub.subscriptionId)
-      }
-    }
+    // Manually specified subscribers still need a subscription covering this strategy
+    const targetSubscribers = subscribers ?? Array.from(subscriptionMap.keys())
 
     // Broadcast to each subscriber
     for (const consumerAddress of targetSubscribers) {
@@ -141,6 +110,13 @@ export class StrategyPropagator extends EventEmitter {
               deliveryStatus: 'queued'
             })
           status = 'queued'
+
+          // An instance holding the consumer's connection delivers it and marks it delivered.
+          // Bus audiences are consumer IDs; without one the delivery waits for getMissedStrategies.
+          const consumerId = await this.resolveConsumerId(consumerAddress)
+          if (consumerId) {
+            await publishEvent(pool, STRATEGY_EVENT, { type: 'consumer', id: consumerId }, { deliveryId, strategy })
+          }
         }
       } catch (err: any) {
         status = 'failed'
@@ -183,6 +159,34 @@ export class StrategyPropagator extends EventEmitter {
     return results
   }
 
+  /**
+   * Get active subscriptions covering a strategy: the generator's generator-wide subscriptions and
+   * those scoped to this strategy. A consumer holding both is mapped to the strategy-scoped one.
+   */
+  private async getStrategySubscriptions(strategy: Strategy): Promise<Map<string, string>> {
+    const now = new Date()
+    const subscriptions = await db
+      .select()
+      .from(subscriptionsTable)
+      .where(
+        and(
+          eq(subscriptionsTable.alphaGeneratorAddress, strategy.alphaGeneratorAddress),
+          or(isNull(subscriptionsTable.strategyId), eq(subscriptionsTable.strategyId, strategy.strategyId)),
+          eq(subscriptionsTable.isActive, true),
+          gte(subscriptionsTable.expiresAt, now)
+        )
+      )
+
+    const subscriptionMap = new Map<string, string>()
+    for (const sub of subscriptions) {
+      if (sub.strategyId || !subscriptionMap.has(sub.alphaConsumerAddress)) {
+        subscriptionMap.set(sub.alphaConsumerAddress, sub.subscriptionId)
+      }
+    }
+
+    return subscriptionMap
+  }
+
   /**
    * Queue strategy delivery for specific subscribers
    */
@@ -200,13 +204,15 @@ export class StrategyPropagator extends EventEmitter {
         and(
           eq(subscriptionsTable.isActive, true),
           gte(subscriptionsTable.expiresAt, now),
+          or(isNull(subscriptionsTable.strategyId), eq(subscriptionsTable.strategyId, strategyId)),
           ...(generatorAddress ? [eq(subscriptionsTable.alphaGeneratorAddress, generatorAddress)] : [])
         )
       )
 
     const subscriptionMap = new Map<string, string>()
     for (const sub of subscriptions) {
-      if (subscriberAddresses.includes(sub.alphaConsumerAddress)) {
+      if (subscriberAddresses.includes(sub.alphaConsumerAddress) &&
+          (sub.strategyId || !subscriptionMap.has(sub.alphaConsumerAddress))) {
         subscriptionMap.set(sub.alphaConsumerAddress, sub.subscriptionId)
       }
     }
@@ -343,6 +349,19 @@ export class StrategyPropagator extends EventEmitter {
    */
   registerConnection(consumerAddress: string, connection: any): void {
     this.sseConnections.set(consumerAddress, connection)
+
+    // Bus deliveries name the consumer ID; map it back to this connection once resolved
+    this.resolveConsumerId(consumerAddress)
+      .then(consumerId => {
+        if (consumerId && this.sseConnections.get(consumerAddress) === connection) {
+          this.connectedConsumerIds.set(consumerId, consumerAddress)
+        }
+      })
+      .catch((error: any) => console.error(`Failed to resolve consumer ${consumerAddress}:`, error.message))
+
+    if (!this.unsubscribe) {
+      this.unsubscribe = subscribeToEvents(event => this.deliverFromBus(event))
+    }
   }
 
   /**
@@ -350,6 +369,58 @@ export class StrategyPropagator extends EventEmitter {
    */
   unregisterConnection(consumerAddress: string): void {
     this.sseConnections.delete(consumerAddress)
+
+    for (const [consumerId, address] of this.connectedConsumerIds) {
+      if (address === consumerAddress) {
+        this.connectedConsumerIds.delete(consumerId)
+      }
+    }
+
+    if (this.sseConnections.size === 0 && this.unsubscribe) {
+      this.unsubscribe()
+      this.unsubscribe = null
+    }
+  }
+
+  /**
+   * Deliver a strategy another instance queued for a consumer connected here
+   */
+  private deliverFromBus(event: BusEvent): void {
+    if (event.event !== STRATEGY_EVENT || event.origin === INSTANCE_ID || event.audience.type !== 'consumer') {
+      return
+    }
+
+    const consumerAddress = this.connectedConsumerIds.get(event.audience.id)
+    const connection = consumerAddress && this.sseConnections.get(consumerAddress)
+    if (!connection) {
+      return
+    }
+
+    const { deliveryId, strategy } = event.data
+    connection.write(`data: ${JSON.stringify(strategy)}\n\n`)
+
+    db.update(strategyDeliveriesTable)
+      .set({ deliveryStatus: 'delivered', deliveredAt: new Date() })
+      .where(
+        and(
+          eq(strategyDeliveriesTable.deliveryId, deliveryId),
+          eq(strategyDeliveriesTable.deliveryStatus, 'queued')
+        )
+      )
+      .then(() => this.emit('delivery:success', { deliveryId, consumerAddress }))
+      .catch((error: any) => console.error(`Failed to mark delivery ${deliveryId} delivered:`, error.message))
+  }
+
+  /**
+   * Look up the consumer ID of a wallet address; null when no consumer has it
+   */
+  private async resolveConsumerId(consumerAddress: string): Promise<string | null> {
+    const result = await pool.query(
+      'SELECT consumer_id FROM alpha_consumers WHERE LOWER(wallet_address) = LOWER($1)',
+      [consumerAddress]
+    )
+
+    return result.rows[0]?.consumer_id ?? null
   }
 
   /**
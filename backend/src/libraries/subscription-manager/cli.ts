@@ -19,8 +19,8 @@ async function main() {
 Subscription Manager CLI
 
 Commands:
-  subscribe --generator <address> --consumer <address> [--fee <amount>]
-    Create a new subscription
+  subscribe --generator <address> --consumer <address> [--fee <amount>] [--strategy <id>]
+    Create a new subscription (to one strategy with --strategy, else to every strategy)
 
   list-active [--consumer <address>] [--generator <address>] [--json]
     List active subscriptions
@@ -46,6 +46,7 @@ Options:
           const generatorIndex = args.indexOf('--generator')
           const consumerIndex = args.indexOf('--consumer')
           const feeIndex = args.indexOf('--fee')
+          const strategyIndex = args.indexOf('--strategy')
 
           if (generatorIndex === -1 || consumerIndex === -1) {
             console.error('Error: --generator and --consumer are required')
@@ -55,11 +56,13 @@ Options:
           const generatorAddress = args[generatorIndex + 1]
           const consumerAddress = args[consumerIndex + 1]
           const fee = feeIndex !== -1 ? args[feeIndex + 1] : '100000000000000000'
+          const strategyId = strategyIndex !== -1 ? args[strategyIndex + 1] : undefined
 
           const result = await subscriptionManager.cli.subscribe({
             generatorAddress,
             consumerAddress,
-            fee
+            fee,
+            strategyId
           })
 
           if (result.exitCode === 0) {
@@ -6,7 +6,7 @@
 
 import { db } from '@/db/db'
 import { subscriptionsTable } from '@/db/schema/subscriptions-schema'
-import { eq, and, desc, lt, gte } from 'drizzle-orm'
+import { eq, and, desc, lt, gte, isNull } from 'drizzle-orm'
 import { EventEmitter } from 'events'
 import { randomUUID } from 'crypto'
 
@@ -16,11 +16,15 @@ export interface SubscriptionOptions {
   fee: string // Wei amount as string
   encryptedConsumerAddress?: string
   subscriptionTxHash?: string
+  strategyId?: string // Follow only this strategy of the generator; omit to follow all of them
 }
 
+export type SubscriptionScope = 'generator' | 'strategy'
+
 export interface Subscription {
   subscriptionId: string
-  strategyId?: string
+  strategyId?: string | null // Set when subscriptionType is 'strategy'
+  subscriptionType?: SubscriptionScope
   alphaConsumerAddress: string
   alphaGeneratorAddress: string
   subscribedAt: Date
@@ -43,14 +47,14 @@ export class SubscriptionManager extends EventEmitter {
    * Create a new subscription
    */
   async subscribe(options: SubscriptionOptions): Promise<Subscription> {
-    const { generatorAddress, consumerAddress, fee, encryptedConsumerAddress, subscriptionTxHash } = options
+    const { generatorAddress, consumerAddress, fee, encryptedConsumerAddress, subscriptionTxHash, strategyId } = options
 
     // Normalize addresses to lowercase for consistent storage and comparison
     const normalizedGeneratorAddress = generatorAddress.toLowerCase()
     const normalizedConsumerAddress = consumerAddress.toLowerCase()
     const normalizedSubscriptionTxHash = subscriptionTxHash?.toLowerCase()
 
-    // Check for existing active subscription using normalized addresses
+    // Check for existing active subscription with the same scope using normalized addresses
     const existing = await db
       .select()
       .from(subscriptionsTable)
@@ -58,6 +62,7 @@ export class SubscriptionManager extends EventEmitter {
         and(
           eq(subscriptionsTable.alphaGeneratorAddress, normalizedGeneratorAddress),
           eq(subscriptionsTable.alphaConsumerAddress, normalizedConsumerAddress),
+          strategyId ? eq(subscriptionsTable.strategyId, strategyId) : isNull(subscriptionsTable.strategyId),
           eq(subscriptionsTable.isActive, true),
           gte(subscriptionsTable.expiresAt, new Date())
         )
@@ -86,6 +91,8 @@ export class SubscriptionManager extends EventEmitter {
         subscriptionId,
         alphaConsumerAddress: normalizedConsumerAddress,
         alphaGeneratorAddress: normalizedGeneratorAddress,
+        strategyId: strategyId ?? null,
+        subscriptionType: strategyId ? 'strategy' : 'generator',
         subscribedAt,
         expiresAt,
         isActive: true,
@@ -320,13 +327,15 @@ export class SubscriptionManager extends EventEmitter {
       generatorAddress: string
       consumerAddress: string
       fee?: string
+      strategyId?: string
     }): Promise<CLIResult> => {
       try {
         const fee = args.fee || '100000000000000000'
         const subscription = await this.subscribe({
           generatorAddress: args.generatorAddress,
           consumerAddress: args.consumerAddress,
-          fee
+          fee,
+          strategyId: args.strategyId
         })
         return {
           exitCode: 0,
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Pool } from 'pg'
+import {
+  getIdempotencyService,
+  hashRequest,
+  IdempotencyInProgressError,
+  IdempotencyKeyReuseError,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_RENEW_SECONDS,
+  IDEMPOTENT_REPLAY_HEADER,
+  validateIdempotencyKey
+} from '@/src/lib/idempotency'
+
+function errorJson(error: string, status: number): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error
+  }, {
+    status,
+    headers: {
+      'Access-Control-Allow-Origin': '*'
+    }
+  })
+}
+
+/**
+ * Handed to the route handler, which calls `committed()` once its changes are saved
+ */
+export interface IdempotencyScope {
+  committed(): void
+}
+
+const NO_SCOPE: IdempotencyScope = { committed: () => undefined }
+
+/**
+ * Idempotency-Key support for App Router trade routes.
+ *
+ * Without the header, or without a caller (the handler answers 401/400 itself), the handler just runs.
+ * With it, the first request runs and its response is stored; retries with the same key and body get
+ * that response back with `Idempotent-Replayed: true`, a different body gets 422, and a retry while
+ * the first request is still running gets 409. A 5xx response or a throw releases the key so the
+ * request can be retried, unless the handler had already called `scope.committed()`: then the failure
+ * is stored and replayed, as running the request again would repeat what it saved. The claim's lease
+ * is renewed while the handler runs, so a slow request keeps its key.
+ *
+ * `getCallerId` scopes keys to whoever sent the request, read from a header or the parsed body.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  getCallerId: (body: any) => string | null | undefined,
+  handler: (scope: IdempotencyScope) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+
+  if (idempotencyKey === null) {
+    return handler(NO_SCOPE)
+  }
+
+  const keyError = validateIdempotencyKey(idempotencyKey)
+  if (keyError) {
+    return errorJson(keyError, 400)
+  }
+
+  // Read a copy; the handler parses the original body itself
+  const body = await request.clone().json().catch(() => null)
+  const callerId = getCallerId(body)?.toLowerCase()
+
+  if (!callerId) {
+    return handler(NO_SCOPE)
+  }
+
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    const service = getIdempotencyService(pool)
+    const requestHash = hashRequest(request.method, request.nextUrl.pathname, body)
+
+    let claim
+    try {
+      claim = await service.begin(callerId, idempotencyKey, requestHash)
+    } catch (error: any) {
+      if (error instanceof IdempotencyKeyReuseError) {
+        return errorJson(error.message, 422)
+      }
+      if (error instanceof IdempotencyInProgressError) {
+        return errorJson(error.message, 409)
+      }
+      throw error
+    }
+
+    if (claim.replay) {
+      return NextResponse.json(claim.body, {
+        status: claim.status,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          [IDEMPOTENT_REPLAY_HEADER]: 'true'
+        }
+      })
+    }
+
+    const { claimToken } = claim
+    let committed = false
+    const scope: IdempotencyScope = { committed: () => { committed = true } }
+
+    const complete = async (status: number, responseBody: any) => {
+      if (!(await service.complete(callerId, idempotencyKey, claimToken, status, responseBody))) {
+        console.warn(`Idempotency-Key ${idempotencyKey} was claimed by another request before this one completed`)
+      }
+    }
+
+    const renewal = setInterval(() => {
+      service.renew(callerId, idempotencyKey, claimToken).catch(error => {
+        console.error('Failed to renew Idempotency-Key claim:', error)
+      })
+    }, IDEMPOTENCY_RENEW_SECONDS * 1000)
+
+    let response: NextResponse
+    try {
+      response = await handler(scope)
+    } catch (error: any) {
+      if (committed) {
+        await complete(500, {
+          success: false,
+          error: `Request failed after its changes were saved: ${error.message}`
+        })
+      } else {
+        await service.release(callerId, idempotencyKey, claimToken)
+      }
+      throw error
+    } finally {
+      clearInterval(renewal)
+    }
+
+    if (response.status >= 500 && !committed) {
+      await service.release(callerId, idempotencyKey, claimToken)
+    } else {
+      const responseBody = await response.clone().json().catch(() => null)
+      await complete(response.status, responseBody)
+    }
+
+    return response
+  } finally {
+    await pool.end()
+  }
+}
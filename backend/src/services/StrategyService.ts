@@ -2,6 +2,7 @@ import { BaseService } from './BaseService'
 import { StrategyModel } from '@/app/models/Strategy'
 import { ApiError } from '@/src/utils/errors'
 import type { NewStrategy } from '@/db/schema/strategies-schema'
+import { isValidExpiryMinutes, MAX_EXPIRY_MINUTES } from '@/src/lib/trade-broadcast/expiry'
 
 export class StrategyService extends BaseService {
   // Create a new strategy
@@ -12,9 +13,11 @@ export class StrategyService extends BaseService {
     strategyJSON?: any
     supportedProtocols?: string[]
     alphaGeneratorAddress?: string
+    expiryMinutes?: number | null
   }) {
     try {
       this.validateWalletAddress(data.walletAddress)
+      this.validateExpiryMinutes(data.expiryMinutes)
 
       // Check if strategy name already exists for this alpha generator
       const existing = await StrategyModel.findByWallet(data.alphaGeneratorAddress || data.walletAddress)
@@ -31,6 +34,7 @@ export class StrategyService extends BaseService {
         supportedProtocols: data.supportedProtocols || [],
         strategyJSON: data.strategyJSON || {},
         alphaGeneratorAddress: data.alphaGeneratorAddress || data.walletAddress,
+        expiryMinutes: data.expiryMinutes ?? null,
         isActive: true,
         subscriberCount: 0,
         totalVolume: "0"
@@ -132,6 +136,8 @@ export class StrategyService extends BaseService {
         this.validateWalletAddress(data.walletAddress)
       }
 
+      this.validateExpiryMinutes(data.expiryMinutes)
+
       const updated = await StrategyModel.update(id, data)
       this.log('Strategy updated', { id })
 
@@ -190,4 +196,11 @@ export class StrategyService extends BaseService {
       this.handleError(error, 'getStrategyPerformance')
     }
   }
+
+  // Broadcast expiry window; null or undefined falls back to the default
+  private validateExpiryMinutes(expiryMinutes?: number | null) {
+    if (expiryMinutes !== undefined && expiryMinutes !== null && !isValidExpiryMinutes(expiryMinutes)) {
+      throw new ApiError(`expiryMinutes must be an integer from 1 to ${MAX_EXPIRY_MINUTES}`, 400)
+    }
+  }
 }
@@ -0,0 +1,267 @@
+/**
+ * Auto-Trade Service
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Accept and execute copied trades on a consumer's behalf under their subscription policy
+ */
+
+import { Pool } from 'pg';
+import {
+  AutoPolicy,
+  AutoResult,
+  AutoTradeNotice,
+  getAutoSignerKey,
+  getTradeBroadcastService,
+  matchAutoPolicy,
+  postAutoTradeWebhook,
+  validateAutoPolicy
+} from '../lib/trade-broadcast';
+import { getRiskLimitService, RiskLimitError } from '../lib/risk-limits';
+import { getOwnedSubscription } from './subscription-sizing-service';
+import { getSSEBroadcastService } from './sse-broadcast-service';
+import { getTradeExecutionService } from './trade-execution-service';
+
+export const AUTO_TRADE_BATCH_SIZE = 20;
+export const AUTO_TRADE_LEASE_MS = 5 * 60 * 1000; // Longer than executing a trade takes
+
+export interface SubscriptionAutoPolicy {
+  subscriptionId: string;
+  alphaGeneratorAddress: string;
+  autoPolicy: AutoPolicy | null;
+}
+
+export interface AutoTradeOutcome {
+  confirmationId: string;
+  consumerId: string;
+  result: AutoResult;
+}
+
+export class AutoTradeService {
+  private pool: Pool;
+  private broadcastService: ReturnType<typeof getTradeBroadcastService>;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+    this.broadcastService = getTradeBroadcastService(pool);
+  }
+
+  /**
+   * Get a subscription's auto-trade policy; consumerId may be the consumer UUID or wallet address
+   */
+  async getAutoPolicy(subscriptionId: string, consumerId: string): Promise<SubscriptionAutoPolicy> {
+    const row = await getOwnedSubscription(this.pool, subscriptionId, consumerId);
+
+    return {
+      subscriptionId: row.subscription_id,
+      alphaGeneratorAddress: row.alpha_generator_address,
+      autoPolicy: row.auto_policy
+    };
+  }
+
+  /**
+   * Set (or clear, with null) the policy applied to trades fanned out on this subscription
+   */
+  async setAutoPolicy(
+    subscriptionId: string,
+    consumerId: string,
+    policy: AutoPolicy | null
+  ): Promise<SubscriptionAutoPolicy> {
+    if (policy !== null) {
+      const errors = validateAutoPolicy(policy);
+      if (errors.length > 0) {
+        throw new Error(`Invalid auto policy: ${errors.join('; ')}`);
+      }
+    }
+
+    await getOwnedSubscription(this.pool, subscriptionId, consumerId);
+
+    // Keep only the known fields
+    const stored: AutoPolicy | null = policy && {
+      autoAccept: policy.autoAccept,
+      ...(policy.functions ? { functions: policy.functions } : {}),
+      ...(policy.assets ? { assets: policy.assets.map(asset => asset.toLowerCase()) } : {}),
+      ...(policy.minAmount !== undefined ? { minAmount: policy.minAmount } : {}),
+      ...(policy.maxAmount !== undefined ? { maxAmount: policy.maxAmount } : {}),
+      ...(policy.autoExecute ? { autoExecute: true, signer: policy.signer } : {}),
+      ...(policy.webhookUrl ? { webhookUrl: policy.webhookUrl } : {})
+    };
+
+    const result = await this.pool.query(
+      `UPDATE subscriptions
+       SET auto_policy = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE subscription_id = $1
+       RETURNING subscription_id, alpha_generator_address, auto_policy`,
+      [subscriptionId, stored ? JSON.stringify(stored) : null]
+    );
+
+    const row = result.rows[0];
+
+    return {
+      subscriptionId: row.subscription_id,
+      alphaGeneratorAddress: row.alpha_generator_address,
+      autoPolicy: row.auto_policy
+    };
+  }
+
+  /**
+   * Claim confirmations whose policy has not run yet and act on each; trades that do not match stay PENDING
+   *
+   * A claim is a lease: rows a crashed worker left claimed are picked up again after AUTO_TRADE_LEASE_MS.
+   * A failure is recorded on its own row and does not stop the rest of the batch.
+   */
+  async processQueued(limit: number = AUTO_TRADE_BATCH_SIZE): Promise<AutoTradeOutcome[]> {
+    const result = await this.pool.query(
+      `UPDATE protocol_trade_confirmations tc
+      SET auto_claimed_at = CURRENT_TIMESTAMP
+      FROM trade_broadcasts tb, alpha_consumers ac
+      WHERE tc.id IN (
+          SELECT c.id
+          FROM protocol_trade_confirmations c
+          JOIN trade_broadcasts b ON c.trade_broadcast_id = b.id
+          WHERE c.status = 'PENDING'
+            AND c.auto_policy IS NOT NULL
+            AND c.auto_result IS NULL
+            AND (c.auto_claimed_at IS NULL OR c.auto_claimed_at < CURRENT_TIMESTAMP - $2 * INTERVAL '1 millisecond')
+            AND b.expires_at > CURRENT_TIMESTAMP
+          ORDER BY c.received_at
+          LIMIT $1
+          FOR UPDATE OF c SKIP LOCKED
+        )
+        AND tc.trade_broadcast_id = tb.id
+        AND ac.consumer_id = tc.alpha_consumer_id
+      RETURNING
+        tc.id, tc.alpha_consumer_id, tc.modified_parameters, tc.auto_policy, tc.broadcast_revision,
+        tb.id as broadcast_id, tb.protocol, tb.function_name, tb.correlation_id,
+        ac.wallet_address`,
+      [limit, AUTO_TRADE_LEASE_MS]
+    );
+
+    const outcomes: AutoTradeOutcome[] = [];
+
+    // One at a time so a consumer's trades share their signer's nonce sequence
+    for (const row of result.rows) {
+      let autoResult: AutoResult;
+
+      try {
+        autoResult = await this.processConfirmation(row);
+      } catch (error: any) {
+        console.error(`Auto-trade failed for confirmation ${row.id}:`, error.message);
+
+        autoResult = { action: 'failed', reason: error.message, processedAt: new Date().toISOString() };
+
+        // If even this write fails, the lease runs out and the row is tried again
+        await this.broadcastService.recordAutoResult(row.id, autoResult).catch(() => undefined);
+      }
+
+      outcomes.push({ confirmationId: row.id, consumerId: row.alpha_consumer_id, result: autoResult });
+    }
+
+    return outcomes;
+  }
+
+  private async processConfirmation(row: any): Promise<AutoResult> {
+    const policy: AutoPolicy = row.auto_policy;
+    const result = await this.decide(row, policy);
+
+    // Only actions taken on the consumer's behalf are announced
+    if (result.action !== 'skipped') {
+      const notice: AutoTradeNotice = {
+        event: 'auto-trade',
+        confirmationId: row.id,
+        broadcastId: row.broadcast_id,
+        correlationId: row.correlation_id,
+        consumerId: row.alpha_consumer_id,
+        protocol: row.protocol,
+        functionName: row.function_name,
+        parameters: row.modified_parameters,
+        action: result.action,
+        reason: result.reason,
+        transactionHash: result.transactionHash,
+        processedAt: result.processedAt
+      };
+
+      await getSSEBroadcastService(this.pool).sendAutoTradeNotice(row.alpha_consumer_id, notice);
+
+      if (policy.webhookUrl) {
+        result.webhookStatus = await postAutoTradeWebhook(policy.webhookUrl, notice);
+      }
+    }
+
+    await this.broadcastService.recordAutoResult(row.id, result);
+    return result;
+  }
+
+  private async decide(row: any, policy: AutoPolicy): Promise<AutoResult> {
+    const processedAt = () => new Date().toISOString();
+    const match = matchAutoPolicy(policy, row.protocol, row.function_name, row.modified_parameters);
+
+    if (!match.matched) {
+      return { action: 'skipped', reason: match.reason, processedAt: processedAt() };
+    }
+
+    // The limit check and the acceptance share a transaction under the consumer's lock
+    let accepted: boolean;
+
+    try {
+      accepted = await getRiskLimitService(this.pool).applyWithinLimits(
+        row.alpha_consumer_id,
+        [{
+          confirmationId: row.id,
+          protocol: row.protocol,
+          functionName: row.function_name,
+          parameters: row.modified_parameters
+        }],
+        client => this.broadcastService.acceptTrade(
+          row.id,
+          row.modified_parameters,
+          row.broadcast_revision,
+          { type: 'auto_policy' },
+          client
+        )
+      );
+    } catch (error: any) {
+      if (error instanceof RiskLimitError) {
+        return { action: 'skipped', reason: error.message, processedAt: processedAt() };
+      }
+      throw error;
+    }
+
+    if (!accepted) {
+      return { action: 'skipped', reason: 'Trade was already decided', processedAt: processedAt() };
+    }
+
+    if (!policy.autoExecute || !policy.signer) {
+      return { action: 'accepted', processedAt: processedAt() };
+    }
+
+    const privateKey = getAutoSignerKey(policy.signer, row.wallet_address);
+
+    // Simulated execution needs no key; live execution without one is left for the consumer
+    if (!privateKey && process.env.EXECUTOR_MODE !== 'simulated') {
+      return {
+        action: 'accepted',
+        reason: `No ${policy.signer} signer is configured for ${row.wallet_address}; execute the trade manually`,
+        processedAt: processedAt()
+      };
+    }
+
+    try {
+      const execution = await getTradeExecutionService(this.pool).executeTrade({
+        confirmationId: row.id,
+        consumerAddress: row.wallet_address,
+        privateKey,
+        actor: { type: 'auto_policy' }
+      });
+
+      return execution.status === 'success'
+        ? { action: 'executed', transactionHash: execution.transactionHash, processedAt: processedAt() }
+        : { action: 'failed', reason: execution.errorMessage, processedAt: processedAt() };
+    } catch (error: any) {
+      return { action: 'failed', reason: error.message, processedAt: processedAt() };
+    }
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getAutoTradeService(pool: Pool): AutoTradeService {
+  return new AutoTradeService(pool);
+}
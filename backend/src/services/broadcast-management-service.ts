@@ -0,0 +1,110 @@
+/**
+ * Broadcast Management Service
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Let a generator cancel or amend a live broadcast and tell the affected consumers
+ */
+
+import { Pool } from 'pg';
+import {
+  BroadcastAmendment,
+  BroadcastCancellation,
+  getTradeBroadcastService
+} from '../lib/trade-broadcast';
+import { getSSEBroadcastService } from './sse-broadcast-service';
+
+export interface CancelBroadcastRequest {
+  broadcastId: string;
+  generatorAddress: string; // Must own the broadcast's strategy
+  reason?: string;
+  onCommitted?: () => void; // Called once the cancellation is saved, before consumers are told
+}
+
+export interface AmendBroadcastRequest {
+  broadcastId: string;
+  generatorAddress: string;
+  parameters: Record<string, any>; // Full replacement; `{ legs: [...] }` for bundles
+  onCommitted?: () => void; // Called once the amendment is saved, before consumers are told
+}
+
+export class BroadcastManagementService {
+  private pool: Pool;
+  private broadcastService: ReturnType<typeof getTradeBroadcastService>;
+  private sseService: ReturnType<typeof getSSEBroadcastService>;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+    this.broadcastService = getTradeBroadcastService(pool);
+    this.sseService = getSSEBroadcastService(pool);
+  }
+
+  /**
+   * Cancel a broadcast and send each consumer with an open confirmation a `trade-cancelled` event
+   */
+  async cancelBroadcast(request: CancelBroadcastRequest): Promise<BroadcastCancellation> {
+    await this.assertOwner(request.broadcastId, request.generatorAddress);
+
+    const cancellation = await this.broadcastService.cancelBroadcast(request.broadcastId, request.reason);
+    request.onCommitted?.();
+
+    for (const recipient of cancellation.cancelled) {
+      await this.sseService.sendTradeCancelled(recipient.alphaConsumerId, {
+        ...recipient,
+        tradeBroadcastId: cancellation.broadcastId,
+        correlationId: cancellation.correlationId,
+        status: 'CANCELLED',
+        reason: cancellation.reason,
+        cancelledAt: cancellation.cancelledAt
+      });
+    }
+
+    return cancellation;
+  }
+
+  /**
+   * Amend a broadcast and send each consumer with an open confirmation a `trade-amended` event;
+   * the auto-trade worker then acts on the new revision as it would on a fresh broadcast
+   */
+  async amendBroadcast(request: AmendBroadcastRequest): Promise<BroadcastAmendment> {
+    await this.assertOwner(request.broadcastId, request.generatorAddress);
+
+    const amendment = await this.broadcastService.amendBroadcast(request.broadcastId, request.parameters);
+    request.onCommitted?.();
+
+    for (const recipient of amendment.amended) {
+      await this.sseService.sendTradeAmended(recipient.alphaConsumerId, {
+        ...recipient,
+        tradeBroadcastId: amendment.broadcastId,
+        correlationId: amendment.correlationId,
+        status: 'PENDING',
+        revision: amendment.revision,
+        parameters: amendment.parameters,
+        amendedAt: amendment.amendedAt
+      });
+    }
+
+    return amendment;
+  }
+
+  private async assertOwner(broadcastId: string, generatorAddress: string): Promise<void> {
+    const result = await this.pool.query(
+      `SELECT s.alpha_generator_address
+       FROM trade_broadcasts tb
+       JOIN strategies s ON tb.strategy_id = s.strategy_id
+       WHERE tb.id = $1`,
+      [broadcastId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Trade broadcast not found');
+    }
+
+    if (result.rows[0].alpha_generator_address?.toLowerCase() !== generatorAddress.toLowerCase()) {
+      throw new Error('Unauthorized to manage this broadcast');
+    }
+  }
+}
+
+// Export factory function - creates new instance per request
+export function getBroadcastManagementService(pool: Pool): BroadcastManagementService {
+  return new BroadcastManagementService(pool);
+}
@@ -5,9 +5,43 @@
  */
 
 import { Pool } from 'pg';
-import { getTradeBroadcastService } from '../lib/trade-broadcast';
+import {
+  AutoResult,
+  BroadcastSupersededError,
+  BundleLeg,
+  ConfirmationEvent,
+  getLegParameters,
+  getTradeBroadcastService,
+  mergeLegModifications,
+  SizingResult,
+  SizingRule,
+  toLegFieldErrors
+} from '../lib/trade-broadcast';
 import { getSSEBroadcastService } from './sse-broadcast-service';
-import { FUNCTION_SIGNATURES } from '../lib/protocol-contracts/registry';
+import { getFunctionSignature, getSwapRoute, SwapHop } from '../lib/protocol-adapters';
+import {
+  getProtocolExecutor,
+  DEFAULT_SLIPPAGE_BPS,
+  QUOTED_SWAPS,
+  applyQuote,
+  isQuotableSwap
+} from '../lib/protocol-executor';
+import {
+  ApprovalStep,
+  ExecutionRequest,
+  SimulationResult,
+  StrategyExecutionMode,
+  StrategyLegResult,
+  SwapQuote
+} from '../lib/protocol-executor/types';
+import {
+  getProtocolRegistry,
+  ParameterValidationError,
+  ParamValidationResult,
+  ParamFieldError
+} from '../lib/protocol-contracts/registry';
+import { assertNetworkMatch } from '../lib/protocol-contracts/networks';
+import { getRiskLimitService } from '../lib/risk-limits';
 
 export interface ConfirmationListRequest {
   consumerId: string;
@@ -20,9 +54,30 @@ export interface ConfirmationUpdateRequest {
   confirmationId: string;
   action: 'accept' | 'reject';
   modifiedParameters?: Record<string, any>;
+  slippageBps?: number; // Requote a swap's slippage bound with this tolerance (default 50 when resized)
+  revision?: number; // Broadcast revision the consumer reviewed; refused if the generator has amended since
   consumerId: string;
 }
 
+export interface ConfirmationSimulationRequest {
+  confirmationId: string;
+  consumerId: string;
+  consumerAddress: string; // Address the call is simulated from
+  modifiedParameters?: Record<string, any>;
+  slippageBps?: number;
+}
+
+export interface ConfirmationSimulationResponse {
+  confirmationId: string;
+  functionName: string;
+  protocol: string;
+  network: string;
+  parameters: Record<string, any>;
+  simulation: SimulationResult;
+  approval: ApprovalStep | null; // Approval to send from consumerAddress first, when status is 'required'
+  quote?: SwapQuote; // Set when the swap's slippage bound was requoted
+}
+
 export interface ConfirmationResponse {
   id: string;
   tradeBroadcastId: string;
@@ -31,7 +86,18 @@ export interface ConfirmationResponse {
   modifiedParameters: Record<string, any>;
   status: string;
   gasPrice?: string;
+  feeSpeed?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
   transactionHash?: string;
+  sizingRule?: SizingRule | null; // Subscription sizing rule applied when the trade was fanned out
+  sizingResult?: SizingResult | null;
+  autoResult?: AutoResult | null; // What the subscription's auto-trade policy did, if it has one
+  legs?: BundleLeg[] | null; // Set for bundles; parameters then hold { legs: [...] } in this order
+  executionMode?: StrategyExecutionMode | null;
+  legResults?: StrategyLegResult[] | null; // Per-leg outcome once a bundle has run
+  broadcastRevision?: number; // Revision of the broadcast these parameters belong to
+  cancelReason?: string | null; // Generator's reason, when the broadcast was cancelled
   errorMessage?: string;
   receivedAt: Date;
   decidedAt?: Date;
@@ -42,6 +108,9 @@ export interface ConfirmationResponse {
   protocol?: string;
   correlationId?: string;
   expiresAt?: Date;
+  route?: SwapHop[] | null; // Swap hops decoded from the (modified) parameters, for display
+  quote?: SwapQuote; // Set when accepting requoted the swap's slippage bound
+  legQuotes?: Array<SwapQuote | null>; // Per leg, when accepting requoted a bundle's swap legs
 }
 
 export class ConfirmationService {
@@ -130,6 +199,9 @@ export class ConfirmationService {
         tb.network,
         tb.correlation_id,
         tb.expires_at,
+        tb.legs,
+        tb.execution_mode,
+        tb.cancel_reason,
         s.strategy_name,
         ag.name as generator_name
       FROM protocol_trade_confirmations tc
@@ -153,7 +225,18 @@ export class ConfirmationService {
       modifiedParameters: row.modified_parameters,
       status: row.status,
       gasPrice: row.gas_price,
+      feeSpeed: row.fee_speed,
+      maxFeePerGas: row.max_fee_per_gas,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas,
       transactionHash: row.transaction_hash,
+      sizingRule: row.sizing_rule,
+      sizingResult: row.sizing_result,
+      autoResult: row.auto_result,
+      legs: row.legs,
+      executionMode: row.execution_mode,
+      legResults: row.leg_results,
+      broadcastRevision: row.broadcast_revision,
+      cancelReason: row.cancel_reason,
       errorMessage: row.error_message,
       receivedAt: row.received_at,
       decidedAt: row.decided_at,
@@ -162,7 +245,8 @@ export class ConfirmationService {
       functionName: row.function_name,
       protocol: row.protocol,
       correlationId: row.correlation_id,
-      expiresAt: row.expires_at
+      expiresAt: row.expires_at,
+      route: this.describeRoute(row)
     }));
 
     return {
@@ -185,23 +269,7 @@ export class ConfirmationService {
     }
 
     // Resolve consumer ID if wallet address provided
-    let consumerUuid = request.consumerId;
-
-    // Check if the input looks like an Ethereum address (starts with 0x and is 42 chars)
-    if (request.consumerId.startsWith('0x') && request.consumerId.length === 42) {
-      const consumerQuery = `
-        SELECT consumer_id
-        FROM alpha_consumers
-        WHERE LOWER(wallet_address) = LOWER($1)
-      `;
-      const consumerResult = await this.pool.query(consumerQuery, [request.consumerId]);
-
-      if (consumerResult.rows.length === 0) {
-        throw new Error('Consumer not found');
-      }
-
-      consumerUuid = consumerResult.rows[0].consumer_id;
-    }
+    const consumerUuid = await this.resolveConsumerId(request.consumerId);
 
     // Verify ownership
     if (confirmation.alphaConsumerId !== consumerUuid) {
@@ -213,16 +281,25 @@ export class ConfirmationService {
       throw new Error(`Cannot update confirmation with status: ${confirmation.status}`);
     }
 
-    // Get broadcast details for validation
+    // The consumer decided on what they saw; an amendment since then needs a fresh look
+    if (request.revision !== undefined && request.revision !== confirmation.broadcastRevision) {
+      throw new BroadcastSupersededError(
+        `Trade broadcast was amended to revision ${confirmation.broadcastRevision}; review the new parameters before deciding`
+      );
+    }
+
+    // Get broadcast details (and the consumer's configured chain) for validation
     const broadcastQuery = `
-      SELECT tb.*, s.protocol, s.strategy_name
+      SELECT tb.*, s.protocol, s.strategy_name, ac.chain_id as consumer_chain_id
       FROM trade_broadcasts tb
       JOIN strategies s ON tb.strategy_id = s.strategy_id
+      LEFT JOIN alpha_consumers ac ON ac.consumer_id = $2
       WHERE tb.id = $1
     `;
 
     const broadcastResult = await this.pool.query(broadcastQuery, [
-      confirmation.tradeBroadcastId
+      confirmation.tradeBroadcastId,
+      consumerUuid
     ]);
 
     if (broadcastResult.rows.length === 0) {
@@ -236,29 +313,102 @@ export class ConfirmationService {
       throw new Error('Trade broadcast has expired');
     }
 
+    // A consumer can only accept trades on the chain it executes on
+    if (request.action === 'accept') {
+      assertNetworkMatch(broadcast.network, broadcast.consumer_chain_id);
+    }
+
+    // A bundle is modified per leg; a null leg keeps that leg's current parameters
+    const modifiedParameters = broadcast.legs && request.modifiedParameters
+      ? {
+          legs: mergeLegModifications(
+            getLegParameters(confirmation.modifiedParameters, broadcast.legs.length),
+            request.modifiedParameters
+          )
+        }
+      : request.modifiedParameters;
+
     // Validate modified parameters if accepting
-    if (request.action === 'accept' && request.modifiedParameters) {
-      const validation = this.validateModifiedParameters(
-        broadcast.function_name,
-        broadcast.protocol,
-        confirmation.originalParameters,
-        request.modifiedParameters
-      );
+    if (request.action === 'accept' && modifiedParameters) {
+      const validation = broadcast.legs
+        ? await this.validateLegModifications(broadcast, confirmation.originalParameters, modifiedParameters)
+        : await this.validateModifiedParameters(
+            broadcast.function_name,
+            broadcast.protocol,
+            broadcast.network,
+            confirmation.originalParameters,
+            modifiedParameters
+          );
 
       if (!validation.valid) {
-        throw new Error(`Invalid parameter modifications: ${validation.errors.join(', ')}`);
+        throw new ParameterValidationError(
+          `Invalid parameter modifications: ${validation.errors.map(error => error.message).join(', ')}`,
+          validation.errors
+        );
       }
     }
 
-    // Update the confirmation
-    const success = request.action === 'accept'
-      ? await this.broadcastService.acceptTrade(
+    // Accepting as-is takes the copy-sized parameters; a resized swap gets a slippage bound quoted for its own size
+    let acceptedParameters = modifiedParameters || confirmation.modifiedParameters || confirmation.originalParameters;
+    let quote: SwapQuote | undefined;
+    let legQuotes: Array<SwapQuote | null> | undefined;
+
+    if (request.action === 'accept' && broadcast.legs) {
+      ({ parameters: acceptedParameters, quotes: legQuotes } = await this.requoteLegs(
+        broadcast,
+        confirmation.originalParameters,
+        acceptedParameters,
+        request.slippageBps
+      ));
+    } else if (request.action === 'accept') {
+      ({ parameters: acceptedParameters, quote } = await this.requoteSwap(
+        broadcast,
+        confirmation.originalParameters,
+        acceptedParameters,
+        request.slippageBps
+      ));
+    }
+
+    // The consumer's risk profile has the final say on what they accept, checked under the
+    // consumer's lock in the same transaction as the acceptance
+    let success: boolean;
+
+    if (request.action === 'accept') {
+      const legParameters = broadcast.legs ? getLegParameters(acceptedParameters, broadcast.legs.length) : [];
+      const riskTrades = broadcast.legs
+        ? (broadcast.legs as BundleLeg[]).map((leg, index) => ({
+            confirmationId: request.confirmationId,
+            protocol: broadcast.protocol,
+            functionName: leg.functionName,
+            parameters: legParameters[index]
+          }))
+        : [{
+            confirmationId: request.confirmationId,
+            protocol: broadcast.protocol,
+            functionName: broadcast.function_name,
+            parameters: acceptedParameters
+          }];
+
+      success = await getRiskLimitService(this.pool).applyWithinLimits(consumerUuid, riskTrades, client =>
+        this.broadcastService.acceptTrade(
           request.confirmationId,
-          request.modifiedParameters || confirmation.originalParameters
+          acceptedParameters,
+          confirmation.broadcastRevision,
+          undefined,
+          client
         )
-      : await this.broadcastService.rejectTrade(request.confirmationId);
+      );
+    } else {
+      success = await this.broadcastService.rejectTrade(request.confirmationId);
+    }
 
     if (!success) {
+      const current = await this.broadcastService.getTradeConfirmation(request.confirmationId);
+
+      if (current && current.broadcastRevision !== confirmation.broadcastRevision) {
+        throw new BroadcastSupersededError('Trade broadcast was amended while accepting; review the new parameters');
+      }
+
       throw new Error('Failed to update confirmation');
     }
 
@@ -284,6 +434,9 @@ export class ConfirmationService {
         tb.protocol,
         tb.correlation_id,
         tb.expires_at,
+        tb.legs,
+        tb.execution_mode,
+        tb.cancel_reason,
         s.name as strategy_name
       FROM protocol_trade_confirmations tc
       JOIN trade_broadcasts tb ON tc.trade_broadcast_id = tb.id
@@ -307,7 +460,18 @@ export class ConfirmationService {
       modifiedParameters: row.modified_parameters,
       status: row.status,
       gasPrice: row.gas_price,
+      feeSpeed: row.fee_speed,
+      maxFeePerGas: row.max_fee_per_gas,
+      maxPriorityFeePerGas: row.max_priority_fee_per_gas,
       transactionHash: row.transaction_hash,
+      sizingRule: row.sizing_rule,
+      sizingResult: row.sizing_result,
+      autoResult: row.auto_result,
+      legs: row.legs,
+      executionMode: row.execution_mode,
+      legResults: row.leg_results,
+      broadcastRevision: row.broadcast_revision,
+      cancelReason: row.cancel_reason,
       errorMessage: row.error_message,
       receivedAt: row.received_at,
       decidedAt: row.decided_at,
@@ -316,31 +480,261 @@ export class ConfirmationService {
       functionName: row.function_name,
       protocol: row.protocol,
       correlationId: row.correlation_id,
-      expiresAt: row.expires_at
+      expiresAt: row.expires_at,
+      route: this.describeRoute(row),
+      quote,
+      legQuotes: legQuotes?.some(legQuote => legQuote) ? legQuotes : undefined
+    };
+  }
+
+  /**
+   * Simulate a confirmation's call (optionally with modified parameters) before accepting it
+   */
+  async simulateConfirmation(request: ConfirmationSimulationRequest): Promise<ConfirmationSimulationResponse> {
+    const confirmation = await this.broadcastService.getTradeConfirmation(
+      request.confirmationId
+    );
+
+    if (!confirmation) {
+      throw new Error('Confirmation not found');
+    }
+
+    // Verify ownership
+    const consumerUuid = await this.resolveConsumerId(request.consumerId);
+    if (confirmation.alphaConsumerId !== consumerUuid) {
+      throw new Error('Unauthorized to simulate this confirmation');
+    }
+
+    if (!['PENDING', 'ACCEPTED'].includes(confirmation.status)) {
+      throw new Error(`Cannot simulate confirmation with status: ${confirmation.status}`);
+    }
+
+    const broadcastQuery = `
+      SELECT tb.*, s.protocol
+      FROM trade_broadcasts tb
+      JOIN strategies s ON tb.strategy_id = s.strategy_id
+      WHERE tb.id = $1
+    `;
+
+    const broadcastResult = await this.pool.query(broadcastQuery, [
+      confirmation.tradeBroadcastId
+    ]);
+
+    if (broadcastResult.rows.length === 0) {
+      throw new Error('Trade broadcast not found');
+    }
+
+    const broadcast = broadcastResult.rows[0];
+
+    if (broadcast.legs) {
+      throw new Error('Cannot simulate a bundle confirmation: later legs depend on state left by earlier ones');
+    }
+
+    // Modifications get the same checks as accepting them would
+    if (request.modifiedParameters) {
+      const validation = await this.validateModifiedParameters(
+        broadcast.function_name,
+        broadcast.protocol,
+        broadcast.network,
+        confirmation.originalParameters,
+        request.modifiedParameters
+      );
+
+      if (!validation.valid) {
+        throw new ParameterValidationError(
+          `Invalid parameter modifications: ${validation.errors.map(error => error.message).join(', ')}`,
+          validation.errors
+        );
+      }
+    }
+
+    const { parameters, quote } = await this.requoteSwap(
+      broadcast,
+      confirmation.originalParameters,
+      request.modifiedParameters || confirmation.modifiedParameters || confirmation.originalParameters,
+      request.slippageBps
+    );
+
+    const executionRequest: ExecutionRequest = {
+      functionName: broadcast.function_name,
+      protocol: broadcast.protocol,
+      parameters,
+      contractAddress: broadcast.contract_address,
+      network: broadcast.network,
+      userAddress: request.consumerAddress
+    };
+    const executor = getProtocolExecutor(this.pool);
+
+    const simulation = await executor.simulate(executionRequest);
+
+    // A short allowance makes the call revert; report the approval that fixes it
+    const approval = await executor.checkAllowance(executionRequest);
+
+    return {
+      confirmationId: request.confirmationId,
+      functionName: broadcast.function_name,
+      protocol: broadcast.protocol,
+      network: broadcast.network,
+      parameters,
+      simulation,
+      approval,
+      quote
+    };
+  }
+
+  /**
+   * Requote a swap's slippage bound when the consumer resizes it or picks a tolerance.
+   * A bound the consumer set explicitly is kept unless they also chose a tolerance.
+   */
+  private async requoteSwap(
+    broadcast: any,
+    originalParams: Record<string, any>,
+    parameters: Record<string, any>,
+    slippageBps?: number
+  ): Promise<{ parameters: Record<string, any>; quote?: SwapQuote }> {
+    if (!isQuotableSwap(broadcast.protocol, broadcast.function_name)) {
+      return { parameters };
+    }
+
+    const { amount, bound } = QUOTED_SWAPS[broadcast.function_name];
+    const resized = String(parameters[amount]) !== String(originalParams[amount]);
+    const boundChanged = String(parameters[bound]) !== String(originalParams[bound]);
+
+    if (slippageBps === undefined && (!resized || boundChanged)) {
+      return { parameters };
+    }
+
+    const quote = await getProtocolExecutor(this.pool).quoteSwap(
+      broadcast.function_name,
+      parameters,
+      broadcast.network,
+      slippageBps ?? DEFAULT_SLIPPAGE_BPS
+    );
+
+    return { parameters: applyQuote(parameters, quote), quote };
+  }
+
+  /**
+   * Requote each swap leg of a bundle the way requoteSwap does a single swap
+   */
+  private async requoteLegs(
+    broadcast: any,
+    originalParams: Record<string, any>,
+    parameters: Record<string, any>,
+    slippageBps?: number
+  ): Promise<{ parameters: Record<string, any>; quotes: Array<SwapQuote | null> }> {
+    const legs: BundleLeg[] = broadcast.legs;
+    const original = getLegParameters(originalParams, legs.length);
+    const current = getLegParameters(parameters, legs.length);
+    const requoted: Record<string, any>[] = [];
+    const quotes: Array<SwapQuote | null> = [];
+
+    for (const [index, leg] of legs.entries()) {
+      const result = await this.requoteSwap(
+        { ...broadcast, function_name: leg.functionName },
+        original[index],
+        current[index],
+        slippageBps
+      );
+
+      requoted.push(result.parameters);
+      quotes.push(result.quote || null);
+    }
+
+    return { parameters: { legs: requoted }, quotes };
+  }
+
+  /**
+   * Decode the swap route a confirmation row will execute
+   */
+  private describeRoute(row: any): SwapHop[] | null {
+    if (row.legs) {
+      return null;
+    }
+
+    return getSwapRoute(row.protocol, row.function_name, {
+      ...row.original_parameters,
+      ...row.modified_parameters
+    });
+  }
+
+  /**
+   * Resolve a consumer wallet address to its consumer ID
+   */
+  private async resolveConsumerId(consumerId: string): Promise<string> {
+    // Check if the input looks like an Ethereum address (starts with 0x and is 42 chars)
+    if (!(consumerId.startsWith('0x') && consumerId.length === 42)) {
+      return consumerId;
+    }
+
+    const consumerQuery = `
+      SELECT consumer_id
+      FROM alpha_consumers
+      WHERE LOWER(wallet_address) = LOWER($1)
+    `;
+    const consumerResult = await this.pool.query(consumerQuery, [consumerId]);
+
+    if (consumerResult.rows.length === 0) {
+      throw new Error('Consumer not found');
+    }
+
+    return consumerResult.rows[0].consumer_id;
+  }
+
+  /**
+   * Validate a bundle's per-leg modifications against each leg's function
+   */
+  private async validateLegModifications(
+    broadcast: any,
+    originalParams: Record<string, any>,
+    modifiedParams: Record<string, any>
+  ): Promise<ParamValidationResult> {
+    const legs: BundleLeg[] = broadcast.legs;
+    const original = getLegParameters(originalParams, legs.length);
+    const modified = getLegParameters(modifiedParams, legs.length);
+    const errors: ParamFieldError[] = [];
+
+    for (const [index, leg] of legs.entries()) {
+      const validation = await this.validateModifiedParameters(
+        leg.functionName,
+        broadcast.protocol,
+        broadcast.network,
+        original[index],
+        modified[index]
+      );
+
+      errors.push(...toLegFieldErrors(index, validation.errors));
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
     };
   }
 
   /**
    * Validate modified parameters
    */
-  private validateModifiedParameters(
+  private async validateModifiedParameters(
     functionName: string,
     protocol: string,
+    network: string,
     originalParams: Record<string, any>,
     modifiedParams: Record<string, any>
-  ): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  ): Promise<ParamValidationResult> {
+    const errors: ParamFieldError[] = [];
 
     // Get function signature
-    const signature = FUNCTION_SIGNATURES[functionName];
+    const signature = getFunctionSignature(functionName, protocol);
 
     if (!signature) {
-      errors.push(`Unknown function: ${functionName}`);
-      return { valid: false, errors };
-    }
-
-    if (signature.protocol !== protocol) {
-      errors.push(`Function ${functionName} does not belong to protocol ${protocol}`);
+      errors.push({
+        field: 'functionName',
+        code: 'UNKNOWN_FUNCTION',
+        message: getFunctionSignature(functionName)
+          ? `Function ${functionName} does not belong to protocol ${protocol}`
+          : `Unknown function: ${functionName}`
+      });
       return { valid: false, errors };
     }
 
@@ -349,37 +743,38 @@ export class ConfirmationService {
 
     for (const key in modifiedParams) {
       if (!(key in originalParams)) {
-        errors.push(`Parameter ${key} was not in original parameters`);
+        errors.push({
+          field: key,
+          code: 'UNKNOWN_PARAM',
+          message: `Parameter ${key} was not in original parameters`
+        });
         continue;
       }
 
       if (originalParams[key] !== modifiedParams[key]) {
         // Parameter was modified
         if (!modifiableParams.includes(key)) {
-          errors.push(`Parameter ${key} cannot be modified`);
+          errors.push({
+            field: key,
+            code: 'NOT_MODIFIABLE',
+            message: `Parameter ${key} cannot be modified`
+          });
         }
       }
     }
 
-    // Check all required parameters are present
-    for (const required of signature.requiredParams) {
-      if (!(required in modifiedParams)) {
-        errors.push(`Missing required parameter: ${required}`);
-      }
-    }
+    // Check types, ranges and required parameters against the ABI-derived schema
+    const registry = getProtocolRegistry(this.pool);
+    const typeValidation = await registry.validateFunctionParams(
+      protocol,
+      functionName,
+      modifiedParams,
+      { network: network as any }
+    );
 
-    // Validate amount parameters
-    const amountFields = ['amount', 'amountIn', 'amountOut', 'amountInMaximum', 'amountOutMinimum'];
-    for (const field of amountFields) {
-      if (field in modifiedParams) {
-        try {
-          const amount = BigInt(modifiedParams[field]);
-          if (amount <= 0n) {
-            errors.push(`${field} must be greater than 0`);
-          }
-        } catch {
-          errors.push(`Invalid ${field} format`);
-        }
+    for (const error of typeValidation.errors) {
+      if (!errors.some(existing => existing.field === error.field)) {
+        errors.push(error);
       }
     }
 
@@ -389,6 +784,25 @@ export class ConfirmationService {
     };
   }
 
+  /**
+   * Every status change of a consumer's confirmation, oldest first
+   */
+  async getTimeline(confirmationId: string, consumerId: string): Promise<ConfirmationEvent[]> {
+    const confirmation = await this.broadcastService.getTradeConfirmation(confirmationId);
+
+    if (!confirmation) {
+      throw new Error('Confirmation not found');
+    }
+
+    const consumerUuid = await this.resolveConsumerId(consumerId);
+
+    if (confirmation.alphaConsumerId !== consumerUuid) {
+      throw new Error('Unauthorized to view this confirmation');
+    }
+
+    return this.broadcastService.getConfirmationTimeline(confirmationId);
+  }
+
   /**
    * Get confirmation statistics for a consumer
    */
@@ -398,6 +812,8 @@ export class ConfirmationService {
     totalRejected: number;
     totalExecuted: number;
     totalFailed: number;
+    totalExpired: number;
+    totalCancelled: number;
     successRate: number;
   }> {
     const query = `
@@ -407,6 +823,8 @@ export class ConfirmationService {
         COUNT(*) FILTER (WHERE status = 'REJECTED') as total_rejected,
         COUNT(*) FILTER (WHERE status = 'EXECUTED') as total_executed,
         COUNT(*) FILTER (WHERE status = 'FAILED') as total_failed,
+        COUNT(*) FILTER (WHERE status = 'EXPIRED') as total_expired,
+        COUNT(*) FILTER (WHERE status = 'CANCELLED') as total_cancelled,
         COALESCE(
           COUNT(*) FILTER (WHERE status = 'EXECUTED') * 100.0 /
           NULLIF(COUNT(*) FILTER (WHERE status IN ('EXECUTED', 'FAILED')), 0),
@@ -425,6 +843,8 @@ export class ConfirmationService {
       totalRejected: parseInt(row.total_rejected) || 0,
       totalExecuted: parseInt(row.total_executed) || 0,
       totalFailed: parseInt(row.total_failed) || 0,
+      totalExpired: parseInt(row.total_expired) || 0,
+      totalCancelled: parseInt(row.total_cancelled) || 0,
       successRate: parseFloat(row.success_rate) || 0
     };
   }
@@ -1,36 +1,54 @@
 /**
  * SSE Broadcast Service
  * Feature: 003-protocol-strategy-integration
- * Purpose: Server-Sent Events service for real-time trade broadcasting
+ * Purpose: Server-Sent Events service for real-time trade broadcasting. Events are published on the
+ * event bus, and each instance writes them to the SSE clients connected to it, numbered with their
+ * event log id so a reconnecting client can resume from its Last-Event-ID.
  */
 
 import { Pool } from 'pg';
 import { getTradeBroadcastService } from '../lib/trade-broadcast';
+import {
+  BusEvent,
+  confirmationTopic,
+  EventAudience,
+  isInAudience,
+  publishEvent,
+  replayEvents,
+  subscribeToEvents
+} from '../lib/event-bus';
 
 export interface SSEClient {
   id: string;
   response: any;
   consumerId?: string;
   generatorId?: string;
+  heldEvents?: BusEvent[]; // Live events held back while missed ones are replayed
 }
 
 export class SSEBroadcastService {
-  private clients: Map<string, SSEClient> = new Map();
+  private clients: Map<string, SSEClient> = new Map(); // Connected to this instance
   private pool: Pool;
   private broadcastService: ReturnType<typeof getTradeBroadcastService>;
+  private unsubscribe: (() => void) | null = null; // Set while clients are connected
+  private heartbeat: NodeJS.Timeout | null = null; // Runs while clients are connected
 
   constructor(pool: Pool) {
     this.pool = pool;
     this.broadcastService = getTradeBroadcastService(pool);
-
-    // Start heartbeat to keep connections alive
-    this.startHeartbeat();
   }
 
   /**
-   * Register a new SSE client
+   * Register a new SSE client. A client resuming from `lastEventId` has live events held back
+   * until replayMissedEvents() has sent what it missed.
    */
-  registerClient(clientId: string, response: any, consumerId?: string, generatorId?: string): void {
+  registerClient(
+    clientId: string,
+    response: any,
+    consumerId?: string,
+    generatorId?: string,
+    lastEventId?: string
+  ): void {
     // Set SSE headers
     response.writeHead(200, {
       'Content-Type': 'text/event-stream',
@@ -45,12 +63,18 @@ export class SSEBroadcastService {
       id: clientId,
       response,
       consumerId,
-      generatorId
+      generatorId,
+      ...(lastEventId ? { heldEvents: [] } : {})
     });
 
-    // Register with broadcast service if consumer
-    if (consumerId) {
-      this.broadcastService.registerSSEClient(consumerId, response);
+    // Receive events published by any instance while clients are connected
+    if (!this.unsubscribe) {
+      this.unsubscribe = subscribeToEvents(event => this.deliverEvent(event));
+    }
+
+    // Start heartbeat to keep connections alive
+    if (!this.heartbeat) {
+      this.startHeartbeat();
     }
 
     // Send initial connection event
@@ -70,11 +94,6 @@ export class SSEBroadcastService {
     const client = this.clients.get(clientId);
 
     if (client) {
-      // Unregister from broadcast service if consumer
-      if (client.consumerId) {
-        this.broadcastService.unregisterSSEClient(client.consumerId);
-      }
-
       // End response
       try {
         client.response.end();
@@ -84,13 +103,60 @@ export class SSEBroadcastService {
 
       this.clients.delete(clientId);
       console.log(`SSE client unregistered: ${clientId}`);
+
+      if (this.clients.size === 0) {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.stopHeartbeat();
+      }
     }
   }
 
   /**
-   * Send event to specific client
+   * Send the events a resuming client missed since `lastEventId`, then the live events held back
+   * meanwhile, each once. Returns false when the event log could not cover the gap.
    */
-  sendToClient(clientId: string, event: string, data: any): boolean {
+  async replayMissedEvents(clientId: string, lastEventId: string): Promise<boolean> {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return false;
+    }
+
+    let complete = false;
+    const sent = new Set<string>([lastEventId]);
+
+    try {
+      const replay = await replayEvents(this.pool, client, lastEventId);
+      complete = replay.complete;
+
+      // Includes events just before lastEventId that may have committed after it; clients skip
+      // the ones they already have
+      for (const event of replay.events) {
+        if (!sent.has(event.id)) {
+          this.sendToClient(clientId, event.event, event.data, event.id);
+          sent.add(event.id);
+        }
+      }
+    } catch (error: any) {
+      console.error(`Failed to replay events for SSE client ${clientId}:`, error.message);
+    } finally {
+      const held = client.heldEvents || [];
+      delete client.heldEvents;
+
+      for (const event of held) {
+        if (!sent.has(event.id)) {
+          this.sendToClient(clientId, event.event, event.data, event.id);
+        }
+      }
+    }
+
+    return complete;
+  }
+
+  /**
+   * Send event to specific client, numbered with `eventId` when it is a logged event
+   */
+  sendToClient(clientId: string, event: string, data: any, eventId?: string): boolean {
     const client = this.clients.get(clientId);
 
     if (!client) {
@@ -98,7 +164,8 @@ export class SSEBroadcastService {
     }
 
     try {
-      const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+      const id = eventId ? `id: ${eventId}\n` : '';
+      const message = `${id}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
       client.response.write(message);
       return true;
     } catch (error) {
@@ -109,16 +176,20 @@ export class SSEBroadcastService {
   }
 
   /**
-   * Broadcast event to all consumers
+   * Write a bus event to the clients on this instance it is meant for
    */
-  broadcastToConsumers(event: string, data: any): number {
+  deliverEvent(event: BusEvent): number {
     let sentCount = 0;
 
     for (const [clientId, client] of this.clients) {
-      if (client.consumerId) {
-        if (this.sendToClient(clientId, event, data)) {
-          sentCount++;
-        }
+      if (!isInAudience(event.audience, client)) {
+        continue;
+      }
+
+      if (client.heldEvents) {
+        client.heldEvents.push(event);
+      } else if (this.sendToClient(clientId, event.event, event.data, event.id)) {
+        sentCount++;
       }
     }
 
@@ -126,20 +197,17 @@ export class SSEBroadcastService {
   }
 
   /**
-   * Broadcast event to all generators
+   * Broadcast event to all consumers
    */
-  broadcastToGenerators(event: string, data: any): number {
-    let sentCount = 0;
-
-    for (const [clientId, client] of this.clients) {
-      if (client.generatorId) {
-        if (this.sendToClient(clientId, event, data)) {
-          sentCount++;
-        }
-      }
-    }
+  async broadcastToConsumers(event: string, data: any): Promise<boolean> {
+    return this.publish(event, { type: 'consumers' }, data);
+  }
 
-    return sentCount;
+  /**
+   * Broadcast event to all generators
+   */
+  async broadcastToGenerators(event: string, data: any): Promise<boolean> {
+    return this.publish(event, { type: 'generators' }, data);
   }
 
   /**
@@ -153,76 +221,81 @@ export class SSEBroadcastService {
    * Send trade broadcast to specific consumer
    */
   async sendTradeBroadcast(consumerId: string, tradeBroadcast: any): Promise<boolean> {
-    // Find all clients for this consumer
-    const consumerClients = Array.from(this.clients.entries())
-      .filter(([_, client]) => client.consumerId === consumerId);
-
-    if (consumerClients.length === 0) {
-      return false;
-    }
-
-    let sent = false;
-
-    for (const [clientId, _] of consumerClients) {
-      if (this.sendToClient(clientId, 'trade-broadcast', tradeBroadcast)) {
-        sent = true;
-      }
-    }
-
-    return sent;
+    return this.publish('trade-broadcast', { type: 'consumer', id: consumerId }, tradeBroadcast);
   }
 
   /**
    * Send trade confirmation update
    */
   async sendTradeConfirmation(consumerId: string, confirmation: any): Promise<boolean> {
-    // Find all clients for this consumer
-    const consumerClients = Array.from(this.clients.entries())
-      .filter(([_, client]) => client.consumerId === consumerId);
+    return this.publishConfirmationEvent('trade-confirmation', consumerId, confirmation);
+  }
 
-    if (consumerClients.length === 0) {
-      return false;
-    }
+  /**
+   * Tell a consumer a trade they did not answer has expired
+   */
+  async sendTradeExpired(consumerId: string, expired: any): Promise<boolean> {
+    return this.publishConfirmationEvent('trade-expired', consumerId, expired);
+  }
 
-    let sent = false;
+  /**
+   * Tell a consumer the generator cancelled a trade they had pending or accepted
+   */
+  async sendTradeCancelled(consumerId: string, cancelled: any): Promise<boolean> {
+    return this.publishConfirmationEvent('trade-cancelled', consumerId, cancelled);
+  }
 
-    for (const [clientId, _] of consumerClients) {
-      if (this.sendToClient(clientId, 'trade-confirmation', confirmation)) {
-        sent = true;
-      }
-    }
+  /**
+   * Tell a consumer the generator amended a trade, which is back to PENDING at a new revision
+   */
+  async sendTradeAmended(consumerId: string, amended: any): Promise<boolean> {
+    return this.publishConfirmationEvent('trade-amended', consumerId, amended);
+  }
 
-    return sent;
+  /**
+   * Tell a consumer what an auto-trade policy did on their behalf
+   */
+  async sendAutoTradeNotice(consumerId: string, notice: any): Promise<boolean> {
+    return this.publishConfirmationEvent('auto-trade', consumerId, notice);
   }
 
   /**
-   * Send execution status to generator
+   * Send execution status to generator, under the strategy and generator topics given
    */
-  async sendExecutionStatus(generatorId: string, status: any): Promise<boolean> {
-    // Find all clients for this generator
-    const generatorClients = Array.from(this.clients.entries())
-      .filter(([_, client]) => client.generatorId === generatorId);
+  async sendExecutionStatus(generatorId: string, status: any, topics: string[] = []): Promise<boolean> {
+    return this.publish('execution-status', { type: 'generator', id: generatorId }, status, topics);
+  }
 
-    if (generatorClients.length === 0) {
-      return false;
-    }
+  /**
+   * Publish a consumer event about one confirmation, under its `confirmation:<id>` topic. The
+   * data carries the id as `confirmationId`, or as `id` when it is the confirmation itself.
+   */
+  private async publishConfirmationEvent(event: string, consumerId: string, data: any): Promise<boolean> {
+    const confirmationId = data.confirmationId ?? data.id;
+    const topics = confirmationId ? [confirmationTopic(confirmationId)] : [];
 
-    let sent = false;
+    return this.publish(event, { type: 'consumer', id: consumerId }, data, topics);
+  }
 
-    for (const [clientId, _] of generatorClients) {
-      if (this.sendToClient(clientId, 'execution-status', status)) {
-        sent = true;
-      }
+  /**
+   * Publish an event for whichever instances hold the audience's connections. A failed publish
+   * is logged, not thrown: notifications never fail the trade operation that sent them.
+   */
+  private async publish(event: string, audience: EventAudience, data: any, topics: string[] = []): Promise<boolean> {
+    try {
+      await publishEvent(this.pool, event, audience, data, topics);
+      return true;
+    } catch (error: any) {
+      console.error(`Failed to publish ${event} event:`, error.message);
+      return false;
     }
-
-    return sent;
   }
 
   /**
    * Start heartbeat to keep connections alive
    */
   private startHeartbeat(): void {
-    setInterval(() => {
+    this.heartbeat = setInterval(() => {
       const timestamp = new Date().toISOString();
       const deadClients: string[] = [];
 
@@ -243,7 +316,17 @@ export class SSEBroadcastService {
   }
 
   /**
-   * Get connected client count
+   * Stop the heartbeat once no clients are left, so services built per request do not leak timers
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  /**
+   * Get client count connected to this instance
    */
   getClientCount(): { total: number; consumers: number; generators: number } {
     let consumers = 0;
@@ -262,7 +345,7 @@ export class SSEBroadcastService {
   }
 
   /**
-   * Check if a consumer is connected
+   * Check if a consumer is connected to this instance
    */
   isConsumerConnected(consumerId: string): boolean {
     for (const client of this.clients.values()) {
@@ -274,7 +357,7 @@ export class SSEBroadcastService {
   }
 
   /**
-   * Check if a generator is connected
+   * Check if a generator is connected to this instance
    */
   isGeneratorConnected(generatorId: string): boolean {
     for (const client of this.clients.values()) {
@@ -299,9 +382,7 @@ export class SSEBroadcastService {
     };
 
     // Send to all connected clients
-    for (const [clientId, _] of this.clients) {
-      this.sendToClient(clientId, 'statistics', statsData);
-    }
+    await this.publish('statistics', { type: 'all' }, statsData);
   }
 }
 
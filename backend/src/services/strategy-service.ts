@@ -7,7 +7,9 @@
 
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
-import { ProtocolType, FUNCTION_SIGNATURES, getProtocolRegistry } from '../lib/protocol-contracts/registry';
+import { ProtocolType, getProtocolRegistry } from '../lib/protocol-contracts/registry';
+import { getFunctionSignature } from '../lib/protocol-adapters';
+import { isValidExpiryMinutes, MAX_EXPIRY_MINUTES } from '../lib/trade-broadcast/expiry';
 
 export interface CreateStrategyRequest {
   alphaGeneratorId: string;  // This is now the wallet address, not UUID
@@ -20,6 +22,7 @@ export interface CreateStrategyRequest {
     requiredParams: string[];
     modifiableParams: string[];
   }>;
+  expiryMinutes?: number | null; // Broadcast expiry window; null uses DEFAULT_EXPIRY_MINUTES
 }
 
 export interface UpdateStrategyRequest {
@@ -32,6 +35,7 @@ export interface UpdateStrategyRequest {
     requiredParams: string[];
     modifiableParams: string[];
   }>;
+  expiryMinutes?: number | null;
 }
 
 export interface StrategyResponse {
@@ -41,6 +45,7 @@ export interface StrategyResponse {
   description: string;
   protocol: ProtocolType;
   functions: any[];
+  expiryMinutes: number | null;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -63,6 +68,8 @@ export class ProtocolStrategyService {
       throw new Error(`Invalid strategy functions: ${validation.errors.join(', ')}`);
     }
 
+    this.validateExpiryMinutes(request.expiryMinutes);
+
     // Check name uniqueness
     const nameExists = await this.checkNameExists(request.name);
     if (nameExists) {
@@ -85,8 +92,8 @@ export class ProtocolStrategyService {
           strategy_id, alpha_generator_address, strategy_name, strategy_description,
           supported_protocols, strategy_json, is_active,
           subscriber_count, total_volume,
-          created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          created_at, updated_at, expiry_minutes
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
         RETURNING *
       `;
 
@@ -104,7 +111,8 @@ export class ProtocolStrategyService {
         0, // Initial subscriber count
         '0', // Initial total volume
         now,
-        now
+        now,
+        request.expiryMinutes ?? null
       ]);
 
       await client.query('COMMIT');
@@ -256,6 +264,12 @@ export class ProtocolStrategyService {
         params.push(request.isActive);
       }
 
+      if (request.expiryMinutes !== undefined) {
+        this.validateExpiryMinutes(request.expiryMinutes);
+        updates.push(`expiry_minutes = $${paramIndex++}`);
+        params.push(request.expiryMinutes);
+      }
+
       if (request.functions !== undefined) {
         // Update strategy_json with new functions
         const updatedStrategyJson = {
@@ -326,15 +340,12 @@ export class ProtocolStrategyService {
         continue;
       }
 
-      const signature = FUNCTION_SIGNATURES[func.functionName];
+      const signature = getFunctionSignature(func.functionName, protocol);
 
       if (!signature) {
-        errors.push(`Unknown function: ${func.functionName}`);
-        continue;
-      }
-
-      if (signature.protocol !== protocol) {
-        errors.push(`Function ${func.functionName} is not supported by protocol ${protocol}`);
+        errors.push(getFunctionSignature(func.functionName)
+          ? `Function ${func.functionName} is not supported by protocol ${protocol}`
+          : `Unknown function: ${func.functionName}`);
         continue;
       }
 
@@ -379,6 +390,12 @@ export class ProtocolStrategyService {
     return result.rows[0].exists;
   }
 
+  private validateExpiryMinutes(expiryMinutes?: number | null): void {
+    if (expiryMinutes !== undefined && expiryMinutes !== null && !isValidExpiryMinutes(expiryMinutes)) {
+      throw new Error(`Invalid expiryMinutes: must be an integer from 1 to ${MAX_EXPIRY_MINUTES}`);
+    }
+  }
+
   /**
    * Map database row to response
    */
@@ -403,6 +420,7 @@ export class ProtocolStrategyService {
       // Metrics
       subscriberCount: row.subscriber_count || 0,
       totalVolume: row.total_volume || "0",
+      expiryMinutes: row.expiry_minutes ?? null,
       isActive: row.is_active,
       createdAt: row.created_at,
       updatedAt: row.updated_at
@@ -0,0 +1,110 @@
+/**
+ * Subscription Sizing Service
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Service layer for consumers' per-subscription copy sizing rules
+ */
+
+import { Pool } from 'pg';
+import { SizingRule, validateSizingRule } from '../lib/trade-broadcast';
+
+export interface SubscriptionSizing {
+  subscriptionId: string;
+  alphaGeneratorAddress: string;
+  sizingRule: SizingRule | null;
+}
+
+export class SubscriptionSizingService {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Get a subscription's sizing rule; consumerId may be the consumer UUID or wallet address
+   */
+  async getSizingRule(subscriptionId: string, consumerId: string): Promise<SubscriptionSizing> {
+    const row = await getOwnedSubscription(this.pool, subscriptionId, consumerId);
+
+    return {
+      subscriptionId: row.subscription_id,
+      alphaGeneratorAddress: row.alpha_generator_address,
+      sizingRule: row.sizing_rule
+    };
+  }
+
+  /**
+   * Set (or clear, with null) the rule applied to trades fanned out on this subscription
+   */
+  async setSizingRule(
+    subscriptionId: string,
+    consumerId: string,
+    rule: SizingRule | null
+  ): Promise<SubscriptionSizing> {
+    if (rule !== null) {
+      const errors = validateSizingRule(rule);
+      if (errors.length > 0) {
+        throw new Error(`Invalid sizing rule: ${errors.join('; ')}`);
+      }
+    }
+
+    await getOwnedSubscription(this.pool, subscriptionId, consumerId);
+
+    // Keep only the fields the mode uses
+    const stored: SizingRule | null = rule && {
+      mode: rule.mode,
+      ...(rule.mode === 'fixed' ? { amount: rule.amount } : { percent: rule.percent }),
+      ...(rule.maxAmount !== undefined ? { maxAmount: rule.maxAmount } : {})
+    };
+
+    const result = await this.pool.query(
+      `UPDATE subscriptions
+       SET sizing_rule = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE subscription_id = $1
+       RETURNING subscription_id, alpha_generator_address, sizing_rule`,
+      [subscriptionId, stored ? JSON.stringify(stored) : null]
+    );
+
+    const row = result.rows[0];
+
+    return {
+      subscriptionId: row.subscription_id,
+      alphaGeneratorAddress: row.alpha_generator_address,
+      sizingRule: row.sizing_rule
+    };
+  }
+}
+
+/**
+ * Load a subscription and check it belongs to the consumer (UUID or wallet address)
+ */
+export async function getOwnedSubscription(pool: Pool, subscriptionId: string, consumerId: string): Promise<any> {
+  const query = `
+    SELECT s.*, ac.consumer_id
+    FROM subscriptions s
+    LEFT JOIN alpha_consumers ac ON LOWER(ac.wallet_address) = LOWER(s.alpha_consumer_address)
+    WHERE s.subscription_id = $1
+  `;
+
+  const result = await pool.query(query, [subscriptionId]);
+
+  if (result.rows.length === 0) {
+    throw new Error('Subscription not found');
+  }
+
+  const row = result.rows[0];
+  const isOwner = consumerId.startsWith('0x')
+    ? row.alpha_consumer_address.toLowerCase() === consumerId.toLowerCase()
+    : row.consumer_id === consumerId;
+
+  if (!isOwner) {
+    throw new Error('Unauthorized to access this subscription');
+  }
+
+  return row;
+}
+
+// Export factory function - creates new instance per request
+export function getSubscriptionSizingService(pool: Pool): SubscriptionSizingService {
+  return new SubscriptionSizingService(pool);
+}
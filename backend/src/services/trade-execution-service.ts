@@ -5,15 +5,44 @@
  */
 
 import { Pool } from 'pg';
-import { getTradeBroadcastService } from '../lib/trade-broadcast';
+import {
+  BroadcastSupersededError,
+  BundleLeg,
+  ConfirmationActor,
+  getLegParameters,
+  getTradeBroadcastService,
+  TradeConfirmation
+} from '../lib/trade-broadcast';
 import { getProtocolExecutor } from '../lib/protocol-executor';
 import { getSSEBroadcastService } from './sse-broadcast-service';
-import { ExecutionRequest, ExecutionResponse } from '../lib/protocol-executor/types';
+import { assertNetworkMatch } from '../lib/protocol-contracts/networks';
+import { getRiskLimitService, RiskLimitError } from '../lib/risk-limits';
+import { getPriceDriftService, PriceDriftCheck, PriceDriftError, PricedCall } from '../lib/price-drift';
+import { generatorTopic, strategyTopic } from '../lib/event-bus';
+import {
+  ApprovalStep,
+  ExecutionRequest,
+  ExecutionResponse,
+  FeeSpeed,
+  ReplacementMode,
+  ReplacementResult,
+  StrategyLegResult
+} from '../lib/protocol-executor/types';
 
 export interface ExecuteTradeRequest {
   confirmationId: string;
   consumerAddress: string;
   privateKey?: string; // Optional, for automated execution
+  feeSpeed?: FeeSpeed; // EIP-1559 fee preset (default 'medium')
+  actor?: ConfirmationActor; // Recorded on the EXECUTING event (default the consumer)
+}
+
+export interface ReplaceTradeTransactionRequest {
+  confirmationId: string;
+  mode: ReplacementMode; // 'speed-up' resends with higher fees, 'cancel' voids the nonce
+  privateKey?: string; // Must be the key that sent the original transaction
+  feeSpeed?: FeeSpeed; // Floor for the replacement fees (default 'high')
+  onCommitted?: () => void; // Called once the replacement is sent, before it is recorded
 }
 
 export interface ExecuteTradeResponse {
@@ -22,6 +51,9 @@ export interface ExecuteTradeResponse {
   gasUsed: string;
   status: 'success' | 'failed';
   errorMessage?: string;
+  approval?: ApprovalStep; // Token approval checked, and sent if needed, before the trade
+  legs?: StrategyLegResult[]; // Per-leg outcome when the confirmation is a bundle
+  priceDrift?: PriceDriftCheck; // Price move since the broadcast; 'warned' when beyond a warn-only rule
 }
 
 export class TradeExecutionService {
@@ -57,14 +89,16 @@ export class TradeExecutionService {
 
       // Get trade broadcast details
       const broadcastQuery = `
-        SELECT tb.*, s.protocol, s.name as strategy_name
+        SELECT tb.*, s.protocol, s.name as strategy_name, s.alpha_generator_address, ac.chain_id as consumer_chain_id
         FROM trade_broadcasts tb
         JOIN strategies s ON tb.strategy_id = s.strategy_id
+        LEFT JOIN alpha_consumers ac ON ac.consumer_id = $2
         WHERE tb.id = $1
       `;
 
       const broadcastResult = await this.pool.query(broadcastQuery, [
-        confirmation.tradeBroadcastId
+        confirmation.tradeBroadcastId,
+        confirmation.alphaConsumerId
       ]);
 
       if (broadcastResult.rows.length === 0) {
@@ -78,13 +112,42 @@ export class TradeExecutionService {
         throw new Error('Trade broadcast has expired');
       }
 
-      // Mark trade as executing
-      await this.broadcastService.markTradeExecuting(request.confirmationId);
+      // Never send a trade to a chain the consumer is not configured for
+      assertNetworkMatch(broadcast.network, broadcast.consumer_chain_id);
+
+      if (broadcast.legs) {
+        return await this.executeBundle(request, confirmation, broadcast);
+      }
+
+      const priceDrift = await this.guardPriceDrift(confirmation, broadcast, [{
+        protocol: broadcast.protocol,
+        functionName: broadcast.function_name,
+        parameters: confirmation.modifiedParameters
+      }]);
+
+      // Limits may have been tightened (or other trades executed) since the trade was accepted, so
+      // they are checked again under the consumer's lock as the trade is marked executing. It is not
+      // marked if the generator amended or cancelled the broadcast since acceptance.
+      const executing = await getRiskLimitService(this.pool).applyWithinLimits(
+        confirmation.alphaConsumerId,
+        [{
+          confirmationId: request.confirmationId,
+          protocol: broadcast.protocol,
+          functionName: broadcast.function_name,
+          parameters: confirmation.modifiedParameters
+        }],
+        client => this.broadcastService.markTradeExecuting(request.confirmationId, broadcast.revision, request.actor, client)
+      );
+
+      if (!executing) {
+        throw new BroadcastSupersededError();
+      }
 
       // Send SSE notification
       await this.sseService.sendTradeConfirmation(confirmation.alphaConsumerId, {
         ...confirmation,
-        status: 'EXECUTING'
+        status: 'EXECUTING',
+        priceDrift
       });
 
       // Prepare execution request
@@ -94,7 +157,8 @@ export class TradeExecutionService {
         parameters: confirmation.modifiedParameters, // Use consumer's modified parameters
         contractAddress: broadcast.contract_address,
         network: broadcast.network,
-        userAddress: request.consumerAddress
+        userAddress: request.consumerAddress,
+        feeSpeed: request.feeSpeed
       };
 
       // Configure executor with private key if provided
@@ -104,17 +168,36 @@ export class TradeExecutionService {
         });
       }
 
-      // Execute the trade
+      // Price the transaction and record the chosen fees before sending
+      const gasEstimation = await this.executorService.estimateGas(executionRequest);
+      await this.broadcastService.recordTradeFees(request.confirmationId, gasEstimation);
+
+      // Execute the trade, recording the hash once broadcast so a stuck tx can be replaced
+      let submittedHash: string | undefined;
       const executionResponse: ExecutionResponse = await this.executorService.execute(
-        executionRequest
+        executionRequest,
+        {
+          onSubmitted: async (tx) => {
+            submittedHash = tx.hash;
+            await this.broadcastService.recordTradeSubmission(request.confirmationId, tx.hash, tx.nonce);
+          }
+        }
       );
 
+      // A replacement may have been sent elsewhere (e.g. from the consumer's wallet)
+      if (executionResponse.replacement) {
+        await this.broadcastService.recordTradeReplacement(request.confirmationId, {
+          transactionHash: executionResponse.replacement.hash,
+          type: executionResponse.replacement.cancelled ? 'CANCEL' : 'SPEED_UP'
+        });
+      }
+
       if (executionResponse.status === 'success') {
-        // Mark trade as executed
+        // Mark trade as executed; a mined replacement stays in replacement_transaction_hash
         await this.broadcastService.markTradeExecuted(
           request.confirmationId,
-          executionResponse.transactionHash,
-          executionResponse.gasUsed
+          submittedHash || executionResponse.transactionHash,
+          executionResponse.effectiveGasPrice || gasEstimation.gasPrice
         );
 
         // Send success notification
@@ -132,13 +215,15 @@ export class TradeExecutionService {
           transactionHash: executionResponse.transactionHash,
           consumer: confirmation.alphaConsumerId,
           correlationId: broadcast.correlation_id
-        });
+        }, this.strategyTopics(broadcast));
 
         return {
           confirmationId: request.confirmationId,
           transactionHash: executionResponse.transactionHash,
           gasUsed: executionResponse.gasUsed,
-          status: 'success'
+          status: 'success',
+          approval: executionResponse.approval,
+          priceDrift
         };
       } else {
         // Mark trade as failed
@@ -159,12 +244,24 @@ export class TradeExecutionService {
           transactionHash: '',
           gasUsed: '0',
           status: 'failed',
-          errorMessage: executionResponse.errorMessage
+          errorMessage: executionResponse.errorMessage,
+          approval: executionResponse.approval,
+          priceDrift
         };
       }
     } catch (error: any) {
       console.error('Trade execution error:', error);
 
+      // A risk limit or price-drift block leaves the trade accepted so it can run once allowed;
+      // a superseded trade already has the status the amend or cancel gave it
+      if (
+        error instanceof RiskLimitError ||
+        error instanceof PriceDriftError ||
+        error instanceof BroadcastSupersededError
+      ) {
+        throw error;
+      }
+
       // Try to mark trade as failed
       try {
         await this.broadcastService.markTradeFailed(
@@ -179,6 +276,205 @@ export class TradeExecutionService {
     }
   }
 
+  /**
+   * Execute an accepted bundle's legs in order, or as one transaction when its mode is atomic
+   */
+  private async executeBundle(
+    request: ExecuteTradeRequest,
+    confirmation: TradeConfirmation,
+    broadcast: any
+  ): Promise<ExecuteTradeResponse> {
+    const legs: BundleLeg[] = broadcast.legs;
+    const legParameters = getLegParameters(confirmation.modifiedParameters, legs.length);
+    const calls = legs.map((leg, index) => ({
+      functionName: leg.functionName,
+      protocol: broadcast.protocol,
+      parameters: legParameters[index]
+    }));
+
+    const priceDrift = await this.guardPriceDrift(confirmation, broadcast, calls);
+
+    const executing = await getRiskLimitService(this.pool).applyWithinLimits(
+      confirmation.alphaConsumerId,
+      calls.map(call => ({ ...call, confirmationId: request.confirmationId })),
+      client => this.broadcastService.markTradeExecuting(request.confirmationId, broadcast.revision, request.actor, client)
+    );
+
+    if (!executing) {
+      throw new BroadcastSupersededError();
+    }
+
+    await this.sseService.sendTradeConfirmation(confirmation.alphaConsumerId, {
+      ...confirmation,
+      status: 'EXECUTING',
+      priceDrift
+    });
+
+    if (request.privateKey) {
+      this.executorService.updateConfig({
+        privateKey: request.privateKey
+      });
+    }
+
+    const result = await this.executorService.executeStrategy(
+      broadcast.strategy_id,
+      calls,
+      request.consumerAddress,
+      broadcast.network,
+      broadcast.execution_mode || 'sequential'
+    );
+
+    await this.broadcastService.recordLegResults(request.confirmationId, result.legs);
+
+    // Sequential bundles stop at the first failing leg; earlier legs stay on-chain
+    const lastExecution = result.executions[result.executions.length - 1];
+
+    if (result.success && lastExecution) {
+      await this.broadcastService.markTradeExecuted(
+        request.confirmationId,
+        lastExecution.transactionHash,
+        lastExecution.effectiveGasPrice || '0'
+      );
+
+      await this.sseService.sendTradeConfirmation(confirmation.alphaConsumerId, {
+        ...confirmation,
+        status: 'EXECUTED',
+        transactionHash: lastExecution.transactionHash,
+        legResults: result.legs
+      });
+
+      await this.sseService.sendExecutionStatus(broadcast.alpha_generator_id, {
+        strategyName: broadcast.strategy_name,
+        functionName: broadcast.function_name,
+        status: 'executed',
+        transactionHash: lastExecution.transactionHash,
+        consumer: confirmation.alphaConsumerId,
+        correlationId: broadcast.correlation_id,
+        legs: result.legs
+      }, this.strategyTopics(broadcast));
+
+      return {
+        confirmationId: request.confirmationId,
+        transactionHash: lastExecution.transactionHash,
+        gasUsed: result.totalGasUsed,
+        status: 'success',
+        legs: result.legs,
+        priceDrift
+      };
+    }
+
+    const failedLeg = result.legs.find(leg => leg.status === 'failed' || leg.status === 'reverted');
+    const errorMessage = failedLeg
+      ? `Leg ${failedLeg.index + 1} (${failedLeg.functionName}) ${failedLeg.status}: ${failedLeg.revertReason || 'Unknown error'}`
+      : 'Bundle execution failed';
+
+    await this.broadcastService.markTradeFailed(request.confirmationId, errorMessage);
+
+    await this.sseService.sendTradeConfirmation(confirmation.alphaConsumerId, {
+      ...confirmation,
+      status: 'FAILED',
+      errorMessage,
+      legResults: result.legs
+    });
+
+    return {
+      confirmationId: request.confirmationId,
+      transactionHash: lastExecution?.transactionHash || '',
+      gasUsed: result.totalGasUsed,
+      status: 'failed',
+      errorMessage,
+      legs: result.legs,
+      priceDrift
+    };
+  }
+
+  /**
+   * Event topics of a broadcast's strategy and generator
+   */
+  private strategyTopics(broadcast: any): string[] {
+    return [strategyTopic(broadcast.strategy_id), generatorTopic(broadcast.alpha_generator_address)];
+  }
+
+  /**
+   * Compare current prices with the broadcast's snapshot by the consumer's drift rule and record
+   * the result on the confirmation; throws PriceDriftError when the rule blocks execution,
+   * including when a blocking rule meets price-dependent `calls` with no snapshot to compare
+   */
+  private async guardPriceDrift(
+    confirmation: TradeConfirmation,
+    broadcast: any,
+    calls: PricedCall[]
+  ): Promise<PriceDriftCheck> {
+    const priceDrift = await getPriceDriftService(this.pool).checkDrift(
+      confirmation.alphaConsumerId,
+      broadcast.market_snapshot,
+      calls
+    );
+
+    await this.broadcastService.recordPriceDrift(confirmation.id, priceDrift);
+
+    if (priceDrift.outcome === 'blocked') {
+      throw new PriceDriftError(priceDrift);
+    }
+
+    return priceDrift;
+  }
+
+  /**
+   * Speed up or cancel the pending transaction of an executing trade
+   */
+  async replaceTradeTransaction(request: ReplaceTradeTransactionRequest): Promise<ReplacementResult> {
+    const confirmation = await this.broadcastService.getTradeConfirmation(request.confirmationId);
+
+    if (!confirmation) {
+      throw new Error('Trade confirmation not found');
+    }
+
+    if (confirmation.status !== 'EXECUTING' || !confirmation.transactionHash) {
+      throw new Error(`Cannot replace transaction for trade with status: ${confirmation.status}`);
+    }
+
+    if (request.privateKey) {
+      this.executorService.updateConfig({
+        privateKey: request.privateKey
+      });
+    }
+
+    // The replacement must go to the chain the original was sent on
+    const broadcastResult = await this.pool.query(
+      'SELECT network FROM trade_broadcasts WHERE id = $1',
+      [confirmation.tradeBroadcastId]
+    );
+
+    if (broadcastResult.rows.length === 0) {
+      throw new Error('Trade broadcast not found');
+    }
+
+    // Replace the latest transaction at this nonce, which may itself be a replacement
+    const result = await this.executorService.replaceTransaction(
+      confirmation.replacementTransactionHash || confirmation.transactionHash,
+      request.mode,
+      request.feeSpeed,
+      broadcastResult.rows[0].network
+    );
+    request.onCommitted?.();
+
+    await this.broadcastService.recordTradeReplacement(request.confirmationId, {
+      transactionHash: result.replacementHash,
+      type: request.mode === 'cancel' ? 'CANCEL' : 'SPEED_UP',
+      maxFeePerGas: result.maxFeePerGas,
+      maxPriorityFeePerGas: result.maxPriorityFeePerGas
+    });
+
+    await this.sseService.sendTradeConfirmation(confirmation.alphaConsumerId, {
+      ...confirmation,
+      replacementTransactionHash: result.replacementHash,
+      replacementType: request.mode === 'cancel' ? 'CANCEL' : 'SPEED_UP'
+    });
+
+    return result;
+  }
+
   /**
    * Batch execute multiple trades
    */
@@ -214,9 +510,16 @@ export class TradeExecutionService {
   /**
    * Simulate trade execution (dry run)
    */
-  async simulateTrade(confirmationId: string, consumerAddress: string): Promise<{
+  async simulateTrade(
+    confirmationId: string,
+    consumerAddress: string,
+    feeSpeed?: FeeSpeed
+  ): Promise<{
     gasEstimate: string;
     estimatedCost: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+    feeSpeed: FeeSpeed;
     parameters: any;
   }> {
     // Get trade confirmation details
@@ -244,6 +547,10 @@ export class TradeExecutionService {
 
     const broadcast = broadcastResult.rows[0];
 
+    if (broadcast.legs) {
+      throw new Error('Cannot simulate a bundle trade: later legs depend on state left by earlier ones');
+    }
+
     // Prepare execution request for gas estimation
     const executionRequest: ExecutionRequest = {
       functionName: broadcast.function_name,
@@ -251,7 +558,8 @@ export class TradeExecutionService {
       parameters: confirmation.modifiedParameters,
       contractAddress: broadcast.contract_address,
       network: broadcast.network,
-      userAddress: consumerAddress
+      userAddress: consumerAddress,
+      feeSpeed
     };
 
     // Estimate gas
@@ -260,6 +568,9 @@ export class TradeExecutionService {
     return {
       gasEstimate: gasEstimation.gasLimit,
       estimatedCost: gasEstimation.totalCost,
+      maxFeePerGas: gasEstimation.maxFeePerGas,
+      maxPriorityFeePerGas: gasEstimation.maxPriorityFeePerGas,
+      feeSpeed: gasEstimation.speed,
       parameters: confirmation.modifiedParameters
     };
   }
@@ -200,12 +200,14 @@ export class TradeLifecycleService extends EventEmitter {
     // Normalize address for consistent querying
     const normalizedGeneratorAddress = generatorAddress.toLowerCase();
 
+    // These trades belong to no strategy, so only generator-wide subscriptions receive them
     const subscriptions = await db
       .select()
       .from(subscriptionsTable)
       .where(
         and(
           eq(subscriptionsTable.alphaGeneratorAddress, normalizedGeneratorAddress),
+          isNull(subscriptionsTable.strategyId),
           eq(subscriptionsTable.isActive, true)
         )
       );
@@ -0,0 +1,209 @@
+/**
+ * WebSocket Server
+ * Feature: 003-protocol-strategy-integration
+ * Purpose: Process-wide WebSocket server for trading bots. Next.js routes cannot upgrade
+ * connections, so it listens on its own port (WEBSOCKET_PORT) and takes events from the event bus.
+ */
+
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { Pool } from 'pg';
+import { WebSocket, WebSocketServer } from 'ws';
+import { replayEvents, subscribeToEvents } from '../lib/event-bus';
+import {
+  ACK_TIMEOUT_MS,
+  DEFAULT_WEBSOCKET_PORT,
+  getTopicAccessService,
+  HEARTBEAT_INTERVAL_MS,
+  MAX_MESSAGE_BYTES,
+  WEBSOCKET_PATH,
+  WebSocketIdentity,
+  WebSocketSession
+} from '../lib/websocket';
+import { ConfirmationService, getConfirmationService } from './confirmation-service';
+
+interface Connection {
+  socket: WebSocket;
+  session: WebSocketSession;
+  alive: boolean;
+}
+
+const connections: Set<Connection> = new Set();
+
+let server: Server | null = null;
+let sockets: WebSocketServer | null = null;
+let pool: Pool | null = null;
+let unsubscribe: (() => void) | null = null;
+let timers: NodeJS.Timeout[] = [];
+
+/**
+ * Start accepting WebSocket connections on `port`. Idempotent.
+ */
+export function startWebSocketServer(port: number = Number(process.env.WEBSOCKET_PORT) || DEFAULT_WEBSOCKET_PORT): void {
+  if (server) {
+    return;
+  }
+
+  const db = new Pool({ connectionString: process.env.DATABASE_URL });
+  const confirmationService = getConfirmationService(db); // One per server; shared by every connection
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const httpServer = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end(`Connect with a WebSocket client to ${WEBSOCKET_PATH}`);
+  });
+
+  httpServer.on('upgrade', (request, socket, head) => {
+    upgrade(db, confirmationService, wss, request, socket, head).catch(error => {
+      console.error('WebSocket upgrade failed:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    });
+  });
+  httpServer.on('error', error => console.error('WebSocket server error:', error));
+  httpServer.listen(port, () => console.log(`🔌 WebSocket API listening on port ${port}${WEBSOCKET_PATH}`));
+
+  server = httpServer;
+  sockets = wss;
+  pool = db;
+
+  unsubscribe = subscribeToEvents(event => {
+    connections.forEach(connection => connection.session.deliver(event));
+  });
+
+  timers = [
+    setInterval(() => {
+      connections.forEach(connection => connection.session.redeliverUnacked());
+    }, ACK_TIMEOUT_MS / 4),
+    setInterval(() => {
+      // Drop connections that did not answer the last ping
+      connections.forEach(connection => {
+        if (!connection.alive) {
+          connection.socket.terminate();
+          return;
+        }
+        connection.alive = false;
+        connection.socket.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS)
+  ];
+  timers.forEach(timer => timer.unref());
+}
+
+/**
+ * Close every connection and stop listening
+ */
+export async function stopWebSocketServer(): Promise<void> {
+  const httpServer = server;
+  const db = pool;
+
+  server = null;
+  pool = null;
+  unsubscribe?.();
+  unsubscribe = null;
+  timers.forEach(timer => clearInterval(timer));
+  timers = [];
+
+  connections.forEach(connection => connection.socket.close(1001, 'Server shutting down'));
+  connections.clear();
+  sockets?.close();
+  sockets = null;
+
+  if (httpServer) {
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+  }
+  await db?.end();
+}
+
+/**
+ * Authenticate an upgrade request by the same identity headers as the REST API, then accept it
+ */
+async function upgrade(
+  db: Pool,
+  confirmationService: ConfirmationService,
+  wss: WebSocketServer,
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): Promise<void> {
+  const { pathname } = new URL(request.url || '/', 'http://localhost');
+  if (pathname !== WEBSOCKET_PATH) {
+    rejectUpgrade(socket, 404, 'Not Found');
+    return;
+  }
+
+  const consumer = header(request, 'x-alpha-consumer-id');
+  const generatorAddress = header(request, 'x-alpha-generator-address');
+  if (!consumer && !generatorAddress) {
+    rejectUpgrade(socket, 401, 'Unauthorized');
+    return;
+  }
+
+  let identity: WebSocketIdentity;
+  try {
+    identity = await getTopicAccessService(db).resolveIdentity(consumer, generatorAddress);
+  } catch (error: any) {
+    if (error.message?.includes('not found')) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+    throw error;
+  }
+
+  wss.handleUpgrade(request, socket, head, ws => accept(db, confirmationService, ws, identity));
+}
+
+function accept(
+  db: Pool,
+  confirmationService: ConfirmationService,
+  socket: WebSocket,
+  identity: WebSocketIdentity
+): void {
+  const connectionId = randomUUID();
+
+  const session = new WebSocketSession({
+    connectionId,
+    identity,
+    send: message => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+    access: getTopicAccessService(db),
+    replay: (recipient, lastEventId, topics) => replayEvents(db, recipient, lastEventId, topics),
+    decide: decision => confirmationService.updateConfirmation(decision)
+  });
+
+  const connection: Connection = { socket, session, alive: true };
+  connections.add(connection);
+
+  socket.on('pong', () => {
+    connection.alive = true;
+  });
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      socket.close(1003, 'Send messages as JSON text');
+      return;
+    }
+
+    session.handleMessage(data.toString()).catch(error => {
+      console.error(`WebSocket message failed on ${connectionId}:`, error);
+    });
+  });
+  socket.on('close', () => connections.delete(connection));
+  socket.on('error', error => console.error(`WebSocket error on ${connectionId}:`, error.message));
+
+  session.welcome();
+}
+
+function header(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  if (socket.writable) {
+    socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  }
+  socket.destroy();
+}
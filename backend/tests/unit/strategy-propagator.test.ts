@@ -6,6 +6,7 @@
 
 import { describe, expect, it, beforeEach, jest, afterEach } from '@jest/globals'
 import { StrategyPropagator } from '../../src/libraries/strategy-propagator'
+import { SubscriptionManager } from '../../src/libraries/subscription-manager'
 
 describe('StrategyPropagator', () => {
   let strategyPropagator: StrategyPropagator
@@ -51,6 +52,29 @@ describe('StrategyPropagator', () => {
       })
     })
 
+    it('should skip consumers subscribed only to another of the generator\'s strategies', async () => {
+      const generatorAddress = '0x1234567890abcdef1234567890abcdef12345678'
+      const consumerAddress = '0x8888888888888888888888888888888888888888'
+
+      await new SubscriptionManager().subscribe({
+        generatorAddress,
+        consumerAddress,
+        fee: '100000000000000000',
+        strategyId: 'strat_other'
+      })
+
+      const results = await strategyPropagator.broadcast({
+        strategy: {
+          strategyId: 'strat_123',
+          strategyName: 'BTC Long Setup',
+          tradingParameters: {},
+          alphaGeneratorAddress: generatorAddress
+        }
+      })
+
+      expect(results.map(result => result.consumerAddress)).not.toContain(consumerAddress)
+    })
+
     it('should broadcast to specific subscribers only', async () => {
       const strategy = {
         strategyId: 'strat_123',
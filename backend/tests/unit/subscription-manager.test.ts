@@ -62,6 +62,28 @@ describe('SubscriptionManager', () => {
       expect(subscription.metadata).toBeDefined()
       expect(subscription.metadata.feeAmount).toBe('100000000000000000')
     })
+
+    it('should scope a subscription to one strategy when strategyId is given', async () => {
+      const options = {
+        generatorAddress: '0x1234567890abcdef1234567890abcdef12345678',
+        consumerAddress: '0x9999999999999999999999999999999999999999',
+        fee: '100000000000000000',
+        strategyId: 'strat_123'
+      }
+
+      const subscription = await subscriptionManager.subscribe(options)
+
+      expect(subscription.strategyId).toBe('strat_123')
+      expect(subscription.subscriptionType).toBe('strategy')
+
+      // A generator-wide subscription is a different scope, so it is not a duplicate
+      const generatorWide = await subscriptionManager.subscribe({ ...options, strategyId: undefined })
+      expect(generatorWide.strategyId).toBeNull()
+      expect(generatorWide.subscriptionType).toBe('generator')
+
+      await expect(subscriptionManager.subscribe(options))
+        .rejects.toThrow('Active subscription already exists')
+    })
   })
 
   describe('checkExpiry', () => {
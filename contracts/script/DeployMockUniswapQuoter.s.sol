@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Script.sol";
+import "../src/MockUniswapQuoter.sol";
+
+contract DeployMockUniswapQuoter is Script {
+    function run() external returns (address) {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        MockUniswapQuoter mockQuoter = new MockUniswapQuoter();
+
+        console.log("MockUniswapQuoter deployed to:", address(mockQuoter));
+
+        vm.stopBroadcast();
+
+        return address(mockQuoter);
+    }
+}
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockUniswapQuoter
+ * @dev A mock of Uniswap V3's QuoterV2 for local testing without a mainnet fork
+ * Quotes at a fixed price per token pair, less the pool fee tier
+ */
+contract MockUniswapQuoter {
+    struct QuoteExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint256 amountIn;
+        uint24 fee;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    struct QuoteExactOutputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        uint256 amount;
+        uint24 fee;
+        uint160 sqrtPriceLimitX96;
+    }
+
+    uint256 private constant PRICE_SCALE = 1e18;
+    uint256 private constant FEE_SCALE = 1e6; // Fee tiers are in hundredths of a bip
+    uint256 private constant MOCK_GAS_ESTIMATE = 100000;
+
+    // tokenIn => tokenOut => units of tokenOut per unit of tokenIn, scaled by 1e18
+    mapping(address => mapping(address => uint256)) public prices;
+
+    event PriceSet(address indexed tokenIn, address indexed tokenOut, uint256 price);
+
+    /**
+     * @notice Sets the price used to quote swaps from tokenIn to tokenOut
+     * @param tokenIn The token being sold
+     * @param tokenOut The token being bought
+     * @param price Units of tokenOut per unit of tokenIn, scaled by 1e18
+     */
+    function setPrice(address tokenIn, address tokenOut, uint256 price) external {
+        require(tokenIn != address(0) && tokenOut != address(0), "Invalid token address");
+        require(price > 0, "Price must be greater than 0");
+
+        prices[tokenIn][tokenOut] = price;
+
+        emit PriceSet(tokenIn, tokenOut, price);
+    }
+
+    /**
+     * @notice Returns the amount out received for a given exact input swap
+     * @param params The token pair, amount in and fee tier
+     */
+    function quoteExactInputSingle(QuoteExactInputSingleParams memory params)
+        external
+        view
+        returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)
+    {
+        uint256 price = prices[params.tokenIn][params.tokenOut];
+        require(price > 0, "No price for pair");
+        require(params.fee < FEE_SCALE, "Invalid fee");
+
+        uint256 amountInAfterFee = params.amountIn * (FEE_SCALE - params.fee) / FEE_SCALE;
+        amountOut = amountInAfterFee * price / PRICE_SCALE;
+
+        return (amountOut, 0, 0, MOCK_GAS_ESTIMATE);
+    }
+
+    /**
+     * @notice Returns the amount in required to receive a given exact output
+     * @param params The token pair, amount out and fee tier
+     */
+    function quoteExactOutputSingle(QuoteExactOutputSingleParams memory params)
+        external
+        view
+        returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)
+    {
+        uint256 price = prices[params.tokenIn][params.tokenOut];
+        require(price > 0, "No price for pair");
+        require(params.fee < FEE_SCALE, "Invalid fee");
+
+        // Round up at each step so the quoted input always covers the output
+        uint256 amountInBeforeFee = (params.amount * PRICE_SCALE + price - 1) / price;
+        amountIn = (amountInBeforeFee * FEE_SCALE + (FEE_SCALE - params.fee) - 1) / (FEE_SCALE - params.fee);
+
+        return (amountIn, 0, 0, MOCK_GAS_ESTIMATE);
+    }
+}
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import axios from 'axios';
 import { ethers } from 'ethers';
-import { useAccount, useWalletClient } from 'wagmi';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
 
 const Container = styled.div`
   max-width: 1200px;
@@ -201,6 +201,14 @@ const StatusBadge = styled.span<{ status: string }>`
   `}
 `;
 
+interface ApprovalStep {
+  token: string;
+  spender: string;
+  approveAmount: string;
+  status: 'not_required' | 'required' | 'approved' | 'failed';
+  transaction?: { to: string; data: string; value: string };
+}
+
 interface PendingTrade {
   confirmationId: string;
   broadcastId: string;
@@ -220,6 +228,7 @@ interface PendingTrade {
 export const PendingTradesExecutor: React.FC = () => {
   const { address, isConnected } = useAccount();
   const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient();
   const [pendingTrades, setPendingTrades] = useState<PendingTrade[]>([]);
   const [loading, setLoading] = useState(true);
   const [executing, setExecuting] = useState<string | null>(null);
@@ -278,6 +287,30 @@ export const PendingTradesExecutor: React.FC = () => {
         ...(trade.protocol === 'AAVE' && trade.originalParameters.onBehalfOf ? { onBehalfOf: address } : {})
       };
 
+      // Approve the protocol contract to pull the token first if the allowance is short
+      const API_URL = process.env.NEXT_PUBLIC_ALPHAENGINE_API_URL || 'http://localhost:3001';
+      const simulation = await axios.post(`${API_URL}/api/v1/trade-confirmations/${trade.confirmationId}/simulate`, {
+        consumerAddress: address,
+        modifiedParameters: finalParams
+      }, {
+        headers: {
+          'X-Alpha-Consumer-Id': address!,
+        }
+      });
+
+      const approval: ApprovalStep | null = simulation.data.data?.approval;
+      if (approval?.status === 'required' && approval.transaction) {
+        const approvalTx = await walletClient.sendTransaction({
+          to: approval.transaction.to as `0x${string}`,
+          data: approval.transaction.data as `0x${string}`,
+        });
+        const approvalReceipt = await publicClient!.waitForTransactionReceipt({ hash: approvalTx });
+
+        if (approvalReceipt.status !== 'success') {
+          throw new Error(`Token approval failed for ${approval.token}`);
+        }
+      }
+
       // Create the contract interface
       const iface = new ethers.Interface([trade.functionABI]);
 
@@ -295,7 +328,6 @@ export const PendingTradesExecutor: React.FC = () => {
       });
 
       // Update the confirmation status in the backend
-      const API_URL = process.env.NEXT_PUBLIC_ALPHAENGINE_API_URL || 'http://localhost:3001';
       await axios.post(`${API_URL}/api/v1/trades/confirm`, {
         confirmationId: trade.confirmationId,
         transactionHash: tx,
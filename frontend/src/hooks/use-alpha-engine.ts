@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAccount, useWriteContract, useWaitForTransactionReceipt, useChainId } from 'wagmi';
 import { parseEther, Address } from 'viem';
 import { alphaEngineClient, type AlphaGenerator } from '@/utils/alphaengine-client';
@@ -389,30 +389,59 @@ export function useAlphaEngine(): UseAlphaEngineReturn {
   };
 }
 
+// Named events the trade stream sends to consumers
+const TRADE_STREAM_EVENTS = [
+  'trade-broadcast',
+  'trade-confirmation',
+  'trade-expired',
+  'trade-cancelled',
+  'trade-amended',
+  'auto-trade',
+  'pending-trades',
+] as const;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_SEEN_EVENT_IDS = 500;
+
 /**
- * Hook to manage real-time notifications
+ * Hook to manage real-time notifications. Reconnects with exponential backoff, resuming after the
+ * last event received; events the server replays more than once are dropped by id.
  */
 export function useTradeNotifications(consumerAddress?: string) {
   const [notifications, setNotifications] = useState<NotificationEvent[]>([]);
   const [isConnected, setIsConnected] = useState(false);
+  const lastEventIdRef = useRef<string | undefined>(undefined);
+  const seenEventIdsRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     if (!consumerAddress) return;
 
-    const eventSource = alphaEngineClient.createNotificationStream(consumerAddress);
-
-    eventSource.onopen = () => {
-      setIsConnected(true);
-      console.log('SSE connection established');
-    };
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let closed = false;
+
+    const handleEvent = (type: string) => (event: MessageEvent) => {
+      // Numbered events can arrive twice around a reconnect. pending-trades is not numbered, so
+      // its lastEventId is just that of the event before it.
+      if (type !== 'pending-trades' && event.lastEventId) {
+        const seen = seenEventIdsRef.current;
+        if (seen.has(event.lastEventId)) return;
+
+        seen.add(event.lastEventId);
+        if (seen.size > MAX_SEEN_EVENT_IDS) {
+          seen.delete(seen.values().next().value as string);
+        }
+        lastEventIdRef.current = event.lastEventId;
+      }
 
-    eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
-        setNotifications(prev => [data, ...prev].slice(0, 50)); // Keep last 50
+        setNotifications(prev => [{ ...data, type }, ...prev].slice(0, 50)); // Keep last 50
 
         // Show toast for new trades
-        if (data.type === 'NEW_TRADE') {
+        if (type === 'trade-broadcast') {
           toast.success('New trade alert from your generator!');
         }
       } catch (error) {
@@ -420,13 +449,38 @@ export function useTradeNotifications(consumerAddress?: string) {
       }
     };
 
-    eventSource.onerror = () => {
-      setIsConnected(false);
-      console.error('SSE connection error');
+    const connect = () => {
+      eventSource = alphaEngineClient.createNotificationStream(consumerAddress, lastEventIdRef.current);
+
+      eventSource.onopen = () => {
+        attempt = 0;
+        setIsConnected(true);
+        console.log('SSE connection established');
+      };
+
+      for (const type of TRADE_STREAM_EVENTS) {
+        eventSource.addEventListener(type, handleEvent(type));
+      }
+
+      // Reconnect ourselves, so backoff applies and the resume point comes from the events handled
+      eventSource.onerror = () => {
+        setIsConnected(false);
+        eventSource?.close();
+        if (closed) return;
+
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+        attempt++;
+        console.error(`SSE connection error, reconnecting in ${delay}ms`);
+        reconnectTimer = setTimeout(connect, delay);
+      };
     };
 
+    connect();
+
     return () => {
-      eventSource.close();
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      eventSource?.close();
     };
   }, [consumerAddress]);
 
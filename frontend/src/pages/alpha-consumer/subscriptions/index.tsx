@@ -226,11 +226,15 @@ interface SubscriberData extends Subscription {
   subscriberAddress: string;
   subscriptionFee?: string;
   expiryDate?: string;
+  strategyName?: string;
 }
 
 interface SubscriptionResponseData {
   alphaGeneratorAddress: string;
   alphaConsumerAddress: string;
+  subscriptionType?: string;
+  strategyId?: string | null;
+  strategyName?: string;
   subscriptionFee?: string;
   expiresAt?: string;
   expiryDate?: string;
@@ -254,6 +258,20 @@ const toEthNumber = (wei?: string | null): number => {
 
 const formatFeeLabel = (feeEth: number): string => `${feeEth.toFixed(4)} ETH`;
 
+const shortAddress = (address?: string): string =>
+  address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '';
+
+// Strategy-scoped subscriptions receive one strategy's trades; generator-wide ones receive them all
+const describeScope = (subscription: SubscriberData, isAlphaGenerator: boolean): string => {
+  if (subscription.subscriptionType === 'strategy' && subscription.strategyId) {
+    return `Strategy: ${subscription.strategyName || subscription.strategyId}`;
+  }
+
+  return isAlphaGenerator
+    ? 'All strategies'
+    : `All strategies from ${shortAddress(subscription.alphaGeneratorAddress)}`;
+};
+
 const AlphaConsumerSubscriptionsPage: React.FC = () => {
   const router = useRouter();
   const { address } = useAccount();
@@ -299,7 +317,6 @@ const AlphaConsumerSubscriptionsPage: React.FC = () => {
           const transformed = subscriptionsArray.map((sub: SubscriptionResponseData) => ({
             ...sub,
             subscriberAddress: sub.alphaConsumerAddress,
-            strategyName: 'Strategy Subscription',
             subscriptionFee: sub.subscriptionFee || '100000000000000000', // Default 0.1 ETH in wei
             expiryDate: sub.expiresAt || sub.expiryDate
           }));
@@ -384,11 +401,9 @@ const AlphaConsumerSubscriptionsPage: React.FC = () => {
               <SubscriberAddress>
                 {subscriber.subscriberAddress.slice(0, 6)}...{subscriber.subscriberAddress.slice(-4)}
               </SubscriberAddress>
-              {isAlphaGenerator && (
-                <StrategyInfo>
-                  Subscriber
-                </StrategyInfo>
-              )}
+              <StrategyInfo>
+                {describeScope(subscriber, isAlphaGenerator)}
+              </StrategyInfo>
               <SubscriptionMeta>
                 <MetaItem>
                   Subscribed: {new Date(subscriber.subscribedAt).toLocaleDateString()}
@@ -193,12 +193,13 @@ class AlphaEngineClient {
   }
 
   /**
-   * Create an EventSource for SSE notifications
+   * Create an EventSource for SSE notifications, resuming after `lastEventId` when given
    */
-  createNotificationStream(consumerAddress: string): EventSource {
+  createNotificationStream(consumerAddress: string, lastEventId?: string): EventSource {
     const baseURL = process.env.NEXT_PUBLIC_ALPHAENGINE_API_URL || 'http://localhost:3001';
+    const resume = lastEventId ? `&lastEventId=${encodeURIComponent(lastEventId)}` : '';
     return new EventSource(
-      `${baseURL}/api/v1/trades/stream?address=${consumerAddress}`
+      `${baseURL}/api/v1/sse/trades?consumerId=${consumerAddress}${resume}`
     );
   }
 }